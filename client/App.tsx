@@ -1,17 +1,26 @@
-import React from "react";
+import React, { ReactNode, useEffect, useMemo, useState } from "react";
 import { StyleSheet } from "react-native";
 import { DarkTheme as NavDarkTheme, NavigationContainer } from "@react-navigation/native";
 import { GestureHandlerRootView } from "react-native-gesture-handler";
 import { KeyboardProvider } from "react-native-keyboard-controller";
 import { SafeAreaProvider } from "react-native-safe-area-context";
 import { StatusBar } from "expo-status-bar";
+import { ShareIntentProvider, useShareIntentContext } from "expo-share-intent";
 
 import RootStackNavigator from "@/navigation/RootStackNavigator";
 import { ErrorBoundary } from "@/components/ErrorBoundary";
-import { AuthProvider } from "@/contexts/AuthContext";
+import { AuthProvider, useAuth } from "@/contexts/AuthContext";
 import { ToastProvider } from "@/contexts/ToastContext";
-import { ActiveStorySessionProvider } from "@/contexts/ActiveStorySessionContext";
+import { StoryDraftsProvider } from "@/contexts/StoryDraftsContext";
+import { ClipCollectionsProvider } from "@/contexts/ClipCollectionsContext";
+import { CaptionPresetsProvider } from "@/contexts/CaptionPresetsContext";
+import { EditHistoryProvider } from "@/contexts/EditHistoryContext";
 import { Colors } from "@/constants/theme";
+import {
+  createAppLinking,
+  createDeepLinkGate,
+  getShareIntentCreateUrl,
+} from "@/navigation/linking";
 
 const vaiformNavDarkColors = {
   primary: Colors.dark.link,
@@ -30,26 +39,62 @@ const VaiformNavDarkTheme = {
   },
 };
 
+function AppNavigationContainer({ children }: { children: ReactNode }) {
+  const { user, isLoading } = useAuth();
+  const [linkGate] = useState(createDeepLinkGate);
+  const linking = useMemo(() => createAppLinking(linkGate), [linkGate]);
+  const isSignedIn = Boolean(user) && !isLoading;
+
+  // Links that arrived before sign-in are replayed once the Main stack mounts.
+  useEffect(() => {
+    linkGate.setReady(isSignedIn);
+  }, [isSignedIn, linkGate]);
+
+  // Text or a URL shared from another app opens Home like a `create` link.
+  const { hasShareIntent, shareIntent, resetShareIntent } =
+    useShareIntentContext();
+  useEffect(() => {
+    if (!hasShareIntent) return;
+    const url = getShareIntentCreateUrl(shareIntent);
+    if (url) linkGate.open(url);
+    resetShareIntent();
+  }, [hasShareIntent, linkGate, resetShareIntent, shareIntent]);
+
+  return (
+    <NavigationContainer theme={VaiformNavDarkTheme} linking={linking}>
+      {children}
+    </NavigationContainer>
+  );
+}
+
 export default function App() {
   return (
-    <ErrorBoundary>
-      <AuthProvider>
-        <SafeAreaProvider>
-          <GestureHandlerRootView style={styles.root}>
-            <KeyboardProvider>
-              <NavigationContainer theme={VaiformNavDarkTheme}>
-                <ToastProvider>
-                  <ActiveStorySessionProvider>
-                    <RootStackNavigator />
-                  </ActiveStorySessionProvider>
-                </ToastProvider>
-              </NavigationContainer>
-              <StatusBar style="light" />
-            </KeyboardProvider>
-          </GestureHandlerRootView>
-        </SafeAreaProvider>
-      </AuthProvider>
-    </ErrorBoundary>
+    <ShareIntentProvider>
+      <ErrorBoundary>
+        <AuthProvider>
+          <SafeAreaProvider>
+            <GestureHandlerRootView style={styles.root}>
+              <KeyboardProvider>
+                <AppNavigationContainer>
+                  <ToastProvider>
+                    <StoryDraftsProvider>
+                      <ClipCollectionsProvider>
+                        <CaptionPresetsProvider>
+                          <EditHistoryProvider>
+                            <RootStackNavigator />
+                          </EditHistoryProvider>
+                        </CaptionPresetsProvider>
+                      </ClipCollectionsProvider>
+                    </StoryDraftsProvider>
+                  </ToastProvider>
+                </AppNavigationContainer>
+                <StatusBar style="light" />
+              </KeyboardProvider>
+            </GestureHandlerRootView>
+          </SafeAreaProvider>
+        </AuthProvider>
+      </ErrorBoundary>
+    </ShareIntentProvider>
   );
 }
 
@@ -1,16 +1,27 @@
 import { describe, expect, test, beforeEach, jest } from "@jest/globals";
 
 import { auth } from "@/lib/firebase";
+import { getRecentDiagnostics } from "@/lib/diagnostics";
 import {
   apiRequestNormalized,
   buildCaptionPreviewPayload,
   clearTokenCache,
   normalizeResponse,
+  onSessionExpired,
+  storyGet,
   storyFinalize,
+  storyGenerate,
+  storySync,
   storyUpdateScript,
   storyUpdateBeatText,
 } from "@/api/client";
 
+function makeIdToken(expSec: number, label = "token"): string {
+  const encode = (value: unknown) =>
+    Buffer.from(JSON.stringify(value)).toString("base64url");
+  return `${encode({ alg: "RS256" })}.${encode({ exp: expSec, label })}.sig`;
+}
+
 function mockJsonResponse(
   body: unknown,
   init?: { status?: number; headers?: Record<string, string> },
@@ -108,6 +119,31 @@ describe("client/api/client", () => {
     });
   });
 
+  test("buildCaptionPreviewPayload sends xPct only for custom placement", () => {
+    expect(
+      buildCaptionPreviewPayload({
+        text: "Hello",
+        placement: "custom",
+        xPct: 0.3,
+        yPct: 0.62,
+        style: { wPct: 60 },
+      }),
+    ).toMatchObject({
+      placement: "custom",
+      xPct: 0.3,
+      yPct: 0.62,
+      style: { wPct: 60 },
+    });
+    expect(
+      buildCaptionPreviewPayload({
+        text: "Hello",
+        placement: "top",
+        xPct: 0.3,
+        yPct: 0.1,
+      }),
+    ).not.toHaveProperty("xPct");
+  });
+
   test("apiRequestNormalized adds auth and x-client headers and normalizes requestId from the response", async () => {
     auth.currentUser = {
       getIdToken: jest.fn(async () => "firebase-id-token"),
@@ -164,6 +200,68 @@ describe("client/api/client", () => {
     });
   });
 
+  test("apiRequestNormalized maps a malformed JSON body to INVALID_RESPONSE", async () => {
+    (global.fetch as jest.Mock).mockResolvedValue({
+      status: 200,
+      headers: new Headers({
+        "content-type": "application/json",
+        "x-request-id": "req-bad-json",
+      }),
+      json: jest.fn(async () => JSON.parse("{not json")),
+    });
+
+    const result = await apiRequestNormalized("/api/story/start", {
+      method: "POST",
+    });
+
+    expect(result).toEqual({
+      ok: false,
+      status: 200,
+      code: "INVALID_RESPONSE",
+      message: "Invalid response format",
+      requestId: "req-bad-json",
+    });
+  });
+
+  test("apiRequestNormalized returns NETWORK_ERROR when the body stream fails", async () => {
+    (global.fetch as jest.Mock).mockResolvedValue({
+      status: 200,
+      headers: new Headers({ "content-type": "application/json" }),
+      json: jest.fn(async () => {
+        throw new TypeError("Network request failed");
+      }),
+    });
+
+    const result = await apiRequestNormalized("/api/story/start", {
+      method: "POST",
+    });
+
+    expect(result).toMatchObject({
+      ok: false,
+      status: 0,
+      code: "NETWORK_ERROR",
+      message: "Network request failed",
+    });
+  });
+
+  test("removes its abort listener from the caller's signal", async () => {
+    (global.fetch as jest.Mock).mockResolvedValue(
+      mockJsonResponse({ success: true, data: {} }),
+    );
+    const controller = new AbortController();
+    const addSpy = jest.spyOn(controller.signal, "addEventListener");
+    const removeSpy = jest.spyOn(controller.signal, "removeEventListener");
+
+    await apiRequestNormalized("/api/usage", {
+      method: "GET",
+      signal: controller.signal,
+      timeoutMs: 5_000,
+    });
+
+    expect(addSpy).toHaveBeenCalledTimes(1);
+    expect(removeSpy).toHaveBeenCalledWith("abort", addSpy.mock.calls[0][1]);
+  });
+
   test("storyFinalize extracts finalize metadata, shortId, retryAfter, and idempotency header", async () => {
     auth.currentUser = {
       getIdToken: jest.fn(async () => "firebase-id-token"),
@@ -359,4 +457,308 @@ describe("client/api/client", () => {
       }),
     );
   });
+
+  test("retries 503 responses after the Retry-After header and records the retry", async () => {
+    (global.fetch as jest.Mock)
+      .mockResolvedValueOnce(
+        mockJsonResponse(
+          { success: false, error: "SERVER_BUSY", message: "Busy" },
+          { status: 503, headers: { "Retry-After": "0" } },
+        ),
+      )
+      .mockResolvedValueOnce(
+        mockJsonResponse(
+          { success: true, data: { id: "session-1" } },
+          { status: 200, headers: { "x-request-id": "request-retry" } },
+        ),
+      );
+
+    const result = await storyUpdateScript({
+      sessionId: "session-1",
+      sentences: ["Beat one"],
+    });
+
+    expect(result).toEqual({
+      ok: true,
+      data: { id: "session-1" },
+      requestId: "request-retry",
+    });
+    expect(global.fetch).toHaveBeenCalledTimes(2);
+    expect(getRecentDiagnostics()).toEqual([
+      expect.objectContaining({
+        source: "client",
+        route: "/api/story/update-script",
+        status: 503,
+        code: "REQUEST_RETRY_SCHEDULED",
+        context: expect.objectContaining({
+          attempt: 1,
+          delayMs: 0,
+          failureCode: "SERVER_BUSY",
+        }),
+      }),
+    ]);
+  });
+
+  test("does not retry 503s on non-idempotent mutations", async () => {
+    (global.fetch as jest.Mock).mockResolvedValue(
+      mockJsonResponse(
+        { success: false, error: "SERVER_BUSY", message: "Busy" },
+        { status: 503, headers: { "Retry-After": "0" } },
+      ),
+    );
+
+    const result = await storyGenerate({ sessionId: "session-1" });
+
+    expect(result).toMatchObject({ ok: false, status: 503 });
+    expect(global.fetch).toHaveBeenCalledTimes(1);
+  });
+
+  test("hands long Retry-After waits back to the caller without retrying", async () => {
+    (global.fetch as jest.Mock).mockResolvedValue(
+      mockJsonResponse(
+        { success: false, error: "SERVER_BUSY", message: "Busy" },
+        { status: 503, headers: { "Retry-After": "30" } },
+      ),
+    );
+
+    const result = await storyFinalize(
+      { sessionId: "session-1" },
+      { idempotencyKey: "idem-busy" },
+    );
+
+    expect(result).toMatchObject({
+      ok: false,
+      status: 503,
+      code: "SERVER_BUSY",
+      retryAfter: 30,
+    });
+    expect(global.fetch).toHaveBeenCalledTimes(1);
+  });
+
+  test("replays idempotent mutations after a network drop", async () => {
+    (global.fetch as jest.Mock)
+      .mockRejectedValueOnce(new Error("Network request failed"))
+      .mockResolvedValueOnce(
+        mockJsonResponse({
+          success: true,
+          data: { id: "session-1", story: { sentences: ["Beat one"] } },
+        }),
+      );
+
+    const result = await storyUpdateScript({
+      sessionId: "session-1",
+      sentences: ["Beat one"],
+    });
+
+    expect(result.ok).toBe(true);
+    expect(global.fetch).toHaveBeenCalledTimes(2);
+  });
+
+  test("retries sync network drops with the same idempotency key", async () => {
+    (global.fetch as jest.Mock)
+      .mockRejectedValueOnce(new Error("Network request failed"))
+      .mockResolvedValueOnce(
+        mockJsonResponse(
+          {
+            success: true,
+            data: { id: "session-1" },
+            sync: { state: "pending", attemptId: "idem-sync" },
+          },
+          { status: 202 },
+        ),
+      );
+
+    const result = await storySync(
+      { sessionId: "session-1", mode: "full" },
+      { idempotencyKey: "idem-sync" },
+    );
+
+    expect(result).toMatchObject({
+      ok: true,
+      status: 202,
+      sync: { state: "pending", attemptId: "idem-sync" },
+    });
+    const calls = (global.fetch as jest.Mock).mock.calls as [
+      string,
+      { headers: Record<string, string> },
+    ][];
+    expect(calls).toHaveLength(2);
+    expect(calls[1][1].headers["X-Idempotency-Key"]).toBe("idem-sync");
+  });
+
+  test("does not replay non-idempotent mutations after a network drop", async () => {
+    (global.fetch as jest.Mock).mockRejectedValue(
+      new Error("Network request failed"),
+    );
+
+    const result = await storyGenerate({ sessionId: "session-1" });
+
+    expect(result).toMatchObject({ ok: false, code: "NETWORK_ERROR" });
+    expect(global.fetch).toHaveBeenCalledTimes(1);
+  });
+
+  test("does not retry daily script limits", async () => {
+    (global.fetch as jest.Mock).mockResolvedValue(
+      mockJsonResponse(
+        { success: false, error: "SCRIPT_LIMIT_REACHED", message: "Limit" },
+        { status: 429 },
+      ),
+    );
+
+    const result = await storyGenerate({ sessionId: "session-1" });
+
+    expect(result).toMatchObject({
+      ok: false,
+      status: 429,
+      code: "SCRIPT_LIMIT_REACHED",
+    });
+    expect(global.fetch).toHaveBeenCalledTimes(1);
+  });
+
+  test("rejects story sessions that fail schema decoding as INVALID_RESPONSE", async () => {
+    (global.fetch as jest.Mock).mockResolvedValue(
+      mockJsonResponse(
+        {
+          success: true,
+          data: {
+            id: "session-1",
+            previewReadinessV1: { version: 2, ready: true },
+          },
+          requestId: "req-decode",
+        },
+        { status: 200 },
+      ),
+    );
+
+    const result = await storyGet("session-1");
+
+    expect(result).toEqual({
+      ok: false,
+      status: 200,
+      code: "INVALID_RESPONSE",
+      message: "Invalid response format",
+      requestId: "req-decode",
+    });
+    expect(getRecentDiagnostics().at(-1)).toMatchObject({
+      source: "api",
+      route: "/api/story/session-1",
+      code: "INVALID_RESPONSE",
+      requestId: "req-decode",
+      context: { path: "data.previewReadinessV1.version" },
+    });
+  });
+
+  test("keeps unknown backend fields on decoded sessions", async () => {
+    (global.fetch as jest.Mock).mockResolvedValue(
+      mockJsonResponse(
+        {
+          success: true,
+          data: { id: "session-1", futureField: { nested: true } },
+        },
+        { status: 200 },
+      ),
+    );
+
+    const result = await storyGet("session-1");
+
+    expect(result).toMatchObject({
+      ok: true,
+      data: { id: "session-1", futureField: { nested: true } },
+    });
+  });
+
+  test("reuses the cached ID token until its exp claim and coalesces refreshes", async () => {
+    const token = makeIdToken(Math.floor(Date.now() / 1000) + 3600);
+    const getIdToken = jest.fn(async () => token);
+    auth.currentUser = { uid: "user-1", getIdToken } as any;
+    (global.fetch as jest.Mock).mockImplementation(async () =>
+      mockJsonResponse({ success: true, data: { ok: true } }),
+    );
+
+    await Promise.all([
+      apiRequestNormalized("/api/a"),
+      apiRequestNormalized("/api/b"),
+    ]);
+    await apiRequestNormalized("/api/c");
+
+    expect(getIdToken).toHaveBeenCalledTimes(1);
+    expect(getIdToken).toHaveBeenCalledWith(false);
+  });
+
+  test("refreshes the ID token once its exp claim is inside the refresh margin", async () => {
+    const getIdToken = jest
+      .fn(async () => makeIdToken(Math.floor(Date.now() / 1000) + 3600))
+      .mockResolvedValueOnce(makeIdToken(Math.floor(Date.now() / 1000) + 30));
+    auth.currentUser = { uid: "user-1", getIdToken } as any;
+    (global.fetch as jest.Mock).mockImplementation(async () =>
+      mockJsonResponse({ success: true, data: { ok: true } }),
+    );
+
+    await apiRequestNormalized("/api/a");
+    await apiRequestNormalized("/api/b");
+
+    expect(getIdToken).toHaveBeenCalledTimes(2);
+  });
+
+  test("replays a 401 once with a force-refreshed token", async () => {
+    const expSec = Math.floor(Date.now() / 1000) + 3600;
+    const staleToken = makeIdToken(expSec, "stale");
+    const freshToken = makeIdToken(expSec, "fresh");
+    const getIdToken = jest.fn(async (force?: boolean) =>
+      force ? freshToken : staleToken,
+    );
+    auth.currentUser = { uid: "user-1", getIdToken } as any;
+    const listener = jest.fn();
+    const unsubscribe = onSessionExpired(listener);
+    (global.fetch as jest.Mock)
+      .mockResolvedValueOnce(
+        mockJsonResponse(
+          { success: false, error: "AUTH_REQUIRED", message: "Expired" },
+          { status: 401 },
+        ),
+      )
+      .mockResolvedValueOnce(
+        mockJsonResponse({ success: true, data: { id: "session-1" } }),
+      );
+
+    const result = await storyGenerate({ sessionId: "session-1" });
+    unsubscribe();
+
+    expect(result).toMatchObject({ ok: true, data: { id: "session-1" } });
+    expect(getIdToken).toHaveBeenLastCalledWith(true);
+    const calls = (global.fetch as jest.Mock).mock.calls as [
+      string,
+      { headers: Record<string, string> },
+    ][];
+    expect(calls).toHaveLength(2);
+    expect(calls[0][1].headers.Authorization).toBe(`Bearer ${staleToken}`);
+    expect(calls[1][1].headers.Authorization).toBe(`Bearer ${freshToken}`);
+    expect(listener).not.toHaveBeenCalled();
+  });
+
+  test("reports session expiry when the replayed request is still unauthorized", async () => {
+    auth.currentUser = {
+      uid: "user-1",
+      getIdToken: jest.fn(async () => "firebase-id-token"),
+    } as any;
+    const listener = jest.fn();
+    const unsubscribe = onSessionExpired(listener);
+    (global.fetch as jest.Mock).mockImplementation(async () =>
+      mockJsonResponse(
+        { success: false, error: "AUTH_REQUIRED", message: "Expired" },
+        { status: 401 },
+      ),
+    );
+
+    const result = await storyGet("session-1");
+    unsubscribe();
+
+    expect(result).toMatchObject({
+      ok: false,
+      status: 401,
+      code: "AUTH_REQUIRED",
+    });
+    expect(global.fetch).toHaveBeenCalledTimes(2);
+    expect(listener).toHaveBeenCalledTimes(1);
+  });
 });
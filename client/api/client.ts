@@ -1,6 +1,29 @@
+import type { z } from "zod";
+
 import { auth } from "@/lib/firebase";
-import type { StorySession, StoryFinalizeResponse } from "@/types/story";
-import { recordApiFailure } from "@/lib/diagnostics";
+import type {
+  StoryClip,
+  StoryFinalizeResponse,
+  StorySession,
+  StoryShot,
+} from "@/types/story";
+import {
+  recordApiFailure,
+  recordClientDiagnostic,
+  type DiagnosticContext,
+} from "@/lib/diagnostics";
+import {
+  decodeWith,
+  shortDetailSchema,
+  shortsListSchema,
+  storyBeatListSchema,
+  storyCaptionStyleUpdateSchema,
+  storyInsertBeatSchema,
+  storySearchShotSchema,
+  storySessionSchema,
+  usageSnapshotSchema,
+  userProfileSchema,
+} from "@/api/schemas";
 
 // Normalize base URL to remove trailing slash (prevents double slashes in paths).
 const apiBaseUrlEnv = process.env.EXPO_PUBLIC_API_BASE_URL?.trim();
@@ -11,39 +34,140 @@ const API_BASE_URL = apiBaseUrlEnv.replace(/\/$/, "");
 
 const API_LOG = __DEV__ && process.env.EXPO_PUBLIC_API_LOG === "1";
 
+// Refresh slightly before `exp` so a request never leaves with a token that
+// expires in flight.
+const TOKEN_REFRESH_MARGIN_MS = 60_000;
+const FALLBACK_TOKEN_TTL_MS = 3_600_000;
+
 let cachedIdToken: string | null = null;
+let cachedTokenUid: string | null = null;
 let tokenExpirationTime: number = 0;
+let tokenGeneration = 0;
+let pendingTokenRefresh: {
+  promise: Promise<string | null>;
+  forced: boolean;
+} | null = null;
+
+/** Read the `exp` claim (epoch ms) from an ID token without verifying it. */
+export function getTokenExpiryMs(token: string): number | null {
+  const payload = token.split(".")[1];
+  if (!payload) return null;
+  try {
+    const base64 = payload.replace(/-/g, "+").replace(/_/g, "/");
+    const padded = base64.padEnd(Math.ceil(base64.length / 4) * 4, "=");
+    const claims = JSON.parse(atob(padded)) as { exp?: unknown };
+    return typeof claims.exp === "number" && Number.isFinite(claims.exp)
+      ? claims.exp * 1000
+      : null;
+  } catch {
+    return null;
+  }
+}
 
-async function getIdToken(): Promise<string | null> {
+/**
+ * Cached Firebase ID token. The cache follows the token's own `exp` claim and
+ * concurrent refreshes share one in-flight call; a forced refresh never joins a
+ * non-forced one, since that could hand back the token the server just rejected.
+ */
+async function getIdToken(forceRefresh = false): Promise<string | null> {
   const user = auth.currentUser;
   if (!user) {
-    cachedIdToken = null;
+    clearTokenCache();
     return null;
   }
 
-  const now = Date.now();
-  if (cachedIdToken && tokenExpirationTime > now + 60000) {
+  if (
+    !forceRefresh &&
+    cachedIdToken &&
+    cachedTokenUid === user.uid &&
+    tokenExpirationTime > Date.now() + TOKEN_REFRESH_MARGIN_MS
+  ) {
     return cachedIdToken;
   }
 
-  try {
-    cachedIdToken = await user.getIdToken(true);
-    tokenExpirationTime = now + 3600000;
-    return cachedIdToken;
-  } catch (error) {
-    console.error("Failed to get ID token:", error);
-    cachedIdToken = null;
-    return null;
+  if (pendingTokenRefresh && (pendingTokenRefresh.forced || !forceRefresh)) {
+    return pendingTokenRefresh.promise;
   }
+
+  const generation = tokenGeneration;
+  const refresh = {
+    forced: forceRefresh,
+    promise: user
+      .getIdToken(forceRefresh)
+      .then((token) => {
+        if (generation === tokenGeneration) {
+          cachedIdToken = token;
+          cachedTokenUid = user.uid;
+          tokenExpirationTime =
+            getTokenExpiryMs(token) ?? Date.now() + FALLBACK_TOKEN_TTL_MS;
+        }
+        return token as string | null;
+      })
+      .catch((error: unknown) => {
+        console.error("Failed to get ID token:", error);
+        if (generation === tokenGeneration) {
+          cachedIdToken = null;
+          tokenExpirationTime = 0;
+        }
+        return null;
+      })
+      .finally(() => {
+        if (pendingTokenRefresh === refresh) {
+          pendingTokenRefresh = null;
+        }
+      }),
+  };
+  pendingTokenRefresh = refresh;
+  return refresh.promise;
 }
 
 export function clearTokenCache(): void {
   cachedIdToken = null;
+  cachedTokenUid = null;
   tokenExpirationTime = 0;
+  tokenGeneration += 1;
+  pendingTokenRefresh = null;
+}
+
+type SessionExpiredListener = () => void;
+
+const sessionExpiredListeners = new Set<SessionExpiredListener>();
+
+/**
+ * Subscribe to "the backend still rejects our token after a forced refresh".
+ * AuthContext owns the sign-out; returns an unsubscribe function.
+ */
+export function onSessionExpired(listener: SessionExpiredListener): () => void {
+  sessionExpiredListeners.add(listener);
+  return () => {
+    sessionExpiredListeners.delete(listener);
+  };
+}
+
+function notifySessionExpired(): void {
+  clearTokenCache();
+  sessionExpiredListeners.forEach((listener) => listener());
+}
+
+/**
+ * End the session on the user's request, e.g. from the "Sign in" button on an
+ * AUTH_REQUIRED toast. Same path as an expired token: AuthContext signs out.
+ */
+export function expireSession(): void {
+  notifySessionExpired();
 }
 
 type HttpMethod = "GET" | "POST" | "PUT" | "PATCH" | "DELETE";
 
+/** Backoff settings for the request pipeline; `maxAttempts` includes the first request. */
+export interface RetryPolicy {
+  maxAttempts: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  /** Server-requested waits longer than this are returned to the caller instead of retried in place. */
+  maxRetryAfterMs: number;
+}
+
 interface ApiRequestOptions {
   method?: HttpMethod;
   body?: unknown;
@@ -51,6 +175,18 @@ interface ApiRequestOptions {
   requireAuth?: boolean;
   /** When provided, passed to fetch for request cancellation (e.g. per-beat caption preview). */
   signal?: AbortSignal;
+  /** Sent as X-Idempotency-Key; the backend dedupes replays, so network drops are retried. */
+  idempotencyKey?: string;
+  /** Replaying after a network drop or a 429/503 is safe. Defaults to true for GET and idempotency-keyed requests. */
+  idempotent?: boolean;
+  /** Per-attempt timeout; an expired attempt resolves as TIMEOUT and is not retried. */
+  timeoutMs?: number;
+  retry?: Partial<RetryPolicy> | false;
+}
+
+interface DecodedRequestOptions<T> extends ApiRequestOptions {
+  /** Decodes `data` on success; a mismatch becomes INVALID_RESPONSE. */
+  schema?: z.ZodType<T>;
 }
 
 export interface ApiError {
@@ -94,6 +230,7 @@ function recordNormalizedFailure(
   route: string,
   method: HttpMethod,
   normalized: NormalizedError,
+  context?: DiagnosticContext,
 ): void {
   recordApiFailure({
     route,
@@ -102,6 +239,7 @@ function recordNormalizedFailure(
     code: normalized.code,
     message: normalized.message,
     requestId: normalized.requestId,
+    context,
   });
 }
 
@@ -159,151 +297,367 @@ export function normalizeResponse<T>(
   return { ok: false, status, code, message, requestId };
 }
 
-export async function apiRequest<T = unknown>(
-  endpoint: string,
-  options: ApiRequestOptions = {},
-): Promise<T> {
-  const {
-    method = "GET",
-    body,
-    headers = {},
-    requireAuth = true,
-    signal,
-  } = options;
+// -----------------------------------------------------------------------------
+// Request pipeline
+// -----------------------------------------------------------------------------
 
-  const url = `${API_BASE_URL}${endpoint}`;
+const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 3,
+  baseDelayMs: 500,
+  maxDelayMs: 4_000,
+  maxRetryAfterMs: 10_000,
+};
 
-  const requestHeaders: Record<string, string> = {
-    "Content-Type": "application/json",
-    "x-client": "mobile",
-    ...headers,
-  };
+const RETRYABLE_STATUSES = new Set([429, 503]);
 
-  let hasAuthHeader = false;
-  if (requireAuth) {
-    const idToken = await getIdToken();
-    if (idToken) {
-      requestHeaders["Authorization"] = `Bearer ${idToken}`;
-      hasAuthHeader = true;
-    }
-  }
+/** 429s that will not clear by waiting a few seconds. */
+const NON_RETRYABLE_CODES = new Set(["SCRIPT_LIMIT_REACHED"]);
 
-  const response = await fetch(url, {
-    method,
-    headers: requestHeaders,
-    body: body ? JSON.stringify(body) : undefined,
-    signal,
-  });
+interface PipelineResult<T> {
+  normalized: NormalizedResponse<T>;
+  status: number;
+  /** Parsed JSON body, or `{ message }` for non-JSON responses; null on transport failure. */
+  json: unknown;
+  text: string | null;
+  isJson: boolean;
+  retryAfter?: number;
+}
 
-  const isCaptionPreview = endpoint.includes("/api/caption/preview");
-  const shouldLog = API_LOG && !isCaptionPreview;
-  if (shouldLog) {
-    console.log(
-      `[api] ${method} ${endpoint} ${response.status} hasAuthHeader=${hasAuthHeader}`,
-    );
+function formatTimeout(timeoutMs: number): string {
+  if (timeoutMs >= 60_000 && timeoutMs % 60_000 === 0) {
+    const minutes = timeoutMs / 60_000;
+    return `${minutes} minute${minutes === 1 ? "" : "s"}`;
   }
+  const seconds = Math.round(timeoutMs / 1000);
+  return `${seconds} second${seconds === 1 ? "" : "s"}`;
+}
 
-  if (!response.ok) {
-    const errorText = await response.text().catch(() => "Unknown error");
-    const apiError: ApiError = {
-      status: response.status,
-      message: errorText || response.statusText,
-      isAuthError: response.status === 401,
-      isRateLimited: response.status === 429,
-      isServerError: response.status >= 500,
-    };
-    throw apiError;
+/** Retry-After header (seconds or HTTP date) on 429/503, else a numeric `retryAfter` in the body. */
+function getRetryAfterSec(
+  status: number,
+  headers: Headers,
+  json: unknown,
+): number | undefined {
+  if (RETRYABLE_STATUSES.has(status)) {
+    const header = headers.get("Retry-After");
+    if (header) {
+      const seconds = parseInt(header, 10);
+      if (Number.isFinite(seconds)) return seconds;
+      const date = Date.parse(header);
+      if (Number.isFinite(date)) {
+        return Math.max(0, Math.ceil((date - Date.now()) / 1000));
+      }
+    }
   }
-
-  const contentType = response.headers.get("content-type");
-  if (contentType && contentType.includes("application/json")) {
-    return response.json();
+  if (typeof json === "object" && json !== null) {
+    const bodyRetryAfter = (json as { retryAfter?: unknown }).retryAfter;
+    if (typeof bodyRetryAfter === "number" && Number.isFinite(bodyRetryAfter)) {
+      return bodyRetryAfter;
+    }
   }
-
-  return response.text() as unknown as T;
+  return undefined;
 }
 
-/**
- * Make an API request and return a normalized response.
- * Does not throw on HTTP errors; instead returns { ok: false, ... }
- */
-export async function apiRequestNormalized<T = unknown>(
-  endpoint: string,
-  options: ApiRequestOptions = {},
-): Promise<NormalizedResponse<T>> {
-  const {
-    method = "GET",
-    body,
-    headers = {},
-    requireAuth = true,
-    signal,
-  } = options;
+function getBackoffDelayMs(attempt: number, policy: RetryPolicy): number {
+  const ceiling = Math.min(
+    policy.maxDelayMs,
+    policy.baseDelayMs * 2 ** (attempt - 1),
+  );
+  // Full jitter keeps clients that failed together from retrying together.
+  return Math.round(ceiling / 2 + Math.random() * (ceiling / 2));
+}
 
-  const url = `${API_BASE_URL}${endpoint}`;
+function waitForRetry(delayMs: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    const onAbort = () => {
+      clearTimeout(timeoutId);
+      resolve();
+    };
+    const timeoutId = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, delayMs);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
 
-  const requestHeaders: Record<string, string> = {
+async function buildRequestHeaders(
+  options: ApiRequestOptions,
+): Promise<{ headers: Record<string, string>; hasAuthHeader: boolean }> {
+  const headers: Record<string, string> = {
     "Content-Type": "application/json",
     "x-client": "mobile",
-    ...headers,
+    ...options.headers,
   };
-
+  if (options.idempotencyKey) {
+    headers["X-Idempotency-Key"] = options.idempotencyKey;
+  }
   let hasAuthHeader = false;
-  if (requireAuth) {
+  if (options.requireAuth !== false) {
     const idToken = await getIdToken();
     if (idToken) {
-      requestHeaders["Authorization"] = `Bearer ${idToken}`;
+      headers["Authorization"] = `Bearer ${idToken}`;
       hasAuthHeader = true;
     }
   }
+  return { headers, hasAuthHeader };
+}
 
+async function sendOnce<T>(
+  url: string,
+  init: RequestInit,
+  options: ApiRequestOptions,
+): Promise<PipelineResult<T>> {
+  const { signal, timeoutMs } = options;
+  let controller: AbortController | null = null;
+  let timeoutId: ReturnType<typeof setTimeout> | undefined;
+  const onAbort = () => controller?.abort();
+  if (timeoutMs && timeoutMs > 0) {
+    controller = new AbortController();
+    timeoutId = setTimeout(() => controller?.abort(), timeoutMs);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  }
+
+  // The timeout covers reading the body too, so a stalled stream still ends.
+  let response: Response;
+  let isJson = false;
+  let json: unknown;
+  let text: string | null = null;
   try {
-    const response = await fetch(url, {
-      method,
-      headers: requestHeaders,
-      body: body ? JSON.stringify(body) : undefined,
-      signal,
+    response = await fetch(url, {
+      ...init,
+      signal: controller?.signal ?? signal,
     });
-
-    const responseRequestId = response.headers.get("x-request-id");
     const contentType = response.headers.get("content-type");
-    let json: unknown = null;
-    if (contentType && contentType.includes("application/json")) {
-      json = await response.json();
+    isJson = !!contentType && contentType.includes("application/json");
+    if (isJson) {
+      try {
+        json = await response.json();
+      } catch (error) {
+        // Aborts and dropped streams fall through to the transport handler.
+        if (!(error instanceof SyntaxError)) throw error;
+        const normalized: NormalizedError = {
+          ok: false,
+          status: response.status,
+          code: "INVALID_RESPONSE",
+          message: "Invalid response format",
+          requestId: response.headers.get("x-request-id"),
+        };
+        return {
+          normalized,
+          status: response.status,
+          json: null,
+          text: null,
+          isJson,
+        };
+      }
     } else {
-      const text = await response.text();
+      text = await response.text();
       json = { message: text };
     }
+  } catch (error) {
+    const isTimeout =
+      !!timeoutMs &&
+      error instanceof Error &&
+      error.name === "AbortError" &&
+      !signal?.aborted;
+    const normalized: NormalizedError = isTimeout
+      ? {
+          ok: false,
+          status: 0,
+          code: "TIMEOUT",
+          message: `Request timed out after ${formatTimeout(timeoutMs!)}`,
+          requestId: null,
+        }
+      : {
+          ok: false,
+          status: 0,
+          code: "NETWORK_ERROR",
+          message: error instanceof Error ? error.message : "Network error",
+          requestId: null,
+        };
+    return { normalized, status: 0, json: null, text: null, isJson: false };
+  } finally {
+    if (timeoutId) clearTimeout(timeoutId);
+    signal?.removeEventListener("abort", onAbort);
+  }
 
-    const normalized = normalizeResponse<T>(
-      json,
-      response.status,
-      responseRequestId,
+  const normalized = normalizeResponse<T>(
+    json,
+    response.status,
+    response.headers.get("x-request-id"),
+  );
+  return {
+    normalized,
+    status: response.status,
+    json,
+    text,
+    isJson,
+    retryAfter: getRetryAfterSec(response.status, response.headers, json),
+  };
+}
+
+function getRetryDelayMs(
+  result: PipelineResult<unknown>,
+  attempt: number,
+  policy: RetryPolicy,
+  idempotent: boolean,
+): number | null {
+  if (result.normalized.ok || attempt >= policy.maxAttempts) return null;
+  const { code } = result.normalized;
+  // A 503 can arrive after the change landed, so replays need idempotency too.
+  if (code === "TIMEOUT" || !idempotent) return null;
+  if (code === "NETWORK_ERROR") return getBackoffDelayMs(attempt, policy);
+  if (!RETRYABLE_STATUSES.has(result.status) || NON_RETRYABLE_CODES.has(code)) {
+    return null;
+  }
+  if (result.retryAfter !== undefined) {
+    const retryAfterMs = result.retryAfter * 1000;
+    return retryAfterMs <= policy.maxRetryAfterMs ? retryAfterMs : null;
+  }
+  return getBackoffDelayMs(attempt, policy);
+}
+
+/**
+ * Shared request pipeline: auth + idempotency headers, per-attempt timeout,
+ * jittered retries for 429/503 and network drops (idempotent only), one token
+ * refresh + replay on 401, and diagnostics for the final failure. Never throws
+ * for transport errors.
+ */
+async function runRequest<T>(
+  endpoint: string,
+  options: DecodedRequestOptions<T> = {},
+): Promise<PipelineResult<T>> {
+  const { method = "GET", body, signal } = options;
+  const url = `${API_BASE_URL}${endpoint}`;
+  const policy: RetryPolicy | null =
+    options.retry === false
+      ? null
+      : { ...DEFAULT_RETRY_POLICY, ...options.retry };
+  const idempotent =
+    options.idempotent ?? (method === "GET" || !!options.idempotencyKey);
+  const shouldLog = API_LOG && !endpoint.includes("/api/caption/preview");
+
+  let attempt = 0;
+  let authReplayed = false;
+  while (true) {
+    attempt += 1;
+    const { headers, hasAuthHeader } = await buildRequestHeaders(options);
+    const result = await sendOnce<T>(
+      url,
+      {
+        method,
+        headers,
+        body: body ? JSON.stringify(body) : undefined,
+      },
+      options,
     );
-    const isCaptionPreview = endpoint.includes("/api/caption/preview");
-    const shouldLog = API_LOG && !isCaptionPreview;
+
     if (shouldLog) {
       console.log(
-        `[api] ${method} ${endpoint} ${response.status} requestId=${normalized.requestId ?? "n/a"} hasAuthHeader=${hasAuthHeader}`,
+        `[api] ${method} ${endpoint} ${result.status} requestId=${result.normalized.requestId ?? "n/a"} hasAuthHeader=${hasAuthHeader} attempt=${attempt}`,
       );
     }
 
-    if (!normalized.ok) {
-      recordNormalizedFailure(endpoint, method, normalized);
+    if (result.status === 401 && hasAuthHeader) {
+      // One forced token refresh + replay; the replay does not use up a retry.
+      if (!authReplayed && !signal?.aborted && (await getIdToken(true))) {
+        authReplayed = true;
+        attempt -= 1;
+        continue;
+      }
+      notifySessionExpired();
     }
 
-    return normalized;
-  } catch (error) {
-    const message = error instanceof Error ? error.message : "Network error";
-    const normalized: NormalizedError = {
-      ok: false,
-      status: 0,
-      code: "NETWORK_ERROR",
-      message,
-      requestId: null,
+    const delayMs =
+      policy && !signal?.aborted
+        ? getRetryDelayMs(result, attempt, policy, idempotent)
+        : null;
+    if (delayMs === null || result.normalized.ok) {
+      if (result.normalized.ok && options.schema) {
+        const decoded = decodeWith(options.schema, result.normalized.data);
+        if (!decoded.ok) {
+          const invalid: NormalizedError = {
+            ok: false,
+            status: result.status,
+            code: "INVALID_RESPONSE",
+            message: "Invalid response format",
+            requestId: result.normalized.requestId,
+          };
+          recordNormalizedFailure(endpoint, method, invalid, {
+            path: decoded.failure.path,
+            issue: decoded.failure.message,
+          });
+          return { ...result, normalized: invalid };
+        }
+        result.normalized = { ...result.normalized, data: decoded.value };
+      }
+      if (!result.normalized.ok) {
+        recordNormalizedFailure(endpoint, method, result.normalized);
+      }
+      return result;
+    }
+
+    recordClientDiagnostic({
+      route: endpoint,
+      status: result.status,
+      code: "REQUEST_RETRY_SCHEDULED",
+      message: result.normalized.message,
+      requestId: result.normalized.requestId,
+      context: {
+        method,
+        attempt,
+        delayMs,
+        failureCode: result.normalized.code,
+      },
+    });
+    await waitForRetry(delayMs, signal);
+  }
+}
+
+export async function apiRequest<T = unknown>(
+  endpoint: string,
+  options: ApiRequestOptions = {},
+): Promise<T> {
+  const result = await runRequest<T>(endpoint, options);
+
+  if (
+    !result.normalized.ok &&
+    (result.status === 0 || (result.isJson && result.json === null))
+  ) {
+    throw new Error(result.normalized.message);
+  }
+
+  if (result.status < 200 || result.status >= 300) {
+    const apiError: ApiError = {
+      status: result.status,
+      message:
+        result.text ??
+        (result.normalized.ok ? "Unknown error" : result.normalized.message),
+      isAuthError: result.status === 401,
+      isRateLimited: result.status === 429,
+      isServerError: result.status >= 500,
     };
-    recordNormalizedFailure(endpoint, method, normalized);
-    return normalized;
+    throw apiError;
+  }
+
+  if (result.isJson) {
+    return result.json as T;
   }
+
+  return result.text as unknown as T;
+}
+
+/**
+ * Make an API request and return a normalized response.
+ * Does not throw on HTTP errors; instead returns { ok: false, ... }
+ */
+export async function apiRequestNormalized<T = unknown>(
+  endpoint: string,
+  options: DecodedRequestOptions<T> = {},
+): Promise<NormalizedResponse<T>> {
+  const result = await runRequest<T>(endpoint, options);
+  return result.normalized;
 }
 
 export async function healthCheck(): Promise<unknown> {
@@ -375,6 +729,8 @@ export interface ShortItem {
   completedAt?: string;
   failedAt?: string;
   errorMessage?: string;
+  /** Stock clips the render used; drives the credits block. */
+  clips?: StoryClip[];
 }
 
 export interface ShortsListResponse {
@@ -395,6 +751,7 @@ export interface ShortDetail {
   };
   billing?: ShortBilling;
   createdAt: string;
+  clips?: StoryClip[];
 }
 
 export interface StoryFinalizePendingMeta {
@@ -439,7 +796,9 @@ export interface CaptionPreviewStyle {
 }
 
 export interface StoryOverlayCaptionStyle extends CaptionPreviewStyle {
-  placement?: "top" | "center" | "bottom";
+  placement?: "top" | "center" | "bottom" | "custom";
+  /** Box centre as a fraction of the frame width; only sent with "custom". */
+  xPct?: number;
   yPct?: number;
 }
 
@@ -449,7 +808,8 @@ export interface CaptionPreviewRequestBody {
   mode: "raster";
   measure: "server";
   text: string;
-  placement?: "top" | "center" | "bottom";
+  placement?: "top" | "center" | "bottom" | "custom";
+  xPct?: number;
   yPct?: number;
   style?: CaptionPreviewStyle;
   frameW?: number;
@@ -476,7 +836,7 @@ export interface CaptionPreviewData {
   meta: CaptionPreviewMeta;
 }
 
-const CAPTION_PREVIEW_STYLE_KEYS: (keyof CaptionPreviewStyle)[] = [
+export const CAPTION_PREVIEW_STYLE_KEYS: (keyof CaptionPreviewStyle)[] = [
   "fontFamily",
   "fontPx",
   "weightCss",
@@ -499,7 +859,7 @@ const CAPTION_PREVIEW_STYLE_KEYS: (keyof CaptionPreviewStyle)[] = [
   "rasterPadding",
 ];
 
-function extractStyleWhitelist(
+export function extractStyleWhitelist(
   style: CaptionPreviewStyle | undefined,
 ): CaptionPreviewStyle | undefined {
   if (!style || typeof style !== "object") return undefined;
@@ -512,16 +872,26 @@ function extractStyleWhitelist(
 
 /**
  * Build server-measured caption preview payload (mobile). Only whitelisted style keys.
+ * A "custom" placement carries `xPct`/`yPct`; box width travels as `style.wPct`.
  */
 export function buildCaptionPreviewPayload(params: {
   text: string;
-  placement?: "top" | "center" | "bottom";
+  placement?: "top" | "center" | "bottom" | "custom";
+  xPct?: number;
   yPct?: number;
   style?: CaptionPreviewStyle;
   frameW?: number;
   frameH?: number;
 }): CaptionPreviewRequestBody {
-  const { text, placement, yPct, style, frameW = 1080, frameH = 1920 } = params;
+  const {
+    text,
+    placement,
+    xPct,
+    yPct,
+    style,
+    frameW = 1080,
+    frameH = 1920,
+  } = params;
   const body: CaptionPreviewRequestBody = {
     ssotVersion: 3,
     mode: "raster",
@@ -531,6 +901,7 @@ export function buildCaptionPreviewPayload(params: {
     frameH,
   };
   if (placement !== undefined) body.placement = placement;
+  if (placement === "custom" && xPct !== undefined) body.xPct = xPct;
   if (yPct !== undefined) body.yPct = yPct;
   const sanitized = extractStyleWhitelist(style);
   if (sanitized) body.style = sanitized;
@@ -550,32 +921,14 @@ export async function captionPreview(
   options: CaptionPreviewOptions = {},
 ): Promise<NormalizedResponse<CaptionPreviewData>> {
   const { signal, timeoutMs = 10_000 } = options;
-  let effectiveSignal: AbortSignal | undefined = signal;
-  let timeoutId: ReturnType<typeof setTimeout> | undefined;
-  if (timeoutMs > 0 || signal) {
-    const controller = new AbortController();
-    if (timeoutMs > 0) {
-      timeoutId = setTimeout(() => controller.abort(), timeoutMs);
-    }
-    if (signal) {
-      signal.addEventListener("abort", () => controller.abort());
-    }
-    effectiveSignal = controller.signal;
-  }
-  try {
-    const result = await apiRequestNormalized<CaptionPreviewData>(
-      "/api/caption/preview",
-      {
-        method: "POST",
-        body,
-        requireAuth: true,
-        signal: effectiveSignal,
-      },
-    );
-    return result;
-  } finally {
-    if (timeoutId) clearTimeout(timeoutId);
-  }
+  return apiRequestNormalized<CaptionPreviewData>("/api/caption/preview", {
+    method: "POST",
+    body,
+    requireAuth: true,
+    signal,
+    timeoutMs,
+    retry: false,
+  });
 }
 
 // -----------------------------------------------------------------------------
@@ -589,6 +942,8 @@ export async function ensureUser(): Promise<NormalizedResponse<UserProfile>> {
   return apiRequestNormalized<UserProfile>("/api/users/ensure", {
     method: "POST",
     requireAuth: true,
+    idempotent: true,
+    schema: userProfileSchema,
   });
 }
 
@@ -599,6 +954,7 @@ export async function getUsage(): Promise<NormalizedResponse<UsageSnapshot>> {
   return apiRequestNormalized<UsageSnapshot>("/api/usage", {
     method: "GET",
     requireAuth: true,
+    schema: usageSnapshotSchema,
   });
 }
 
@@ -618,6 +974,7 @@ export async function getMyShorts(
   return apiRequestNormalized<ShortsListResponse>(endpoint, {
     method: "GET",
     requireAuth: true,
+    schema: shortsListSchema,
   });
 }
 
@@ -632,6 +989,7 @@ export async function getShortDetail(
   return apiRequestNormalized<ShortDetail>(`/api/shorts/${id}`, {
     method: "GET",
     requireAuth: true,
+    schema: shortDetailSchema,
   });
 }
 
@@ -653,6 +1011,7 @@ export async function storyStart(body: {
     method: "POST",
     body,
     requireAuth: true,
+    schema: storySessionSchema,
   });
 }
 
@@ -668,6 +1027,7 @@ export async function storyGenerate(body: {
     method: "POST",
     body,
     requireAuth: true,
+    schema: storySessionSchema,
   });
 }
 
@@ -681,6 +1041,7 @@ export async function storyPlan(body: {
     method: "POST",
     body,
     requireAuth: true,
+    schema: storySessionSchema,
   });
 }
 
@@ -694,6 +1055,7 @@ export async function storySearchAll(body: {
     method: "POST",
     body,
     requireAuth: true,
+    schema: storySessionSchema,
   });
 }
 
@@ -706,6 +1068,7 @@ export async function storyGet(
   return apiRequestNormalized<StorySession>(`/api/story/${sessionId}`, {
     method: "GET",
     requireAuth: true,
+    schema: storySessionSchema,
   });
 }
 
@@ -720,6 +1083,8 @@ export async function storyUpdateScript(body: {
     method: "POST",
     body,
     requireAuth: true,
+    schema: storySessionSchema,
+    idempotent: true,
   });
 }
 
@@ -742,61 +1107,22 @@ export async function storyPreview(
     throw new Error("storyPreview requires a non-empty idempotencyKey option");
   }
 
-  const endpoint = "/api/story/preview";
-  const requestHeaders: Record<string, string> = {
-    "Content-Type": "application/json",
-    "x-client": "mobile",
-    "X-Idempotency-Key": idempotencyKey,
+  const result = await runRequest<StorySession>("/api/story/preview", {
+    method: "POST",
+    body,
+    requireAuth: true,
+    schema: storySessionSchema,
+    idempotencyKey,
+  });
+  const preview =
+    typeof result.json === "object" && result.json !== null
+      ? ((result.json as { preview?: StoryPreviewPendingMeta }).preview ?? null)
+      : null;
+  return {
+    ...result.normalized,
+    status: result.status,
+    preview,
   };
-  const idToken = await getIdToken();
-  if (idToken) {
-    requestHeaders.Authorization = `Bearer ${idToken}`;
-  }
-
-  try {
-    const response = await fetch(`${API_BASE_URL}${endpoint}`, {
-      method: "POST",
-      headers: requestHeaders,
-      body: JSON.stringify(body),
-    });
-    const responseRequestId = response.headers.get("x-request-id");
-    const contentType = response.headers.get("content-type");
-    const json: unknown =
-      contentType && contentType.includes("application/json")
-        ? await response.json()
-        : { message: await response.text() };
-    const normalized = normalizeResponse<StorySession>(
-      json,
-      response.status,
-      responseRequestId,
-    );
-    if (!normalized.ok) {
-      recordNormalizedFailure(endpoint, "POST", normalized);
-    }
-    const preview =
-      typeof json === "object" && json !== null
-        ? ((json as { preview?: StoryPreviewPendingMeta }).preview ?? null)
-        : null;
-    return {
-      ...normalized,
-      status: response.status,
-      preview,
-    };
-  } catch (error) {
-    const normalized: NormalizedError = {
-      ok: false,
-      status: 0,
-      code: "NETWORK_ERROR",
-      message: error instanceof Error ? error.message : "Network error",
-      requestId: null,
-    };
-    recordNormalizedFailure(endpoint, "POST", normalized);
-    return {
-      ...normalized,
-      status: 0,
-      preview: null,
-    };
-  }
 }
 
 export interface StoryBeatTextUpdateData {
@@ -818,10 +1144,32 @@ export async function storyUpdateBeatText(body: {
       method: "POST",
       body,
       requireAuth: true,
+      schema: storyBeatListSchema,
+      idempotent: true,
     },
   );
 }
 
+export interface StoryInsertBeatData extends StoryBeatTextUpdateData {
+  insertedIndex: number;
+}
+
+/**
+ * POST /api/story/insert-beat - Insert a beat after `insertAfterIndex` (-1 inserts at the start)
+ */
+export async function storyInsertBeat(body: {
+  sessionId: string;
+  insertAfterIndex: number;
+  text: string;
+}): Promise<NormalizedResponse<StoryInsertBeatData>> {
+  return apiRequestNormalized<StoryInsertBeatData>("/api/story/insert-beat", {
+    method: "POST",
+    body,
+    requireAuth: true,
+    schema: storyInsertBeatSchema,
+  });
+}
+
 /**
  * POST /api/story/delete-beat - Delete beat (sentence + shot). Response is { sentences, shots } per spec; client refetches via storyGet for SSOT.
  */
@@ -835,10 +1183,17 @@ export async function storyDeleteBeat(body: {
       method: "POST",
       body,
       requireAuth: true,
+      schema: storyBeatListSchema,
     },
   );
 }
 
+export interface StorySearchShotData {
+  shot?: StoryShot;
+  page?: number;
+  hasMore?: boolean;
+}
+
 /**
  * POST /api/story/search-shot - Search clips for single shot
  */
@@ -847,42 +1202,56 @@ export async function storySearchShot(body: {
   sentenceIndex: number;
   query?: string;
   page?: number;
-}): Promise<NormalizedResponse<StorySession>> {
-  return apiRequestNormalized<StorySession>("/api/story/search-shot", {
+}): Promise<NormalizedResponse<StorySearchShotData>> {
+  return apiRequestNormalized<StorySearchShotData>("/api/story/search-shot", {
     method: "POST",
     body,
     requireAuth: true,
+    idempotent: true,
+    schema: storySearchShotSchema,
   });
 }
 
 /**
- * POST /api/story/update-shot - Swap selected clip for shot
+ * POST /api/story/update-shot - Swap selected clip for shot. `clipStartSec`
+ * sets the in-point; a swap without it plays the new clip from the start.
+ * `clip` carries a saved clip record that is not among the shot's candidates.
  */
 export async function storyUpdateShot(body: {
   sessionId: string;
   sentenceIndex: number;
   clipId: string;
+  clipStartSec?: number;
+  clip?: StoryClip;
 }): Promise<NormalizedResponse<StorySession>> {
   return apiRequestNormalized<StorySession>("/api/story/update-shot", {
     method: "POST",
     body,
     requireAuth: true,
+    schema: storySessionSchema,
+    idempotent: true,
   });
 }
 
 /**
  * POST /api/story/update-caption-style - Persist caption overlay style for session
  */
+export interface StoryCaptionStyleUpdateData {
+  overlayCaption?: StorySession["overlayCaption"];
+}
+
 export async function storyUpdateCaptionStyle(body: {
   sessionId: string;
   overlayCaption: StoryOverlayCaptionStyle;
-}): Promise<NormalizedResponse<{ overlayCaption?: StoryOverlayCaptionStyle }>> {
-  return apiRequestNormalized<{ overlayCaption?: StoryOverlayCaptionStyle }>(
+}): Promise<NormalizedResponse<StoryCaptionStyleUpdateData>> {
+  return apiRequestNormalized<StoryCaptionStyleUpdateData>(
     "/api/story/update-caption-style",
     {
       method: "POST",
       body,
       requireAuth: true,
+      schema: storyCaptionStyleUpdateSchema,
+      idempotent: true,
     },
   );
 }
@@ -914,126 +1283,43 @@ export async function storySync(
     throw new Error("storySync requires a non-empty idempotencyKey option");
   }
 
-  const url = `${API_BASE_URL}/api/story/sync`;
-  const requestHeaders: Record<string, string> = {
-    "Content-Type": "application/json",
-    "x-client": "mobile",
-    "X-Idempotency-Key": idempotencyKey,
-  };
-
-  const idToken = await getIdToken();
-  if (idToken) {
-    requestHeaders["Authorization"] = `Bearer ${idToken}`;
-  }
-
-  try {
-    const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), 300_000);
-
-    let response: Response;
-    try {
-      response = await fetch(url, {
-        method: "POST",
-        headers: requestHeaders,
-        body: JSON.stringify(body),
-        signal: controller.signal,
-      });
-      clearTimeout(timeoutId);
-    } catch (fetchError) {
-      clearTimeout(timeoutId);
-      if (fetchError instanceof Error && fetchError.name === "AbortError") {
-        const timeoutFailure: NormalizedError = {
-          ok: false,
-          status: 0,
-          code: "TIMEOUT",
-          message: "Request timed out after 5 minutes",
-          requestId: null,
-        };
-        recordNormalizedFailure("/api/story/sync", "POST", timeoutFailure);
-        return {
-          ...timeoutFailure,
-          status: 0,
-          sync: null,
-        };
-      }
-      throw fetchError;
-    }
-
-    const responseRequestId = response.headers.get("x-request-id");
-    const contentType = response.headers.get("content-type");
-    let json: unknown = null;
-    if (contentType && contentType.includes("application/json")) {
-      json = await response.json();
-    } else {
-      const text = await response.text();
-      json = { message: text };
-    }
-
-    const normalized = normalizeResponse<StorySession>(
-      json,
-      response.status,
-      responseRequestId,
-    );
-
-    if (API_LOG) {
-      console.log(
-        `[api] POST /api/story/sync ${response.status} requestId=${normalized.requestId ?? "n/a"}`,
-      );
-    }
+  const result = await runRequest<StorySession>("/api/story/sync", {
+    method: "POST",
+    body,
+    requireAuth: true,
+    schema: storySessionSchema,
+    idempotencyKey,
+    timeoutMs: 300_000,
+  });
 
-    if (!normalized.ok) {
-      recordNormalizedFailure("/api/story/sync", "POST", normalized);
-      return {
-        ...normalized,
-        status: response.status,
-        sync: null,
+  let sync: StorySyncPendingMeta | null = null;
+  if (result.normalized.ok && result.json && typeof result.json === "object") {
+    const raw = result.json as Record<string, unknown>;
+    if (raw.sync && typeof raw.sync === "object") {
+      const rawSync = raw.sync as Record<string, unknown>;
+      sync = {
+        state: typeof rawSync.state === "string" ? rawSync.state : undefined,
+        attemptId:
+          typeof rawSync.attemptId === "string"
+            ? rawSync.attemptId
+            : rawSync.attemptId === null
+              ? null
+              : undefined,
+        pollSessionId:
+          typeof rawSync.pollSessionId === "string"
+            ? rawSync.pollSessionId
+            : rawSync.pollSessionId === null
+              ? null
+              : undefined,
       };
     }
-
-    let sync: StorySyncPendingMeta | null = null;
-    if (json && typeof json === "object") {
-      const raw = json as Record<string, unknown>;
-      if (raw.sync && typeof raw.sync === "object") {
-        const rawSync = raw.sync as Record<string, unknown>;
-        sync = {
-          state: typeof rawSync.state === "string" ? rawSync.state : undefined,
-          attemptId:
-            typeof rawSync.attemptId === "string"
-              ? rawSync.attemptId
-              : rawSync.attemptId === null
-                ? null
-                : undefined,
-          pollSessionId:
-            typeof rawSync.pollSessionId === "string"
-              ? rawSync.pollSessionId
-              : rawSync.pollSessionId === null
-                ? null
-                : undefined,
-        };
-      }
-    }
-
-    return {
-      ...normalized,
-      status: response.status,
-      sync,
-    };
-  } catch (error) {
-    const message = error instanceof Error ? error.message : "Network error";
-    const normalized: NormalizedError = {
-      ok: false,
-      status: 0,
-      code: "NETWORK_ERROR",
-      message,
-      requestId: null,
-    };
-    recordNormalizedFailure("/api/story/sync", "POST", normalized);
-    return {
-      ...normalized,
-      status: 0,
-      sync: null,
-    };
   }
+
+  return {
+    ...result.normalized,
+    status: result.status,
+    sync,
+  };
 }
 
 /**
@@ -1053,141 +1339,50 @@ export async function storyFinalize(
     throw new Error("storyFinalize requires a non-empty idempotencyKey option");
   }
 
-  const url = `${API_BASE_URL}/api/story/finalize`;
-
-  const requestHeaders: Record<string, string> = {
-    "Content-Type": "application/json",
-    "x-client": "mobile",
-    "X-Idempotency-Key": idempotencyKey,
-  };
-
-  const idToken = await getIdToken();
-  if (idToken) {
-    requestHeaders["Authorization"] = `Bearer ${idToken}`;
-  }
-
-  try {
-    // 15-minute timeout using AbortController (works consistently across platforms)
-    const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), 900_000); // 15 minutes
-
-    let response: Response;
-    try {
-      response = await fetch(url, {
-        method: "POST",
-        headers: requestHeaders,
-        body: JSON.stringify(body),
-        signal: controller.signal,
-      });
-      clearTimeout(timeoutId);
-    } catch (fetchError) {
-      clearTimeout(timeoutId);
-      if (fetchError instanceof Error && fetchError.name === "AbortError") {
-        const timeoutFailure: NormalizedError = {
-          ok: false,
-          status: 0,
-          code: "TIMEOUT",
-          message: "Request timed out after 15 minutes",
-          requestId: null,
-        };
-        recordNormalizedFailure("/api/story/finalize", "POST", timeoutFailure);
-        return {
-          ...timeoutFailure,
-          status: 0,
-          finalize: null,
-        };
-      }
-      throw fetchError;
-    }
-
-    const responseRequestId = response.headers.get("x-request-id");
-    const contentType = response.headers.get("content-type");
-    let json: unknown = null;
-    if (contentType && contentType.includes("application/json")) {
-      json = await response.json();
-    } else {
-      const text = await response.text();
-      json = { message: text };
-    }
-
-    // Extract retryAfter from header if 503
-    let retryAfter: number | undefined;
-    if (response.status === 503) {
-      const retryAfterHeader = response.headers.get("Retry-After");
-      if (retryAfterHeader) {
-        retryAfter = parseInt(retryAfterHeader, 10);
-      }
-    }
-
-    const normalized = normalizeResponse<StorySession>(
-      json,
-      response.status,
-      responseRequestId,
-    );
+  // 15-minute per-attempt timeout; Retry-After waits over 10s go back to the caller.
+  const result = await runRequest<StorySession>("/api/story/finalize", {
+    method: "POST",
+    body,
+    requireAuth: true,
+    schema: storySessionSchema,
+    idempotencyKey,
+    timeoutMs: 900_000,
+  });
 
-    if (API_LOG) {
-      console.log(
-        `[api] POST /api/story/finalize ${response.status} requestId=${normalized.requestId ?? "n/a"}`,
-      );
-    }
-    if (!normalized.ok) {
-      recordNormalizedFailure("/api/story/finalize", "POST", normalized);
+  let shortId: string | null | undefined;
+  let finalize: StoryFinalizePendingMeta | null = null;
+  if (typeof result.json === "object" && result.json !== null) {
+    const rawResponse = result.json as StoryFinalizeResponse;
+    if (rawResponse.success === true && rawResponse.shortId !== undefined) {
+      shortId = rawResponse.shortId;
     }
-
-    let shortId: string | null | undefined;
-    let finalize: StoryFinalizePendingMeta | null = null;
-    if (typeof json === "object" && json !== null) {
-      const rawResponse = json as StoryFinalizeResponse;
-      if (rawResponse.success === true && rawResponse.shortId !== undefined) {
-        shortId = rawResponse.shortId;
-      }
-      if (rawResponse.finalize && typeof rawResponse.finalize === "object") {
-        finalize = {
-          state:
-            typeof rawResponse.finalize.state === "string"
-              ? rawResponse.finalize.state
+    if (rawResponse.finalize && typeof rawResponse.finalize === "object") {
+      finalize = {
+        state:
+          typeof rawResponse.finalize.state === "string"
+            ? rawResponse.finalize.state
+            : undefined,
+        attemptId:
+          typeof rawResponse.finalize.attemptId === "string"
+            ? rawResponse.finalize.attemptId
+            : rawResponse.finalize.attemptId === null
+              ? null
               : undefined,
-          attemptId:
-            typeof rawResponse.finalize.attemptId === "string"
-              ? rawResponse.finalize.attemptId
-              : rawResponse.finalize.attemptId === null
-                ? null
-                : undefined,
-          pollSessionId:
-            typeof rawResponse.finalize.pollSessionId === "string"
-              ? rawResponse.finalize.pollSessionId
-              : rawResponse.finalize.pollSessionId === null
-                ? null
-                : undefined,
-        };
-      }
-      // Also check body.retryAfter if header wasn't available
-      if (retryAfter === undefined && rawResponse.retryAfter !== undefined) {
-        retryAfter = rawResponse.retryAfter;
-      }
+        pollSessionId:
+          typeof rawResponse.finalize.pollSessionId === "string"
+            ? rawResponse.finalize.pollSessionId
+            : rawResponse.finalize.pollSessionId === null
+              ? null
+              : undefined,
+      };
     }
-
-    return {
-      ...normalized,
-      status: response.status,
-      shortId,
-      retryAfter,
-      finalize,
-    };
-  } catch (error) {
-    const message = error instanceof Error ? error.message : "Network error";
-    const normalized: NormalizedError = {
-      ok: false,
-      status: 0,
-      code: "NETWORK_ERROR",
-      message,
-      requestId: null,
-    };
-    recordNormalizedFailure("/api/story/finalize", "POST", normalized);
-    return {
-      ...normalized,
-      status: 0,
-      finalize: null,
-    };
   }
+
+  return {
+    ...result.normalized,
+    status: result.status,
+    shortId,
+    retryAfter: result.retryAfter,
+    finalize,
+  };
 }
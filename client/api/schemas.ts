@@ -0,0 +1,513 @@
+// client/api/schemas.ts
+// Runtime decoders for backend payloads. Objects use passthrough so additive
+// backend fields survive; only the fields mobile reads are checked.
+
+import { z } from "zod";
+
+import type {
+  ShortDetail,
+  ShortItem,
+  ShortsListResponse,
+  UsageSnapshot,
+  UserProfile,
+} from "@/api/client";
+import type {
+  StoryBeat,
+  StoryCaptionOverlayV1,
+  StoryClip,
+  StoryDraftPreviewV1,
+  StoryOverlayCaptionStyle,
+  StoryPlaybackTimelineV1,
+  StoryPreviewReadinessV1,
+  StorySession,
+  StoryShot,
+  StoryVoiceSync,
+} from "@/types/story";
+
+const nullableString = z.string().nullable().optional();
+const nullableNumber = z.number().nullable().optional();
+
+// -----------------------------------------------------------------------------
+// Account and shorts
+// -----------------------------------------------------------------------------
+
+export const userProfileSchema: z.ZodType<UserProfile> = z
+  .object({
+    uid: z.string(),
+    email: z.string(),
+    plan: z.string(),
+    freeShortsUsed: z.number(),
+  })
+  .passthrough();
+
+export const usageSnapshotSchema: z.ZodType<UsageSnapshot> = z
+  .object({
+    plan: z.string(),
+    membership: z
+      .object({
+        status: z.string(),
+        kind: z.string(),
+        billingCadence: z.string(),
+        startedAt: z.string().nullable(),
+        expiresAt: z.string().nullable(),
+        canceledAt: z.string().nullable(),
+      })
+      .passthrough(),
+    usage: z
+      .object({
+        billingUnit: z.literal("sec"),
+        periodStartAt: z.string().nullable(),
+        periodEndAt: z.string().nullable(),
+        cycleIncludedSec: z.number(),
+        cycleUsedSec: z.number(),
+        cycleReservedSec: z.number(),
+        availableSec: z.number(),
+      })
+      .passthrough(),
+  })
+  .passthrough();
+
+export const shortItemSchema: z.ZodType<ShortItem> = z
+  .object({
+    id: z.string(),
+    ownerId: z.string(),
+    status: z.string(),
+    videoUrl: z.string().optional(),
+    thumbUrl: z.string().optional(),
+    coverImageUrl: z.string().optional(),
+    durationSec: z.number().optional(),
+    quoteText: z.string().optional(),
+    template: z.string().optional(),
+    mode: z.string().optional(),
+    voiceover: z.string().optional(),
+    captionMode: z.string().optional(),
+    watermark: z.boolean().optional(),
+    createdAt: z.string(),
+    completedAt: z.string().optional(),
+    failedAt: z.string().optional(),
+    errorMessage: z.string().optional(),
+    clips: z.array(z.lazy(() => storyClipSchema)).optional(),
+  })
+  .passthrough();
+
+export const shortsListSchema: z.ZodType<ShortsListResponse> = z
+  .object({
+    items: z.array(shortItemSchema),
+    nextCursor: z.string().optional(),
+    hasMore: z.boolean(),
+  })
+  .passthrough();
+
+export const shortDetailSchema: z.ZodType<ShortDetail> = z
+  .object({
+    id: z.string(),
+    videoUrl: z.string().optional(),
+    coverImageUrl: z.string().optional(),
+    durationSec: z.number().optional(),
+    usedTemplate: z.string().optional(),
+    usedQuote: z
+      .object({ text: z.string().optional(), author: z.string().optional() })
+      .passthrough()
+      .optional(),
+    billing: z
+      .object({
+        estimatedSec: z.number().optional(),
+        billedSec: z.number().optional(),
+        settledAt: z.string().optional(),
+        source: z.string().optional(),
+      })
+      .passthrough()
+      .optional(),
+    createdAt: z.string(),
+    clips: z.array(z.lazy(() => storyClipSchema)).optional(),
+  })
+  .passthrough();
+
+// -----------------------------------------------------------------------------
+// Story V1 sub-contracts
+// -----------------------------------------------------------------------------
+
+export const beatIndicesSchema = z.array(z.number().int().nonnegative());
+
+export const storyPreviewReadinessV1Schema: z.ZodType<StoryPreviewReadinessV1> =
+  z
+    .object({
+      version: z.literal(1),
+      ready: z.boolean(),
+      reasonCode: nullableString,
+      missingBeatIndices: beatIndicesSchema.optional(),
+    })
+    .passthrough();
+
+export const storyDraftPreviewV1Schema: z.ZodType<StoryDraftPreviewV1> = z
+  .object({
+    version: z.literal(1),
+    state: z.string().min(1),
+    updatedAt: nullableString,
+    artifact: z
+      .object({
+        url: nullableString,
+        contentType: nullableString,
+        durationSec: nullableNumber,
+        width: nullableNumber,
+        height: nullableNumber,
+        createdAt: nullableString,
+        expiresAt: nullableString,
+      })
+      .passthrough()
+      .nullable()
+      .optional(),
+    blocked: z
+      .object({
+        reasonCode: nullableString,
+        missingBeatIndices: beatIndicesSchema.optional(),
+      })
+      .passthrough()
+      .nullable()
+      .optional(),
+    job: z
+      .object({
+        state: nullableString,
+        attemptId: nullableString,
+        retryAfterSec: nullableNumber,
+      })
+      .passthrough()
+      .nullable()
+      .optional(),
+    error: z
+      .object({ code: nullableString, message: nullableString })
+      .passthrough()
+      .nullable()
+      .optional(),
+  })
+  .passthrough();
+
+export const storyOverlayCaptionStyleSchema: z.ZodType<StoryOverlayCaptionStyle> =
+  z
+    .object({
+      fontFamily: z.string().optional(),
+      fontPx: z.number().optional(),
+      weightCss: z.string().optional(),
+      fontStyle: z.enum(["normal", "italic"]).optional(),
+      letterSpacingPx: z.number().optional(),
+      lineSpacingPx: z.number().optional(),
+      textAlign: z.string().optional(),
+      textTransform: z.string().optional(),
+      color: z.string().optional(),
+      opacity: z.number().optional(),
+      strokePx: z.number().optional(),
+      strokeColor: z.string().optional(),
+      shadowBlur: z.number().optional(),
+      shadowOffsetX: z.number().optional(),
+      shadowOffsetY: z.number().optional(),
+      shadowColor: z.string().optional(),
+      internalPaddingPx: z.number().optional(),
+      internalPadding: z.number().optional(),
+      rasterPadding: z.number().optional(),
+      placement: z.string().optional(),
+      yPct: z.number().optional(),
+      xPct: z.number().optional(),
+      wPct: z.number().optional(),
+    })
+    .passthrough();
+
+export const storyCaptionOverlayV1Schema: z.ZodType<StoryCaptionOverlayV1> = z
+  .object({
+    version: z.literal(1),
+    contractVersion: z.string(),
+    rendererVersion: z.string(),
+    frame: z.object({ width: z.number(), height: z.number() }).passthrough(),
+    placement: z.string().optional(),
+    style: storyOverlayCaptionStyleSchema.optional(),
+    segments: z.array(
+      z
+        .object({
+          beatIndex: z.number(),
+          startSec: z.number(),
+          endSec: z.number(),
+          text: z.string(),
+        })
+        .passthrough(),
+    ),
+  })
+  .passthrough();
+
+export const storyPlaybackTimelineV1Schema: z.ZodType<StoryPlaybackTimelineV1> =
+  z
+    .object({
+      version: z.literal(1),
+      source: z.enum(["classic", "manual", "auto"]),
+      totalDurationSec: z.number(),
+      segments: z.array(
+        z
+          .object({
+            segmentIndex: z.number(),
+            sentenceIndex: z.number(),
+            ownerSentenceIndex: z.number(),
+            clipUrl: z.string(),
+            clipThumbUrl: nullableString,
+            globalStartSec: z.number(),
+            globalEndSec: z.number(),
+            clipStartSec: z.number(),
+            durationSec: z.number(),
+          })
+          .passthrough(),
+      ),
+    })
+    .passthrough();
+
+// -----------------------------------------------------------------------------
+// Story session
+// -----------------------------------------------------------------------------
+
+export const storyClipSchema: z.ZodType<StoryClip> = z
+  .object({
+    id: z.string().optional(),
+    url: z.string().optional(),
+    thumbUrl: nullableString,
+    duration: z.number().optional(),
+    width: z.number().optional(),
+    height: z.number().optional(),
+    photographer: nullableString,
+    sourceUrl: nullableString,
+    provider: z.string().optional(),
+    providerId: z.string().optional(),
+    license: z.string().optional(),
+  })
+  .passthrough();
+
+export const storyShotSchema: z.ZodType<StoryShot> = z
+  .object({
+    sentenceIndex: z.number().int().nonnegative(),
+    searchQuery: z.string().optional(),
+    durationSec: z.number().optional(),
+    selectedClip: storyClipSchema.nullable().optional(),
+    candidates: z.array(storyClipSchema).optional(),
+    clipStartSec: z.number().nonnegative().optional(),
+  })
+  .passthrough();
+
+const storyBeatSchema: z.ZodType<StoryBeat> = z
+  .object({
+    captionMeta: z
+      .object({
+        lines: z.array(z.string()),
+        effectiveStyle: z.record(z.unknown()).optional(),
+        styleHash: z.string().optional(),
+        textHash: z.string().optional(),
+        wrapHash: z.string().optional(),
+        maxWidthPx: z.number().optional(),
+        totalTextH: z.number().optional(),
+      })
+      .passthrough()
+      .nullable()
+      .optional(),
+    narration: z
+      .object({
+        fingerprint: nullableString,
+        durationSec: nullableNumber,
+        syncedAt: nullableString,
+      })
+      .passthrough()
+      .nullable()
+      .optional(),
+  })
+  .passthrough();
+
+export const storyVoiceSyncSchema: z.ZodType<StoryVoiceSync> = z
+  .object({
+    schemaVersion: z.number().optional(),
+    state: z.string(),
+    requiredForRender: z.boolean().optional(),
+    staleScope: z.string().optional(),
+    staleBeatIndices: beatIndicesSchema.optional(),
+    currentFingerprint: nullableString,
+    nextEstimatedChargeSec: nullableNumber,
+    totalDurationSec: nullableNumber,
+    previewAudioUrl: nullableString,
+    previewAudioDurationSec: nullableNumber,
+    lastChargeSec: nullableNumber,
+    totalBilledSec: nullableNumber,
+    lastSyncedAt: nullableString,
+    cached: z.boolean().optional(),
+  })
+  .passthrough();
+
+export const storySessionSchema: z.ZodType<StorySession> = z
+  .object({
+    id: z.string().min(1),
+    uid: z.string().optional(),
+    createdAt: z.string().optional(),
+    updatedAt: z.string().optional(),
+    expiresAt: z.string().optional(),
+    status: z.string().optional(),
+    styleKey: z.string().optional(),
+    input: z
+      .object({
+        text: z.string(),
+        type: z.string(),
+        url: z.string().optional(),
+      })
+      .passthrough()
+      .optional(),
+    story: z
+      .object({ sentences: z.array(z.string()) })
+      .passthrough()
+      .optional(),
+    plan: z
+      .array(
+        z
+          .object({
+            sentenceIndex: z.number(),
+            searchQuery: z.string().optional(),
+            visualDescription: z.string().optional(),
+            durationSec: z.number().optional(),
+          })
+          .passthrough(),
+      )
+      .optional(),
+    shots: z.array(storyShotSchema).optional(),
+    captions: z
+      .array(
+        z
+          .object({
+            sentenceIndex: z.number(),
+            text: z.string(),
+            startTimeSec: z.number(),
+            endTimeSec: z.number(),
+          })
+          .passthrough(),
+      )
+      .optional(),
+    beats: z.array(storyBeatSchema).optional(),
+    overlayCaption: storyOverlayCaptionStyleSchema.optional(),
+    captionStyle: storyOverlayCaptionStyleSchema.optional(),
+    voicePreset: z.string().optional(),
+    voicePacePreset: z.string().optional(),
+    voiceOptions: z
+      .array(
+        z
+          .object({
+            key: z.string(),
+            name: z.string(),
+            gender: nullableString,
+            emotion: nullableString,
+          })
+          .passthrough(),
+      )
+      .optional(),
+    voiceSync: storyVoiceSyncSchema.optional(),
+    playbackTimelineV1: storyPlaybackTimelineV1Schema.nullable().optional(),
+    previewReadinessV1: storyPreviewReadinessV1Schema.nullable().optional(),
+    draftPreviewV1: storyDraftPreviewV1Schema.nullable().optional(),
+    captionOverlayV1: storyCaptionOverlayV1Schema.nullable().optional(),
+    billingEstimate: z
+      .object({
+        estimatedSec: z.number().nullable(),
+        source: nullableString,
+        computedAt: nullableString,
+        heuristicEstimatedSec: nullableNumber,
+        heuristicSource: nullableString,
+        heuristicComputedAt: nullableString,
+      })
+      .passthrough()
+      .optional(),
+    billing: z
+      .object({ billedSec: z.number().optional(), settledAt: nullableString })
+      .passthrough()
+      .optional(),
+    renderRecovery: z
+      .object({
+        state: z.string().optional(),
+        attemptId: nullableString,
+        shortId: nullableString,
+        startedAt: nullableString,
+        updatedAt: nullableString,
+        finishedAt: nullableString,
+        failedAt: nullableString,
+        code: nullableString,
+        message: nullableString,
+      })
+      .passthrough()
+      .nullable()
+      .optional(),
+    finalVideo: z
+      .object({
+        url: z.string(),
+        durationSec: z.number(),
+        jobId: z.string(),
+      })
+      .passthrough()
+      .nullable()
+      .optional(),
+  })
+  .passthrough();
+
+// -----------------------------------------------------------------------------
+// Partial story mutation payloads
+// -----------------------------------------------------------------------------
+
+export const storyBeatListSchema = z
+  .object({
+    sentences: z.array(z.string()),
+    shots: z.array(storyShotSchema),
+  })
+  .passthrough();
+
+export const storyInsertBeatSchema = storyBeatListSchema.extend({
+  insertedIndex: z.number().int().nonnegative(),
+});
+
+export const storySearchShotSchema = z
+  .object({
+    shot: storyShotSchema.optional(),
+    page: z.number().optional(),
+    hasMore: z.boolean().optional(),
+  })
+  .passthrough();
+
+export const storyCaptionStyleUpdateSchema = z
+  .object({ overlayCaption: storyOverlayCaptionStyleSchema.optional() })
+  .passthrough();
+
+// -----------------------------------------------------------------------------
+// Decoding helpers
+// -----------------------------------------------------------------------------
+
+export interface DecodeFailure {
+  path: string;
+  message: string;
+}
+
+/** Format a zod issue path as `data.shots[0].sentenceIndex`. */
+export function formatIssuePath(path: (string | number)[]): string {
+  return path.reduce<string>(
+    (out, segment) =>
+      typeof segment === "number" ? `${out}[${segment}]` : `${out}.${segment}`,
+    "data",
+  );
+}
+
+export function decodeWith<T>(
+  schema: z.ZodType<T>,
+  value: unknown,
+): { ok: true; value: T } | { ok: false; failure: DecodeFailure } {
+  const parsed = schema.safeParse(value);
+  if (parsed.success) {
+    return { ok: true, value: parsed.data };
+  }
+  const issue = parsed.error.issues[0];
+  return {
+    ok: false,
+    failure: {
+      path: formatIssuePath(issue?.path ?? []),
+      message: issue?.message ?? "Invalid value",
+    },
+  };
+}
+
+/** Parse a value against a schema, returning null instead of throwing. */
+export function parseOrNull<T>(schema: z.ZodType<T>, value: unknown): T | null {
+  const parsed = schema.safeParse(value);
+  return parsed.success ? parsed.data : null;
+}
@@ -0,0 +1,210 @@
+// Beat edits that have no single route and are composed from the documented
+// story endpoints. Each helper stops at the first failed call and returns it;
+// split, merge and batch text edits first try to undo the calls that already
+// landed.
+
+import {
+  storyDeleteBeat,
+  storyInsertBeat,
+  storySearchShot,
+  storyUpdateBeatText,
+  storyUpdateScript,
+  storyUpdateShot,
+  type NormalizedResponse,
+  type StoryInsertBeatData,
+} from "@/api/client";
+import { getBeatClipUpdates, type BeatArrangement } from "@/lib/beatOrder";
+
+/**
+ * Write `target` over `current`: update-script for the text, then update-shot
+ * for every slot whose clip has to follow its beat. Unmoved slots keep their
+ * text, so the server only marks moved beats' narration stale.
+ */
+export async function persistBeatArrangement(
+  sessionId: string,
+  current: BeatArrangement,
+  target: BeatArrangement,
+): Promise<NormalizedResponse<unknown>> {
+  const scriptResult = await storyUpdateScript({
+    sessionId,
+    sentences: target.sentences,
+  });
+  if (!scriptResult.ok) return scriptResult;
+
+  let result: NormalizedResponse<unknown> = scriptResult;
+  for (const update of getBeatClipUpdates(current, target)) {
+    result = await storyUpdateShot({ sessionId, ...update });
+    if (!result.ok) return result;
+  }
+  return result;
+}
+
+/**
+ * Insert `text` so it lands at `sentenceIndex`, then put `clipId` back on it
+ * with its `clipStartSec` trim.
+ */
+export async function insertStoryBeat(body: {
+  sessionId: string;
+  sentenceIndex: number;
+  text: string;
+  clipId: string | null;
+  clipStartSec?: number;
+}): Promise<NormalizedResponse<StoryInsertBeatData>> {
+  const { sessionId, sentenceIndex, text, clipId, clipStartSec } = body;
+  const inserted = await storyInsertBeat({
+    sessionId,
+    insertAfterIndex: sentenceIndex - 1,
+    text,
+  });
+  if (!inserted.ok || !clipId) return inserted;
+
+  const shot = await storyUpdateShot({
+    sessionId,
+    sentenceIndex: inserted.data.insertedIndex,
+    clipId,
+    ...(clipStartSec !== undefined ? { clipStartSec } : {}),
+  });
+  return shot.ok ? inserted : shot;
+}
+
+/**
+ * Search clips for a beat that has none (a freshly inserted one) and select
+ * the first candidate. `clipId` is null when the search came back empty.
+ */
+export async function searchClipForBeat(body: {
+  sessionId: string;
+  sentenceIndex: number;
+}): Promise<NormalizedResponse<{ clipId: string | null }>> {
+  const search = await storySearchShot(body);
+  if (!search.ok) return search;
+
+  const shot = search.data.shot;
+  const selectedId = shot?.selectedClip?.id;
+  if (selectedId) {
+    return {
+      ok: true,
+      data: { clipId: selectedId },
+      requestId: search.requestId,
+    };
+  }
+  const candidateId = shot?.candidates?.find((clip) => clip.id)?.id;
+  if (!candidateId) {
+    return { ok: true, data: { clipId: null }, requestId: search.requestId };
+  }
+  const updated = await storyUpdateShot({ ...body, clipId: candidateId });
+  if (!updated.ok) return updated;
+  return {
+    ok: true,
+    data: { clipId: candidateId },
+    requestId: updated.requestId,
+  };
+}
+
+/** Best-effort rollback; the caller reloads the session either way. */
+async function restoreBeatText(
+  sessionId: string,
+  sentenceIndex: number,
+  text: string,
+): Promise<void> {
+  const restored = await storyUpdateBeatText({
+    sessionId,
+    sentenceIndex,
+    text,
+  });
+  if (!restored.ok) {
+    console.warn("[story] beat text rollback failed:", restored.code);
+  }
+}
+
+/**
+ * Storyboarded split: the beat keeps `head` and its clip, `tail` is inserted
+ * right after it and starts on the same clip. If the insert or its clip
+ * fails, the inserted beat is removed and the beat gets `before` back.
+ */
+export async function splitStoryBeat(body: {
+  sessionId: string;
+  sentenceIndex: number;
+  before: string;
+  head: string;
+  tail: string;
+  clipId: string | null;
+}): Promise<NormalizedResponse<StoryInsertBeatData>> {
+  const { sessionId, sentenceIndex, before, head, tail, clipId } = body;
+  const updated = await storyUpdateBeatText({
+    sessionId,
+    sentenceIndex,
+    text: head,
+  });
+  if (!updated.ok) return updated;
+
+  const inserted = await storyInsertBeat({
+    sessionId,
+    insertAfterIndex: sentenceIndex,
+    text: tail,
+  });
+  if (!inserted.ok) {
+    await restoreBeatText(sessionId, sentenceIndex, before);
+    return inserted;
+  }
+  if (!clipId) return inserted;
+
+  const shot = await storyUpdateShot({
+    sessionId,
+    sentenceIndex: inserted.data.insertedIndex,
+    clipId,
+  });
+  if (shot.ok) return inserted;
+  const removed = await storyDeleteBeat({
+    sessionId,
+    sentenceIndex: inserted.data.insertedIndex,
+  });
+  if (removed.ok) {
+    await restoreBeatText(sessionId, sentenceIndex, before);
+  } else {
+    console.warn("[story] split rollback failed:", removed.code);
+  }
+  return shot;
+}
+
+/**
+ * Storyboarded batch edit: update-beat-text for each beat, in order. If one
+ * fails, the beats already updated get their `before` text back.
+ */
+export async function updateStoryBeatTexts(body: {
+  sessionId: string;
+  updates: { sentenceIndex: number; before: string; text: string }[];
+}): Promise<NormalizedResponse<unknown>> {
+  const { sessionId, updates } = body;
+  let result: NormalizedResponse<unknown> | null = null;
+  for (const [position, { sentenceIndex, text }] of updates.entries()) {
+    result = await storyUpdateBeatText({ sessionId, sentenceIndex, text });
+    if (!result.ok) {
+      for (const applied of updates.slice(0, position).reverse()) {
+        await restoreBeatText(sessionId, applied.sentenceIndex, applied.before);
+      }
+      return result;
+    }
+  }
+  return result ?? { ok: true, data: null, requestId: null };
+}
+
+/**
+ * Storyboarded merge: the beat takes `text` and keeps its clip; the next beat
+ * is deleted. If the delete fails, the beat gets `first` back.
+ */
+export async function mergeStoryBeats(body: {
+  sessionId: string;
+  sentenceIndex: number;
+  first: string;
+  text: string;
+}): Promise<NormalizedResponse<unknown>> {
+  const { sessionId, sentenceIndex, first, text } = body;
+  const updated = await storyUpdateBeatText({ sessionId, sentenceIndex, text });
+  if (!updated.ok) return updated;
+  const deleted = await storyDeleteBeat({
+    sessionId,
+    sentenceIndex: sentenceIndex + 1,
+  });
+  if (!deleted.ok) await restoreBeatText(sessionId, sentenceIndex, first);
+  return deleted;
+}
@@ -0,0 +1,200 @@
+import React, { useEffect, useState } from "react";
+import {
+  Modal,
+  Pressable,
+  ScrollView,
+  StyleSheet,
+  TextInput,
+  View,
+} from "react-native";
+import { Feather } from "@expo/vector-icons";
+
+import { ThemedText } from "@/components/ThemedText";
+import { Spacing } from "@/constants/theme";
+import { useClipCollections } from "@/contexts/ClipCollectionsContext";
+import { useTheme } from "@/hooks/useTheme";
+import { MAX_COLLECTION_NAME_CHARS } from "@/lib/clipCollections";
+import type { StoryClip } from "@/types/story";
+
+interface ClipCollectionPickerProps {
+  /** Clip being saved; the picker is hidden while null. */
+  clip: StoryClip | null;
+  onClose: () => void;
+}
+
+export function ClipCollectionPicker({
+  clip,
+  onClose,
+}: ClipCollectionPickerProps) {
+  const { theme } = useTheme();
+  const { collections, createCollection, isInCollection, toggleInCollection } =
+    useClipCollections();
+  const [newName, setNewName] = useState("");
+
+  useEffect(() => {
+    if (!clip) setNewName("");
+  }, [clip]);
+
+  const handleCreate = () => {
+    if (!clip) return;
+    if (createCollection(newName, clip)) setNewName("");
+  };
+
+  return (
+    <Modal
+      visible={clip !== null}
+      transparent
+      animationType="fade"
+      onRequestClose={onClose}
+    >
+      <Pressable style={styles.overlay} onPress={onClose}>
+        <Pressable
+          style={[styles.content, { backgroundColor: theme.backgroundDefault }]}
+          onPress={(event) => event.stopPropagation()}
+        >
+          <ThemedText style={styles.title}>Save to collection</ThemedText>
+          <ScrollView style={styles.list}>
+            {collections.map((collection) => {
+              const saved = isInCollection(collection.id, clip);
+              return (
+                <Pressable
+                  key={collection.id}
+                  accessibilityRole="checkbox"
+                  accessibilityState={{ checked: saved }}
+                  onPress={() => {
+                    if (clip) toggleInCollection(collection.id, clip);
+                  }}
+                  style={styles.row}
+                >
+                  <Feather
+                    name={saved ? "check-square" : "square"}
+                    size={20}
+                    color={saved ? theme.link : theme.textTertiary}
+                  />
+                  <ThemedText style={styles.rowText} numberOfLines={1}>
+                    {collection.name}
+                  </ThemedText>
+                  <ThemedText style={styles.rowCount}>
+                    {collection.clips.length}
+                  </ThemedText>
+                </Pressable>
+              );
+            })}
+          </ScrollView>
+          <View style={styles.createRow}>
+            <TextInput
+              style={[
+                styles.input,
+                {
+                  color: theme.textPrimary,
+                  backgroundColor: theme.backgroundSecondary,
+                  borderColor: theme.backgroundTertiary,
+                },
+              ]}
+              value={newName}
+              onChangeText={setNewName}
+              placeholder="New collection"
+              placeholderTextColor={theme.textTertiary}
+              maxLength={MAX_COLLECTION_NAME_CHARS}
+              onSubmitEditing={handleCreate}
+              returnKeyType="done"
+            />
+            <Pressable
+              accessibilityRole="button"
+              accessibilityLabel="Create collection"
+              disabled={!newName.trim()}
+              onPress={handleCreate}
+              style={[
+                styles.createButton,
+                {
+                  backgroundColor: theme.link,
+                  opacity: newName.trim() ? 1 : 0.5,
+                },
+              ]}
+            >
+              <Feather name="plus" size={20} color={theme.buttonText} />
+            </Pressable>
+          </View>
+          <Pressable
+            accessibilityRole="button"
+            onPress={onClose}
+            style={[
+              styles.doneButton,
+              { backgroundColor: theme.backgroundSecondary },
+            ]}
+          >
+            <ThemedText style={styles.doneText}>Done</ThemedText>
+          </Pressable>
+        </Pressable>
+      </Pressable>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: "rgba(0, 0, 0, 0.5)",
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  content: {
+    borderRadius: 12,
+    padding: Spacing.xl,
+    width: "85%",
+    maxHeight: "70%",
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: "600",
+    marginBottom: Spacing.md,
+    textAlign: "center",
+  },
+  list: {
+    flexGrow: 0,
+  },
+  row: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: Spacing.md,
+    paddingVertical: Spacing.sm,
+  },
+  rowText: {
+    flex: 1,
+    fontSize: 16,
+  },
+  rowCount: {
+    fontSize: 14,
+    opacity: 0.6,
+  },
+  createRow: {
+    flexDirection: "row",
+    gap: Spacing.sm,
+    marginTop: Spacing.md,
+  },
+  input: {
+    flex: 1,
+    height: 44,
+    paddingHorizontal: Spacing.md,
+    borderRadius: 8,
+    borderWidth: 1,
+    fontSize: 16,
+  },
+  createButton: {
+    width: 44,
+    height: 44,
+    borderRadius: 8,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  doneButton: {
+    marginTop: Spacing.lg,
+    paddingVertical: Spacing.md,
+    borderRadius: 8,
+    alignItems: "center",
+  },
+  doneText: {
+    fontSize: 16,
+    fontWeight: "500",
+  },
+});
@@ -0,0 +1,134 @@
+import React from "react";
+import { Pressable, StyleSheet, View } from "react-native";
+import { Feather } from "@expo/vector-icons";
+
+import { ThemedText } from "@/components/ThemedText";
+import { Spacing } from "@/constants/theme";
+import { useTheme } from "@/hooks/useTheme";
+import {
+  formatClipCredit,
+  isUnknownClipLicense,
+  type ClipCreditGroup,
+} from "@/lib/clipCredits";
+
+// Matches the warning toast.
+const WARNING_COLOR = "#F59E0B";
+
+interface ClipCreditsListProps {
+  groups: ClipCreditGroup[];
+  /** Copies the caption block; the screen owns the clipboard and toast. */
+  onCopy: () => void;
+}
+
+export function ClipCreditsList({ groups, onCopy }: ClipCreditsListProps) {
+  const { theme } = useTheme();
+
+  if (groups.length === 0) {
+    return (
+      <ThemedText style={[styles.empty, { color: theme.textTertiary }]}>
+        No stock clips selected yet.
+      </ThemedText>
+    );
+  }
+
+  return (
+    <View style={styles.container}>
+      {groups.map((group) => (
+        <View key={group.provider} style={styles.group}>
+          <ThemedText style={styles.provider}>{group.provider}</ThemedText>
+          {group.credits.map((credit) => (
+            <View key={credit.key} style={styles.creditRow}>
+              <ThemedText style={styles.creditText} selectable>
+                {formatClipCredit(credit)}
+              </ThemedText>
+              {isUnknownClipLicense(credit.license) ? (
+                <View
+                  accessibilityLabel="License unknown"
+                  style={styles.licenseBadge}
+                >
+                  <Feather
+                    name="alert-triangle"
+                    size={12}
+                    color={WARNING_COLOR}
+                  />
+                  <ThemedText
+                    style={[styles.licenseText, { color: WARNING_COLOR }]}
+                  >
+                    License unknown
+                  </ThemedText>
+                </View>
+              ) : (
+                <ThemedText
+                  style={[styles.licenseText, { color: theme.textTertiary }]}
+                >
+                  {credit.license}
+                </ThemedText>
+              )}
+            </View>
+          ))}
+        </View>
+      ))}
+      <Pressable
+        accessibilityRole="button"
+        accessibilityLabel="Copy credits"
+        onPress={onCopy}
+        style={({ pressed }) => [
+          styles.copyButton,
+          { backgroundColor: theme.backgroundSecondary },
+          pressed && styles.pressed,
+        ]}
+      >
+        <Feather name="copy" size={16} color={theme.link} />
+        <ThemedText style={[styles.copyText, { color: theme.link }]}>
+          Copy credits
+        </ThemedText>
+      </Pressable>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    gap: Spacing.md,
+  },
+  copyButton: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "center",
+    gap: Spacing.sm,
+    paddingVertical: Spacing.sm,
+    borderRadius: 8,
+  },
+  copyText: {
+    fontSize: 14,
+    fontWeight: "600",
+  },
+  creditRow: {
+    gap: 2,
+  },
+  creditText: {
+    fontSize: 14,
+  },
+  empty: {
+    fontSize: 14,
+    textAlign: "center",
+  },
+  group: {
+    gap: Spacing.xs,
+  },
+  licenseBadge: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: Spacing.xs,
+  },
+  licenseText: {
+    fontSize: 12,
+  },
+  pressed: {
+    opacity: 0.7,
+  },
+  provider: {
+    fontSize: 14,
+    fontWeight: "600",
+  },
+});
@@ -0,0 +1,139 @@
+import React from "react";
+import { Pressable, ScrollView, StyleSheet, View } from "react-native";
+
+import { ThemedText } from "@/components/ThemedText";
+import { BorderRadius, Spacing } from "@/constants/theme";
+import { useTheme } from "@/hooks/useTheme";
+import {
+  CLIP_MIN_DURATION_OPTIONS,
+  CLIP_ORIENTATIONS,
+  type ClipOrientation,
+  type ClipSearchFilters,
+} from "@/lib/clipFilters";
+
+const ORIENTATION_LABELS: Record<ClipOrientation, string> = {
+  portrait: "Portrait",
+  landscape: "Landscape",
+  square: "Square",
+};
+
+interface ClipSearchFilterBarProps {
+  filters: ClipSearchFilters;
+  onChange: (filters: ClipSearchFilters) => void;
+  /** Providers seen in the loaded results. */
+  providers: string[];
+}
+
+export function ClipSearchFilterBar({
+  filters,
+  onChange,
+  providers,
+}: ClipSearchFilterBarProps) {
+  const { theme } = useTheme();
+
+  const renderChip = (
+    key: string,
+    label: string,
+    selected: boolean,
+    onPress: () => void,
+  ) => (
+    <Pressable
+      key={key}
+      accessibilityRole="button"
+      accessibilityState={{ selected }}
+      onPress={onPress}
+      style={[
+        styles.chip,
+        {
+          backgroundColor: selected ? theme.link : theme.backgroundSecondary,
+        },
+      ]}
+    >
+      <ThemedText
+        style={[styles.chipText, selected && { color: theme.buttonText }]}
+      >
+        {label}
+      </ThemedText>
+    </Pressable>
+  );
+
+  const divider = (key: string) => (
+    <View
+      key={key}
+      style={[styles.divider, { backgroundColor: theme.backgroundTertiary }]}
+    />
+  );
+
+  return (
+    <ScrollView
+      horizontal
+      showsHorizontalScrollIndicator={false}
+      keyboardShouldPersistTaps="handled"
+      contentContainerStyle={styles.content}
+      style={styles.bar}
+    >
+      {CLIP_MIN_DURATION_OPTIONS.map((sec) =>
+        renderChip(
+          `duration-${sec}`,
+          sec === 0 ? "Any length" : `${sec}s+`,
+          filters.minDurationSec === sec,
+          () => onChange({ ...filters, minDurationSec: sec }),
+        ),
+      )}
+      {divider("orientation-divider")}
+      {CLIP_ORIENTATIONS.map((orientation) =>
+        renderChip(
+          `orientation-${orientation}`,
+          ORIENTATION_LABELS[orientation],
+          filters.orientation === orientation,
+          () =>
+            onChange({
+              ...filters,
+              orientation:
+                filters.orientation === orientation ? null : orientation,
+            }),
+        ),
+      )}
+      {providers.length > 1 && divider("provider-divider")}
+      {providers.length > 1 &&
+        providers.map((provider) =>
+          renderChip(
+            `provider-${provider}`,
+            provider.charAt(0).toUpperCase() + provider.slice(1),
+            filters.provider === provider,
+            () =>
+              onChange({
+                ...filters,
+                provider: filters.provider === provider ? null : provider,
+              }),
+          ),
+        )}
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  bar: {
+    flexGrow: 0,
+  },
+  chip: {
+    borderRadius: BorderRadius.full,
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.xs,
+  },
+  chipText: {
+    fontSize: 13,
+    fontWeight: "600",
+  },
+  content: {
+    alignItems: "center",
+    gap: Spacing.sm,
+    paddingBottom: Spacing.sm,
+    paddingHorizontal: Spacing.lg,
+  },
+  divider: {
+    height: 20,
+    marginHorizontal: Spacing.xs,
+    width: 1,
+  },
+});
@@ -0,0 +1,73 @@
+import React from "react";
+import { Pressable, StyleSheet, View } from "react-native";
+import { Feather } from "@expo/vector-icons";
+
+import { useTheme } from "@/hooks/useTheme";
+import { Spacing } from "@/constants/theme";
+
+interface EditHistoryControlsProps {
+  canUndo: boolean;
+  canRedo: boolean;
+  onUndo: () => void;
+  onRedo: () => void;
+}
+
+export function EditHistoryControls({
+  canUndo,
+  canRedo,
+  onUndo,
+  onRedo,
+}: EditHistoryControlsProps) {
+  const { theme } = useTheme();
+
+  return (
+    <View style={styles.container}>
+      <Pressable
+        testID="undo-button"
+        accessibilityRole="button"
+        accessibilityLabel="Undo"
+        accessibilityState={{ disabled: !canUndo }}
+        onPress={onUndo}
+        disabled={!canUndo}
+        hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+        style={({ pressed }) => [
+          styles.button,
+          !canUndo && styles.disabled,
+          pressed && canUndo && { opacity: 0.7 },
+        ]}
+      >
+        <Feather name="rotate-ccw" size={18} color={theme.tabIconDefault} />
+      </Pressable>
+      <Pressable
+        testID="redo-button"
+        accessibilityRole="button"
+        accessibilityLabel="Redo"
+        accessibilityState={{ disabled: !canRedo }}
+        onPress={onRedo}
+        disabled={!canRedo}
+        hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+        style={({ pressed }) => [
+          styles.button,
+          !canRedo && styles.disabled,
+          pressed && canRedo && { opacity: 0.7 },
+        ]}
+      >
+        <Feather name="rotate-cw" size={18} color={theme.tabIconDefault} />
+      </Pressable>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: Spacing.sm,
+  },
+  button: {
+    padding: Spacing.xs,
+  },
+  disabled: {
+    opacity: 0.35,
+  },
+});
@@ -0,0 +1,323 @@
+import React, { useEffect, useMemo, useState } from "react";
+import {
+  ActivityIndicator,
+  Modal,
+  Pressable,
+  ScrollView,
+  StyleSheet,
+  TextInput,
+  View,
+} from "react-native";
+
+import { ThemedText } from "@/components/ThemedText";
+import { BorderRadius, Spacing } from "@/constants/theme";
+import { useTheme } from "@/hooks/useTheme";
+import {
+  describeBeatIndices,
+  previewFindReplace,
+  type FindReplacePreview,
+} from "@/lib/findReplace";
+import { describeScriptLimitIssue } from "@/lib/scriptLimits";
+
+const WARNING_COLOR = "#F2B24D";
+
+interface FindReplacePanelProps {
+  visible: boolean;
+  sentences: string[];
+  /** True once the story has narration; changed beats will need a re-sync. */
+  hasVoiceSync: boolean;
+  isApplying: boolean;
+  onClose: () => void;
+  onApply: (preview: FindReplacePreview, label: string) => void;
+}
+
+export function FindReplacePanel({
+  visible,
+  sentences,
+  hasVoiceSync,
+  isApplying,
+  onClose,
+  onApply,
+}: FindReplacePanelProps) {
+  const { theme } = useTheme();
+  const [query, setQuery] = useState("");
+  const [replacement, setReplacement] = useState("");
+  const [caseSensitive, setCaseSensitive] = useState(false);
+  const [wholeWord, setWholeWord] = useState(false);
+
+  useEffect(() => {
+    if (!visible) {
+      setQuery("");
+      setReplacement("");
+    }
+  }, [visible]);
+
+  const preview = useMemo(
+    () =>
+      previewFindReplace(sentences, query, replacement, {
+        caseSensitive,
+        wholeWord,
+      }),
+    [caseSensitive, query, replacement, sentences, wholeWord],
+  );
+  const changedIndices = preview.changes.map((change) => change.sentenceIndex);
+  const blockedMessage =
+    preview.emptyBeatIndices.length > 0
+      ? `This would leave ${describeBeatIndices(preview.emptyBeatIndices)} empty.`
+      : preview.issues.length > 0
+        ? preview.issues.map(describeScriptLimitIssue).join(" ")
+        : null;
+  const canApply = preview.changes.length > 0 && !blockedMessage && !isApplying;
+
+  const renderToggle = (
+    label: string,
+    value: boolean,
+    onChange: (next: boolean) => void,
+  ) => (
+    <Pressable
+      accessibilityRole="switch"
+      accessibilityLabel={label}
+      accessibilityState={{ checked: value }}
+      onPress={() => onChange(!value)}
+      style={[
+        styles.toggle,
+        { backgroundColor: value ? theme.link : theme.backgroundSecondary },
+      ]}
+    >
+      <ThemedText
+        style={[styles.toggleText, value && { color: theme.buttonText }]}
+      >
+        {label}
+      </ThemedText>
+    </Pressable>
+  );
+
+  return (
+    <Modal
+      visible={visible}
+      transparent
+      animationType="fade"
+      onRequestClose={onClose}
+    >
+      <Pressable style={styles.overlay} onPress={onClose}>
+        <Pressable
+          style={[styles.content, { backgroundColor: theme.backgroundDefault }]}
+          onPress={(event) => event.stopPropagation()}
+        >
+          <ThemedText style={styles.title}>Find and replace</ThemedText>
+          <TextInput
+            accessibilityLabel="Find"
+            placeholder="Find"
+            placeholderTextColor={theme.tabIconDefault}
+            value={query}
+            onChangeText={setQuery}
+            autoCapitalize="none"
+            autoCorrect={false}
+            autoFocus
+            style={[
+              styles.input,
+              { backgroundColor: theme.backgroundSecondary, color: theme.text },
+            ]}
+          />
+          <TextInput
+            accessibilityLabel="Replace with"
+            placeholder="Replace with"
+            placeholderTextColor={theme.tabIconDefault}
+            value={replacement}
+            onChangeText={setReplacement}
+            autoCapitalize="none"
+            autoCorrect={false}
+            style={[
+              styles.input,
+              { backgroundColor: theme.backgroundSecondary, color: theme.text },
+            ]}
+          />
+          <View style={styles.toggleRow}>
+            {renderToggle("Match case", caseSensitive, setCaseSensitive)}
+            {renderToggle("Whole word", wholeWord, setWholeWord)}
+          </View>
+
+          {query.length > 0 && (
+            <ThemedText
+              style={[styles.summary, { color: theme.tabIconDefault }]}
+              testID="find-replace-summary"
+            >
+              {preview.changes.length > 0
+                ? `${preview.matchCount} ${preview.matchCount === 1 ? "match" : "matches"} in ${describeBeatIndices(changedIndices)}`
+                : "No matches"}
+            </ThemedText>
+          )}
+          <ScrollView style={styles.previewList}>
+            {preview.changes.map((change) => (
+              <View
+                key={change.sentenceIndex}
+                style={[
+                  styles.previewItem,
+                  { borderColor: theme.backgroundSecondary },
+                ]}
+                testID={`find-replace-preview-${change.sentenceIndex}`}
+              >
+                <ThemedText
+                  style={[styles.previewLabel, { color: theme.tabIconDefault }]}
+                >
+                  Beat {change.sentenceIndex + 1}
+                </ThemedText>
+                <ThemedText
+                  style={[
+                    styles.previewBefore,
+                    { color: theme.tabIconDefault },
+                  ]}
+                >
+                  {change.before}
+                </ThemedText>
+                <ThemedText style={styles.previewAfter}>
+                  {change.after}
+                </ThemedText>
+              </View>
+            ))}
+          </ScrollView>
+          {blockedMessage ? (
+            <ThemedText style={[styles.notice, { color: WARNING_COLOR }]}>
+              {blockedMessage}
+            </ThemedText>
+          ) : hasVoiceSync && changedIndices.length > 0 ? (
+            <ThemedText
+              style={[styles.notice, { color: WARNING_COLOR }]}
+              testID="find-replace-voice-stale"
+            >
+              {`Voice sync will go stale for ${describeBeatIndices(changedIndices)}.`}
+            </ThemedText>
+          ) : null}
+
+          <View style={styles.buttons}>
+            <Pressable
+              accessibilityRole="button"
+              style={[
+                styles.button,
+                { backgroundColor: theme.backgroundSecondary },
+              ]}
+              onPress={onClose}
+            >
+              <ThemedText style={styles.buttonText}>Cancel</ThemedText>
+            </Pressable>
+            <Pressable
+              accessibilityRole="button"
+              accessibilityLabel="Replace all"
+              accessibilityState={{ disabled: !canApply }}
+              disabled={!canApply}
+              style={[
+                styles.button,
+                { backgroundColor: theme.link, opacity: canApply ? 1 : 0.5 },
+              ]}
+              onPress={() =>
+                onApply(
+                  preview,
+                  `Replaced "${query}" in ${describeBeatIndices(changedIndices)}`,
+                )
+              }
+            >
+              {isApplying ? (
+                <ActivityIndicator size="small" color={theme.buttonText} />
+              ) : (
+                <ThemedText
+                  style={[styles.buttonText, { color: theme.buttonText }]}
+                >
+                  Replace all
+                </ThemedText>
+              )}
+            </Pressable>
+          </View>
+        </Pressable>
+      </Pressable>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  button: {
+    alignItems: "center",
+    borderRadius: 8,
+    flex: 1,
+    paddingVertical: Spacing.md,
+  },
+  buttonText: {
+    fontSize: 16,
+    fontWeight: "500",
+  },
+  buttons: {
+    flexDirection: "row",
+    gap: Spacing.md,
+    marginTop: Spacing.lg,
+  },
+  content: {
+    borderRadius: 12,
+    maxWidth: 440,
+    padding: Spacing.xl,
+    width: "90%",
+  },
+  input: {
+    borderRadius: 8,
+    fontSize: 15,
+    marginBottom: Spacing.sm,
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.sm,
+  },
+  notice: {
+    fontSize: 13,
+    fontWeight: "600",
+    marginTop: Spacing.sm,
+  },
+  overlay: {
+    alignItems: "center",
+    backgroundColor: "rgba(0, 0, 0, 0.5)",
+    flex: 1,
+    justifyContent: "center",
+  },
+  previewAfter: {
+    fontSize: 14,
+    lineHeight: 19,
+  },
+  previewBefore: {
+    fontSize: 13,
+    lineHeight: 18,
+    textDecorationLine: "line-through",
+  },
+  previewItem: {
+    borderTopWidth: 1,
+    gap: 2,
+    paddingVertical: Spacing.sm,
+  },
+  previewLabel: {
+    fontSize: 11,
+    fontWeight: "600",
+    letterSpacing: 0.5,
+    textTransform: "uppercase",
+  },
+  previewList: {
+    maxHeight: 240,
+  },
+  summary: {
+    fontSize: 13,
+    marginBottom: Spacing.xs,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: "600",
+    marginBottom: Spacing.lg,
+    textAlign: "center",
+  },
+  toggle: {
+    borderRadius: BorderRadius.full,
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.xs,
+  },
+  toggleRow: {
+    flexDirection: "row",
+    gap: Spacing.sm,
+    marginBottom: Spacing.md,
+  },
+  toggleText: {
+    fontSize: 13,
+    fontWeight: "600",
+  },
+});
@@ -0,0 +1,149 @@
+import React, { useState } from "react";
+import {
+  Platform,
+  type AccessibilityActionEvent,
+  type LayoutChangeEvent,
+  type StyleProp,
+  type ViewStyle,
+} from "react-native";
+import { Gesture, GestureDetector } from "react-native-gesture-handler";
+import Animated, {
+  runOnJS,
+  useAnimatedStyle,
+  useSharedValue,
+  withSpring,
+} from "react-native-reanimated";
+import * as Haptics from "expo-haptics";
+
+const LONG_PRESS_MS = 350;
+const DRAG_SCALE = 1.03;
+
+interface ReorderableItemProps {
+  children: React.ReactNode;
+  index: number;
+  count: number;
+  /** Drag axis; "y" for lists, "x" for the horizontal deck. */
+  axis?: "x" | "y";
+  /** Distance between neighbouring items. Defaults to the measured size. */
+  step?: number;
+  /** Added to the measured size when the list spaces items with a gap. */
+  gap?: number;
+  enabled?: boolean;
+  /** Read out by screen readers, e.g. "Beat 2". */
+  accessibilityLabel: string;
+  onMove: (fromIndex: number, toIndex: number) => void;
+  /** Long press released without moving (drag owns the long press). */
+  onLongPress?: () => void;
+  style?: StyleProp<ViewStyle>;
+}
+
+/**
+ * Long-press, then drag along one axis to move an item. The drop slot is the
+ * drag distance in whole steps; the parent reorders its data in `onMove`.
+ * "Move earlier" / "Move later" accessibility actions do the same in one step.
+ */
+export function ReorderableItem({
+  children,
+  index,
+  count,
+  axis = "y",
+  step,
+  gap = 0,
+  enabled = true,
+  accessibilityLabel,
+  onMove,
+  onLongPress,
+  style,
+}: ReorderableItemProps) {
+  const [measuredStep, setMeasuredStep] = useState(0);
+  const offset = useSharedValue(0);
+  const dragging = useSharedValue(false);
+  const stepSize = step ?? (measuredStep > 0 ? measuredStep + gap : 0);
+
+  const handleLayout = (event: LayoutChangeEvent) => {
+    const { width, height } = event.nativeEvent.layout;
+    setMeasuredStep(axis === "x" ? width : height);
+  };
+
+  const handleDragStart = () => {
+    if (Platform.OS !== "web") {
+      Haptics.selectionAsync();
+    }
+  };
+
+  const handleDrop = (toIndex: number) => {
+    if (toIndex === index) {
+      onLongPress?.();
+      return;
+    }
+    onMove(index, toIndex);
+  };
+
+  const pan = Gesture.Pan()
+    .enabled(enabled && count > 1 && stepSize > 0)
+    .activateAfterLongPress(LONG_PRESS_MS)
+    .onStart(() => {
+      dragging.value = true;
+      runOnJS(handleDragStart)();
+    })
+    .onUpdate((event) => {
+      offset.value = axis === "x" ? event.translationX : event.translationY;
+    })
+    .onEnd((event) => {
+      const distance = axis === "x" ? event.translationX : event.translationY;
+      const toIndex = Math.max(
+        0,
+        Math.min(count - 1, index + Math.round(distance / stepSize)),
+      );
+      if (toIndex !== index) {
+        // The list re-renders with the item in its new slot.
+        offset.value = 0;
+      }
+      runOnJS(handleDrop)(toIndex);
+    })
+    .onFinalize(() => {
+      dragging.value = false;
+      offset.value = withSpring(0, { damping: 18, stiffness: 180 });
+    });
+
+  const animatedStyle = useAnimatedStyle(() => ({
+    zIndex: dragging.value ? 20 : 0,
+    transform: [
+      axis === "x"
+        ? { translateX: offset.value }
+        : { translateY: offset.value },
+      { scale: dragging.value ? DRAG_SCALE : 1 },
+    ],
+  }));
+
+  const accessibilityActions = enabled
+    ? [
+        ...(index > 0 ? [{ name: "moveEarlier", label: "Move earlier" }] : []),
+        ...(index < count - 1
+          ? [{ name: "moveLater", label: "Move later" }]
+          : []),
+      ]
+    : [];
+
+  const handleAccessibilityAction = (event: AccessibilityActionEvent) => {
+    if (event.nativeEvent.actionName === "moveEarlier") {
+      onMove(index, index - 1);
+    } else if (event.nativeEvent.actionName === "moveLater") {
+      onMove(index, index + 1);
+    }
+  };
+
+  return (
+    <GestureDetector gesture={pan}>
+      <Animated.View
+        accessibilityLabel={accessibilityLabel}
+        accessibilityActions={accessibilityActions}
+        onAccessibilityAction={handleAccessibilityAction}
+        onLayout={step === undefined ? handleLayout : undefined}
+        style={[style, animatedStyle]}
+      >
+        {children}
+      </Animated.View>
+    </GestureDetector>
+  );
+}
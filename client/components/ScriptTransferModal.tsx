@@ -0,0 +1,219 @@
+import React, { useState } from "react";
+import { Modal, Pressable, StyleSheet, Switch, View } from "react-native";
+import { Feather } from "@expo/vector-icons";
+
+import { ThemedText } from "@/components/ThemedText";
+import { BorderRadius, Spacing } from "@/constants/theme";
+import { useTheme } from "@/hooks/useTheme";
+import type { ScriptTransferTarget } from "@/hooks/useScriptTransfer";
+import type { ScriptExportFormat } from "@/lib/scriptTransfer";
+
+const FORMATS: { key: ScriptExportFormat; label: string }[] = [
+  { key: "text", label: "Text" },
+  { key: "markdown", label: "Markdown" },
+  { key: "json", label: "JSON" },
+];
+
+interface ScriptTransferModalProps {
+  visible: boolean;
+  /** Plan notes exist once the storyboard has been planned. */
+  hasPlan: boolean;
+  disabled: boolean;
+  onClose: () => void;
+  onExport: (
+    format: ScriptExportFormat,
+    options: { includePlan: boolean; target: ScriptTransferTarget },
+  ) => void;
+  onImport: (source: ScriptTransferTarget) => void;
+}
+
+export function ScriptTransferModal({
+  visible,
+  hasPlan,
+  disabled,
+  onClose,
+  onExport,
+  onImport,
+}: ScriptTransferModalProps) {
+  const { theme } = useTheme();
+  const [format, setFormat] = useState<ScriptExportFormat>("text");
+  const [includePlan, setIncludePlan] = useState(false);
+
+  const renderAction = (
+    label: string,
+    icon: React.ComponentProps<typeof Feather>["name"],
+    onPress: () => void,
+  ) => (
+    <Pressable
+      accessibilityRole="button"
+      accessibilityLabel={label}
+      accessibilityState={{ disabled }}
+      disabled={disabled}
+      onPress={onPress}
+      style={({ pressed }) => [
+        styles.action,
+        { backgroundColor: theme.backgroundSecondary },
+        disabled && styles.disabled,
+        pressed && !disabled && { opacity: 0.75 },
+      ]}
+    >
+      <Feather name={icon} size={16} color={theme.text} />
+      <ThemedText style={styles.actionText}>{label}</ThemedText>
+    </Pressable>
+  );
+
+  return (
+    <Modal
+      visible={visible}
+      transparent
+      animationType="fade"
+      onRequestClose={onClose}
+    >
+      <Pressable style={styles.overlay} onPress={onClose}>
+        <Pressable
+          style={[styles.content, { backgroundColor: theme.backgroundDefault }]}
+          onPress={(event) => event.stopPropagation()}
+        >
+          <ThemedText style={styles.title}>Import / Export</ThemedText>
+
+          <ThemedText
+            style={[styles.sectionLabel, { color: theme.tabIconDefault }]}
+          >
+            Export
+          </ThemedText>
+          <View style={styles.formatRow}>
+            {FORMATS.map((option) => {
+              const selected = option.key === format;
+              return (
+                <Pressable
+                  key={option.key}
+                  accessibilityRole="button"
+                  accessibilityState={{ selected }}
+                  onPress={() => setFormat(option.key)}
+                  style={[
+                    styles.formatChip,
+                    {
+                      backgroundColor: selected
+                        ? theme.link
+                        : theme.backgroundSecondary,
+                    },
+                  ]}
+                >
+                  <ThemedText
+                    style={[
+                      styles.formatText,
+                      selected && { color: theme.buttonText },
+                    ]}
+                  >
+                    {option.label}
+                  </ThemedText>
+                </Pressable>
+              );
+            })}
+          </View>
+          {hasPlan && (
+            <View style={styles.switchRow}>
+              <ThemedText style={styles.switchLabel}>
+                Include clip search notes
+              </ThemedText>
+              <Switch
+                accessibilityLabel="Include clip search notes"
+                value={includePlan}
+                onValueChange={setIncludePlan}
+              />
+            </View>
+          )}
+          <View style={styles.actionRow}>
+            {renderAction("Copy", "copy", () =>
+              onExport(format, { includePlan, target: "clipboard" }),
+            )}
+            {renderAction("Save file", "share", () =>
+              onExport(format, { includePlan, target: "file" }),
+            )}
+          </View>
+
+          <ThemedText
+            style={[styles.sectionLabel, { color: theme.tabIconDefault }]}
+          >
+            Import (replaces all beats)
+          </ThemedText>
+          <View style={styles.actionRow}>
+            {renderAction("Paste", "clipboard", () => onImport("clipboard"))}
+            {renderAction("Open file", "file-text", () => onImport("file"))}
+          </View>
+        </Pressable>
+      </Pressable>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  action: {
+    alignItems: "center",
+    borderRadius: BorderRadius.xs,
+    flex: 1,
+    flexDirection: "row",
+    gap: Spacing.sm,
+    justifyContent: "center",
+    paddingVertical: Spacing.md,
+  },
+  actionRow: {
+    flexDirection: "row",
+    gap: Spacing.md,
+  },
+  actionText: {
+    fontSize: 15,
+    fontWeight: "500",
+  },
+  content: {
+    borderRadius: 12,
+    maxWidth: 420,
+    padding: Spacing.xl,
+    width: "86%",
+  },
+  disabled: {
+    opacity: 0.4,
+  },
+  formatChip: {
+    borderRadius: BorderRadius.full,
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.xs,
+  },
+  formatRow: {
+    flexDirection: "row",
+    gap: Spacing.sm,
+    marginBottom: Spacing.md,
+  },
+  formatText: {
+    fontSize: 13,
+    fontWeight: "600",
+  },
+  overlay: {
+    alignItems: "center",
+    backgroundColor: "rgba(0, 0, 0, 0.5)",
+    flex: 1,
+    justifyContent: "center",
+  },
+  sectionLabel: {
+    fontSize: 12,
+    fontWeight: "600",
+    letterSpacing: 0.5,
+    marginBottom: Spacing.sm,
+    marginTop: Spacing.lg,
+    textTransform: "uppercase",
+  },
+  switchLabel: {
+    flex: 1,
+    fontSize: 14,
+  },
+  switchRow: {
+    alignItems: "center",
+    flexDirection: "row",
+    marginBottom: Spacing.md,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: "600",
+    textAlign: "center",
+  },
+});
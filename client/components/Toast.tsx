@@ -25,10 +25,17 @@ const COLORS = {
 
 export type ToastType = "success" | "error" | "warning" | "info";
 
+/** Optional inline button, e.g. "Undo" on an edit confirmation. */
+export interface ToastAction {
+  label: string;
+  onPress: () => void;
+}
+
 interface ToastProps {
   visible: boolean;
   message: string;
   type?: ToastType;
+  action?: ToastAction | null;
   duration?: number;
   onHide: () => void;
 }
@@ -37,6 +44,7 @@ export function Toast({
   visible,
   message,
   type = "info",
+  action = null,
   duration = 4000,
   onHide,
 }: ToastProps) {
@@ -74,7 +82,7 @@ export function Toast({
         clearTimeout(timeoutRef.current);
       }
     };
-  }, [visible]);
+  }, [visible, message]);
 
   const hideToast = () => {
     translateY.value = withSpring(-100, { damping: 15, stiffness: 150 });
@@ -139,6 +147,20 @@ export function Toast({
         <ThemedText style={styles.message} numberOfLines={2}>
           {message}
         </ThemedText>
+        {action ? (
+          <Pressable
+            testID="toast-action"
+            accessibilityRole="button"
+            onPress={() => {
+              hideToast();
+              action.onPress();
+            }}
+            hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+            style={styles.actionButton}
+          >
+            <ThemedText style={styles.actionText}>{action.label}</ThemedText>
+          </Pressable>
+        ) : null}
         <Pressable
           onPress={hideToast}
           hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
@@ -171,6 +193,15 @@ const styles = StyleSheet.create({
   icon: {
     marginRight: Spacing.md,
   },
+  actionButton: {
+    marginRight: Spacing.md,
+  },
+  actionText: {
+    fontSize: 14,
+    fontWeight: "700",
+    color: "#FFFFFF",
+    textDecorationLine: "underline",
+  },
   message: {
     flex: 1,
     fontSize: 14,
@@ -0,0 +1,228 @@
+import React from "react";
+import { Pressable, StyleSheet, View } from "react-native";
+import { Feather } from "@expo/vector-icons";
+
+import { ThemedText } from "@/components/ThemedText";
+import { BorderRadius, Spacing } from "@/constants/theme";
+import {
+  MAX_BEAT_CHARS,
+  MAX_BEATS,
+  MAX_TOTAL_CHARS,
+  describeScriptLimitIssue,
+  getScriptLength,
+  type ScriptLimitIssue,
+} from "@/lib/scriptLimits";
+
+const COLORS = {
+  primary: "#4A5FFF",
+  textPrimary: "#1A1D29",
+  textSecondary: "#6B7280",
+  border: "#E5E7EB",
+  error: "#EF4444",
+  errorSurface: "#FEF2F2",
+};
+
+interface PastedScriptReviewProps {
+  beats: string[];
+  issues: ScriptLimitIssue[];
+  disabled: boolean;
+  onSplitBeat: (index: number) => void;
+  onRemoveBeat: (index: number) => void;
+  onFitToLimits: () => void;
+}
+
+export function PastedScriptReview({
+  beats,
+  issues,
+  disabled,
+  onSplitBeat,
+  onRemoveBeat,
+  onFitToLimits,
+}: PastedScriptReviewProps) {
+  if (beats.length === 0) return null;
+
+  const totalChars = getScriptLength(beats);
+  const scriptIssues = issues.filter((issue) => issue.kind !== "beat_too_long");
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.summaryRow}>
+        <ThemedText
+          style={[
+            styles.summaryText,
+            beats.length > MAX_BEATS && styles.errorText,
+          ]}
+        >
+          {beats.length}/{MAX_BEATS} beats
+        </ThemedText>
+        <ThemedText
+          style={[
+            styles.summaryText,
+            totalChars > MAX_TOTAL_CHARS && styles.errorText,
+          ]}
+        >
+          {totalChars}/{MAX_TOTAL_CHARS} characters
+        </ThemedText>
+      </View>
+
+      {beats.map((beat, index) => {
+        const tooLong = beat.length > MAX_BEAT_CHARS;
+        return (
+          <View
+            key={`${index}-${beat}`}
+            testID={`pasted-beat-${index}`}
+            style={[styles.beatRow, tooLong && styles.beatRowError]}
+          >
+            <View style={styles.beatHeader}>
+              <ThemedText style={styles.beatLabel}>Beat {index + 1}</ThemedText>
+              <ThemedText
+                style={[styles.beatCount, tooLong && styles.errorText]}
+              >
+                {beat.length}/{MAX_BEAT_CHARS}
+              </ThemedText>
+            </View>
+            <ThemedText style={styles.beatText}>{beat}</ThemedText>
+            <View style={styles.beatActions}>
+              {tooLong ? (
+                <Pressable
+                  testID={`pasted-beat-split-${index}`}
+                  onPress={() => onSplitBeat(index)}
+                  disabled={disabled}
+                  hitSlop={8}
+                  style={styles.actionButton}
+                >
+                  <Feather name="scissors" size={14} color={COLORS.primary} />
+                  <ThemedText style={styles.actionText}>Split</ThemedText>
+                </Pressable>
+              ) : null}
+              <Pressable
+                testID={`pasted-beat-remove-${index}`}
+                onPress={() => onRemoveBeat(index)}
+                disabled={disabled}
+                hitSlop={8}
+                style={styles.actionButton}
+              >
+                <Feather name="x" size={14} color={COLORS.textSecondary} />
+                <ThemedText
+                  style={[styles.actionText, { color: COLORS.textSecondary }]}
+                >
+                  Remove
+                </ThemedText>
+              </Pressable>
+            </View>
+          </View>
+        );
+      })}
+
+      {scriptIssues.map((issue) => (
+        <ThemedText
+          key={issue.kind}
+          style={[styles.issueText, styles.errorText]}
+        >
+          {describeScriptLimitIssue(issue)}
+        </ThemedText>
+      ))}
+
+      {issues.length > 0 ? (
+        <Pressable
+          testID="pasted-script-fit"
+          onPress={onFitToLimits}
+          disabled={disabled}
+          style={({ pressed }) => [
+            styles.fitButton,
+            pressed && styles.fitButtonPressed,
+          ]}
+        >
+          <Feather name="check-circle" size={16} color={COLORS.primary} />
+          <ThemedText style={styles.fitButtonText}>
+            Split long beats and trim to fit
+          </ThemedText>
+        </Pressable>
+      ) : null}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    gap: Spacing.sm,
+    marginBottom: Spacing.md,
+  },
+  summaryRow: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+  },
+  summaryText: {
+    fontSize: 12,
+    fontWeight: "600",
+    color: COLORS.textSecondary,
+  },
+  errorText: {
+    color: COLORS.error,
+  },
+  beatRow: {
+    borderWidth: 1,
+    borderColor: COLORS.border,
+    borderRadius: BorderRadius.xs,
+    padding: Spacing.sm,
+  },
+  beatRowError: {
+    borderColor: COLORS.error,
+    backgroundColor: COLORS.errorSurface,
+  },
+  beatHeader: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    marginBottom: Spacing.xs,
+  },
+  beatLabel: {
+    fontSize: 12,
+    fontWeight: "600",
+    color: COLORS.textSecondary,
+  },
+  beatCount: {
+    fontSize: 12,
+    color: COLORS.textSecondary,
+  },
+  beatText: {
+    fontSize: 14,
+    color: COLORS.textPrimary,
+  },
+  beatActions: {
+    flexDirection: "row",
+    justifyContent: "flex-end",
+    gap: Spacing.lg,
+    marginTop: Spacing.xs,
+  },
+  actionButton: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: Spacing.xs,
+  },
+  actionText: {
+    fontSize: 13,
+    fontWeight: "600",
+    color: COLORS.primary,
+  },
+  issueText: {
+    fontSize: 13,
+  },
+  fitButton: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "center",
+    gap: Spacing.sm,
+    paddingVertical: Spacing.sm,
+    borderWidth: 1,
+    borderColor: COLORS.primary,
+    borderRadius: BorderRadius.xs,
+  },
+  fitButtonPressed: {
+    opacity: 0.7,
+  },
+  fitButtonText: {
+    fontSize: 14,
+    fontWeight: "600",
+    color: COLORS.primary,
+  },
+});
@@ -3,11 +3,19 @@ import { Modal, Pressable, StyleSheet, View } from "react-native";
 
 import { Spacing } from "@/constants/theme";
 import { ThemedText } from "@/components/ThemedText";
+import type { BeatInsertPosition } from "@/screens/story-editor/model";
 
 interface BeatActionsModalProps {
+  /** Whether the beat's selected clip is in the user's favorites. */
+  isClipFavorite?: boolean;
   onClose: () => void;
   onDeleteBeat: (sentenceIndex: number) => void;
+  onInsertBeat: (sentenceIndex: number, position: BeatInsertPosition) => void;
   onReplaceClip: (sentenceIndex: number) => void;
+  /** Omit when the beat has no selected clip to save. */
+  onToggleFavoriteClip?: (sentenceIndex: number) => void;
+  /** Omit when the beat has no playable clip to trim. */
+  onTrimClip?: (sentenceIndex: number) => void;
   selectedSentenceIndex: number | null;
   theme: {
     backgroundDefault: string;
@@ -18,9 +26,13 @@ interface BeatActionsModalProps {
 }
 
 export function BeatActionsModal({
+  isClipFavorite = false,
   onClose,
   onDeleteBeat,
+  onInsertBeat,
   onReplaceClip,
+  onToggleFavoriteClip,
+  onTrimClip,
   selectedSentenceIndex,
   theme,
 }: BeatActionsModalProps) {
@@ -39,6 +51,56 @@ export function BeatActionsModal({
           <ThemedText style={styles.modalTitle}>
             Beat {selectedSentenceIndex !== null ? selectedSentenceIndex + 1 : ""}
           </ThemedText>
+          <View style={[styles.modalButtons, styles.modalButtonsRow]}>
+            {(["before", "after"] as const).map((position) => (
+              <Pressable
+                key={position}
+                accessibilityRole="button"
+                style={[styles.modalButton, { backgroundColor: theme.backgroundSecondary }]}
+                onPress={() => {
+                  if (selectedSentenceIndex !== null) {
+                    onInsertBeat(selectedSentenceIndex, position);
+                  }
+                }}
+              >
+                <ThemedText style={styles.modalButtonText}>
+                  {position === "before" ? "Insert Before" : "Insert After"}
+                </ThemedText>
+              </Pressable>
+            ))}
+          </View>
+          {onTrimClip || onToggleFavoriteClip ? (
+            <View style={[styles.modalButtons, styles.modalButtonsRow]}>
+              {onToggleFavoriteClip ? (
+                <Pressable
+                  accessibilityRole="button"
+                  style={[styles.modalButton, { backgroundColor: theme.backgroundSecondary }]}
+                  onPress={() => {
+                    if (selectedSentenceIndex !== null) {
+                      onToggleFavoriteClip(selectedSentenceIndex);
+                    }
+                  }}
+                >
+                  <ThemedText style={styles.modalButtonText}>
+                    {isClipFavorite ? "Unfavorite Clip" : "Favorite Clip"}
+                  </ThemedText>
+                </Pressable>
+              ) : null}
+              {onTrimClip ? (
+                <Pressable
+                  accessibilityRole="button"
+                  style={[styles.modalButton, { backgroundColor: theme.backgroundSecondary }]}
+                  onPress={() => {
+                    if (selectedSentenceIndex !== null) {
+                      onTrimClip(selectedSentenceIndex);
+                    }
+                  }}
+                >
+                  <ThemedText style={styles.modalButtonText}>Trim Clip</ThemedText>
+                </Pressable>
+              ) : null}
+            </View>
+          ) : null}
           <View style={styles.modalButtons}>
             <Pressable
               style={[
@@ -103,6 +165,9 @@ const styles = StyleSheet.create({
     flexDirection: "row",
     gap: Spacing.md,
   },
+  modalButtonsRow: {
+    marginBottom: Spacing.md,
+  },
   modalContent: {
     borderRadius: 12,
     padding: Spacing.xl,
@@ -12,23 +12,39 @@ import { Feather } from "@expo/vector-icons";
 
 import { Spacing } from "@/constants/theme";
 import { ThemedText } from "@/components/ThemedText";
-import type { Beat, CaptionPlacement } from "@/screens/story-editor/model";
+import { EditHistoryControls } from "@/components/EditHistoryControls";
+import { ClipCandidateStrip } from "@/components/story-editor/ClipCandidateStrip";
+import type { StoryClip } from "@/types/story";
+import type { Beat, CaptionPlacement, CaptionPlacementMode } from "@/screens/story-editor/model";
 import { CAPTION_PLACEMENTS } from "@/screens/story-editor/model";
 
 interface BeatEditorPanelProps {
-  captionPlacement: CaptionPlacement;
+  canRedo: boolean;
+  canUndo: boolean;
+  /** "custom" after a drag on the preview stage; no preset is highlighted. */
+  captionPlacement: CaptionPlacementMode;
+  /** Search candidates for the selected beat's shot; one tap swaps the clip. */
+  clipOptions: StoryClip[];
   draftText: string;
   editorCollapsed: boolean;
   editorTranslateY: Animated.Value;
   isSaving: boolean;
   onChangeDraftText: (text: string) => void;
+  onFindReplace: () => void;
   onFocus: () => void;
   onLayout: (height: number) => void;
   onPlacementChange: (placement: CaptionPlacement) => void;
+  onRedo: () => void;
   onSave: (text: string) => void;
+  onSelectClip: (clip: StoryClip) => void;
   onShowActions: (sentenceIndex: number) => void;
+  onShowCaptionStyle: () => void;
+  onShowCredits: () => void;
   onToggleCollapsed: () => void;
+  onUndo: () => void;
   selectedBeat: Beat;
+  selectedClipId: string | null;
+  swappingClipId: string | null;
   textInputRef: React.RefObject<TextInput | null>;
   theme: {
     backgroundSecondary: string;
@@ -40,19 +56,30 @@ interface BeatEditorPanelProps {
 }
 
 export function BeatEditorPanel({
+  canRedo,
+  canUndo,
   captionPlacement,
+  clipOptions,
   draftText,
   editorCollapsed,
   editorTranslateY,
   isSaving,
   onChangeDraftText,
+  onFindReplace,
   onFocus,
   onLayout,
   onPlacementChange,
+  onRedo,
   onSave,
+  onSelectClip,
   onShowActions,
+  onShowCaptionStyle,
+  onShowCredits,
   onToggleCollapsed,
+  onUndo,
   selectedBeat,
+  selectedClipId,
+  swappingClipId,
   textInputRef,
   theme,
 }: BeatEditorPanelProps) {
@@ -75,6 +102,40 @@ export function BeatEditorPanel({
       >
         <ThemedText style={styles.beatLabel}>Beat {selectedBeat.sentenceIndex + 1}</ThemedText>
         <View style={styles.beatLabelActions}>
+          <EditHistoryControls
+            canUndo={canUndo}
+            canRedo={canRedo}
+            onUndo={onUndo}
+            onRedo={onRedo}
+          />
+          <Pressable
+            accessibilityRole="button"
+            accessibilityLabel="Find and replace"
+            onPress={onFindReplace}
+            disabled={isSaving}
+            hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+            style={({ pressed }) => [styles.iconButton, { opacity: isSaving ? 0.4 : pressed ? 0.7 : 1 }]}
+          >
+            <Feather name="search" size={18} color={theme.tabIconDefault} />
+          </Pressable>
+          <Pressable
+            accessibilityRole="button"
+            accessibilityLabel="Caption style"
+            onPress={onShowCaptionStyle}
+            hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+            style={({ pressed }) => [styles.iconButton, { opacity: pressed ? 0.7 : 1 }]}
+          >
+            <Feather name="type" size={18} color={theme.tabIconDefault} />
+          </Pressable>
+          <Pressable
+            accessibilityRole="button"
+            accessibilityLabel="Clip credits"
+            onPress={onShowCredits}
+            hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+            style={({ pressed }) => [styles.iconButton, { opacity: pressed ? 0.7 : 1 }]}
+          >
+            <Feather name="award" size={18} color={theme.tabIconDefault} />
+          </Pressable>
           <Pressable
             onPress={() => onShowActions(selectedBeat.sentenceIndex)}
             hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
@@ -108,6 +169,15 @@ export function BeatEditorPanel({
       </View>
       {!editorCollapsed && (
         <>
+          <ClipCandidateStrip
+            clips={clipOptions}
+            disabled={isSaving || swappingClipId !== null}
+            onSelect={onSelectClip}
+            selectedClipId={selectedClipId}
+            sentenceIndex={selectedBeat.sentenceIndex}
+            swappingClipId={swappingClipId}
+            theme={theme}
+          />
           <View
             style={[styles.placementRow, { backgroundColor: theme.backgroundSecondary }]}
           >
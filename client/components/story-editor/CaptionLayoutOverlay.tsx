@@ -0,0 +1,274 @@
+import React, { useEffect, useRef, useState } from "react";
+import {
+  ActivityIndicator,
+  Image,
+  Pressable,
+  StyleSheet,
+  View,
+} from "react-native";
+import { Feather } from "@expo/vector-icons";
+import { Gesture, GestureDetector } from "react-native-gesture-handler";
+
+import type { CaptionPreviewMeta } from "@/api/client";
+import { ThemedText } from "@/components/ThemedText";
+import { BorderRadius, Spacing } from "@/constants/theme";
+import {
+  CAPTION_SAFE_ZONE,
+  snapCaptionPosition,
+  snapCaptionWidthPct,
+  type CaptionGuide,
+} from "@/lib/captionPosition";
+import type { CaptionPosition } from "@/screens/story-editor/model";
+
+/** What the preview stage needs to let the selected caption be moved. */
+export interface StoryboardCaptionLayout {
+  isLoading: boolean;
+  onPositionChange: (position: CaptionPosition) => void;
+  onWidthChange: (wPct: number) => void;
+  position: CaptionPosition;
+  /** Server-measured raster for the selected beat. */
+  preview: CaptionPreviewMeta | null;
+  wPct: number;
+}
+
+interface CaptionLayoutOverlayProps extends StoryboardCaptionLayout {
+  frameHeight: number;
+  frameWidth: number;
+  onDone: () => void;
+  theme: {
+    buttonText: string;
+    link: string;
+  };
+}
+
+export function CaptionLayoutOverlay({
+  frameHeight,
+  frameWidth,
+  isLoading,
+  onDone,
+  onPositionChange,
+  onWidthChange,
+  position,
+  preview,
+  theme,
+  wPct,
+}: CaptionLayoutOverlayProps) {
+  const [draftPosition, setDraftPosition] = useState(position);
+  const [draftWPct, setDraftWPct] = useState(wPct);
+  const [guides, setGuides] = useState<CaptionGuide[]>([]);
+  const dragStartRef = useRef(position);
+  const resizeStartRef = useRef(wPct);
+  // Gesture callbacks can outlive a render; read the latest draft from refs.
+  const draftPositionRef = useRef(position);
+  const draftWPctRef = useRef(wPct);
+  draftPositionRef.current = draftPosition;
+  draftWPctRef.current = draftWPct;
+
+  useEffect(() => {
+    setDraftPosition(position);
+  }, [position]);
+
+  useEffect(() => {
+    setDraftWPct(wPct);
+  }, [wPct]);
+
+  // The raster was measured at `wPct`; scale it until the re-measure lands.
+  const scale =
+    frameWidth / (typeof preview?.frameW === "number" ? preview.frameW : 1080);
+  const rasterW =
+    typeof preview?.rasterW === "number" ? preview.rasterW * scale : 0;
+  const rasterH =
+    typeof preview?.rasterH === "number" ? preview.rasterH * scale : 0;
+  const boxW = wPct > 0 ? rasterW * (draftWPct / wPct) : rasterW;
+  const boxH = rasterH;
+  const canEdit =
+    !!preview?.rasterUrl &&
+    boxW > 0 &&
+    boxH > 0 &&
+    frameWidth > 0 &&
+    frameHeight > 0;
+
+  const moveGesture = Gesture.Pan()
+    .runOnJS(true)
+    .enabled(canEdit)
+    .onStart(() => {
+      dragStartRef.current = draftPositionRef.current;
+    })
+    .onUpdate((event) => {
+      const snapped = snapCaptionPosition(
+        {
+          xPct: dragStartRef.current.xPct + event.translationX / frameWidth,
+          yPct: dragStartRef.current.yPct + event.translationY / frameHeight,
+        },
+        { width: boxW / frameWidth, height: boxH / frameHeight },
+      );
+      draftPositionRef.current = snapped.position;
+      setDraftPosition(snapped.position);
+      setGuides(snapped.guides);
+    })
+    .onEnd(() => {
+      setGuides([]);
+      onPositionChange(draftPositionRef.current);
+    });
+
+  const resizeGesture = Gesture.Pan()
+    .runOnJS(true)
+    .enabled(canEdit)
+    .onStart(() => {
+      resizeStartRef.current = draftWPctRef.current;
+    })
+    .onUpdate((event) => {
+      // The box grows from its centre, so each side moves by the drag.
+      const next = snapCaptionWidthPct(
+        resizeStartRef.current + ((2 * event.translationX) / frameWidth) * 100,
+      );
+      draftWPctRef.current = next;
+      setDraftWPct(next);
+    })
+    .onEnd(() => {
+      if (draftWPctRef.current !== wPct) onWidthChange(draftWPctRef.current);
+    });
+
+  return (
+    <View style={StyleSheet.absoluteFill} testID="caption-layout-overlay">
+      <View
+        pointerEvents="none"
+        style={[
+          styles.safeZone,
+          {
+            left: CAPTION_SAFE_ZONE.left * frameWidth,
+            top: CAPTION_SAFE_ZONE.top * frameHeight,
+            width:
+              (CAPTION_SAFE_ZONE.right - CAPTION_SAFE_ZONE.left) * frameWidth,
+            height:
+              (CAPTION_SAFE_ZONE.bottom - CAPTION_SAFE_ZONE.top) * frameHeight,
+          },
+        ]}
+      />
+      {guides.map((guide) => (
+        <View
+          key={`${guide.axis}-${guide.at}`}
+          pointerEvents="none"
+          style={[
+            styles.guide,
+            { backgroundColor: theme.link },
+            guide.axis === "x"
+              ? { left: guide.at * frameWidth, top: 0, bottom: 0, width: 1 }
+              : { top: guide.at * frameHeight, left: 0, right: 0, height: 1 },
+          ]}
+        />
+      ))}
+      {canEdit ? (
+        <GestureDetector gesture={moveGesture}>
+          <View
+            accessibilityLabel="Caption position"
+            style={[
+              styles.box,
+              {
+                borderColor: theme.link,
+                height: boxH,
+                left: draftPosition.xPct * frameWidth - boxW / 2,
+                top: draftPosition.yPct * frameHeight - boxH / 2,
+                width: boxW,
+              },
+            ]}
+            testID="caption-layout-box"
+          >
+            <Image
+              source={{ uri: preview!.rasterUrl }}
+              style={styles.raster}
+              resizeMode="stretch"
+            />
+            <GestureDetector gesture={resizeGesture}>
+              <View
+                accessibilityLabel="Resize caption"
+                hitSlop={{ top: 12, bottom: 12, left: 12, right: 12 }}
+                style={[styles.handle, { backgroundColor: theme.link }]}
+                testID="caption-layout-resize"
+              />
+            </GestureDetector>
+          </View>
+        </GestureDetector>
+      ) : (
+        <View style={styles.empty} pointerEvents="none">
+          {isLoading ? (
+            <ActivityIndicator color="#fff" />
+          ) : (
+            <ThemedText style={styles.emptyText}>
+              Select a beat with text to move its caption
+            </ThemedText>
+          )}
+        </View>
+      )}
+      <Pressable
+        accessibilityRole="button"
+        onPress={onDone}
+        style={[styles.doneButton, { backgroundColor: theme.link }]}
+        testID="caption-layout-done"
+      >
+        <Feather name="check" size={14} color={theme.buttonText} />
+        <ThemedText style={[styles.doneText, { color: theme.buttonText }]}>
+          Done
+        </ThemedText>
+      </Pressable>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  box: {
+    borderRadius: 4,
+    borderStyle: "dashed",
+    borderWidth: 1,
+    position: "absolute",
+  },
+  doneButton: {
+    alignItems: "center",
+    borderRadius: BorderRadius.full,
+    flexDirection: "row",
+    gap: Spacing.xs,
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.xs,
+    position: "absolute",
+    right: Spacing.sm,
+    top: Spacing.sm,
+  },
+  doneText: {
+    fontSize: 13,
+    fontWeight: "700",
+  },
+  empty: {
+    ...StyleSheet.absoluteFillObject,
+    alignItems: "center",
+    justifyContent: "center",
+    paddingHorizontal: Spacing.xl,
+  },
+  emptyText: {
+    color: "#fff",
+    fontSize: 13,
+    textAlign: "center",
+  },
+  guide: {
+    opacity: 0.9,
+    position: "absolute",
+  },
+  handle: {
+    borderRadius: 6,
+    height: 12,
+    marginTop: -6,
+    position: "absolute",
+    right: -6,
+    top: "50%",
+    width: 12,
+  },
+  raster: {
+    height: "100%",
+    width: "100%",
+  },
+  safeZone: {
+    borderColor: "rgba(255,255,255,0.35)",
+    borderStyle: "dashed",
+    borderWidth: 1,
+    position: "absolute",
+  },
+});
@@ -0,0 +1,258 @@
+import React, { useState } from "react";
+import { Alert, Pressable, StyleSheet, TextInput, View } from "react-native";
+import { Feather } from "@expo/vector-icons";
+
+import { ThemedText } from "@/components/ThemedText";
+import { Spacing } from "@/constants/theme";
+import {
+  MAX_CAPTION_PRESET_NAME_CHARS,
+  type CaptionPreset,
+} from "@/lib/captionPresets";
+
+export type CaptionPresetTransferSource = "clipboard" | "file";
+
+/** Preset list and actions shown at the top of the caption style sheet. */
+export interface CaptionPresetsSectionProps {
+  defaultPresetId: string | null;
+  isApplying: boolean;
+  onApply: (preset: CaptionPreset) => void;
+  onDelete: (presetId: string) => void;
+  onExport: (target: CaptionPresetTransferSource) => void;
+  onImport: (source: CaptionPresetTransferSource) => void;
+  /** Returns false when the name was rejected. */
+  onSave: (name: string) => boolean;
+  onSetDefault: (presetId: string | null) => void;
+  presets: CaptionPreset[];
+}
+
+interface Props extends CaptionPresetsSectionProps {
+  theme: {
+    backgroundSecondary: string;
+    buttonText: string;
+    link: string;
+    tabIconDefault: string;
+    text: string;
+  };
+}
+
+export function CaptionPresetsSection({
+  defaultPresetId,
+  isApplying,
+  onApply,
+  onDelete,
+  onExport,
+  onImport,
+  onSave,
+  onSetDefault,
+  presets,
+  theme,
+}: Props) {
+  const [isNaming, setIsNaming] = useState(false);
+  const [name, setName] = useState("");
+
+  const handleSave = () => {
+    if (!onSave(name)) return;
+    setIsNaming(false);
+    setName("");
+  };
+
+  const chooseSource = (
+    title: string,
+    onPick: (source: CaptionPresetTransferSource) => void,
+  ) => {
+    Alert.alert(title, undefined, [
+      { text: "Cancel", style: "cancel" },
+      { text: "Clipboard", onPress: () => onPick("clipboard") },
+      { text: "File", onPress: () => onPick("file") },
+    ]);
+  };
+
+  const showPresetActions = (preset: CaptionPreset) => {
+    const isDefault = preset.id === defaultPresetId;
+    Alert.alert(preset.name, undefined, [
+      { text: "Cancel", style: "cancel" },
+      isDefault
+        ? { text: "Stop using as default", onPress: () => onSetDefault(null) }
+        : {
+            text: "Use for new stories",
+            onPress: () => onSetDefault(preset.id),
+          },
+      ...(preset.builtIn
+        ? []
+        : [
+            {
+              text: "Delete",
+              style: "destructive" as const,
+              onPress: () => onDelete(preset.id),
+            },
+          ]),
+    ]);
+  };
+
+  return (
+    <View style={styles.section}>
+      <View style={styles.header}>
+        <ThemedText style={[styles.title, { color: theme.tabIconDefault }]}>
+          Presets
+        </ThemedText>
+        <View style={styles.headerActions}>
+          <Pressable
+            accessibilityRole="button"
+            accessibilityLabel="Import presets"
+            hitSlop={8}
+            onPress={() => chooseSource("Import presets from", onImport)}
+          >
+            <Feather name="download" size={16} color={theme.tabIconDefault} />
+          </Pressable>
+          <Pressable
+            accessibilityRole="button"
+            accessibilityLabel="Export presets"
+            hitSlop={8}
+            onPress={() => chooseSource("Export presets to", onExport)}
+          >
+            <Feather name="upload" size={16} color={theme.tabIconDefault} />
+          </Pressable>
+        </View>
+      </View>
+      <View style={styles.chips}>
+        {presets.map((preset) => {
+          const isDefault = preset.id === defaultPresetId;
+          return (
+            <Pressable
+              key={preset.id}
+              accessibilityRole="button"
+              accessibilityHint="Long press for more options"
+              disabled={isApplying}
+              onLongPress={() => showPresetActions(preset)}
+              onPress={() => onApply(preset)}
+              style={[
+                styles.chip,
+                { backgroundColor: theme.backgroundSecondary },
+                isApplying && styles.disabled,
+              ]}
+              testID={`caption-preset-${preset.id}`}
+            >
+              {isDefault ? (
+                <Feather name="star" size={12} color={theme.link} />
+              ) : null}
+              <ThemedText style={styles.chipText}>{preset.name}</ThemedText>
+            </Pressable>
+          );
+        })}
+        {!isNaming ? (
+          <Pressable
+            accessibilityRole="button"
+            onPress={() => setIsNaming(true)}
+            style={[styles.chip, { borderColor: theme.link }, styles.addChip]}
+          >
+            <Feather name="plus" size={12} color={theme.link} />
+            <ThemedText style={[styles.chipText, { color: theme.link }]}>
+              Save as preset
+            </ThemedText>
+          </Pressable>
+        ) : null}
+      </View>
+      {isNaming ? (
+        <View style={styles.nameRow}>
+          <TextInput
+            autoFocus
+            maxLength={MAX_CAPTION_PRESET_NAME_CHARS}
+            onChangeText={setName}
+            onSubmitEditing={handleSave}
+            placeholder="Preset name"
+            placeholderTextColor={theme.tabIconDefault}
+            returnKeyType="done"
+            style={[
+              styles.nameInput,
+              {
+                backgroundColor: theme.backgroundSecondary,
+                color: theme.text,
+              },
+            ]}
+            testID="caption-preset-name"
+            value={name}
+          />
+          <Pressable
+            accessibilityRole="button"
+            accessibilityLabel="Cancel"
+            hitSlop={8}
+            onPress={() => {
+              setIsNaming(false);
+              setName("");
+            }}
+          >
+            <Feather name="x" size={18} color={theme.tabIconDefault} />
+          </Pressable>
+          <Pressable
+            accessibilityRole="button"
+            accessibilityLabel="Save preset"
+            disabled={!name.trim()}
+            hitSlop={8}
+            onPress={handleSave}
+            style={!name.trim() && styles.disabled}
+            testID="caption-preset-save"
+          >
+            <Feather name="check" size={18} color={theme.link} />
+          </Pressable>
+        </View>
+      ) : null}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  addChip: {
+    backgroundColor: "transparent",
+    borderWidth: 1,
+  },
+  chip: {
+    alignItems: "center",
+    borderRadius: 14,
+    flexDirection: "row",
+    gap: Spacing.xs,
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.xs,
+  },
+  chipText: {
+    fontSize: 13,
+  },
+  chips: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: Spacing.xs,
+  },
+  disabled: {
+    opacity: 0.4,
+  },
+  header: {
+    alignItems: "center",
+    flexDirection: "row",
+    justifyContent: "space-between",
+    marginBottom: Spacing.xs,
+  },
+  headerActions: {
+    flexDirection: "row",
+    gap: Spacing.md,
+  },
+  nameInput: {
+    borderRadius: 8,
+    flex: 1,
+    fontSize: 14,
+    paddingHorizontal: Spacing.sm,
+    paddingVertical: Spacing.xs,
+  },
+  nameRow: {
+    alignItems: "center",
+    flexDirection: "row",
+    gap: Spacing.sm,
+    marginTop: Spacing.sm,
+  },
+  section: {
+    marginBottom: Spacing.md,
+  },
+  title: {
+    fontSize: 12,
+    fontWeight: "600",
+    textTransform: "uppercase",
+  },
+});
@@ -0,0 +1,370 @@
+import React from "react";
+import {
+  ActivityIndicator,
+  Image,
+  Modal,
+  Pressable,
+  ScrollView,
+  StyleSheet,
+  View,
+} from "react-native";
+import { Feather } from "@expo/vector-icons";
+
+import type { CaptionPreviewMeta, CaptionPreviewStyle } from "@/api/client";
+import {
+  CaptionPresetsSection,
+  type CaptionPresetsSectionProps,
+} from "@/components/story-editor/CaptionPresetsSection";
+import { ThemedText } from "@/components/ThemedText";
+import { Spacing } from "@/constants/theme";
+import {
+  CAPTION_STYLE_CONTROLS,
+  CAPTION_STYLE_SECTIONS,
+  stepCaptionStyleValue,
+  type CaptionStyleKey,
+} from "@/lib/captionStyle";
+
+interface CaptionStyleSheetProps {
+  captionStyle: Required<CaptionPreviewStyle>;
+  isPreviewLoading: boolean;
+  onChange: (patch: CaptionPreviewStyle) => void;
+  onClose: () => void;
+  onReset: () => void;
+  presets: CaptionPresetsSectionProps;
+  /** Server-measured raster for the selected beat, re-requested on every edit. */
+  preview: CaptionPreviewMeta | null;
+  theme: {
+    backgroundDefault: string;
+    backgroundSecondary: string;
+    buttonText: string;
+    link: string;
+    tabIconDefault: string;
+    text: string;
+  };
+  visible: boolean;
+}
+
+function formatNumber(value: number, unit?: string): string {
+  const rounded = Number.isInteger(value) ? String(value) : value.toFixed(1);
+  return unit ? `${rounded}${unit}` : rounded;
+}
+
+export function CaptionStyleSheet({
+  captionStyle,
+  isPreviewLoading,
+  onChange,
+  onClose,
+  onReset,
+  presets,
+  preview,
+  theme,
+  visible,
+}: CaptionStyleSheetProps) {
+  const renderControl = (key: CaptionStyleKey) => {
+    const control = CAPTION_STYLE_CONTROLS[key];
+    const value = captionStyle[key];
+
+    if (control.kind === "number") {
+      const current = Number(value);
+      const step = (direction: 1 | -1) =>
+        onChange({ [key]: stepCaptionStyleValue(key, current, direction) });
+      return (
+        <View key={key} style={styles.row}>
+          <ThemedText style={styles.label}>{control.label}</ThemedText>
+          <View style={styles.stepper}>
+            <Pressable
+              accessibilityRole="button"
+              accessibilityLabel={`Decrease ${control.label}`}
+              disabled={current <= control.min}
+              onPress={() => step(-1)}
+              style={[
+                styles.stepButton,
+                { backgroundColor: theme.backgroundSecondary },
+                current <= control.min && styles.disabled,
+              ]}
+            >
+              <Feather name="minus" size={16} color={theme.tabIconDefault} />
+            </Pressable>
+            <ThemedText style={styles.value} testID={`caption-style-${key}`}>
+              {formatNumber(current, control.unit)}
+            </ThemedText>
+            <Pressable
+              accessibilityRole="button"
+              accessibilityLabel={`Increase ${control.label}`}
+              disabled={current >= control.max}
+              onPress={() => step(1)}
+              style={[
+                styles.stepButton,
+                { backgroundColor: theme.backgroundSecondary },
+                current >= control.max && styles.disabled,
+              ]}
+            >
+              <Feather name="plus" size={16} color={theme.tabIconDefault} />
+            </Pressable>
+          </View>
+        </View>
+      );
+    }
+
+    if (control.kind === "color") {
+      return (
+        <View key={key} style={styles.row}>
+          <ThemedText style={styles.label}>{control.label}</ThemedText>
+          <View style={styles.swatches}>
+            {control.options.map((color) => {
+              const selected = String(value).toUpperCase() === color;
+              return (
+                <Pressable
+                  key={color}
+                  accessibilityRole="button"
+                  accessibilityLabel={`${control.label} ${color}`}
+                  accessibilityState={{ selected }}
+                  onPress={() => onChange({ [key]: color })}
+                  style={[
+                    styles.swatch,
+                    { backgroundColor: color },
+                    selected && { borderColor: theme.link, borderWidth: 2 },
+                  ]}
+                />
+              );
+            })}
+          </View>
+        </View>
+      );
+    }
+
+    return (
+      <View key={key} style={styles.optionsRow}>
+        <ThemedText style={styles.label}>{control.label}</ThemedText>
+        <View style={styles.chips}>
+          {control.options.map((option) => {
+            const selected = value === option.value;
+            return (
+              <Pressable
+                key={option.value}
+                accessibilityRole="button"
+                accessibilityState={{ selected }}
+                onPress={() => onChange({ [key]: option.value })}
+                style={[
+                  styles.chip,
+                  {
+                    backgroundColor: selected
+                      ? theme.link
+                      : theme.backgroundSecondary,
+                  },
+                ]}
+              >
+                <ThemedText
+                  style={[
+                    styles.chipText,
+                    selected && { color: theme.buttonText },
+                  ]}
+                >
+                  {option.label}
+                </ThemedText>
+              </Pressable>
+            );
+          })}
+        </View>
+      </View>
+    );
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      transparent
+      animationType="slide"
+      onRequestClose={onClose}
+    >
+      <View style={styles.overlay}>
+        <View
+          style={[styles.sheet, { backgroundColor: theme.backgroundDefault }]}
+        >
+          <ThemedText style={styles.title}>Caption style</ThemedText>
+          <View style={styles.preview}>
+            {preview?.rasterUrl ? (
+              <Image
+                source={{ uri: preview.rasterUrl }}
+                style={styles.previewImage}
+                resizeMode="contain"
+                testID="caption-style-preview"
+              />
+            ) : (
+              <ThemedText
+                style={[styles.previewHint, { color: theme.tabIconDefault }]}
+              >
+                Select a beat with text to preview
+              </ThemedText>
+            )}
+            {isPreviewLoading ? (
+              <ActivityIndicator style={styles.previewSpinner} color="#fff" />
+            ) : null}
+          </View>
+          <ScrollView style={styles.controls}>
+            <CaptionPresetsSection {...presets} theme={theme} />
+            {CAPTION_STYLE_SECTIONS.map((section) => (
+              <View key={section.title} style={styles.section}>
+                <ThemedText
+                  style={[styles.sectionTitle, { color: theme.tabIconDefault }]}
+                >
+                  {section.title}
+                </ThemedText>
+                {section.keys.map(renderControl)}
+              </View>
+            ))}
+          </ScrollView>
+          <View style={styles.buttons}>
+            <Pressable
+              accessibilityRole="button"
+              onPress={onReset}
+              style={[
+                styles.button,
+                { backgroundColor: theme.backgroundSecondary },
+              ]}
+            >
+              <ThemedText style={styles.buttonText}>
+                Reset to default
+              </ThemedText>
+            </Pressable>
+            <Pressable
+              accessibilityRole="button"
+              onPress={onClose}
+              style={[styles.button, { backgroundColor: theme.link }]}
+            >
+              <ThemedText
+                style={[styles.buttonText, { color: theme.buttonText }]}
+              >
+                Done
+              </ThemedText>
+            </Pressable>
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  button: {
+    alignItems: "center",
+    borderRadius: 8,
+    flex: 1,
+    paddingVertical: Spacing.md,
+  },
+  buttonText: {
+    fontSize: 16,
+    fontWeight: "500",
+  },
+  buttons: {
+    flexDirection: "row",
+    gap: Spacing.md,
+    marginTop: Spacing.lg,
+  },
+  chip: {
+    borderRadius: 14,
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.xs,
+  },
+  chipText: {
+    fontSize: 13,
+  },
+  chips: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: Spacing.xs,
+    marginTop: Spacing.xs,
+  },
+  controls: {
+    flexGrow: 0,
+    marginTop: Spacing.md,
+  },
+  disabled: {
+    opacity: 0.4,
+  },
+  label: {
+    fontSize: 14,
+  },
+  optionsRow: {
+    paddingVertical: Spacing.xs,
+  },
+  overlay: {
+    backgroundColor: "rgba(0, 0, 0, 0.5)",
+    flex: 1,
+    justifyContent: "flex-end",
+  },
+  preview: {
+    alignItems: "center",
+    backgroundColor: "#1C1C1E",
+    borderRadius: 8,
+    height: 120,
+    justifyContent: "center",
+    overflow: "hidden",
+  },
+  previewHint: {
+    fontSize: 13,
+  },
+  previewImage: {
+    height: "100%",
+    width: "100%",
+  },
+  previewSpinner: {
+    position: "absolute",
+  },
+  row: {
+    alignItems: "center",
+    flexDirection: "row",
+    justifyContent: "space-between",
+    paddingVertical: Spacing.xs,
+  },
+  section: {
+    marginBottom: Spacing.md,
+  },
+  sectionTitle: {
+    fontSize: 12,
+    fontWeight: "600",
+    marginBottom: Spacing.xs,
+    textTransform: "uppercase",
+  },
+  sheet: {
+    borderTopLeftRadius: 16,
+    borderTopRightRadius: 16,
+    maxHeight: "85%",
+    padding: Spacing.xl,
+    paddingBottom: Spacing["3xl"],
+  },
+  stepButton: {
+    alignItems: "center",
+    borderRadius: 6,
+    height: 28,
+    justifyContent: "center",
+    width: 28,
+  },
+  stepper: {
+    alignItems: "center",
+    flexDirection: "row",
+    gap: Spacing.sm,
+  },
+  swatch: {
+    borderColor: "rgba(128, 128, 128, 0.4)",
+    borderRadius: 12,
+    borderWidth: 1,
+    height: 24,
+    width: 24,
+  },
+  swatches: {
+    flexDirection: "row",
+    gap: Spacing.xs,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: "600",
+    marginBottom: Spacing.lg,
+    textAlign: "center",
+  },
+  value: {
+    fontSize: 14,
+    minWidth: 52,
+    textAlign: "center",
+  },
+});
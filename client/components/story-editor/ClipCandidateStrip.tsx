@@ -0,0 +1,165 @@
+import React from "react";
+import {
+  ActivityIndicator,
+  FlatList,
+  Image,
+  Pressable,
+  StyleSheet,
+  View,
+} from "react-native";
+import { Feather } from "@expo/vector-icons";
+
+import { ThemedText } from "@/components/ThemedText";
+import { Spacing } from "@/constants/theme";
+import type { StoryClip } from "@/types/story";
+
+const THUMB_W = 56;
+const THUMB_H = 84;
+
+interface ClipCandidateStripProps {
+  clips: StoryClip[];
+  disabled: boolean;
+  onSelect: (clip: StoryClip) => void;
+  selectedClipId: string | null;
+  sentenceIndex: number;
+  swappingClipId: string | null;
+  theme: {
+    backgroundSecondary: string;
+    buttonText: string;
+    link: string;
+    tabIconDefault: string;
+  };
+}
+
+export function ClipCandidateStrip({
+  clips,
+  disabled,
+  onSelect,
+  selectedClipId,
+  sentenceIndex,
+  swappingClipId,
+  theme,
+}: ClipCandidateStripProps) {
+  if (clips.length === 0) return null;
+
+  return (
+    <FlatList
+      data={clips}
+      horizontal
+      keyExtractor={(clip, index) => clip.id ?? `clip-${index}`}
+      showsHorizontalScrollIndicator={false}
+      keyboardShouldPersistTaps="handled"
+      contentContainerStyle={styles.content}
+      style={styles.strip}
+      testID={`clip-candidates-${sentenceIndex}`}
+      renderItem={({ item, index }) => {
+        const isSelected = item.id === selectedClipId;
+        const isSwapping = item.id === swappingClipId;
+        return (
+          <Pressable
+            accessibilityRole="button"
+            accessibilityLabel={`Use clip ${index + 1} for beat ${sentenceIndex + 1}`}
+            accessibilityState={{ selected: isSelected, disabled }}
+            disabled={disabled || isSelected}
+            onPress={() => onSelect(item)}
+            style={({ pressed }) => [
+              styles.thumb,
+              { backgroundColor: theme.backgroundSecondary },
+              isSelected && { borderColor: theme.link },
+              disabled && !isSelected && styles.disabled,
+              pressed && { opacity: 0.75 },
+            ]}
+            testID={`clip-candidate-${sentenceIndex}-${index}`}
+          >
+            {item.thumbUrl ? (
+              <Image
+                source={{ uri: item.thumbUrl }}
+                style={styles.image}
+                resizeMode="cover"
+              />
+            ) : (
+              <Feather name="video" size={18} color={theme.tabIconDefault} />
+            )}
+            {typeof item.duration === "number" && item.duration > 0 && (
+              <View style={styles.duration} pointerEvents="none">
+                <ThemedText style={styles.durationText}>
+                  {`${Math.round(item.duration)}s`}
+                </ThemedText>
+              </View>
+            )}
+            {isSelected && !isSwapping && (
+              <View
+                style={[styles.check, { backgroundColor: theme.link }]}
+                pointerEvents="none"
+              >
+                <Feather name="check" size={10} color={theme.buttonText} />
+              </View>
+            )}
+            {isSwapping && (
+              <View style={styles.swapping} pointerEvents="none">
+                <ActivityIndicator size="small" color="#fff" />
+              </View>
+            )}
+          </Pressable>
+        );
+      }}
+    />
+  );
+}
+
+const styles = StyleSheet.create({
+  check: {
+    alignItems: "center",
+    borderRadius: 8,
+    height: 16,
+    justifyContent: "center",
+    position: "absolute",
+    right: 4,
+    top: 4,
+    width: 16,
+  },
+  content: {
+    gap: Spacing.sm,
+  },
+  disabled: {
+    opacity: 0.5,
+  },
+  duration: {
+    backgroundColor: "rgba(0,0,0,0.55)",
+    borderRadius: 6,
+    bottom: 4,
+    left: 4,
+    paddingHorizontal: 4,
+    position: "absolute",
+  },
+  durationText: {
+    color: "#fff",
+    fontSize: 10,
+    fontWeight: "600",
+    lineHeight: 14,
+  },
+  image: {
+    height: "100%",
+    width: "100%",
+  },
+  strip: {
+    flexGrow: 0,
+    marginBottom: Spacing.sm,
+  },
+  swapping: {
+    ...StyleSheet.absoluteFillObject,
+    alignItems: "center",
+    backgroundColor: "rgba(0,0,0,0.35)",
+    justifyContent: "center",
+  },
+  thumb: {
+    alignItems: "center",
+    borderColor: "transparent",
+    borderRadius: 8,
+    borderWidth: 2,
+    height: THUMB_H,
+    justifyContent: "center",
+    overflow: "hidden",
+    width: THUMB_W,
+  },
+});
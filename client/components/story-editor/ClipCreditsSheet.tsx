@@ -0,0 +1,91 @@
+import React from "react";
+import { Modal, Pressable, ScrollView, StyleSheet } from "react-native";
+
+import { ClipCreditsList } from "@/components/ClipCreditsList";
+import { ThemedText } from "@/components/ThemedText";
+import { Spacing } from "@/constants/theme";
+import type { ClipCreditGroup } from "@/lib/clipCredits";
+
+interface ClipCreditsSheetProps {
+  groups: ClipCreditGroup[];
+  onClose: () => void;
+  onCopy: () => void;
+  theme: {
+    backgroundDefault: string;
+    backgroundSecondary: string;
+  };
+  visible: boolean;
+}
+
+export function ClipCreditsSheet({
+  groups,
+  onClose,
+  onCopy,
+  theme,
+  visible,
+}: ClipCreditsSheetProps) {
+  return (
+    <Modal
+      visible={visible}
+      transparent
+      animationType="slide"
+      onRequestClose={onClose}
+    >
+      <Pressable style={styles.overlay} onPress={onClose}>
+        <Pressable
+          style={[styles.sheet, { backgroundColor: theme.backgroundDefault }]}
+          onPress={(event) => event.stopPropagation()}
+        >
+          <ThemedText style={styles.title}>Clip credits</ThemedText>
+          <ScrollView style={styles.list}>
+            <ClipCreditsList groups={groups} onCopy={onCopy} />
+          </ScrollView>
+          <Pressable
+            accessibilityRole="button"
+            onPress={onClose}
+            style={[
+              styles.closeButton,
+              { backgroundColor: theme.backgroundSecondary },
+            ]}
+          >
+            <ThemedText style={styles.closeText}>Close</ThemedText>
+          </Pressable>
+        </Pressable>
+      </Pressable>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  closeButton: {
+    alignItems: "center",
+    borderRadius: 8,
+    marginTop: Spacing.lg,
+    paddingVertical: Spacing.md,
+  },
+  closeText: {
+    fontSize: 16,
+    fontWeight: "500",
+  },
+  list: {
+    flexGrow: 0,
+  },
+  overlay: {
+    backgroundColor: "rgba(0, 0, 0, 0.5)",
+    flex: 1,
+    justifyContent: "flex-end",
+  },
+  sheet: {
+    borderTopLeftRadius: 16,
+    borderTopRightRadius: 16,
+    maxHeight: "70%",
+    padding: Spacing.xl,
+    paddingBottom: Spacing["3xl"],
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: "600",
+    marginBottom: Spacing.lg,
+    textAlign: "center",
+  },
+});
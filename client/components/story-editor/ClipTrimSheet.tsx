@@ -0,0 +1,365 @@
+import React, { useEffect, useRef, useState } from "react";
+import {
+  ActivityIndicator,
+  Modal,
+  Pressable,
+  StyleSheet,
+  View,
+  type AccessibilityActionEvent,
+  type LayoutChangeEvent,
+} from "react-native";
+import { ResizeMode, Video, type AVPlaybackStatus } from "expo-av";
+import { Gesture, GestureDetector } from "react-native-gesture-handler";
+import Animated, {
+  runOnJS,
+  useAnimatedStyle,
+  useSharedValue,
+} from "react-native-reanimated";
+
+import { ThemedText } from "@/components/ThemedText";
+import { Spacing } from "@/constants/theme";
+import {
+  clampClipStartSec,
+  getClipStartFromTrackOffset,
+  getClipTrimWindowSec,
+} from "@/lib/clipTrim";
+import type { StoryClip } from "@/types/story";
+
+/** Accessibility increment/decrement nudges the in-point by this much. */
+const NUDGE_SEC = 0.5;
+// Seek back when playback drifts this far before the window (e.g. after a seek).
+const LOOP_TOLERANCE_MS = 250;
+
+interface ClipTrimSheetProps {
+  /** Narration length of the beat; the window is this long. */
+  beatDurationSec: number;
+  clip: StoryClip | null;
+  initialStartSec: number;
+  isSaving: boolean;
+  onClose: () => void;
+  onSave: (clipStartSec: number) => void;
+  sentenceIndex: number | null;
+  theme: {
+    backgroundDefault: string;
+    backgroundSecondary: string;
+    buttonText: string;
+    link: string;
+    tabIconDefault: string;
+  };
+}
+
+function formatSec(sec: number): string {
+  return `${sec.toFixed(1)}s`;
+}
+
+export function ClipTrimSheet({
+  beatDurationSec,
+  clip,
+  initialStartSec,
+  isSaving,
+  onClose,
+  onSave,
+  sentenceIndex,
+  theme,
+}: ClipTrimSheetProps) {
+  const visible = sentenceIndex !== null && !!clip;
+  const videoRef = useRef<Video | null>(null);
+  const [trackW, setTrackW] = useState(0);
+  const [loadedDurationSec, setLoadedDurationSec] = useState<number | null>(
+    null,
+  );
+  const [startSec, setStartSec] = useState(initialStartSec);
+
+  const clipDurationSec =
+    typeof clip?.duration === "number" && clip.duration > 0
+      ? clip.duration
+      : (loadedDurationSec ?? 0);
+  const windowSec = getClipTrimWindowSec(clipDurationSec, beatDurationSec);
+  const canTrim = clipDurationSec > 0 && windowSec < clipDurationSec;
+  const windowW =
+    clipDurationSec > 0 ? (windowSec / clipDurationSec) * trackW : trackW;
+  const maxLeft = Math.max(0, trackW - windowW);
+
+  const left = useSharedValue(0);
+  const dragStartLeft = useSharedValue(0);
+  const playbackRef = useRef({ startSec, windowSec });
+  playbackRef.current = { startSec, windowSec };
+
+  useEffect(() => {
+    if (visible) {
+      setStartSec(initialStartSec);
+      setLoadedDurationSec(null);
+    }
+  }, [initialStartSec, visible]);
+
+  useEffect(() => {
+    left.value =
+      clipDurationSec > 0 ? (startSec / clipDurationSec) * trackW : 0;
+  }, [clipDurationSec, left, startSec, trackW]);
+
+  useEffect(() => {
+    void videoRef.current
+      ?.setPositionAsync(Math.round(startSec * 1000))
+      .catch(() => undefined);
+  }, [startSec]);
+
+  const handleDrag = (offsetPx: number) => {
+    setStartSec(
+      getClipStartFromTrackOffset(offsetPx, trackW, clipDurationSec, windowSec),
+    );
+  };
+
+  const pan = Gesture.Pan()
+    .enabled(canTrim && trackW > 0 && !isSaving)
+    .onStart(() => {
+      dragStartLeft.value = left.value;
+    })
+    .onUpdate((event) => {
+      const next = Math.min(
+        maxLeft,
+        Math.max(0, dragStartLeft.value + event.translationX),
+      );
+      left.value = next;
+      runOnJS(handleDrag)(next);
+    });
+
+  const windowStyle = useAnimatedStyle(() => ({
+    transform: [{ translateX: left.value }],
+  }));
+
+  const handlePlaybackStatus = (status: AVPlaybackStatus) => {
+    if (!status.isLoaded) return;
+    if (
+      loadedDurationSec === null &&
+      typeof status.durationMillis === "number"
+    ) {
+      setLoadedDurationSec(status.durationMillis / 1000);
+    }
+    const { startSec: from, windowSec: length } = playbackRef.current;
+    const startMs = from * 1000;
+    const endMs = (from + length) * 1000;
+    if (
+      length > 0 &&
+      (status.positionMillis >= endMs ||
+        status.positionMillis < startMs - LOOP_TOLERANCE_MS ||
+        status.didJustFinish)
+    ) {
+      void videoRef.current
+        ?.setStatusAsync({
+          positionMillis: Math.round(startMs),
+          shouldPlay: true,
+        })
+        .catch(() => undefined);
+    }
+  };
+
+  const handleAccessibilityAction = (event: AccessibilityActionEvent) => {
+    const delta =
+      event.nativeEvent.actionName === "increment" ? NUDGE_SEC : -NUDGE_SEC;
+    setStartSec((current) =>
+      clampClipStartSec(current + delta, clipDurationSec, windowSec),
+    );
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      transparent
+      animationType="slide"
+      onRequestClose={onClose}
+    >
+      <View style={styles.overlay}>
+        <View
+          style={[styles.sheet, { backgroundColor: theme.backgroundDefault }]}
+        >
+          <ThemedText style={styles.title}>
+            {sentenceIndex !== null
+              ? `Trim clip for beat ${sentenceIndex + 1}`
+              : "Trim clip"}
+          </ThemedText>
+
+          {clip?.url ? (
+            <Video
+              ref={videoRef}
+              source={{ uri: clip.url }}
+              posterSource={clip.thumbUrl ? { uri: clip.thumbUrl } : undefined}
+              usePoster={!!clip.thumbUrl}
+              style={[
+                styles.video,
+                { backgroundColor: theme.backgroundSecondary },
+              ]}
+              resizeMode={ResizeMode.CONTAIN}
+              shouldPlay={visible}
+              isMuted
+              progressUpdateIntervalMillis={100}
+              onPlaybackStatusUpdate={handlePlaybackStatus}
+              testID="clip-trim-video"
+            />
+          ) : null}
+
+          <View
+            style={[
+              styles.track,
+              { backgroundColor: theme.backgroundSecondary },
+            ]}
+            onLayout={(event: LayoutChangeEvent) =>
+              setTrackW(event.nativeEvent.layout.width)
+            }
+          >
+            <GestureDetector gesture={pan}>
+              <Animated.View
+                accessible
+                accessibilityRole="adjustable"
+                accessibilityLabel="Clip window"
+                accessibilityValue={{
+                  text: `Starts at ${formatSec(startSec)}`,
+                }}
+                accessibilityActions={
+                  canTrim ? [{ name: "increment" }, { name: "decrement" }] : []
+                }
+                onAccessibilityAction={handleAccessibilityAction}
+                style={[
+                  styles.window,
+                  { borderColor: theme.link, width: windowW },
+                  windowStyle,
+                ]}
+                testID="clip-trim-window"
+              />
+            </GestureDetector>
+          </View>
+
+          <ThemedText style={styles.range} testID="clip-trim-range">
+            {clipDurationSec > 0
+              ? `Plays ${formatSec(startSec)} – ${formatSec(
+                  startSec + windowSec,
+                )} of ${formatSec(clipDurationSec)}`
+              : "Loading clip…"}
+          </ThemedText>
+          <ThemedText style={[styles.hint, { color: theme.tabIconDefault }]}>
+            {clipDurationSec > 0 && !canTrim
+              ? "This clip is shorter than the beat, so it plays in full."
+              : "Drag the window to choose which part plays under this beat."}
+          </ThemedText>
+
+          <View style={styles.buttons}>
+            <Pressable
+              accessibilityRole="button"
+              disabled={isSaving || startSec === 0}
+              onPress={() => setStartSec(0)}
+              style={[
+                styles.button,
+                { backgroundColor: theme.backgroundSecondary },
+                startSec === 0 && styles.disabled,
+              ]}
+            >
+              <ThemedText style={styles.buttonText}>Reset</ThemedText>
+            </Pressable>
+            <Pressable
+              accessibilityRole="button"
+              onPress={onClose}
+              style={[
+                styles.button,
+                { backgroundColor: theme.backgroundSecondary },
+              ]}
+            >
+              <ThemedText style={styles.buttonText}>Cancel</ThemedText>
+            </Pressable>
+            <Pressable
+              accessibilityRole="button"
+              accessibilityLabel="Save trim"
+              disabled={isSaving || !canTrim}
+              onPress={() =>
+                onSave(clampClipStartSec(startSec, clipDurationSec, windowSec))
+              }
+              style={[
+                styles.button,
+                { backgroundColor: theme.link },
+                (isSaving || !canTrim) && styles.disabled,
+              ]}
+            >
+              {isSaving ? (
+                <ActivityIndicator size="small" color={theme.buttonText} />
+              ) : (
+                <ThemedText
+                  style={[styles.buttonText, { color: theme.buttonText }]}
+                >
+                  Save
+                </ThemedText>
+              )}
+            </Pressable>
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  button: {
+    alignItems: "center",
+    borderRadius: 8,
+    flex: 1,
+    paddingVertical: Spacing.md,
+  },
+  buttonText: {
+    fontSize: 16,
+    fontWeight: "500",
+  },
+  buttons: {
+    flexDirection: "row",
+    gap: Spacing.md,
+    marginTop: Spacing.lg,
+  },
+  disabled: {
+    opacity: 0.5,
+  },
+  hint: {
+    fontSize: 13,
+    marginTop: Spacing.xs,
+    textAlign: "center",
+  },
+  overlay: {
+    backgroundColor: "rgba(0, 0, 0, 0.5)",
+    flex: 1,
+    justifyContent: "flex-end",
+  },
+  range: {
+    fontSize: 14,
+    fontWeight: "600",
+    marginTop: Spacing.md,
+    textAlign: "center",
+  },
+  sheet: {
+    borderTopLeftRadius: 16,
+    borderTopRightRadius: 16,
+    padding: Spacing.xl,
+    paddingBottom: Spacing["3xl"],
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: "600",
+    marginBottom: Spacing.lg,
+    textAlign: "center",
+  },
+  track: {
+    borderRadius: 8,
+    height: 44,
+    marginTop: Spacing.lg,
+    overflow: "hidden",
+  },
+  video: {
+    alignSelf: "center",
+    aspectRatio: 9 / 16,
+    borderRadius: 8,
+    height: 240,
+  },
+  window: {
+    backgroundColor: "rgba(74, 95, 255, 0.25)",
+    borderRadius: 8,
+    borderWidth: 2,
+    bottom: 0,
+    left: 0,
+    position: "absolute",
+    top: 0,
+  },
+});
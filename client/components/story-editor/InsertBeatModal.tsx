@@ -0,0 +1,177 @@
+import React, { useEffect, useState } from "react";
+import {
+  ActivityIndicator,
+  Modal,
+  Pressable,
+  StyleSheet,
+  TextInput,
+  View,
+} from "react-native";
+
+import { Spacing } from "@/constants/theme";
+import { ThemedText } from "@/components/ThemedText";
+import { MAX_BEAT_CHARS } from "@/lib/scriptLimits";
+import type { BeatInsertPosition } from "@/screens/story-editor/model";
+
+export interface BeatInsertTarget {
+  sentenceIndex: number;
+  position: BeatInsertPosition;
+}
+
+interface InsertBeatModalProps {
+  isInserting: boolean;
+  onClose: () => void;
+  onSubmit: (text: string) => void;
+  target: BeatInsertTarget | null;
+  theme: {
+    backgroundDefault: string;
+    backgroundSecondary: string;
+    buttonText: string;
+    link: string;
+    tabIconDefault: string;
+    text: string;
+  };
+}
+
+export function InsertBeatModal({
+  isInserting,
+  onClose,
+  onSubmit,
+  target,
+  theme,
+}: InsertBeatModalProps) {
+  const [text, setText] = useState("");
+
+  useEffect(() => {
+    if (target) setText("");
+  }, [target]);
+
+  const canSubmit = text.trim().length > 0 && !isInserting;
+
+  return (
+    <Modal
+      visible={target !== null}
+      transparent
+      animationType="fade"
+      onRequestClose={onClose}
+    >
+      <Pressable style={styles.modalOverlay} onPress={onClose}>
+        <Pressable
+          style={[
+            styles.modalContent,
+            { backgroundColor: theme.backgroundDefault },
+          ]}
+          onPress={(event) => event.stopPropagation()}
+        >
+          <ThemedText style={styles.modalTitle}>
+            {target
+              ? `New beat ${target.position} beat ${target.sentenceIndex + 1}`
+              : ""}
+          </ThemedText>
+          <TextInput
+            accessibilityLabel="New beat text"
+            style={[
+              styles.input,
+              {
+                backgroundColor: theme.backgroundSecondary,
+                color: theme.text,
+              },
+            ]}
+            value={text}
+            onChangeText={(next) => setText(next.replace(/\n/g, " "))}
+            placeholder="What happens in this beat?"
+            placeholderTextColor={theme.tabIconDefault}
+            maxLength={MAX_BEAT_CHARS}
+            editable={!isInserting}
+            multiline
+            autoFocus
+          />
+          <ThemedText style={[styles.counter, { color: theme.tabIconDefault }]}>
+            {text.length}/{MAX_BEAT_CHARS}
+          </ThemedText>
+          <View style={styles.modalButtons}>
+            <Pressable
+              style={[
+                styles.modalButton,
+                { backgroundColor: theme.backgroundSecondary },
+              ]}
+              onPress={onClose}
+            >
+              <ThemedText style={styles.modalButtonText}>Cancel</ThemedText>
+            </Pressable>
+            <Pressable
+              accessibilityRole="button"
+              accessibilityState={{ disabled: !canSubmit }}
+              disabled={!canSubmit}
+              style={[
+                styles.modalButton,
+                { backgroundColor: theme.link, opacity: canSubmit ? 1 : 0.5 },
+              ]}
+              onPress={() => onSubmit(text)}
+            >
+              {isInserting ? (
+                <ActivityIndicator size="small" color={theme.buttonText} />
+              ) : (
+                <ThemedText
+                  style={[styles.modalButtonText, { color: theme.buttonText }]}
+                >
+                  Insert
+                </ThemedText>
+              )}
+            </Pressable>
+          </View>
+        </Pressable>
+      </Pressable>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  counter: {
+    fontSize: 12,
+    marginBottom: Spacing.lg,
+    marginTop: Spacing.xs,
+    textAlign: "right",
+  },
+  input: {
+    borderRadius: 8,
+    fontSize: 15,
+    lineHeight: 21,
+    minHeight: 88,
+    padding: Spacing.md,
+    textAlignVertical: "top",
+  },
+  modalButton: {
+    flex: 1,
+    paddingVertical: Spacing.md,
+    paddingHorizontal: Spacing.lg,
+    borderRadius: 8,
+    alignItems: "center",
+  },
+  modalButtonText: {
+    fontSize: 16,
+    fontWeight: "500",
+  },
+  modalButtons: {
+    flexDirection: "row",
+    gap: Spacing.md,
+  },
+  modalContent: {
+    borderRadius: 12,
+    padding: Spacing.xl,
+    width: "86%",
+    maxWidth: 420,
+  },
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: "rgba(0, 0, 0, 0.5)",
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  modalTitle: {
+    fontSize: 18,
+    fontWeight: "600",
+    marginBottom: Spacing.lg,
+    textAlign: "center",
+  },
+});
@@ -17,11 +17,12 @@ import { Feather } from "@expo/vector-icons";
 import { LinearGradient } from "expo-linear-gradient";
 
 import { Spacing } from "@/constants/theme";
+import { ReorderableItem } from "@/components/ReorderableItem";
 import { ThemedText } from "@/components/ThemedText";
 import type { StorySession } from "@/types/story";
 import type { CaptionPreviewMeta } from "@/api/client";
 
-import { getSelectedShot, type Beat } from "@/screens/story-editor/model";
+import { getSelectedShot, getVoiceStaleBeatIndices, type Beat } from "@/screens/story-editor/model";
 
 const ACTIVE_SCALE = 1.16;
 
@@ -37,8 +38,11 @@ interface StoryDeckProps {
   onDeckScroll: any;
   onPressBeat: (sentenceIndex: number) => void;
   onLongPressBeat: (sentenceIndex: number) => void;
+  /** Long-press drag drop; long press without moving still opens beat actions. */
+  onMoveBeat: (fromIndex: number, toIndex: number) => void;
   onVisibleBeatChange: (sentenceIndex: number) => void;
   previewByIndex: Record<number, CaptionPreviewMeta | null>;
+  reorderEnabled: boolean;
   scrollX: SharedValue<number>;
   selectedSentenceIndex: number | null;
   session: StorySession | null;
@@ -61,7 +65,9 @@ interface DeckCardProps {
   link: string;
   meta: CaptionPreviewMeta | null;
   onLongPress: (sentenceIndex: number) => void;
+  onMove: (fromIndex: number, toIndex: number) => void;
   onPress: (sentenceIndex: number) => void;
+  reorderEnabled: boolean;
   scrollX: SharedValue<number>;
   selectedSentenceIndex: number | null;
   session: StorySession | null;
@@ -80,7 +86,9 @@ const DeckCard = React.memo(function DeckCard({
   link,
   meta,
   onLongPress,
+  onMove,
   onPress,
+  reorderEnabled,
   scrollX,
   selectedSentenceIndex,
   session,
@@ -89,6 +97,7 @@ const DeckCard = React.memo(function DeckCard({
 }: DeckCardProps) {
   const shot = session ? getSelectedShot(session, item.sentenceIndex) : null;
   const clip = shot?.selectedClip || null;
+  const needsVoiceSync = session ? getVoiceStaleBeatIndices(session).includes(item.sentenceIndex) : false;
   const frameW = typeof meta?.frameW === "number" ? meta.frameW : 1080;
   const rasterW = typeof meta?.rasterW === "number" ? meta.rasterW : 0;
   const rasterH = typeof meta?.rasterH === "number" ? meta.rasterH : 0;
@@ -118,77 +127,96 @@ const DeckCard = React.memo(function DeckCard({
 
   return (
     <Animated.View style={[{ width: cardStep, alignItems: "center" }, animatedStyle]}>
-      <Pressable
-        style={[
-          styles.deckCard,
-          { width: cardW, height: cardH, backgroundColor: backgroundSecondary },
-        ]}
-        onPress={() => onPress(item.sentenceIndex)}
+      <ReorderableItem
+        axis="x"
+        index={index}
+        count={totalBeats}
+        step={cardStep}
+        enabled={reorderEnabled}
+        accessibilityLabel={`Beat ${item.sentenceIndex + 1}`}
+        onMove={onMove}
         onLongPress={() => onLongPress(item.sentenceIndex)}
       >
-        {selectedSentenceIndex === item.sentenceIndex && (
-          <View style={styles.deckCardPill} pointerEvents="none">
-            <ThemedText style={styles.deckCardPillText}>
-              Beat {item.sentenceIndex + 1} / {totalBeats}
-            </ThemedText>
-          </View>
-        )}
-        {clip?.thumbUrl ? (
-          <View style={styles.deckCardInner}>
-            <Image
-              source={{ uri: clip.thumbUrl }}
-              style={[styles.deckThumbnail, { backgroundColor: backgroundSecondary }]}
-              resizeMode="cover"
-            />
-            {hasMeta && (
-              <View
-                style={{
-                  position: "absolute",
-                  left: leftPx,
-                  top: topPx,
-                  width: overlayW,
-                  height: overlayH,
-                }}
-                pointerEvents="none"
-              >
-                <Image
-                  source={{ uri: meta!.rasterUrl }}
-                  style={{ width: "100%", height: "100%" }}
-                  resizeMode="stretch"
-                />
-              </View>
-            )}
-            {isLoading && (
-              <View style={styles.deckCaptionLoading} pointerEvents="none">
-                <ActivityIndicator size="small" color={link} />
-              </View>
-            )}
-          </View>
-        ) : (
-          <View style={[styles.deckCardInner, styles.deckPlaceholder]}>
-            <Feather name="video" size={24} color={tabIconDefault} />
-            <ThemedText style={styles.deckPlaceholderText}>No clip</ThemedText>
-            {hasMeta && meta?.rasterUrl && (
-              <View
-                style={{
-                  position: "absolute",
-                  left: leftPx,
-                  top: topPx,
-                  width: overlayW,
-                  height: overlayH,
-                }}
-                pointerEvents="none"
-              >
-                <Image
-                  source={{ uri: meta.rasterUrl }}
-                  style={{ width: "100%", height: "100%" }}
-                  resizeMode="stretch"
-                />
-              </View>
-            )}
-          </View>
-        )}
-      </Pressable>
+        <Pressable
+          style={[
+            styles.deckCard,
+            { width: cardW, height: cardH, backgroundColor: backgroundSecondary },
+          ]}
+          onPress={() => onPress(item.sentenceIndex)}
+          onLongPress={
+            reorderEnabled ? undefined : () => onLongPress(item.sentenceIndex)
+          }
+        >
+          {selectedSentenceIndex === item.sentenceIndex && (
+            <View style={styles.deckCardPill} pointerEvents="none">
+              <ThemedText style={styles.deckCardPillText}>
+                Beat {item.sentenceIndex + 1} / {totalBeats}
+              </ThemedText>
+            </View>
+          )}
+          {clip?.thumbUrl ? (
+            <View style={styles.deckCardInner}>
+              <Image
+                source={{ uri: clip.thumbUrl }}
+                style={[styles.deckThumbnail, { backgroundColor: backgroundSecondary }]}
+                resizeMode="cover"
+              />
+              {hasMeta && (
+                <View
+                  style={{
+                    position: "absolute",
+                    left: leftPx,
+                    top: topPx,
+                    width: overlayW,
+                    height: overlayH,
+                  }}
+                  pointerEvents="none"
+                >
+                  <Image
+                    source={{ uri: meta!.rasterUrl }}
+                    style={{ width: "100%", height: "100%" }}
+                    resizeMode="stretch"
+                  />
+                </View>
+              )}
+              {isLoading && (
+                <View style={styles.deckCaptionLoading} pointerEvents="none">
+                  <ActivityIndicator size="small" color={link} />
+                </View>
+              )}
+            </View>
+          ) : (
+            <View style={[styles.deckCardInner, styles.deckPlaceholder]}>
+              <Feather name="video" size={24} color={tabIconDefault} />
+              <ThemedText style={styles.deckPlaceholderText}>No clip</ThemedText>
+              {hasMeta && meta?.rasterUrl && (
+                <View
+                  style={{
+                    position: "absolute",
+                    left: leftPx,
+                    top: topPx,
+                    width: overlayW,
+                    height: overlayH,
+                  }}
+                  pointerEvents="none"
+                >
+                  <Image
+                    source={{ uri: meta.rasterUrl }}
+                    style={{ width: "100%", height: "100%" }}
+                    resizeMode="stretch"
+                  />
+                </View>
+              )}
+            </View>
+          )}
+          {needsVoiceSync && (
+            <View style={styles.deckVoiceStale} pointerEvents="none" testID={`deck-voice-stale-${item.sentenceIndex}`}>
+              <Feather name="mic" size={11} color="#fff" />
+              <ThemedText style={styles.deckCardPillText}>Re-sync voice</ThemedText>
+            </View>
+          )}
+        </Pressable>
+      </ReorderableItem>
     </Animated.View>
   );
 });
@@ -205,8 +233,10 @@ export function StoryDeck({
   onDeckScroll,
   onPressBeat,
   onLongPressBeat,
+  onMoveBeat,
   onVisibleBeatChange,
   previewByIndex,
+  reorderEnabled,
   scrollX,
   selectedSentenceIndex,
   session,
@@ -234,7 +264,9 @@ export function StoryDeck({
               link={theme.link}
               meta={previewByIndex[item.sentenceIndex] ?? null}
               onLongPress={onLongPressBeat}
+              onMove={onMoveBeat}
               onPress={onPressBeat}
+              reorderEnabled={reorderEnabled}
               scrollX={scrollX}
               selectedSentenceIndex={selectedSentenceIndex}
               session={session}
@@ -380,6 +412,18 @@ const styles = StyleSheet.create({
     flex: 1,
     overflow: "visible",
   },
+  deckVoiceStale: {
+    position: "absolute",
+    top: 8,
+    right: 8,
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 4,
+    paddingVertical: 4,
+    paddingHorizontal: 8,
+    borderRadius: 12,
+    backgroundColor: "rgba(255,159,10,0.85)",
+  },
   deckStageWrap: {
     flex: 1,
     position: "relative",
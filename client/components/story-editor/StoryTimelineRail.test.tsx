@@ -29,6 +29,7 @@ const items: Step3BeatRailItem[] = [
     endTimeSec: 3,
     durationSec: 3,
     hasSelectedClip: true,
+    needsVoiceSync: false,
   },
   {
     sentenceIndex: 1,
@@ -39,6 +40,7 @@ const items: Step3BeatRailItem[] = [
     endTimeSec: 7,
     durationSec: 4,
     hasSelectedClip: false,
+    needsVoiceSync: false,
   },
   {
     sentenceIndex: 2,
@@ -49,6 +51,7 @@ const items: Step3BeatRailItem[] = [
     endTimeSec: null,
     durationSec: null,
     hasSelectedClip: false,
+    needsVoiceSync: false,
   },
 ];
 
@@ -149,4 +152,38 @@ describe("client/components/story-editor/StoryTimelineRail", () => {
     expect(getByTestId("story-timeline-fallback-2")).toBeTruthy();
     expect(getAllByText("--:--").length).toBeGreaterThanOrEqual(1);
   });
+
+  test("offers insert handles on the selected beat and flags voice-stale beats", () => {
+    const onInsertBeat = jest.fn();
+    const { getByLabelText, getByTestId, queryByTestId } = render(
+      <StoryTimelineRail
+        activeSentenceIndex={null}
+        isPreviewAvailable={false}
+        isPreviewPlaying={false}
+        items={items.map((item) =>
+          item.sentenceIndex === 2 ? { ...item, needsVoiceSync: true } : item,
+        )}
+        onInsertBeat={onInsertBeat}
+        onLongPressBeat={jest.fn()}
+        onPressBeat={jest.fn()}
+        onStopPreview={jest.fn()}
+        onTogglePreview={jest.fn()}
+        playbackSentenceIndex={null}
+        previewDurationSec={null}
+        previewPositionSec={0}
+        selectedSentenceIndex={1}
+        theme={theme}
+      />,
+    );
+
+    expect(getByTestId("story-timeline-voice-stale-2")).toBeTruthy();
+    expect(queryByTestId("story-timeline-voice-stale-1")).toBeNull();
+    expect(queryByTestId("story-timeline-insert-before-0")).toBeNull();
+
+    fireEvent.press(getByLabelText("Insert beat before beat 2"));
+    fireEvent.press(getByTestId("story-timeline-insert-after-1"));
+
+    expect(onInsertBeat).toHaveBeenNthCalledWith(1, 1, "before");
+    expect(onInsertBeat).toHaveBeenNthCalledWith(2, 1, "after");
+  });
 });
@@ -4,6 +4,7 @@ import { Feather } from "@expo/vector-icons";
 
 import { ThemedText } from "@/components/ThemedText";
 import { BorderRadius, Spacing } from "@/constants/theme";
+import type { BeatInsertPosition } from "@/screens/story-editor/model";
 import type { Step3BeatRailItem } from "@/screens/story-editor/step3";
 
 interface StoryTimelineRailProps {
@@ -11,6 +12,8 @@ interface StoryTimelineRailProps {
   isPreviewAvailable: boolean;
   isPreviewPlaying: boolean;
   items: Step3BeatRailItem[];
+  /** Shows insert handles on the selected tile when set. */
+  onInsertBeat?: (sentenceIndex: number, position: BeatInsertPosition) => void;
   onLongPressBeat: (sentenceIndex: number) => void;
   onPressBeat: (sentenceIndex: number) => void;
   onStopPreview: () => void;
@@ -54,6 +57,7 @@ export function StoryTimelineRail({
   isPreviewAvailable,
   isPreviewPlaying,
   items,
+  onInsertBeat,
   onLongPressBeat,
   onPressBeat,
   onStopPreview,
@@ -206,9 +210,17 @@ export function StoryTimelineRail({
                 )}
                 <View style={styles.tileScrim} pointerEvents="none" />
                 <View style={styles.tileMetaRow} pointerEvents="none">
-                  <ThemedText style={styles.tileBeat}>
-                    B{item.sentenceIndex + 1}
-                  </ThemedText>
+                  <View style={styles.tileBeatRow}>
+                    <ThemedText style={styles.tileBeat}>
+                      B{item.sentenceIndex + 1}
+                    </ThemedText>
+                    {item.needsVoiceSync ? (
+                      <View
+                        style={styles.voiceStaleDot}
+                        testID={`story-timeline-voice-stale-${item.sentenceIndex}`}
+                      />
+                    ) : null}
+                  </View>
                   <ThemedText
                     style={[styles.tileDuration, { color: "#fff" }]}
                     testID={`story-timeline-duration-${item.sentenceIndex}`}
@@ -231,6 +243,33 @@ export function StoryTimelineRail({
                     testID={`story-timeline-selected-${item.sentenceIndex}`}
                   />
                 ) : null}
+                {isSelected && onInsertBeat
+                  ? (["before", "after"] as const).map((position) => (
+                      <Pressable
+                        key={position}
+                        onPress={() =>
+                          onInsertBeat(item.sentenceIndex, position)
+                        }
+                        accessibilityRole="button"
+                        accessibilityLabel={`Insert beat ${position} beat ${item.sentenceIndex + 1}`}
+                        hitSlop={{ top: 6, bottom: 6, left: 4, right: 4 }}
+                        style={[
+                          styles.insertHandle,
+                          position === "before"
+                            ? styles.insertHandleBefore
+                            : styles.insertHandleAfter,
+                          { backgroundColor: theme.link },
+                        ]}
+                        testID={`story-timeline-insert-${position}-${item.sentenceIndex}`}
+                      >
+                        <Feather
+                          name="plus"
+                          size={12}
+                          color={theme.buttonText}
+                        />
+                      </Pressable>
+                    ))
+                  : null}
                 {isPlaybackActive ? (
                   <>
                     <View
@@ -269,6 +308,22 @@ const styles = StyleSheet.create({
     shadowOpacity: 0.1,
     shadowRadius: 14,
   },
+  insertHandle: {
+    alignItems: "center",
+    borderRadius: BorderRadius.full,
+    height: 20,
+    justifyContent: "center",
+    marginTop: -10,
+    position: "absolute",
+    top: "50%",
+    width: 20,
+  },
+  insertHandleAfter: {
+    right: 4,
+  },
+  insertHandleBefore: {
+    left: 4,
+  },
   playButton: {
     alignItems: "center",
     borderRadius: BorderRadius.full,
@@ -335,6 +390,11 @@ const styles = StyleSheet.create({
     fontSize: 10,
     fontWeight: "800",
   },
+  tileBeatRow: {
+    alignItems: "center",
+    flexDirection: "row",
+    gap: 4,
+  },
   tileDuration: {
     fontSize: 10,
     fontVariant: ["tabular-nums"],
@@ -377,6 +437,12 @@ const styles = StyleSheet.create({
     height: "100%",
     width: "100%",
   },
+  voiceStaleDot: {
+    backgroundColor: "#FF9F0A",
+    borderRadius: BorderRadius.full,
+    height: 6,
+    width: 6,
+  },
   timeText: {
     fontSize: 12,
     fontVariant: ["tabular-nums"],
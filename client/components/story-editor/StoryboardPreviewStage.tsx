@@ -12,8 +12,15 @@ import { LinearGradient } from "expo-linear-gradient";
 import { ThemedText } from "@/components/ThemedText";
 import { BorderRadius, Spacing } from "@/constants/theme";
 
+import {
+  CaptionLayoutOverlay,
+  type StoryboardCaptionLayout,
+} from "./CaptionLayoutOverlay";
+
 interface StoryboardPreviewStageProps {
   blockedMessage: string | null;
+  /** Enables the "Move caption" mode for the selected beat when set. */
+  captionLayout?: StoryboardCaptionLayout;
   maxVideoHeight?: number | null;
   onPlaybackStatusUpdate: (status: AVPlaybackStatus) => void;
   onPrimaryAction: () => void;
@@ -33,6 +40,7 @@ interface StoryboardPreviewStageProps {
 
 export function StoryboardPreviewStage({
   blockedMessage,
+  captionLayout,
   maxVideoHeight,
   onPlaybackStatusUpdate,
   onPrimaryAction,
@@ -46,6 +54,7 @@ export function StoryboardPreviewStage({
   videoRef,
 }: StoryboardPreviewStageProps) {
   const [availableWidth, setAvailableWidth] = useState(0);
+  const [isCaptionLayoutActive, setIsCaptionLayoutActive] = useState(false);
 
   const handleStageLayout = useCallback((event: LayoutChangeEvent) => {
     const nextWidth = event.nativeEvent.layout.width;
@@ -145,6 +154,26 @@ export function StoryboardPreviewStage({
             </Pressable>
           </LinearGradient>
         )}
+        {captionLayout && isCaptionLayoutActive ? (
+          <CaptionLayoutOverlay
+            {...captionLayout}
+            frameHeight={frameSize.height}
+            frameWidth={frameSize.width}
+            onDone={() => setIsCaptionLayoutActive(false)}
+            theme={theme}
+          />
+        ) : null}
+        {captionLayout && !isCaptionLayoutActive ? (
+          <Pressable
+            accessibilityRole="button"
+            accessibilityLabel="Move caption"
+            onPress={() => setIsCaptionLayoutActive(true)}
+            style={styles.moveCaptionButton}
+            testID="storyboard-move-caption"
+          >
+            <Feather name="move" size={16} color="#fff" />
+          </Pressable>
+        ) : null}
       </View>
     </View>
   );
@@ -170,6 +199,17 @@ const styles = StyleSheet.create({
     borderRadius: 0,
     overflow: "hidden",
   },
+  moveCaptionButton: {
+    alignItems: "center",
+    backgroundColor: "rgba(0,0,0,0.45)",
+    borderRadius: BorderRadius.full,
+    height: 32,
+    justifyContent: "center",
+    position: "absolute",
+    right: Spacing.sm,
+    top: Spacing.sm,
+    width: 32,
+  },
   stage: {
     alignItems: "center",
     width: "100%",
@@ -43,6 +43,7 @@ const railItems: Step3BeatRailItem[] = [
     endTimeSec: 3,
     durationSec: 3,
     hasSelectedClip: true,
+    needsVoiceSync: false,
   },
 ];
 
@@ -239,4 +240,71 @@ describe("client/components/story-editor/StoryboardSurface", () => {
     expect(queryByTestId("preview-helper-banner")).toBeNull();
     expect(queryByTestId("storyboard-preview-caption")).toBeNull();
   });
+
+  test("opens the caption layout overlay over the stage and closes it on Done", () => {
+    const { getByTestId, queryByTestId } = render(
+      <StoryboardSurface
+        activeSentenceIndex={0}
+        blockedMessage={null}
+        captionLayout={{
+          isLoading: false,
+          onPositionChange: jest.fn(),
+          onWidthChange: jest.fn(),
+          position: { placement: "custom", xPct: 0.4, yPct: 0.7 },
+          preview: {
+            rasterUrl: "data:image/png;base64,AAAA",
+            rasterW: 864,
+            rasterH: 180,
+          },
+          wPct: 80,
+        }}
+        currentPreviewBeatLabel="Beat 1"
+        helperBannerCopy={null}
+        isPreviewAvailable
+        isPreviewPlaying={false}
+        maxVideoHeight={320}
+        onLongPressBeat={jest.fn()}
+        onOpenVoiceSync={jest.fn()}
+        onPressBeat={jest.fn()}
+        onPreviewPlaybackStatus={jest.fn()}
+        onRequestPreview={jest.fn()}
+        onStopPreview={jest.fn()}
+        onTogglePreview={jest.fn()}
+        playbackSentenceIndex={0}
+        previewArtifactUrl="https://cdn.example.com/base.mp4"
+        previewDurationSec={10}
+        previewHeroActionDisabled={false}
+        previewHeroActionLabel="Generate Preview"
+        previewHeroActionTarget="preview"
+        previewHeroHeadline="Synced preview ready"
+        previewHeroHint={null}
+        previewIsRequesting={false}
+        previewPositionSec={0}
+        previewReady
+        previewStatusLabel="Synced Preview"
+        previewStatusTone="success"
+        previewSupportingText="Timing locked to narration."
+        railItems={railItems}
+        selectedSentenceIndex={0}
+        videoRef={{ current: null }}
+        theme={theme}
+      />,
+    );
+
+    fireEvent(getByTestId("storyboard-preview-stage"), "layout", {
+      nativeEvent: { layout: { width: 180, height: 0 } },
+    });
+    expect(queryByTestId("caption-layout-overlay")).toBeNull();
+
+    fireEvent.press(getByTestId("storyboard-move-caption"));
+    // 180x320 frame: 864px raster at 1080 scales to 144px, centred on xPct 0.4.
+    expect(getByTestId("caption-layout-box")).toHaveStyle({
+      left: 0.4 * 180 - 72,
+      width: 144,
+    });
+
+    fireEvent.press(getByTestId("caption-layout-done"));
+    expect(queryByTestId("caption-layout-overlay")).toBeNull();
+    expect(getByTestId("storyboard-move-caption")).toBeTruthy();
+  });
 });
@@ -5,21 +5,25 @@ import { LinearGradient } from "expo-linear-gradient";
 
 import { ThemedText } from "@/components/ThemedText";
 import { BorderRadius, Spacing } from "@/constants/theme";
+import type { BeatInsertPosition } from "@/screens/story-editor/model";
 import type { Step3BeatRailItem } from "@/screens/story-editor/step3";
 import type { AVPlaybackStatus, Video } from "expo-av";
 import type { RefObject } from "react";
 
+import type { StoryboardCaptionLayout } from "./CaptionLayoutOverlay";
 import { StoryboardPreviewStage } from "./StoryboardPreviewStage";
 import { StoryTimelineRail } from "./StoryTimelineRail";
 
 interface StoryboardSurfaceProps {
   activeSentenceIndex: number | null;
   blockedMessage: string | null;
+  captionLayout?: StoryboardCaptionLayout;
   currentPreviewBeatLabel: string | null;
   helperBannerCopy: string | null;
   isPreviewAvailable: boolean;
   isPreviewPlaying: boolean;
   maxVideoHeight?: number | null;
+  onInsertBeat?: (sentenceIndex: number, position: BeatInsertPosition) => void;
   onLongPressBeat: (sentenceIndex: number) => void;
   onOpenVoiceSync: () => void;
   onPressBeat: (sentenceIndex: number) => void;
@@ -58,11 +62,13 @@ interface StoryboardSurfaceProps {
 export function StoryboardSurface({
   activeSentenceIndex,
   blockedMessage,
+  captionLayout,
   currentPreviewBeatLabel,
   helperBannerCopy,
   isPreviewAvailable,
   isPreviewPlaying,
   maxVideoHeight,
+  onInsertBeat,
   onLongPressBeat,
   onOpenVoiceSync,
   onPressBeat,
@@ -166,6 +172,7 @@ export function StoryboardSurface({
       >
         <StoryboardPreviewStage
           blockedMessage={blockedMessage}
+          captionLayout={captionLayout}
           maxVideoHeight={maxVideoHeight}
           onPlaybackStatusUpdate={onPreviewPlaybackStatus}
           onPrimaryAction={handleHeroAction}
@@ -186,6 +193,7 @@ export function StoryboardSurface({
           isPreviewAvailable={isPreviewAvailable}
           isPreviewPlaying={isPreviewPlaying}
           items={railItems}
+          onInsertBeat={onInsertBeat}
           onLongPressBeat={onLongPressBeat}
           onPressBeat={onPressBeat}
           onStopPreview={onStopPreview}
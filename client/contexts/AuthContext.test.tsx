@@ -23,6 +23,13 @@ const mockFirebaseSignOut = jest.fn(async () => {});
 const mockEnsureUser = jest.fn();
 const mockGetUsage = jest.fn();
 const mockClearTokenCache = jest.fn();
+let sessionExpiredListener: (() => void) | null = null;
+const mockOnSessionExpired = jest.fn((listener: () => void) => {
+  sessionExpiredListener = listener;
+  return () => {
+    sessionExpiredListener = null;
+  };
+});
 
 jest.mock("firebase/auth", () => ({
   onAuthStateChanged: (...args: unknown[]) => mockOnAuthStateChanged(...args),
@@ -42,13 +49,21 @@ jest.mock("@/api/client", () => ({
   clearTokenCache: (...args: unknown[]) => mockClearTokenCache(...args),
   ensureUser: (...args: unknown[]) => mockEnsureUser(...args),
   getUsage: (...args: unknown[]) => mockGetUsage(...args),
+  onSessionExpired: (listener: () => void) => mockOnSessionExpired(listener),
 }));
 
 import { AuthProvider, useAuth } from "@/contexts/AuthContext";
 
 function AuthSnapshot() {
-  const { user, userProfile, usageSnapshot, isLoading, error, refreshUsage } =
-    useAuth();
+  const {
+    user,
+    userProfile,
+    usageSnapshot,
+    isLoading,
+    error,
+    authNotice,
+    refreshUsage,
+  } = useAuth();
 
   return (
     <View>
@@ -59,6 +74,7 @@ function AuthSnapshot() {
         {String(usageSnapshot?.usage?.availableSec ?? "none")}
       </Text>
       <Text testID="error">{error ?? "none"}</Text>
+      <Text testID="authNotice">{authNotice ?? "none"}</Text>
       <Pressable
         testID="refreshUsage"
         onPress={() => void refreshUsage().catch(() => {})}
@@ -236,4 +252,63 @@ describe("client/contexts/AuthContext", () => {
       expect(screen.getByTestId("availableSec")).toHaveTextContent("42");
     });
   });
+
+  test("signs out with a session-expired notice when the API reports an expired session", async () => {
+    mockEnsureUser.mockResolvedValue({
+      ok: true,
+      data: {
+        uid: "user-6",
+      },
+      requestId: "ensure-request",
+    });
+    mockGetUsage.mockResolvedValue({
+      ok: true,
+      data: {
+        usage: {
+          availableSec: 60,
+        },
+      },
+      requestId: "usage-request",
+    });
+
+    const screen = render(
+      <AuthProvider>
+        <AuthSnapshot />
+      </AuthProvider>,
+    );
+
+    await emitAuthState({ uid: "user-6" });
+    await waitFor(() => {
+      expect(screen.getByTestId("user")).toHaveTextContent("user-6");
+    });
+
+    await act(async () => {
+      sessionExpiredListener?.();
+      sessionExpiredListener?.();
+    });
+
+    await waitFor(() => {
+      expect(screen.getByTestId("user")).toHaveTextContent("none");
+      expect(screen.getByTestId("profile")).toHaveTextContent("none");
+      expect(screen.getByTestId("authNotice")).toHaveTextContent(
+        "Session expired. Please sign in again.",
+      );
+    });
+    expect(mockClearTokenCache).toHaveBeenCalled();
+    expect(mockFirebaseSignOut).toHaveBeenCalledTimes(1);
+  });
+
+  test("ignores session expiry before bootstrap has finished", async () => {
+    render(
+      <AuthProvider>
+        <AuthSnapshot />
+      </AuthProvider>,
+    );
+
+    await act(async () => {
+      sessionExpiredListener?.();
+    });
+
+    expect(mockFirebaseSignOut).not.toHaveBeenCalled();
+  });
 });
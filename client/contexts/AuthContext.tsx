@@ -26,6 +26,7 @@ import {
   clearTokenCache,
   ensureUser,
   getUsage,
+  onSessionExpired,
   UserProfile,
   UsageSnapshot,
 } from "@/api/client";
@@ -48,6 +49,9 @@ interface AuthContextType {
   refreshUsage: () => Promise<void>;
   error: string | null;
   clearError: () => void;
+  /** One-shot message for the toast layer, e.g. after a forced session expiry. */
+  authNotice: string | null;
+  clearAuthNotice: () => void;
 }
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
@@ -58,6 +62,7 @@ interface AuthProviderProps {
 
 const GOOGLE_WEB_CLIENT_ID = process.env.EXPO_PUBLIC_GOOGLE_WEB_CLIENT_ID;
 const BOOTSTRAP_ERROR_MESSAGE = "Couldn't finish account setup. Please sign in again.";
+export const SESSION_EXPIRED_MESSAGE = "Session expired. Please sign in again.";
 
 export function AuthProvider({ children }: AuthProviderProps) {
   const [user, setUser] = useState<User | null>(null);
@@ -65,11 +70,13 @@ export function AuthProvider({ children }: AuthProviderProps) {
   const [usageSnapshot, setUsageSnapshot] = useState<UsageSnapshot | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [authNotice, setAuthNotice] = useState<string | null>(null);
 
   const ensuredUidRef = useRef<string | null>(null);
   const authChangeIdRef = useRef(0);
   const userProfileRef = useRef<UserProfile | null>(null);
   const usageSnapshotRef = useRef<UsageSnapshot | null>(null);
+  const sessionExpiringRef = useRef(false);
 
   useEffect(() => {
     userProfileRef.current = userProfile;
@@ -208,6 +215,36 @@ export function AuthProvider({ children }: AuthProviderProps) {
     };
   }, []);
 
+  useEffect(() => {
+    // The API client already tried one forced token refresh + replay; a second
+    // 401 means Firebase can no longer mint a token the backend accepts.
+    return onSessionExpired(() => {
+      const expiredUid = ensuredUidRef.current;
+      if (!expiredUid || sessionExpiringRef.current) return;
+      sessionExpiringRef.current = true;
+      recordClientDiagnostic({
+        route: "auth.session",
+        code: "SESSION_EXPIRED",
+        message: SESSION_EXPIRED_MESSAGE,
+        context: { uid: expiredUid },
+      });
+      authChangeIdRef.current += 1;
+      clearTokenCache();
+      ensuredUidRef.current = null;
+      setUser(null);
+      setUserProfile(null);
+      setUsageSnapshot(null);
+      setAuthNotice(SESSION_EXPIRED_MESSAGE);
+      firebaseSignOut(auth)
+        .catch((signOutError) => {
+          console.error("[auth] session expiry signOut failed:", signOutError);
+        })
+        .finally(() => {
+          sessionExpiringRef.current = false;
+        });
+    });
+  }, []);
+
   const refreshUsage = useCallback(async () => {
     if (!user) return;
     try {
@@ -334,6 +371,7 @@ export function AuthProvider({ children }: AuthProviderProps) {
   }, []);
 
   const clearError = useCallback(() => setError(null), []);
+  const clearAuthNotice = useCallback(() => setAuthNotice(null), []);
 
   return (
     <AuthContext.Provider
@@ -349,6 +387,8 @@ export function AuthProvider({ children }: AuthProviderProps) {
         refreshUsage,
         error,
         clearError,
+        authNotice,
+        clearAuthNotice,
       }}
     >
       {children}
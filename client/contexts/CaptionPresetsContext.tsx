@@ -0,0 +1,136 @@
+import React, {
+  createContext,
+  useContext,
+  useCallback,
+  ReactNode,
+} from "react";
+
+import type { StoryOverlayCaptionStyle } from "@/api/client";
+import { useAuth } from "@/contexts/AuthContext";
+import { usePersistedRegistry } from "@/hooks/usePersistedRegistry";
+import {
+  EMPTY_CAPTION_PRESETS,
+  addImportedCaptionPresets,
+  createCaptionPreset,
+  deleteCaptionPreset,
+  getCaptionPresets,
+  loadCaptionPresets,
+  setDefaultCaptionPreset,
+  storeCaptionPresets,
+  type CaptionPreset,
+} from "@/lib/captionPresets";
+
+interface CaptionPresetsContextType {
+  /** Built-ins first, then presets saved on this account. */
+  presets: CaptionPreset[];
+  defaultPresetId: string | null;
+  isHydrated: boolean;
+  /** Returns the new preset's id, or null when the name is blank. */
+  savePreset: (name: string, style: StoryOverlayCaptionStyle) => string | null;
+  deletePreset: (presetId: string) => void;
+  /** Pass null to stop applying a preset to new sessions. */
+  setDefaultPreset: (presetId: string | null) => void;
+  /** Returns how many presets were added. */
+  importPresets: (
+    presets: { name: string; style: StoryOverlayCaptionStyle }[],
+  ) => number;
+}
+
+const CaptionPresetsContext = createContext<
+  CaptionPresetsContextType | undefined
+>(undefined);
+
+interface CaptionPresetsProviderProps {
+  children: ReactNode;
+}
+
+function createPresetId(): string {
+  return `preset-${Date.now().toString(36)}${Math.random()
+    .toString(36)
+    .slice(2, 6)}`;
+}
+
+export function CaptionPresetsProvider({
+  children,
+}: CaptionPresetsProviderProps) {
+  const { user } = useAuth();
+  const uid = user?.uid ?? null;
+  const { registry, isHydrated, commit } = usePersistedRegistry({
+    uid,
+    empty: EMPTY_CAPTION_PRESETS,
+    load: loadCaptionPresets,
+    store: storeCaptionPresets,
+    logTag: "caption-presets",
+  });
+
+  const savePreset = useCallback(
+    (name: string, style: StoryOverlayCaptionStyle) => {
+      const id = createPresetId();
+      let created = false;
+      commit((current) => {
+        const next = createCaptionPreset(current, { id, name, style });
+        created = next !== current;
+        return next;
+      });
+      return created ? id : null;
+    },
+    [commit],
+  );
+
+  const deletePreset = useCallback(
+    (presetId: string) => {
+      commit((current) => deleteCaptionPreset(current, presetId));
+    },
+    [commit],
+  );
+
+  const setDefaultPreset = useCallback(
+    (presetId: string | null) => {
+      commit((current) => setDefaultCaptionPreset(current, presetId));
+    },
+    [commit],
+  );
+
+  const importPresets = useCallback(
+    (presets: { name: string; style: StoryOverlayCaptionStyle }[]) => {
+      let added = 0;
+      commit((current) => {
+        const next = addImportedCaptionPresets(
+          current,
+          presets,
+          createPresetId,
+        );
+        added = next.presets.length - current.presets.length;
+        return next;
+      });
+      return added;
+    },
+    [commit],
+  );
+
+  return (
+    <CaptionPresetsContext.Provider
+      value={{
+        presets: getCaptionPresets(registry),
+        defaultPresetId: registry.defaultPresetId,
+        isHydrated,
+        savePreset,
+        deletePreset,
+        setDefaultPreset,
+        importPresets,
+      }}
+    >
+      {children}
+    </CaptionPresetsContext.Provider>
+  );
+}
+
+export function useCaptionPresets() {
+  const context = useContext(CaptionPresetsContext);
+  if (context === undefined) {
+    throw new Error(
+      "useCaptionPresets must be used within a CaptionPresetsProvider",
+    );
+  }
+  return context;
+}
@@ -0,0 +1,139 @@
+import React, {
+  createContext,
+  useContext,
+  useCallback,
+  ReactNode,
+} from "react";
+
+import { useAuth } from "@/contexts/AuthContext";
+import { usePersistedRegistry } from "@/hooks/usePersistedRegistry";
+import {
+  EMPTY_CLIP_COLLECTIONS,
+  FAVORITES_COLLECTION_ID,
+  createClipCollection,
+  deleteClipCollection,
+  isClipInCollection,
+  loadClipCollections,
+  storeClipCollections,
+  toggleClipInCollection,
+  type ClipCollection,
+} from "@/lib/clipCollections";
+import type { StoryClip } from "@/types/story";
+
+interface ClipCollectionsContextType {
+  /** Favorites first, then user-created collections. */
+  collections: ClipCollection[];
+  isHydrated: boolean;
+  isFavorite: (clip: StoryClip | null | undefined) => boolean;
+  isInCollection: (
+    collectionId: string,
+    clip: StoryClip | null | undefined,
+  ) => boolean;
+  toggleFavorite: (clip: StoryClip) => void;
+  toggleInCollection: (collectionId: string, clip: StoryClip) => void;
+  /** Returns the new collection's id, or null when the name is blank. */
+  createCollection: (name: string, clip?: StoryClip) => string | null;
+  deleteCollection: (collectionId: string) => void;
+}
+
+const ClipCollectionsContext = createContext<
+  ClipCollectionsContextType | undefined
+>(undefined);
+
+interface ClipCollectionsProviderProps {
+  children: ReactNode;
+}
+
+function createCollectionId(): string {
+  return `collection-${Date.now().toString(36)}${Math.random()
+    .toString(36)
+    .slice(2, 6)}`;
+}
+
+export function ClipCollectionsProvider({
+  children,
+}: ClipCollectionsProviderProps) {
+  const { user } = useAuth();
+  const uid = user?.uid ?? null;
+  const { registry, isHydrated, commit } = usePersistedRegistry({
+    uid,
+    empty: EMPTY_CLIP_COLLECTIONS,
+    load: loadClipCollections,
+    store: storeClipCollections,
+    logTag: "clip-collections",
+  });
+
+  const isInCollection = useCallback(
+    (collectionId: string, clip: StoryClip | null | undefined) =>
+      isClipInCollection(registry, collectionId, clip),
+    [registry],
+  );
+
+  const isFavorite = useCallback(
+    (clip: StoryClip | null | undefined) =>
+      isClipInCollection(registry, FAVORITES_COLLECTION_ID, clip),
+    [registry],
+  );
+
+  const toggleInCollection = useCallback(
+    (collectionId: string, clip: StoryClip) => {
+      commit((current) => toggleClipInCollection(current, collectionId, clip));
+    },
+    [commit],
+  );
+
+  const toggleFavorite = useCallback(
+    (clip: StoryClip) => {
+      toggleInCollection(FAVORITES_COLLECTION_ID, clip);
+    },
+    [toggleInCollection],
+  );
+
+  const createCollection = useCallback(
+    (name: string, clip?: StoryClip) => {
+      const id = createCollectionId();
+      let created = false;
+      commit((current) => {
+        const next = createClipCollection(current, { id, name, clip });
+        created = next !== current;
+        return next;
+      });
+      return created ? id : null;
+    },
+    [commit],
+  );
+
+  const deleteCollection = useCallback(
+    (collectionId: string) => {
+      commit((current) => deleteClipCollection(current, collectionId));
+    },
+    [commit],
+  );
+
+  return (
+    <ClipCollectionsContext.Provider
+      value={{
+        collections: registry.collections,
+        isHydrated,
+        isFavorite,
+        isInCollection,
+        toggleFavorite,
+        toggleInCollection,
+        createCollection,
+        deleteCollection,
+      }}
+    >
+      {children}
+    </ClipCollectionsContext.Provider>
+  );
+}
+
+export function useClipCollections() {
+  const context = useContext(ClipCollectionsContext);
+  if (context === undefined) {
+    throw new Error(
+      "useClipCollections must be used within a ClipCollectionsProvider",
+    );
+  }
+  return context;
+}
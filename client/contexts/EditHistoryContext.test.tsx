@@ -0,0 +1,219 @@
+import React from "react";
+import { describe, expect, test, beforeEach, jest } from "@jest/globals";
+import { Pressable, Text, View } from "react-native";
+import { act, fireEvent, render, waitFor } from "@testing-library/react-native";
+
+import type { EditCommand } from "@/lib/editHistory";
+
+const mockStoryInsertBeat = jest.fn();
+const mockStoryUpdateShot = jest.fn();
+const mockStoryDeleteBeat = jest.fn();
+const mockShowSuccess = jest.fn();
+const mockShowError = jest.fn();
+const mockOnApplied = jest.fn();
+
+jest.mock("@/api/client", () => ({
+  storyDeleteBeat: (...args: unknown[]) => mockStoryDeleteBeat(...args),
+  storyInsertBeat: (...args: unknown[]) => mockStoryInsertBeat(...args),
+  storyUpdateBeatText: jest.fn(),
+  storyUpdateCaptionStyle: jest.fn(),
+  storyUpdateScript: jest.fn(),
+  storyUpdateShot: (...args: unknown[]) => mockStoryUpdateShot(...args),
+}));
+
+jest.mock("@/contexts/AuthContext", () => ({
+  useAuth: () => ({ user: { uid: "user-1" } }),
+}));
+
+jest.mock("@/contexts/ToastContext", () => ({
+  useToast: () => ({
+    showError: mockShowError,
+    showSuccess: mockShowSuccess,
+    showWarning: jest.fn(),
+    showToast: jest.fn(),
+  }),
+}));
+
+import {
+  EditHistoryProvider,
+  useEditHistory,
+} from "@/contexts/EditHistoryContext";
+
+const deleteBeat = {
+  kind: "delete_beat" as const,
+  sentenceIndex: 1,
+  text: "Second beat",
+  clipId: "clip-2",
+};
+
+function HistoryHarness({ command = deleteBeat }: { command?: EditCommand }) {
+  const history = useEditHistory("session-1", mockOnApplied);
+  return (
+    <View>
+      <Text testID="state">{`${history.canUndo}/${history.canRedo}`}</Text>
+      <Pressable
+        testID="record"
+        onPress={() => history.record({ ...command })}
+      />
+      <Pressable testID="undo" onPress={() => void history.undo()} />
+      <Pressable testID="redo" onPress={() => void history.redo()} />
+    </View>
+  );
+}
+
+describe("client/contexts/EditHistoryContext", () => {
+  beforeEach(() => {
+    mockStoryInsertBeat.mockReset();
+    mockStoryUpdateShot.mockReset();
+    mockStoryDeleteBeat.mockReset();
+    mockShowSuccess.mockClear();
+    mockShowError.mockClear();
+    mockOnApplied.mockClear();
+  });
+
+  test("undoes a delete by re-inserting the beat and its clip, then redoes it", async () => {
+    mockStoryInsertBeat.mockResolvedValue({
+      ok: true,
+      data: { sentences: [], shots: [], insertedIndex: 1 },
+    });
+    mockStoryUpdateShot.mockResolvedValue({ ok: true, data: {} });
+    mockStoryDeleteBeat.mockResolvedValue({
+      ok: true,
+      data: { sentences: [], shots: [] },
+    });
+
+    const screen = render(
+      <EditHistoryProvider>
+        <HistoryHarness />
+      </EditHistoryProvider>,
+    );
+
+    fireEvent.press(screen.getByTestId("record"));
+    expect(screen.getByTestId("state").props.children).toBe("true/false");
+    expect(mockShowSuccess).toHaveBeenCalledWith(
+      "Beat 2 deleted",
+      expect.objectContaining({ label: "Undo" }),
+    );
+
+    await act(async () => {
+      fireEvent.press(screen.getByTestId("undo"));
+    });
+
+    expect(mockStoryInsertBeat).toHaveBeenCalledWith({
+      sessionId: "session-1",
+      insertAfterIndex: 0,
+      text: "Second beat",
+    });
+    expect(mockStoryUpdateShot).toHaveBeenCalledWith({
+      sessionId: "session-1",
+      sentenceIndex: 1,
+      clipId: "clip-2",
+    });
+    expect(mockOnApplied).toHaveBeenCalledWith(deleteBeat, "undo");
+    await waitFor(() => {
+      expect(screen.getByTestId("state").props.children).toBe("false/true");
+    });
+
+    await act(async () => {
+      fireEvent.press(screen.getByTestId("redo"));
+    });
+
+    expect(mockStoryDeleteBeat).toHaveBeenCalledWith({
+      sessionId: "session-1",
+      sentenceIndex: 1,
+    });
+    expect(screen.getByTestId("state").props.children).toBe("true/false");
+  });
+
+  test("keeps the command and shows an error when the inverse call fails", async () => {
+    mockStoryInsertBeat.mockResolvedValue({
+      ok: false,
+      status: 500,
+      code: "INTERNAL",
+      message: "boom",
+    });
+
+    const screen = render(
+      <EditHistoryProvider>
+        <HistoryHarness />
+      </EditHistoryProvider>,
+    );
+
+    fireEvent.press(screen.getByTestId("record"));
+    await act(async () => {
+      fireEvent.press(screen.getByTestId("undo"));
+    });
+
+    expect(mockStoryUpdateShot).not.toHaveBeenCalled();
+    expect(mockOnApplied).not.toHaveBeenCalled();
+    expect(mockShowError).toHaveBeenCalledTimes(1);
+    expect(screen.getByTestId("state").props.children).toBe("true/false");
+  });
+
+  test("undoing a clip swap re-sends the favorite it replaced and its trim", async () => {
+    mockStoryUpdateShot.mockResolvedValue({ ok: true, data: {} });
+    const favorite = { id: "favorite-1", url: "https://example.com/f.mp4" };
+    const candidate = { id: "clip-b", url: "https://example.com/b.mp4" };
+    const swap: EditCommand = {
+      kind: "shot",
+      sentenceIndex: 0,
+      beforeClipId: favorite.id,
+      afterClipId: candidate.id,
+      beforeClip: favorite,
+      afterClip: candidate,
+      beforeClipStartSec: 2.5,
+    };
+
+    const screen = render(
+      <EditHistoryProvider>
+        <HistoryHarness command={swap} />
+      </EditHistoryProvider>,
+    );
+
+    fireEvent.press(screen.getByTestId("record"));
+    await act(async () => {
+      fireEvent.press(screen.getByTestId("undo"));
+    });
+
+    expect(mockStoryUpdateShot).toHaveBeenCalledWith({
+      sessionId: "session-1",
+      sentenceIndex: 0,
+      clipId: "favorite-1",
+      clip: favorite,
+      clipStartSec: 2.5,
+    });
+    await waitFor(() => {
+      expect(screen.getByTestId("state").props.children).toBe("false/true");
+    });
+
+    await act(async () => {
+      fireEvent.press(screen.getByTestId("redo"));
+    });
+    expect(mockStoryUpdateShot).toHaveBeenLastCalledWith({
+      sessionId: "session-1",
+      sentenceIndex: 0,
+      clipId: "clip-b",
+      clip: candidate,
+    });
+  });
+
+  test("a stale toast action does not undo a newer edit", async () => {
+    const screen = render(
+      <EditHistoryProvider>
+        <HistoryHarness />
+      </EditHistoryProvider>,
+    );
+
+    fireEvent.press(screen.getByTestId("record"));
+    const staleAction = mockShowSuccess.mock.calls[0][1] as {
+      onPress: () => void;
+    };
+    fireEvent.press(screen.getByTestId("record"));
+
+    await act(async () => {
+      staleAction.onPress();
+    });
+
+    expect(mockStoryInsertBeat).not.toHaveBeenCalled();
+  });
+});
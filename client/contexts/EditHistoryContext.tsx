@@ -0,0 +1,345 @@
+import React, {
+  createContext,
+  useCallback,
+  useContext,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+  ReactNode,
+} from "react";
+
+import {
+  storyDeleteBeat,
+  storyUpdateBeatText,
+  storyUpdateCaptionStyle,
+  storyUpdateScript,
+  storyUpdateShot,
+  type NormalizedResponse,
+} from "@/api/client";
+import {
+  insertStoryBeat,
+  mergeStoryBeats,
+  persistBeatArrangement,
+  splitStoryBeat,
+  updateStoryBeatTexts,
+} from "@/api/storyBeatEdits";
+import { useAuth } from "@/contexts/AuthContext";
+import { useErrorToast } from "@/hooks/useErrorToast";
+import { getCaptionPositionPayload } from "@/lib/captionPosition";
+import {
+  EMPTY_EDIT_HISTORY,
+  completeEditStep,
+  describeEditCommand,
+  getNextEditCommand,
+  recordEditCommand,
+  type EditCommand,
+  type EditDirection,
+  type EditHistory,
+} from "@/lib/editHistory";
+
+type EditAppliedListener = (
+  command: EditCommand,
+  direction: EditDirection,
+) => void;
+
+interface EditHistoryContextType {
+  histories: Record<string, EditHistory>;
+  applyingSessionId: string | null;
+  record: (sessionId: string, command: EditCommand) => void;
+  /**
+   * Undo or redo the top command. With `expected`, only steps when that
+   * command is still on top (a stale toast must not undo a newer edit).
+   */
+  step: (
+    sessionId: string,
+    direction: EditDirection,
+    expected?: EditCommand,
+  ) => Promise<boolean>;
+  clear: (sessionId: string) => void;
+  subscribe: (sessionId: string, listener: EditAppliedListener) => () => void;
+}
+
+const EditHistoryContext = createContext<EditHistoryContextType | undefined>(
+  undefined,
+);
+
+async function applyEditCommand(
+  sessionId: string,
+  command: EditCommand,
+  direction: EditDirection,
+): Promise<NormalizedResponse<unknown>> {
+  const undo = direction === "undo";
+  switch (command.kind) {
+    case "script":
+      return storyUpdateScript({
+        sessionId,
+        sentences: undo ? command.before : command.after,
+      });
+    case "beat_text":
+      return storyUpdateBeatText({
+        sessionId,
+        sentenceIndex: command.sentenceIndex,
+        text: undo ? command.before : command.after,
+      });
+    case "beat_texts":
+      return updateStoryBeatTexts({
+        sessionId,
+        updates: command.changes.map((change) => ({
+          sentenceIndex: change.sentenceIndex,
+          before: undo ? change.after : change.before,
+          text: undo ? change.before : change.after,
+        })),
+      });
+    case "delete_beat":
+    case "insert_beat": {
+      const removes = (command.kind === "delete_beat") !== undo;
+      return removes
+        ? storyDeleteBeat({ sessionId, sentenceIndex: command.sentenceIndex })
+        : insertStoryBeat({ sessionId, ...command });
+    }
+    case "shot": {
+      const clip = undo ? command.beforeClip : command.afterClip;
+      const clipStartSec = undo
+        ? command.beforeClipStartSec
+        : command.afterClipStartSec;
+      return storyUpdateShot({
+        sessionId,
+        sentenceIndex: command.sentenceIndex,
+        clipId: undo ? command.beforeClipId : command.afterClipId,
+        ...(clip ? { clip } : {}),
+        ...(clipStartSec ? { clipStartSec } : {}),
+      });
+    }
+    case "clip_trim":
+      return storyUpdateShot({
+        sessionId,
+        sentenceIndex: command.sentenceIndex,
+        clipId: command.clipId,
+        clipStartSec: undo ? command.before : command.after,
+      });
+    case "caption_placement": {
+      const position = undo ? command.before : command.after;
+      return storyUpdateCaptionStyle({
+        sessionId,
+        overlayCaption: getCaptionPositionPayload(position),
+      });
+    }
+    case "split_beat":
+      return undo
+        ? mergeStoryBeats({
+            sessionId,
+            sentenceIndex: command.sentenceIndex,
+            first: command.head,
+            text: command.before,
+          })
+        : splitStoryBeat({ sessionId, ...command });
+    case "merge_beats":
+      return undo
+        ? splitStoryBeat({
+            sessionId,
+            sentenceIndex: command.sentenceIndex,
+            before: command.merged,
+            head: command.first,
+            tail: command.second,
+            clipId: command.secondClipId,
+          })
+        : mergeStoryBeats({
+            sessionId,
+            sentenceIndex: command.sentenceIndex,
+            first: command.first,
+            text: command.merged,
+          });
+    case "beat_order":
+      return undo
+        ? persistBeatArrangement(sessionId, command.after, command.before)
+        : persistBeatArrangement(sessionId, command.before, command.after);
+  }
+}
+
+interface EditHistoryProviderProps {
+  children: ReactNode;
+}
+
+/**
+ * In-memory undo/redo stacks per story session, shared by the Script,
+ * Storyboard and clip picker screens. Cleared on sign-out.
+ */
+export function EditHistoryProvider({ children }: EditHistoryProviderProps) {
+  const { user } = useAuth();
+  const uid = user?.uid ?? null;
+  const { showApiError, showSuccess } = useErrorToast();
+  const [histories, setHistories] = useState<Record<string, EditHistory>>({});
+  const [applyingSessionId, setApplyingSessionId] = useState<string | null>(
+    null,
+  );
+  const historiesRef = useRef<Record<string, EditHistory>>({});
+  const applyingRef = useRef(false);
+  const listenersRef = useRef(new Map<string, Set<EditAppliedListener>>());
+  // Toast helpers change identity every render; read the latest through a ref.
+  const toastRef = useRef({ showApiError, showSuccess });
+  toastRef.current = { showApiError, showSuccess };
+
+  const updateHistory = useCallback((sessionId: string, next: EditHistory) => {
+    historiesRef.current = { ...historiesRef.current, [sessionId]: next };
+    setHistories(historiesRef.current);
+  }, []);
+
+  useEffect(() => {
+    historiesRef.current = {};
+    setHistories({});
+  }, [uid]);
+
+  const step = useCallback(
+    async (
+      sessionId: string,
+      direction: EditDirection,
+      expected?: EditCommand,
+    ): Promise<boolean> => {
+      if (applyingRef.current) return false;
+      const history = historiesRef.current[sessionId] ?? EMPTY_EDIT_HISTORY;
+      const command = getNextEditCommand(history, direction);
+      if (!command || (expected && expected !== command)) return false;
+
+      applyingRef.current = true;
+      setApplyingSessionId(sessionId);
+      const fallbackMessage =
+        direction === "undo"
+          ? "Couldn't undo that change. Please try again."
+          : "Couldn't redo that change. Please try again.";
+      try {
+        const result = await applyEditCommand(sessionId, command, direction);
+        if (!result.ok) {
+          const failure = toastRef.current.showApiError(
+            result,
+            fallbackMessage,
+          );
+          // The session is gone; nothing in its history can be applied.
+          if (failure.action === "go_back") {
+            updateHistory(sessionId, EMPTY_EDIT_HISTORY);
+          }
+          return false;
+        }
+
+        updateHistory(
+          sessionId,
+          completeEditStep(
+            historiesRef.current[sessionId] ?? EMPTY_EDIT_HISTORY,
+            direction,
+          ),
+        );
+        listenersRef.current
+          .get(sessionId)
+          ?.forEach((listener) => listener(command, direction));
+
+        const reverse: EditDirection = direction === "undo" ? "redo" : "undo";
+        toastRef.current.showSuccess(
+          `${direction === "undo" ? "Undone" : "Redone"}: ${describeEditCommand(command)}`,
+          {
+            label: reverse === "undo" ? "Undo" : "Redo",
+            onPress: () => void step(sessionId, reverse, command),
+          },
+        );
+        return true;
+      } catch (error) {
+        console.error(`[history] ${direction} failed:`, error);
+        toastRef.current.showApiError(error, fallbackMessage);
+        return false;
+      } finally {
+        applyingRef.current = false;
+        setApplyingSessionId(null);
+      }
+    },
+    [updateHistory],
+  );
+
+  const record = useCallback(
+    (sessionId: string, command: EditCommand) => {
+      updateHistory(
+        sessionId,
+        recordEditCommand(
+          historiesRef.current[sessionId] ?? EMPTY_EDIT_HISTORY,
+          command,
+        ),
+      );
+      toastRef.current.showSuccess(describeEditCommand(command), {
+        label: "Undo",
+        onPress: () => void step(sessionId, "undo", command),
+      });
+    },
+    [step, updateHistory],
+  );
+
+  const clear = useCallback(
+    (sessionId: string) => {
+      if (!historiesRef.current[sessionId]) return;
+      updateHistory(sessionId, EMPTY_EDIT_HISTORY);
+    },
+    [updateHistory],
+  );
+
+  const subscribe = useCallback(
+    (sessionId: string, listener: EditAppliedListener) => {
+      const listeners = listenersRef.current.get(sessionId) ?? new Set();
+      listeners.add(listener);
+      listenersRef.current.set(sessionId, listeners);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+    [],
+  );
+
+  return (
+    <EditHistoryContext.Provider
+      value={{ histories, applyingSessionId, record, step, clear, subscribe }}
+    >
+      {children}
+    </EditHistoryContext.Provider>
+  );
+}
+
+/**
+ * Undo/redo for one session. `onApplied` runs after a step lands so the
+ * screen can reload whatever the inverse call changed on the server.
+ */
+export function useEditHistory(
+  sessionId: string,
+  onApplied?: EditAppliedListener,
+) {
+  const context = useContext(EditHistoryContext);
+  if (context === undefined) {
+    throw new Error(
+      "useEditHistory must be used within an EditHistoryProvider",
+    );
+  }
+  const { histories, applyingSessionId, record, step, clear, subscribe } =
+    context;
+
+  const onAppliedRef = useRef(onApplied);
+  onAppliedRef.current = onApplied;
+
+  useEffect(
+    () =>
+      subscribe(sessionId, (command, direction) =>
+        onAppliedRef.current?.(command, direction),
+      ),
+    [sessionId, subscribe],
+  );
+
+  const history = histories[sessionId] ?? EMPTY_EDIT_HISTORY;
+  const isApplying = applyingSessionId !== null;
+
+  return useMemo(
+    () => ({
+      canUndo: history.past.length > 0 && !isApplying,
+      canRedo: history.future.length > 0 && !isApplying,
+      isApplying,
+      record: (command: EditCommand) => record(sessionId, command),
+      undo: () => step(sessionId, "undo"),
+      redo: () => step(sessionId, "redo"),
+      clear: () => clear(sessionId),
+    }),
+    [clear, history, isApplying, record, sessionId, step],
+  );
+}
@@ -0,0 +1,114 @@
+import React, {
+  createContext,
+  useContext,
+  useCallback,
+  ReactNode,
+} from "react";
+
+import { useAuth } from "@/contexts/AuthContext";
+import { usePersistedRegistry } from "@/hooks/usePersistedRegistry";
+import {
+  EMPTY_STORY_DRAFTS,
+  loadStoryDrafts,
+  pruneExpiredStoryDrafts,
+  removeStoryDraft,
+  renameStoryDraft,
+  storeStoryDrafts,
+  upsertStoryDraft,
+  type StoryDraft,
+  type StoryDraftStep,
+} from "@/lib/storyDrafts";
+import type { StorySession } from "@/types/story";
+
+interface StoryDraftsContextType {
+  drafts: StoryDraft[];
+  /** Draft the Script/Storyboard flow tabs point at. */
+  openDraftId: string | null;
+  isHydrated: boolean;
+  openDraft: (
+    sessionId: string,
+    step: StoryDraftStep,
+    session?: StorySession | null,
+  ) => void;
+  renameDraft: (sessionId: string, title: string) => void;
+  removeDraft: (sessionId: string) => void;
+  closeDraft: () => void;
+}
+
+const StoryDraftsContext = createContext<StoryDraftsContextType | undefined>(
+  undefined,
+);
+
+interface StoryDraftsProviderProps {
+  children: ReactNode;
+}
+
+export function StoryDraftsProvider({ children }: StoryDraftsProviderProps) {
+  const { user } = useAuth();
+  const uid = user?.uid ?? null;
+  const { registry, isHydrated, commit } = usePersistedRegistry({
+    uid,
+    empty: EMPTY_STORY_DRAFTS,
+    load: loadStoryDrafts,
+    store: storeStoryDrafts,
+    prepare: pruneExpiredStoryDrafts,
+    logTag: "drafts",
+  });
+
+  const openDraft = useCallback(
+    (
+      sessionId: string,
+      step: StoryDraftStep,
+      session?: StorySession | null,
+    ) => {
+      commit((current) =>
+        upsertStoryDraft(current, { id: sessionId, step, session }),
+      );
+    },
+    [commit],
+  );
+
+  const renameDraft = useCallback(
+    (sessionId: string, title: string) => {
+      commit((current) => renameStoryDraft(current, sessionId, title));
+    },
+    [commit],
+  );
+
+  const removeDraft = useCallback(
+    (sessionId: string) => {
+      commit((current) => removeStoryDraft(current, sessionId));
+    },
+    [commit],
+  );
+
+  const closeDraft = useCallback(() => {
+    commit((current) =>
+      current.openDraftId ? { ...current, openDraftId: null } : current,
+    );
+  }, [commit]);
+
+  return (
+    <StoryDraftsContext.Provider
+      value={{
+        drafts: registry.drafts,
+        openDraftId: registry.openDraftId,
+        isHydrated,
+        openDraft,
+        renameDraft,
+        removeDraft,
+        closeDraft,
+      }}
+    >
+      {children}
+    </StoryDraftsContext.Provider>
+  );
+}
+
+export function useStoryDrafts() {
+  const context = useContext(StoryDraftsContext);
+  if (context === undefined) {
+    throw new Error("useStoryDrafts must be used within a StoryDraftsProvider");
+  }
+  return context;
+}
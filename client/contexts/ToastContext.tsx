@@ -1,10 +1,10 @@
 import React, { createContext, useContext, useState, ReactNode } from "react";
-import { Toast, ToastType } from "@/components/Toast";
+import { Toast, ToastAction, ToastType } from "@/components/Toast";
 
 interface ToastContextType {
-  showToast: (message: string, type?: ToastType) => void;
+  showToast: (message: string, type?: ToastType, action?: ToastAction) => void;
   showError: (message: string) => void;
-  showSuccess: (message: string) => void;
+  showSuccess: (message: string, action?: ToastAction) => void;
   showWarning: (message: string) => void;
 }
 
@@ -18,15 +18,22 @@ export function ToastProvider({ children }: ToastProviderProps) {
   const [visible, setVisible] = useState(false);
   const [message, setMessage] = useState("");
   const [type, setType] = useState<ToastType>("info");
+  const [action, setAction] = useState<ToastAction | null>(null);
 
-  const showToast = (msg: string, toastType: ToastType = "info") => {
+  const showToast = (
+    msg: string,
+    toastType: ToastType = "info",
+    toastAction?: ToastAction,
+  ) => {
     setMessage(msg);
     setType(toastType);
+    setAction(toastAction ?? null);
     setVisible(true);
   };
 
   const showError = (msg: string) => showToast(msg, "error");
-  const showSuccess = (msg: string) => showToast(msg, "success");
+  const showSuccess = (msg: string, toastAction?: ToastAction) =>
+    showToast(msg, "success", toastAction);
   const showWarning = (msg: string) => showToast(msg, "warning");
 
   const handleHide = () => {
@@ -40,6 +47,7 @@ export function ToastProvider({ children }: ToastProviderProps) {
         visible={visible}
         message={message}
         type={type}
+        action={action}
         onHide={handleHide}
       />
     </ToastContext.Provider>
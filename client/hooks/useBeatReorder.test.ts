@@ -0,0 +1,99 @@
+import { act, renderHook } from "@testing-library/react-native";
+import { beforeEach, describe, expect, jest, test } from "@jest/globals";
+
+import { useBeatReorder } from "@/hooks/useBeatReorder";
+import type { StorySession } from "@/types/story";
+
+const mockStoryUpdateScript =
+  jest.fn<(...args: unknown[]) => Promise<unknown>>();
+const mockStoryUpdateShot = jest.fn<(...args: unknown[]) => Promise<unknown>>();
+const mockShowWarning = jest.fn();
+
+jest.mock("@/api/client", () => ({
+  storyUpdateScript: (...args: unknown[]) => mockStoryUpdateScript(...args),
+  storyUpdateShot: (...args: unknown[]) => mockStoryUpdateShot(...args),
+}));
+
+jest.mock("@/contexts/ToastContext", () => ({
+  useToast: () => ({
+    showError: jest.fn(),
+    showSuccess: jest.fn(),
+    showToast: jest.fn(),
+    showWarning: mockShowWarning,
+  }),
+}));
+
+function buildSession(clipIds: (string | null)[]): StorySession {
+  return {
+    id: "session-1",
+    story: { sentences: clipIds.map((_, index) => `Beat ${index + 1}`) },
+    shots: clipIds.map((id, sentenceIndex) => ({
+      sentenceIndex,
+      selectedClip: id ? { id } : null,
+    })),
+  };
+}
+
+function renderReorder(session: StorySession) {
+  const setSession = jest.fn();
+  const recordEdit = jest.fn();
+  const { result } = renderHook(() =>
+    useBeatReorder({
+      sessionId: "session-1",
+      session,
+      setSession,
+      recordEdit,
+      refreshSession: async () => undefined,
+    }),
+  );
+  return { recordEdit, result, setSession };
+}
+
+describe("client/hooks/useBeatReorder", () => {
+  beforeEach(() => {
+    mockStoryUpdateScript.mockReset();
+    mockStoryUpdateShot.mockReset();
+    mockShowWarning.mockReset();
+  });
+
+  test("moves beats and points each slot back at its beat's clip", async () => {
+    mockStoryUpdateScript.mockResolvedValue({ ok: true, data: {} });
+    mockStoryUpdateShot.mockResolvedValue({ ok: true, data: {} });
+    const { recordEdit, result } = renderReorder(
+      buildSession(["clip-a", "clip-b"]),
+    );
+
+    await act(async () => {
+      await expect(result.current.moveBeat(1, 0)).resolves.toBe(true);
+    });
+
+    expect(mockStoryUpdateScript).toHaveBeenCalledWith({
+      sessionId: "session-1",
+      sentences: ["Beat 2", "Beat 1"],
+    });
+    expect(mockStoryUpdateShot.mock.calls).toEqual([
+      [{ sessionId: "session-1", sentenceIndex: 0, clipId: "clip-b" }],
+      [{ sessionId: "session-1", sentenceIndex: 1, clipId: "clip-a" }],
+    ]);
+    expect(recordEdit).toHaveBeenCalledWith(
+      expect.objectContaining({ kind: "beat_order", fromIndex: 1 }),
+    );
+  });
+
+  test("refuses to move beats while some have no clip", async () => {
+    const { recordEdit, result, setSession } = renderReorder(
+      buildSession(["clip-a", null]),
+    );
+
+    await act(async () => {
+      await expect(result.current.moveBeat(1, 0)).resolves.toBe(false);
+    });
+
+    expect(mockShowWarning).toHaveBeenCalledWith(
+      "Pick a clip for every beat before moving beats.",
+    );
+    expect(mockStoryUpdateScript).not.toHaveBeenCalled();
+    expect(setSession).not.toHaveBeenCalled();
+    expect(recordEdit).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,91 @@
+import { useCallback, useRef, useState } from "react";
+
+import { persistBeatArrangement } from "@/api/storyBeatEdits";
+import { useErrorToast } from "@/hooks/useErrorToast";
+import {
+  arrangeBeats,
+  getBeatArrangement,
+  getMoveOrder,
+  hasUnassignedClips,
+  reorderStorySession,
+} from "@/lib/beatOrder";
+import type { EditCommand } from "@/lib/editHistory";
+import type { StorySession } from "@/types/story";
+
+const REORDER_FAILURE = "Couldn't move beat. Please try again.";
+const MISSING_CLIP_WARNING = "Pick a clip for every beat before moving beats.";
+
+interface UseBeatReorderOptions {
+  sessionId: string;
+  session: StorySession | null;
+  setSession: (session: StorySession | null) => void;
+  recordEdit: (command: EditCommand) => void;
+  /** Reload server state after a move lands or fails part-way. */
+  refreshSession: () => Promise<unknown>;
+}
+
+/**
+ * Drag reorder for a story's beats. The list moves immediately, then rolls
+ * back if the server rejects the new order.
+ */
+export function useBeatReorder({
+  sessionId,
+  session,
+  setSession,
+  recordEdit,
+  refreshSession,
+}: UseBeatReorderOptions) {
+  const { showApiError, showWarning } = useErrorToast();
+  const [isReordering, setIsReordering] = useState(false);
+  const isReorderingRef = useRef(false);
+
+  const moveBeat = useCallback(
+    async (fromIndex: number, toIndex: number): Promise<boolean> => {
+      if (!session || isReorderingRef.current || fromIndex === toIndex) {
+        return false;
+      }
+      const before = getBeatArrangement(session);
+      if (hasUnassignedClips(before)) {
+        showWarning(MISSING_CLIP_WARNING);
+        return false;
+      }
+      const order = getMoveOrder(before.sentences.length, fromIndex, toIndex);
+      const after = arrangeBeats(before, order);
+
+      isReorderingRef.current = true;
+      setIsReordering(true);
+      setSession(reorderStorySession(session, order));
+      try {
+        const result = await persistBeatArrangement(sessionId, before, after);
+        if (!result.ok) {
+          setSession(session);
+          showApiError(result, REORDER_FAILURE);
+          await refreshSession();
+          return false;
+        }
+        recordEdit({ kind: "beat_order", fromIndex, toIndex, before, after });
+        await refreshSession();
+        return true;
+      } catch (error) {
+        console.error("[reorder] move beat failed:", error);
+        setSession(session);
+        showApiError(error, REORDER_FAILURE);
+        return false;
+      } finally {
+        isReorderingRef.current = false;
+        setIsReordering(false);
+      }
+    },
+    [
+      recordEdit,
+      refreshSession,
+      session,
+      sessionId,
+      setSession,
+      showApiError,
+      showWarning,
+    ],
+  );
+
+  return { isReordering, moveBeat };
+}
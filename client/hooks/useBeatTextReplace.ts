@@ -0,0 +1,86 @@
+import { useCallback, useState } from "react";
+
+import { updateStoryBeatTexts } from "@/api/storyBeatEdits";
+import { useErrorToast } from "@/hooks/useErrorToast";
+import type { EditCommand } from "@/lib/editHistory";
+import { describeBeatIndices, type BeatTextChange } from "@/lib/findReplace";
+import { getVoiceStaleBeatIndices } from "@/screens/story-editor/model";
+import type { StorySession } from "@/types/story";
+
+const REPLACE_FAILURE =
+  "Couldn't replace text in every beat. Please try again.";
+
+interface UseBeatTextReplaceOptions {
+  sessionId: string;
+  recordEdit: (command: EditCommand) => void;
+  /** Reload server state and return it, so stale voice sync can be reported. */
+  refreshSession: () => Promise<StorySession | null | void>;
+}
+
+/**
+ * Batch text edits for storyboarded beats. Each changed beat gets its own
+ * update-beat-text so shots stay in place; the batch is one undo step and a
+ * partial failure is rolled back.
+ */
+export function useBeatTextReplace({
+  sessionId,
+  recordEdit,
+  refreshSession,
+}: UseBeatTextReplaceOptions) {
+  const { showApiError, showSuccess, showWarning } = useErrorToast();
+  const [isReplacing, setIsReplacing] = useState(false);
+
+  const replaceBeatTexts = useCallback(
+    async (changes: BeatTextChange[], label: string): Promise<boolean> => {
+      if (changes.length === 0) return false;
+      setIsReplacing(true);
+      try {
+        const result = await updateStoryBeatTexts({
+          sessionId,
+          updates: changes.map(({ sentenceIndex, before, after }) => ({
+            sentenceIndex,
+            before,
+            text: after,
+          })),
+        });
+        if (!result.ok) {
+          showApiError(result, REPLACE_FAILURE);
+          await refreshSession();
+          return false;
+        }
+        recordEdit({ kind: "beat_texts", label, changes });
+
+        const refreshed = await refreshSession();
+        const changed = changes.map((change) => change.sentenceIndex);
+        const stale = getVoiceStaleBeatIndices(refreshed || null).filter(
+          (index) => changed.includes(index),
+        );
+        if (stale.length > 0) {
+          showWarning(
+            `Voice sync is now stale for ${describeBeatIndices(stale)}. Re-sync before rendering.`,
+          );
+        } else {
+          showSuccess(`Updated ${describeBeatIndices(changed)}.`);
+        }
+        return true;
+      } catch (error) {
+        console.error("[find-replace] batch update failed:", error);
+        showApiError(error, REPLACE_FAILURE);
+        await refreshSession();
+        return false;
+      } finally {
+        setIsReplacing(false);
+      }
+    },
+    [
+      recordEdit,
+      refreshSession,
+      sessionId,
+      showApiError,
+      showSuccess,
+      showWarning,
+    ],
+  );
+
+  return { isReplacing, replaceBeatTexts };
+}
@@ -0,0 +1,99 @@
+import { useCallback } from "react";
+import * as Clipboard from "expo-clipboard";
+import * as DocumentPicker from "expo-document-picker";
+import { File, Paths } from "expo-file-system";
+import * as Sharing from "expo-sharing";
+
+import { useCaptionPresets } from "@/contexts/CaptionPresetsContext";
+import { useErrorToast } from "@/hooks/useErrorToast";
+import {
+  formatCaptionPresetExport,
+  parseCaptionPresetImport,
+} from "@/lib/captionPresets";
+
+export type CaptionPresetTransferTarget = "clipboard" | "file";
+
+const EXPORT_FAILURE = "Couldn't export presets. Please try again.";
+const IMPORT_FAILURE = "Couldn't read presets. Please try again.";
+
+/**
+ * Share saved caption presets as versioned JSON and add presets someone
+ * else exported. Built-ins are never exported.
+ */
+export function useCaptionPresetTransfer() {
+  const { presets, importPresets } = useCaptionPresets();
+  const { showError, showSuccess } = useErrorToast();
+
+  const exportPresets = useCallback(
+    async (target: CaptionPresetTransferTarget): Promise<boolean> => {
+      const saved = presets.filter((preset) => !preset.builtIn);
+      if (saved.length === 0) {
+        showError("Save a preset before exporting.");
+        return false;
+      }
+      const content = formatCaptionPresetExport(saved);
+      try {
+        if (target === "clipboard") {
+          await Clipboard.setStringAsync(content);
+          showSuccess("Presets copied to clipboard.");
+          return true;
+        }
+        if (!(await Sharing.isAvailableAsync())) {
+          showError("Sharing files isn't available on this device.");
+          return false;
+        }
+        const file = new File(Paths.cache, "caption-presets.json");
+        file.create({ overwrite: true });
+        file.write(content);
+        await Sharing.shareAsync(file.uri, {
+          mimeType: "application/json",
+          dialogTitle: "Export caption presets",
+        });
+        return true;
+      } catch (error) {
+        console.error("[caption-presets] export failed:", error);
+        showError(EXPORT_FAILURE);
+        return false;
+      }
+    },
+    [presets, showError, showSuccess],
+  );
+
+  /** Resolves to the number of presets added; 0 if cancelled or rejected. */
+  const importPresetsFrom = useCallback(
+    async (source: CaptionPresetTransferTarget): Promise<number> => {
+      let raw: string;
+      try {
+        if (source === "clipboard") {
+          raw = await Clipboard.getStringAsync();
+        } else {
+          const picked = await DocumentPicker.getDocumentAsync({
+            type: ["application/json", "text/plain"],
+            copyToCacheDirectory: true,
+          });
+          const asset = picked.canceled ? null : picked.assets[0];
+          if (!asset) return 0;
+          raw = await new File(asset.uri).text();
+        }
+      } catch (error) {
+        console.error("[caption-presets] import read failed:", error);
+        showError(IMPORT_FAILURE);
+        return 0;
+      }
+
+      const result = parseCaptionPresetImport(raw);
+      if (!result.ok) {
+        showError(result.message);
+        return 0;
+      }
+      const added = importPresets(result.presets);
+      showSuccess(
+        added === 1 ? "Imported 1 preset." : `Imported ${added} presets.`,
+      );
+      return added;
+    },
+    [importPresets, showError, showSuccess],
+  );
+
+  return { exportPresets, importPresets: importPresetsFrom };
+}
@@ -5,32 +5,39 @@ import {
   type CaptionPreviewStyle,
   type CaptionPreviewMeta,
 } from "@/api/client";
+import {
+  flushCaptionPreviewCache,
+  getCachedCaptionPreview,
+  getCaptionPreviewCacheKey,
+  hydrateCaptionPreviewCache,
+  setCachedCaptionPreview,
+} from "@/lib/captionPreviewCache";
 
 const DEBOUNCE_MS = 350;
-const CACHE_TTL_MS = 60_000;
+const FRAME_W = 1080;
+const FRAME_H = 1920;
 
 /** Deterministic cache key: style + placement + text. Do not rely on styleHash/wrapHash. */
 function hashStyleAndText(
   style: CaptionPreviewStyle | undefined,
   placement: string | undefined,
   text: string,
-  yPct?: number
+  yPct?: number,
+  xPct?: number,
 ): string {
   const styleJson =
     style && typeof style === "object"
       ? JSON.stringify(style, Object.keys(style).sort())
       : "";
   const ySuffix = yPct === undefined ? "" : `|${yPct}`;
-  return `${styleJson}|${placement ?? ""}|${text}${ySuffix}`;
-}
-
-interface CacheEntry {
-  meta: CaptionPreviewMeta;
-  expiresAt: number;
+  const xSuffix = xPct === undefined ? "" : `|x${xPct}`;
+  return `${styleJson}|${placement ?? ""}|${text}${ySuffix}${xSuffix}`;
 }
 
 export interface UseCaptionPreviewOptions {
-  placement?: "top" | "center" | "bottom";
+  placement?: "top" | "center" | "bottom" | "custom";
+  /** Only used with a "custom" placement. */
+  xPct?: number;
   yPct?: number;
   style?: CaptionPreviewStyle;
   /** When true, bypass debounce and run request immediately; clears any pending timer and in-flight request for this sentenceIndex to avoid late pop. */
@@ -49,39 +56,43 @@ export function useCaptionPreview(
   const [previewByIndex, setPreviewByIndex] = useState<Record<number, CaptionPreviewMeta | null>>({});
   const [isLoadingByIndex, setIsLoadingByIndex] = useState<Record<number, boolean>>({});
 
-  const cacheRef = useRef<Map<string, CacheEntry>>(new Map());
   const debounceTimersRef = useRef<Record<number, ReturnType<typeof setTimeout>>>({});
   const abortControllersRef = useRef<Record<number, AbortController>>({});
   const requestIdRef = useRef<Record<number, number>>({});
   const prefetchRunIdRef = useRef(0);
   const prefetchCurrentSentenceIndexRef = useRef<number | null>(null);
 
+  /** Resolves true when the preview was served from the persistent cache. */
   const doOneRequest = useCallback(
     async (
       sentenceIndex: number,
       text: string,
       options: UseCaptionPreviewOptions = {}
-    ): Promise<void> => {
+    ): Promise<boolean> => {
       requestIdRef.current[sentenceIndex] =
         (requestIdRef.current[sentenceIndex] ?? 0) + 1;
       const reqId = requestIdRef.current[sentenceIndex];
 
-      const { placement = "center", yPct, style } = options;
+      const { placement = "center", xPct, yPct, style } = options;
       const trimmed = text?.trim() ?? "";
-      const cacheKey = hashStyleAndText(style, placement, trimmed, yPct);
+      const cacheKey = getCaptionPreviewCacheKey(
+        hashStyleAndText(style, placement, trimmed, yPct, xPct),
+        FRAME_W,
+        FRAME_H,
+      );
+
+      await hydrateCaptionPreviewCache();
+      // A newer request for this beat started while the cache loaded.
+      if (requestIdRef.current[sentenceIndex] !== reqId) return false;
 
-      const now = Date.now();
-      const cached = cacheRef.current.get(cacheKey);
-      if (cached && cached.expiresAt > now) {
+      const cached = getCachedCaptionPreview(cacheKey);
+      if (cached) {
         setPreviewByIndex((prev) => {
-          if (prev[sentenceIndex]?.rasterUrl === cached.meta.rasterUrl) return prev;
-          return { ...prev, [sentenceIndex]: cached.meta };
+          if (prev[sentenceIndex]?.rasterUrl === cached.rasterUrl) return prev;
+          return { ...prev, [sentenceIndex]: cached };
         });
-        const isLatest = requestIdRef.current[sentenceIndex] === reqId;
-        if (isLatest) {
-          setIsLoadingByIndex((prev) => ({ ...prev, [sentenceIndex]: false }));
-        }
-        return;
+        setIsLoadingByIndex((prev) => ({ ...prev, [sentenceIndex]: false }));
+        return true;
       }
 
       const prevController = abortControllersRef.current[sentenceIndex];
@@ -95,10 +106,11 @@ export function useCaptionPreview(
       const body = buildCaptionPreviewPayload({
         text: trimmed || " ",
         placement,
+        xPct,
         yPct,
         style,
-        frameW: 1080,
-        frameH: 1920,
+        frameW: FRAME_W,
+        frameH: FRAME_H,
       });
 
       try {
@@ -114,10 +126,7 @@ export function useCaptionPreview(
           result.data?.meta?.rasterUrl
         ) {
           const meta = result.data.meta as CaptionPreviewMeta;
-          cacheRef.current.set(cacheKey, {
-            meta,
-            expiresAt: Date.now() + CACHE_TTL_MS,
-          });
+          setCachedCaptionPreview(cacheKey, meta);
           setPreviewByIndex((prev) => ({ ...prev, [sentenceIndex]: meta }));
         }
       } catch {
@@ -128,6 +137,7 @@ export function useCaptionPreview(
           setIsLoadingByIndex((prev) => ({ ...prev, [sentenceIndex]: false }));
         }
       }
+      return false;
     },
     []
   );
@@ -146,6 +156,9 @@ export function useCaptionPreview(
         if (ctrl) ctrl.abort();
       }
       abortControllersRef.current = {};
+      flushCaptionPreviewCache().catch((error) => {
+        console.warn("[caption-preview-cache] persist failed:", error);
+      });
     };
   }, []);
 
@@ -187,24 +200,41 @@ export function useCaptionPreview(
   const prefetchAllBeats = useCallback(
     async (
       beats: PrefetchBeat[],
-      opts?: { delayBetweenMs?: number; placement?: "top" | "center" | "bottom"; yPct?: number }
+      opts?: {
+        delayBetweenMs?: number;
+        placement?: "top" | "center" | "bottom" | "custom";
+        xPct?: number;
+        yPct?: number;
+        style?: CaptionPreviewStyle;
+      },
     ): Promise<void> => {
       prefetchRunIdRef.current += 1;
       const runId = prefetchRunIdRef.current;
       const delayBetweenMs = opts?.delayBetweenMs ?? 120;
       const placement = opts?.placement ?? "center";
+      const xPct = opts?.xPct;
       const yPct = opts?.yPct;
+      const style = opts?.style;
       try {
         for (const beat of beats) {
           if (prefetchRunIdRef.current !== runId) break;
           prefetchCurrentSentenceIndexRef.current = beat.sentenceIndex;
+          let fromCache = false;
           try {
-            await doOneRequest(beat.sentenceIndex, beat.text, { placement, yPct });
+            fromCache = await doOneRequest(beat.sentenceIndex, beat.text, {
+              placement,
+              xPct,
+              yPct,
+              style,
+            });
           } catch {
             // continue to next beat
           }
           if (prefetchRunIdRef.current !== runId) break;
-          await new Promise((r) => setTimeout(r, delayBetweenMs));
+          // Cache hits cost no request, so only pace network fetches.
+          if (!fromCache) {
+            await new Promise((r) => setTimeout(r, delayBetweenMs));
+          }
         }
       } finally {
         prefetchCurrentSentenceIndexRef.current = null;
@@ -0,0 +1,159 @@
+import { act, renderHook } from "@testing-library/react-native";
+import { beforeEach, describe, expect, jest, test } from "@jest/globals";
+
+import { useClipCandidateSwap } from "@/hooks/useClipCandidateSwap";
+import type { StorySession } from "@/types/story";
+
+const mockStoryUpdateShot = jest.fn<(...args: unknown[]) => Promise<unknown>>();
+const mockShowError = jest.fn();
+
+jest.mock("@/api/client", () => ({
+  storyUpdateShot: (...args: unknown[]) => mockStoryUpdateShot(...args),
+}));
+
+jest.mock("@/contexts/ToastContext", () => ({
+  useToast: () => ({
+    showError: mockShowError,
+    showSuccess: jest.fn(),
+    showToast: jest.fn(),
+    showWarning: jest.fn(),
+  }),
+}));
+
+const clipA = { id: "clip-a", thumbUrl: "https://example.com/a.jpg" };
+const clipB = { id: "clip-b", thumbUrl: "https://example.com/b.jpg" };
+
+function buildSession(): StorySession {
+  return {
+    id: "session-1",
+    story: { sentences: ["Beat one", "Beat two"] },
+    shots: [
+      { sentenceIndex: 0, selectedClip: clipA, candidates: [clipA, clipB] },
+      { sentenceIndex: 1, selectedClip: clipB, candidates: [clipB] },
+    ],
+  };
+}
+
+function renderSwap(session: StorySession) {
+  const setSession = jest.fn();
+  const recordEdit = jest.fn();
+  const { result } = renderHook(() =>
+    useClipCandidateSwap({
+      sessionId: "session-1",
+      session,
+      setSession,
+      recordEdit,
+    }),
+  );
+  return { recordEdit, result, setSession };
+}
+
+describe("client/hooks/useClipCandidateSwap", () => {
+  beforeEach(() => {
+    mockStoryUpdateShot.mockReset();
+    mockShowError.mockReset();
+  });
+
+  test("selects the candidate before update-shot resolves and records the swap", async () => {
+    const session = buildSession();
+    const { recordEdit, result, setSession } = renderSwap(session);
+    let resolveUpdate: (value: unknown) => void = () => {};
+    mockStoryUpdateShot.mockReturnValue(
+      new Promise((resolve) => {
+        resolveUpdate = resolve;
+      }),
+    );
+
+    let swapped: Promise<boolean> = Promise.resolve(false);
+    act(() => {
+      swapped = result.current.swapClip(0, clipB);
+    });
+
+    const optimistic = setSession.mock.calls[0][0] as StorySession;
+    expect(optimistic.shots?.[0].selectedClip?.id).toBe("clip-b");
+    expect(optimistic.shots?.[1].selectedClip?.id).toBe("clip-b");
+    expect(result.current.swappingClipId).toBe("clip-b");
+
+    await act(async () => {
+      resolveUpdate({ ok: true, data: session });
+      await swapped;
+    });
+
+    expect(mockStoryUpdateShot).toHaveBeenCalledWith({
+      sessionId: "session-1",
+      sentenceIndex: 0,
+      clipId: "clip-b",
+    });
+    expect(recordEdit).toHaveBeenCalledWith({
+      kind: "shot",
+      sentenceIndex: 0,
+      beforeClipId: "clip-a",
+      afterClipId: "clip-b",
+      beforeClip: clipA,
+      afterClip: clipB,
+    });
+    expect(setSession).toHaveBeenCalledTimes(1);
+    expect(result.current.isSwapping).toBe(false);
+  });
+
+  test("records a favorite it swaps away from so undo can send it back", async () => {
+    const favorite = {
+      id: "favorite-1",
+      thumbUrl: "https://example.com/f.jpg",
+    };
+    const session = buildSession();
+    session.shots![0] = {
+      ...session.shots![0],
+      selectedClip: favorite,
+      clipStartSec: 3,
+    };
+    const { recordEdit, result } = renderSwap(session);
+    mockStoryUpdateShot.mockResolvedValue({ ok: true, data: session });
+
+    await act(async () => {
+      await result.current.swapClip(0, clipB);
+    });
+
+    expect(recordEdit).toHaveBeenCalledWith(
+      expect.objectContaining({
+        beforeClipId: "favorite-1",
+        beforeClip: favorite,
+        afterClip: clipB,
+        beforeClipStartSec: 3,
+      }),
+    );
+  });
+
+  test("rolls back to the previous clip when update-shot fails", async () => {
+    const session = buildSession();
+    const { recordEdit, result, setSession } = renderSwap(session);
+    mockStoryUpdateShot.mockResolvedValue({
+      ok: false,
+      status: 500,
+      code: "SERVER_ERROR",
+      message: "Server exploded",
+    });
+
+    let swapped = true;
+    await act(async () => {
+      swapped = await result.current.swapClip(0, clipB);
+    });
+
+    expect(swapped).toBe(false);
+    expect(setSession).toHaveBeenCalledTimes(2);
+    expect(setSession.mock.calls[1][0]).toBe(session);
+    expect(recordEdit).not.toHaveBeenCalled();
+    expect(mockShowError).toHaveBeenCalled();
+  });
+
+  test("ignores a tap on the clip that is already selected", async () => {
+    const { result, setSession } = renderSwap(buildSession());
+
+    await act(async () => {
+      await result.current.swapClip(0, clipA);
+    });
+
+    expect(mockStoryUpdateShot).not.toHaveBeenCalled();
+    expect(setSession).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,97 @@
+import { useCallback, useRef, useState } from "react";
+
+import { storyUpdateShot } from "@/api/client";
+import { useErrorToast } from "@/hooks/useErrorToast";
+import { getShotClipStartSec } from "@/lib/clipTrim";
+import type { EditCommand } from "@/lib/editHistory";
+import { getSelectedShot, withShotChanges } from "@/screens/story-editor/model";
+import type { StoryClip, StorySession } from "@/types/story";
+
+const SWAP_FAILURE = "Couldn't swap clip. Please try again.";
+
+interface UseClipCandidateSwapOptions {
+  sessionId: string;
+  session: StorySession | null;
+  setSession: (session: StorySession | null) => void;
+  recordEdit: (command: EditCommand) => void;
+}
+
+/**
+ * One-tap clip swaps from a shot's search candidates. The beat shows the new
+ * clip immediately and rolls back if update-shot fails.
+ */
+export function useClipCandidateSwap({
+  sessionId,
+  session,
+  setSession,
+  recordEdit,
+}: UseClipCandidateSwapOptions) {
+  const { showApiError } = useErrorToast();
+  const [swappingClipId, setSwappingClipId] = useState<string | null>(null);
+  const isSwappingRef = useRef(false);
+
+  const swapClip = useCallback(
+    async (sentenceIndex: number, clip: StoryClip): Promise<boolean> => {
+      const beforeShot = getSelectedShot(session, sentenceIndex);
+      const beforeClip = beforeShot?.selectedClip;
+      const beforeClipId = beforeClip?.id;
+      const beforeClipStartSec = getShotClipStartSec(beforeShot);
+      if (
+        !session ||
+        !clip.id ||
+        isSwappingRef.current ||
+        clip.id === beforeClipId
+      ) {
+        return false;
+      }
+      const clipId = clip.id;
+
+      isSwappingRef.current = true;
+      setSwappingClipId(clipId);
+      // update-shot without an in-point plays the new clip from the start.
+      setSession(
+        withShotChanges(session, sentenceIndex, {
+          selectedClip: clip,
+          clipStartSec: undefined,
+        }),
+      );
+      try {
+        const result = await storyUpdateShot({
+          sessionId,
+          sentenceIndex,
+          clipId,
+        });
+        if (!result.ok) {
+          setSession(session);
+          showApiError(result, SWAP_FAILURE);
+          return false;
+        }
+        if (beforeClip && beforeClipId) {
+          // Full records, so undo still works once the old clip (a favorite
+          // or a searched clip) is on no shot or candidate list.
+          recordEdit({
+            kind: "shot",
+            sentenceIndex,
+            beforeClipId,
+            afterClipId: clipId,
+            beforeClip,
+            afterClip: clip,
+            ...(beforeClipStartSec > 0 ? { beforeClipStartSec } : {}),
+          });
+        }
+        return true;
+      } catch (error) {
+        console.error("[clip-swap] update shot failed:", error);
+        setSession(session);
+        showApiError(error, SWAP_FAILURE);
+        return false;
+      } finally {
+        isSwappingRef.current = false;
+        setSwappingClipId(null);
+      }
+    },
+    [recordEdit, session, sessionId, setSession, showApiError],
+  );
+
+  return { isSwapping: swappingClipId !== null, swapClip, swappingClipId };
+}
@@ -0,0 +1,96 @@
+import { act, renderHook } from "@testing-library/react-native";
+import { beforeEach, describe, expect, jest, test } from "@jest/globals";
+
+import { useClipTrim } from "@/hooks/useClipTrim";
+import type { StorySession } from "@/types/story";
+
+const mockStoryUpdateShot = jest.fn<(...args: unknown[]) => Promise<unknown>>();
+const mockShowError = jest.fn();
+
+jest.mock("@/api/client", () => ({
+  storyUpdateShot: (...args: unknown[]) => mockStoryUpdateShot(...args),
+}));
+
+jest.mock("@/contexts/ToastContext", () => ({
+  useToast: () => ({
+    showError: mockShowError,
+    showSuccess: jest.fn(),
+    showToast: jest.fn(),
+    showWarning: jest.fn(),
+  }),
+}));
+
+const clip = { id: "clip-a", url: "https://example.com/a.mp4", duration: 12 };
+
+function buildSession(): StorySession {
+  return {
+    id: "session-1",
+    story: { sentences: ["Beat one"] },
+    shots: [{ sentenceIndex: 0, selectedClip: clip, clipStartSec: 1.5 }],
+    draftPreviewV1: { version: 1, state: "ready" },
+  };
+}
+
+function renderTrim(session: StorySession) {
+  const setSession = jest.fn();
+  const recordEdit = jest.fn();
+  const { result } = renderHook(() =>
+    useClipTrim({ sessionId: "session-1", session, setSession, recordEdit }),
+  );
+  return { recordEdit, result, setSession };
+}
+
+describe("client/hooks/useClipTrim", () => {
+  beforeEach(() => {
+    mockStoryUpdateShot.mockReset();
+    mockShowError.mockReset();
+  });
+
+  test("saves the in-point, marks the draft preview stale and records the trim", async () => {
+    const session = buildSession();
+    const { recordEdit, result, setSession } = renderTrim(session);
+    mockStoryUpdateShot.mockResolvedValue({ ok: true, data: session });
+
+    await act(async () => {
+      await result.current.saveClipStart(0, 4.2);
+    });
+
+    const optimistic = setSession.mock.calls[0][0] as StorySession;
+    expect(optimistic.shots?.[0].clipStartSec).toBe(4.2);
+    expect(optimistic.draftPreviewV1?.state).toBe("stale");
+    expect(mockStoryUpdateShot).toHaveBeenCalledWith({
+      sessionId: "session-1",
+      sentenceIndex: 0,
+      clipId: "clip-a",
+      clipStartSec: 4.2,
+    });
+    expect(recordEdit).toHaveBeenCalledWith({
+      kind: "clip_trim",
+      sentenceIndex: 0,
+      clipId: "clip-a",
+      before: 1.5,
+      after: 4.2,
+    });
+  });
+
+  test("rolls back when update-shot fails", async () => {
+    const session = buildSession();
+    const { recordEdit, result, setSession } = renderTrim(session);
+    mockStoryUpdateShot.mockResolvedValue({
+      ok: false,
+      status: 500,
+      code: "SERVER_ERROR",
+      message: "Server exploded",
+    });
+
+    let saved = true;
+    await act(async () => {
+      saved = await result.current.saveClipStart(0, 4.2);
+    });
+
+    expect(saved).toBe(false);
+    expect(setSession.mock.calls[1][0]).toBe(session);
+    expect(recordEdit).not.toHaveBeenCalled();
+    expect(mockShowError).toHaveBeenCalled();
+  });
+});
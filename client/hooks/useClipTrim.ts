@@ -0,0 +1,80 @@
+import { useCallback, useState } from "react";
+
+import { storyUpdateShot } from "@/api/client";
+import { useErrorToast } from "@/hooks/useErrorToast";
+import { getShotClipStartSec } from "@/lib/clipTrim";
+import type { EditCommand } from "@/lib/editHistory";
+import { getSelectedShot, withShotChanges } from "@/screens/story-editor/model";
+import { markStep3DraftPreviewStale } from "@/screens/story-editor/step3";
+import type { StorySession } from "@/types/story";
+
+const TRIM_FAILURE = "Couldn't save the clip trim. Please try again.";
+
+interface UseClipTrimOptions {
+  sessionId: string;
+  session: StorySession | null;
+  setSession: (session: StorySession | null) => void;
+  recordEdit: (command: EditCommand) => void;
+}
+
+/**
+ * Save the in-point of a beat's selected clip. Playback follows the new
+ * in-point immediately; a ready draft preview is marked stale.
+ */
+export function useClipTrim({
+  sessionId,
+  session,
+  setSession,
+  recordEdit,
+}: UseClipTrimOptions) {
+  const { showApiError } = useErrorToast();
+  const [isTrimming, setIsTrimming] = useState(false);
+
+  const saveClipStart = useCallback(
+    async (sentenceIndex: number, clipStartSec: number): Promise<boolean> => {
+      const shot = getSelectedShot(session, sentenceIndex);
+      const clipId = shot?.selectedClip?.id;
+      if (!session || !clipId) return false;
+      const before = getShotClipStartSec(shot);
+      if (before === clipStartSec) return true;
+
+      setIsTrimming(true);
+      setSession(
+        markStep3DraftPreviewStale(
+          withShotChanges(session, sentenceIndex, { clipStartSec }),
+        ),
+      );
+      try {
+        const result = await storyUpdateShot({
+          sessionId,
+          sentenceIndex,
+          clipId,
+          clipStartSec,
+        });
+        if (!result.ok) {
+          setSession(session);
+          showApiError(result, TRIM_FAILURE);
+          return false;
+        }
+        recordEdit({
+          kind: "clip_trim",
+          sentenceIndex,
+          clipId,
+          before,
+          after: clipStartSec,
+        });
+        return true;
+      } catch (error) {
+        console.error("[clip-trim] update shot failed:", error);
+        setSession(session);
+        showApiError(error, TRIM_FAILURE);
+        return false;
+      } finally {
+        setIsTrimming(false);
+      }
+    },
+    [recordEdit, session, sessionId, setSession, showApiError],
+  );
+
+  return { isTrimming, saveClipStart };
+}
@@ -0,0 +1,100 @@
+import { renderHook } from "@testing-library/react-native";
+import { beforeEach, describe, expect, jest, test } from "@jest/globals";
+
+import { useErrorToast } from "@/hooks/useErrorToast";
+
+const mockShowError = jest.fn();
+const mockShowToast = jest.fn();
+const mockShowWarning = jest.fn();
+const mockExpireSession = jest.fn();
+
+jest.mock("@/api/client", () => ({
+  expireSession: () => mockExpireSession(),
+}));
+
+jest.mock("@/contexts/ToastContext", () => ({
+  useToast: () => ({
+    showError: mockShowError,
+    showSuccess: jest.fn(),
+    showToast: mockShowToast,
+    showWarning: mockShowWarning,
+  }),
+}));
+
+const serverError = {
+  ok: false,
+  status: 500,
+  code: "SERVER_ERROR",
+  message: "SERVER_ERROR",
+  requestId: null,
+};
+
+describe("client/hooks/useErrorToast", () => {
+  beforeEach(() => {
+    mockShowError.mockReset();
+    mockShowToast.mockReset();
+    mockShowWarning.mockReset();
+    mockExpireSession.mockReset();
+  });
+
+  test("adds a toast button when the caller handles the failure's action", () => {
+    const { result } = renderHook(() => useErrorToast());
+    const retry = jest.fn();
+
+    const presentation = result.current.showApiError(
+      serverError,
+      "Failed to load.",
+      { retry },
+    );
+
+    expect(presentation.action).toBe("retry");
+    expect(mockShowToast).toHaveBeenCalledWith(
+      "Something went wrong. Please try again.",
+      "error",
+      { label: "Retry", onPress: retry },
+    );
+    expect(mockShowError).not.toHaveBeenCalled();
+  });
+
+  test("shows a plain toast when no handler matches", () => {
+    const { result } = renderHook(() => useErrorToast());
+
+    result.current.showApiError(
+      { ok: false, status: 409, code: "STALE_META", message: "STALE_META" },
+      "Failed to save.",
+      { retry: jest.fn() },
+    );
+
+    expect(mockShowWarning).toHaveBeenCalledWith(
+      "Data is out of sync. Refresh and try again.",
+    );
+    expect(mockShowToast).not.toHaveBeenCalled();
+  });
+
+  test("offers sign-in for auth failures without a caller handler", () => {
+    const { result } = renderHook(() => useErrorToast());
+
+    result.current.showApiError(
+      {
+        ok: false,
+        status: 401,
+        code: "AUTH_REQUIRED",
+        message: "AUTH_REQUIRED",
+      },
+      "Failed to load.",
+    );
+
+    expect(mockShowToast).toHaveBeenCalledWith(
+      "Please sign in to continue.",
+      "error",
+      { label: "Sign in", onPress: expect.any(Function) },
+    );
+    const [, , action] = mockShowToast.mock.calls[0] as [
+      string,
+      string,
+      { onPress: () => void },
+    ];
+    action.onPress();
+    expect(mockExpireSession).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,61 @@
+import { useCallback } from "react";
+
+import { expireSession } from "@/api/client";
+import { useToast } from "@/contexts/ToastContext";
+import {
+  describeError,
+  ERROR_ACTION_LABELS,
+  type ErrorAction,
+  type ErrorPresentation,
+} from "@/lib/errorCatalog";
+
+/** Handlers a screen can run for a failure's catalog action. */
+export type ErrorActionHandlers = Partial<Record<ErrorAction, () => void>>;
+
+/** Actions every screen handles the same way; callers can override them. */
+const DEFAULT_ACTION_HANDLERS: ErrorActionHandlers = {
+  reauth: () => expireSession(),
+};
+
+export type ShowApiError = (
+  error: unknown,
+  fallbackMessage?: string,
+  actions?: ErrorActionHandlers,
+) => ErrorPresentation;
+
+/**
+ * Show a catalog-mapped toast for an API failure or thrown error. When
+ * `actions` (or a default handler, e.g. sign-in for `reauth`) handles the
+ * failure's `action`, the toast gets a button for it.
+ * Returns the presentation so callers can follow up on its `action`.
+ */
+export function useErrorToast() {
+  const toast = useToast();
+  const { showError, showWarning, showToast } = toast;
+
+  const showApiError = useCallback<ShowApiError>(
+    (error, fallbackMessage, actions) => {
+      const presentation = describeError(error, fallbackMessage);
+      const onPress =
+        actions?.[presentation.action] ??
+        DEFAULT_ACTION_HANDLERS[presentation.action];
+      const label = ERROR_ACTION_LABELS[presentation.action];
+      if (onPress && label) {
+        showToast(presentation.message, presentation.severity, {
+          label,
+          onPress,
+        });
+      } else if (presentation.severity === "warning") {
+        showWarning(presentation.message);
+      } else if (presentation.severity === "info") {
+        showToast(presentation.message, "info");
+      } else {
+        showError(presentation.message);
+      }
+      return presentation;
+    },
+    [showError, showToast, showWarning],
+  );
+
+  return { ...toast, showApiError };
+}
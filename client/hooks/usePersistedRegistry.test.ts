@@ -0,0 +1,102 @@
+import { act, renderHook, waitFor } from "@testing-library/react-native";
+import { describe, expect, jest, test } from "@jest/globals";
+
+import { usePersistedRegistry } from "@/hooks/usePersistedRegistry";
+
+type Registry = { items: string[] };
+
+const EMPTY: Registry = { items: [] };
+
+function deferred<T>() {
+  let resolve!: (value: T) => void;
+  const promise = new Promise<T>((r) => {
+    resolve = r;
+  });
+  return { promise, resolve };
+}
+
+describe("client/hooks/usePersistedRegistry", () => {
+  test("replays updates made before hydration onto the stored registry", async () => {
+    const loaded = deferred<Registry>();
+    const store = jest.fn(async (_uid: string, _registry: Registry) => {});
+    const { result } = renderHook(() =>
+      usePersistedRegistry({
+        uid: "user-1",
+        empty: EMPTY,
+        load: () => loaded.promise,
+        store,
+        logTag: "test",
+      }),
+    );
+
+    act(() => {
+      result.current.commit((current) => ({
+        items: [...current.items, "early"],
+      }));
+    });
+    expect(result.current.registry.items).toEqual(["early"]);
+    expect(store).not.toHaveBeenCalled();
+
+    await act(async () => {
+      loaded.resolve({ items: ["saved-a", "saved-b"] });
+    });
+
+    await waitFor(() => expect(result.current.isHydrated).toBe(true));
+    expect(result.current.registry.items).toEqual([
+      "saved-a",
+      "saved-b",
+      "early",
+    ]);
+    expect(store).toHaveBeenCalledTimes(1);
+    expect(store).toHaveBeenCalledWith("user-1", {
+      items: ["saved-a", "saved-b", "early"],
+    });
+  });
+
+  test("saves a prepared registry and later commits straight away", async () => {
+    const store = jest.fn(async (_uid: string, _registry: Registry) => {});
+    const { result } = renderHook(() =>
+      usePersistedRegistry({
+        uid: "user-1",
+        empty: EMPTY,
+        load: async () => ({ items: ["expired", "kept"] }),
+        store,
+        prepare: (stored) => ({
+          items: stored.items.filter((item) => item !== "expired"),
+        }),
+        logTag: "test",
+      }),
+    );
+
+    await waitFor(() => expect(result.current.isHydrated).toBe(true));
+    expect(store).toHaveBeenLastCalledWith("user-1", { items: ["kept"] });
+
+    act(() => {
+      result.current.commit(() => ({ items: [] }));
+    });
+    expect(store).toHaveBeenLastCalledWith("user-1", { items: [] });
+  });
+
+  test("a failed load keeps later commits out of storage", async () => {
+    const store = jest.fn(async (_uid: string, _registry: Registry) => {});
+    const { result } = renderHook(() =>
+      usePersistedRegistry({
+        uid: "user-1",
+        empty: EMPTY,
+        load: () => Promise.reject(new Error("corrupt")),
+        store,
+        logTag: "test",
+      }),
+    );
+    await waitFor(() => expect(result.current.isHydrated).toBe(true));
+
+    act(() => {
+      result.current.commit((current) => ({
+        items: [...current.items, "after-failure"],
+      }));
+    });
+
+    expect(result.current.registry.items).toEqual(["after-failure"]);
+    expect(store).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,125 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+
+type RegistryUpdate<R> = (current: R) => R;
+
+interface UsePersistedRegistryOptions<R> {
+  uid: string | null;
+  empty: R;
+  load: (uid: string) => Promise<R>;
+  store: (uid: string, registry: R) => Promise<void>;
+  /** Runs once on the loaded registry; a changed result is saved. */
+  prepare?: (stored: R) => R;
+  /** Console prefix, e.g. "drafts". */
+  logTag: string;
+}
+
+/**
+ * A registry loaded from and saved to per-UID storage. Updates made before
+ * the load finishes apply at once in memory and are replayed onto the
+ * stored registry, so an early write can't overwrite what's saved. After a
+ * failed load, edits stay in memory and nothing is written for that UID.
+ */
+export function usePersistedRegistry<R>({
+  uid,
+  empty,
+  load,
+  store,
+  prepare,
+  logTag,
+}: UsePersistedRegistryOptions<R>) {
+  const [registry, setRegistry] = useState<R>(empty);
+  const [isHydrated, setIsHydrated] = useState(false);
+  const registryRef = useRef<R>(empty);
+  const hydratedRef = useRef(false);
+  // Only a registry built on a successful load may be written back.
+  const canPersistRef = useRef(false);
+  const pendingRef = useRef<RegistryUpdate<R>[]>([]);
+  // Loaders are module functions; keep the effect keyed on the UID only.
+  const configRef = useRef({ empty, load, store, prepare, logTag });
+  configRef.current = { empty, load, store, prepare, logTag };
+
+  const persist = useCallback((owner: string, next: R) => {
+    const { store: save, logTag: tag } = configRef.current;
+    save(owner, next).catch((error) => {
+      console.error(`[${tag}] persist failed:`, error);
+    });
+  }, []);
+
+  useEffect(() => {
+    let cancelled = false;
+    const {
+      empty: initial,
+      load: read,
+      prepare: prep,
+      logTag: tag,
+    } = configRef.current;
+    registryRef.current = initial;
+    hydratedRef.current = false;
+    canPersistRef.current = false;
+    pendingRef.current = [];
+    setRegistry(initial);
+
+    if (!uid) {
+      hydratedRef.current = true;
+      setIsHydrated(true);
+      return () => {
+        cancelled = true;
+      };
+    }
+
+    setIsHydrated(false);
+
+    const finish = (base: R, baseNeedsSave: boolean) => {
+      const next = pendingRef.current.reduce(
+        (current, update) => update(current),
+        base,
+      );
+      pendingRef.current = [];
+      registryRef.current = next;
+      hydratedRef.current = true;
+      canPersistRef.current = true;
+      setRegistry(next);
+      setIsHydrated(true);
+      if (baseNeedsSave || next !== base) persist(uid, next);
+    };
+
+    read(uid)
+      .then((stored) => {
+        if (cancelled) return;
+        const prepared = prep ? prep(stored) : stored;
+        finish(prepared, prepared !== stored);
+      })
+      .catch((error) => {
+        console.error(`[${tag}] hydrate failed:`, error);
+        // Keep edits in memory only: an unreadable registry may still be
+        // there, and saving one built from `empty` would replace it.
+        if (!cancelled) {
+          pendingRef.current = [];
+          hydratedRef.current = true;
+          setIsHydrated(true);
+        }
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [persist, uid]);
+
+  const commit = useCallback(
+    (update: RegistryUpdate<R>) => {
+      const next = update(registryRef.current);
+      if (next === registryRef.current) return;
+      registryRef.current = next;
+      setRegistry(next);
+      if (!uid) return;
+      if (!hydratedRef.current) {
+        pendingRef.current.push(update);
+        return;
+      }
+      if (canPersistRef.current) persist(uid, next);
+    },
+    [persist, uid],
+  );
+
+  return { registry, isHydrated, commit };
+}
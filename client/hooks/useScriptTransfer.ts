@@ -0,0 +1,109 @@
+import { useCallback } from "react";
+import * as Clipboard from "expo-clipboard";
+import * as DocumentPicker from "expo-document-picker";
+import { File, Paths } from "expo-file-system";
+import * as Sharing from "expo-sharing";
+
+import { useErrorToast } from "@/hooks/useErrorToast";
+import {
+  SCRIPT_EXPORT_FILE_TYPES,
+  formatScriptExport,
+  getScriptExportBeats,
+  parseScriptImport,
+  type ScriptExportFormat,
+} from "@/lib/scriptTransfer";
+import type { StorySession } from "@/types/story";
+
+export type ScriptTransferTarget = "clipboard" | "file";
+
+const EXPORT_FAILURE = "Couldn't export the script. Please try again.";
+const IMPORT_FAILURE = "Couldn't read the script. Please try again.";
+const IMPORT_FILE_TYPES = [
+  "text/plain",
+  "text/markdown",
+  "text/x-markdown",
+  "application/json",
+];
+
+/**
+ * Move a script in and out of the app through the clipboard or a shared
+ * file. Import only reads and validates; the caller applies the sentences.
+ */
+export function useScriptTransfer(session: StorySession | null) {
+  const { showError, showSuccess } = useErrorToast();
+
+  const exportScript = useCallback(
+    async (
+      format: ScriptExportFormat,
+      {
+        includePlan,
+        target,
+      }: { includePlan: boolean; target: ScriptTransferTarget },
+    ): Promise<boolean> => {
+      if (!session) return false;
+      const content = formatScriptExport(
+        getScriptExportBeats(session, { includePlan }),
+        format,
+      );
+      try {
+        if (target === "clipboard") {
+          await Clipboard.setStringAsync(content);
+          showSuccess("Script copied to clipboard.");
+          return true;
+        }
+        if (!(await Sharing.isAvailableAsync())) {
+          showError("Sharing files isn't available on this device.");
+          return false;
+        }
+        const { extension, mimeType } = SCRIPT_EXPORT_FILE_TYPES[format];
+        const file = new File(Paths.cache, `script-${session.id}.${extension}`);
+        file.create({ overwrite: true });
+        file.write(content);
+        await Sharing.shareAsync(file.uri, {
+          mimeType,
+          dialogTitle: "Export script",
+        });
+        return true;
+      } catch (error) {
+        console.error("[script-transfer] export failed:", error);
+        showError(EXPORT_FAILURE);
+        return false;
+      }
+    },
+    [session, showError, showSuccess],
+  );
+
+  /** Resolves to validated sentences, or null if cancelled or rejected. */
+  const readScriptImport = useCallback(
+    async (source: ScriptTransferTarget): Promise<string[] | null> => {
+      let raw: string;
+      try {
+        if (source === "clipboard") {
+          raw = await Clipboard.getStringAsync();
+        } else {
+          const picked = await DocumentPicker.getDocumentAsync({
+            type: IMPORT_FILE_TYPES,
+            copyToCacheDirectory: true,
+          });
+          const asset = picked.canceled ? null : picked.assets[0];
+          if (!asset) return null;
+          raw = await new File(asset.uri).text();
+        }
+      } catch (error) {
+        console.error("[script-transfer] import read failed:", error);
+        showError(IMPORT_FAILURE);
+        return null;
+      }
+
+      const result = parseScriptImport(raw);
+      if (!result.ok) {
+        showError(result.message);
+        return null;
+      }
+      return result.sentences;
+    },
+    [showError],
+  );
+
+  return { exportScript, readScriptImport };
+}
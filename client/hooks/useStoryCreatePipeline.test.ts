@@ -0,0 +1,63 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import { act, renderHook } from "@testing-library/react-native";
+import { beforeEach, describe, expect, jest, test } from "@jest/globals";
+
+import { useStoryCreatePipeline } from "@/hooks/useStoryCreatePipeline";
+import { loadStoredStoryCreatePipeline } from "@/lib/storyCreatePipelineStorage";
+
+const mockStoryPlan = jest.fn<(...args: unknown[]) => Promise<unknown>>();
+const mockStorySearchAll = jest.fn<(...args: unknown[]) => Promise<unknown>>();
+
+jest.mock("@/api/client", () => ({
+  storyGenerate: jest.fn(),
+  storyGet: jest.fn(),
+  storyPlan: (...args: unknown[]) => mockStoryPlan(...args),
+  storySearchAll: (...args: unknown[]) => mockStorySearchAll(...args),
+  storyStart: jest.fn(),
+  storyUpdateCaptionStyle: jest.fn(),
+  storyUpdateScript: jest.fn(),
+}));
+
+jest.mock("@/contexts/AuthContext", () => ({
+  useAuth: () => ({ user: { uid: "user-1" } }),
+}));
+
+const searchFailure = {
+  ok: false,
+  status: 500,
+  code: "SERVER_ERROR",
+  message: "SERVER_ERROR",
+};
+
+describe("client/hooks/useStoryCreatePipeline", () => {
+  beforeEach(async () => {
+    mockStoryPlan.mockReset();
+    mockStorySearchAll.mockReset();
+    await AsyncStorage.clear();
+  });
+
+  test("an edit after a failed search re-plans before searching again", async () => {
+    mockStoryPlan.mockResolvedValue({ ok: true, data: { id: "session-1" } });
+    mockStorySearchAll
+      .mockResolvedValueOnce(searchFailure)
+      .mockResolvedValueOnce({ ok: true, data: { id: "session-1" } });
+    const { result } = renderHook(() => useStoryCreatePipeline());
+
+    await act(async () => {
+      const failed = await result.current.buildStoryboard("session-1");
+      expect(failed.ok).toBe(false);
+    });
+    await expect(
+      loadStoredStoryCreatePipeline("user-1"),
+    ).resolves.toMatchObject({ completedStage: "plan" });
+
+    // The user edits beats on ScriptScreen, then taps Generate again.
+    await act(async () => {
+      const retried = await result.current.buildStoryboard("session-1");
+      expect(retried.ok).toBe(true);
+    });
+    expect(mockStoryPlan).toHaveBeenCalledTimes(2);
+    expect(mockStorySearchAll).toHaveBeenCalledTimes(2);
+    await expect(loadStoredStoryCreatePipeline("user-1")).resolves.toBeNull();
+  });
+});
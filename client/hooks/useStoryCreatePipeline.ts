@@ -0,0 +1,367 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+
+import {
+  storyGenerate,
+  storyGet,
+  storyPlan,
+  storySearchAll,
+  storyStart,
+  storyUpdateCaptionStyle,
+  storyUpdateScript,
+  type NormalizedResponse,
+} from "@/api/client";
+import { useAuth } from "@/contexts/AuthContext";
+import {
+  getCaptionPresetOverlay,
+  getDefaultCaptionPreset,
+  loadCaptionPresets,
+} from "@/lib/captionPresets";
+import { describeError } from "@/lib/errorCatalog";
+import {
+  advanceStoryCreatePipeline,
+  clearStoredStoryCreatePipeline,
+  getCompletedStageFromSession,
+  getRemainingCreateStages,
+  loadStoredStoryCreatePipeline,
+  rewindStalePlan,
+  storeStoryCreatePipeline,
+  type StoredStoryCreatePipeline,
+  type StoryCreateInput,
+  type StoryCreateStage,
+  type StoryCreateTarget,
+} from "@/lib/storyCreatePipelineStorage";
+import type { StorySession } from "@/types/story";
+
+export type StoryCreateRunResult =
+  | {
+      ok: true;
+      sessionId: string;
+      target: StoryCreateTarget;
+      session: StorySession | null;
+    }
+  | { ok: false; failure: unknown; fallbackMessage: string };
+
+const START_FAILURE = "Couldn't create your storyboard. Please try again.";
+
+/** Best effort: a session that misses the default still has the server style. */
+async function applyDefaultCaptionPreset(
+  uid: string | null,
+  sessionId: string,
+): Promise<void> {
+  if (!uid) return;
+  try {
+    const preset = getDefaultCaptionPreset(await loadCaptionPresets(uid));
+    if (!preset) return;
+    const res = await storyUpdateCaptionStyle({
+      sessionId,
+      overlayCaption: getCaptionPresetOverlay(preset),
+    });
+    if (!res.ok) {
+      console.warn("[story] default caption preset not applied:", res.code);
+    }
+  } catch (error) {
+    console.warn("[story] default caption preset not applied:", error);
+  }
+}
+
+function getStageCopy(
+  stage: StoryCreateStage,
+  input: StoryCreateInput | null,
+): { progress: string; failure: string } {
+  switch (stage) {
+    case "start":
+      return { progress: "Starting…", failure: START_FAILURE };
+    case "script":
+      return input?.sentences
+        ? {
+            progress: "Saving script…",
+            failure: "Couldn't save your script. Please try again.",
+          }
+        : {
+            progress: "Writing script…",
+            failure: "Couldn't write your script. Please try again.",
+          };
+    case "plan":
+      return {
+        progress: "Planning shots…",
+        failure: "Failed to plan shots. Please try again.",
+      };
+    case "search":
+      return {
+        progress: "Finding clips…",
+        failure: "Failed to find clips. Please try again.",
+      };
+  }
+}
+
+function runStage(
+  stage: Exclude<StoryCreateStage, "start">,
+  pipeline: StoredStoryCreatePipeline,
+): Promise<NormalizedResponse<StorySession>> {
+  const { sessionId, input } = pipeline;
+  switch (stage) {
+    case "script":
+      return input?.sentences
+        ? storyUpdateScript({ sessionId, sentences: input.sentences })
+        : storyGenerate({ sessionId });
+    case "plan":
+      return storyPlan({ sessionId });
+    case "search":
+      return storySearchAll({ sessionId });
+  }
+}
+
+/**
+ * Runs the create chain (start → script → plan → search) with a per-UID
+ * checkpoint after each stage, so a killed app or failed step resumes from
+ * the first missing stage instead of orphaning the session.
+ */
+export function useStoryCreatePipeline() {
+  const { user } = useAuth();
+  const uid = user?.uid ?? null;
+  const [pendingPipeline, setPendingPipeline] =
+    useState<StoredStoryCreatePipeline | null>(null);
+  const [progressText, setProgressText] = useState<string | null>(null);
+  const [isRunning, setIsRunning] = useState(false);
+  const isRunningRef = useRef(false);
+  // Bumped on every checkpoint so a slower storage read can't clobber it.
+  const checkpointVersionRef = useRef(0);
+
+  const reloadPendingPipeline = useCallback(async () => {
+    if (!uid || isRunningRef.current) return;
+    const version = checkpointVersionRef.current;
+    try {
+      const stored = await loadStoredStoryCreatePipeline(uid);
+      if (version === checkpointVersionRef.current && !isRunningRef.current) {
+        setPendingPipeline(stored);
+      }
+    } catch (error) {
+      console.error("[create] pipeline load failed:", error);
+    }
+  }, [uid]);
+
+  useEffect(() => {
+    setPendingPipeline(null);
+    void reloadPendingPipeline();
+  }, [reloadPendingPipeline]);
+
+  const checkpoint = useCallback(
+    async (pipeline: StoredStoryCreatePipeline | null) => {
+      checkpointVersionRef.current += 1;
+      setPendingPipeline(pipeline);
+      if (!uid) return;
+      try {
+        if (pipeline) {
+          await storeStoryCreatePipeline(pipeline);
+        } else {
+          await clearStoredStoryCreatePipeline(uid);
+        }
+      } catch (error) {
+        console.error("[create] pipeline persist failed:", error);
+      }
+    },
+    [uid],
+  );
+
+  const runRemainingStages = useCallback(
+    async (
+      initial: StoredStoryCreatePipeline,
+      session: StorySession | null = null,
+    ): Promise<StoryCreateRunResult> => {
+      let pipeline = initial;
+      let latestSession = session;
+      for (const stage of getRemainingCreateStages(pipeline)) {
+        if (stage === "start") continue;
+        const copy = getStageCopy(stage, pipeline.input);
+        setProgressText(copy.progress);
+        const result = await runStage(stage, pipeline);
+        if (!result.ok) {
+          // The session itself is gone; there is nothing left to resume.
+          if (describeError(result).action === "go_back") {
+            await checkpoint(null);
+          }
+          return { ok: false, failure: result, fallbackMessage: copy.failure };
+        }
+        latestSession = result.data;
+        pipeline = advanceStoryCreatePipeline(pipeline, stage);
+        await checkpoint(pipeline);
+      }
+      await checkpoint(null);
+      return {
+        ok: true,
+        sessionId: pipeline.sessionId,
+        target: pipeline.target,
+        session: latestSession,
+      };
+    },
+    [checkpoint],
+  );
+
+  /** Send the default caption preset if the checkpoint still owes it. */
+  const applyPendingCaptionPreset = useCallback(
+    async (
+      pipeline: StoredStoryCreatePipeline,
+    ): Promise<StoredStoryCreatePipeline> => {
+      if (!pipeline.captionPresetPending) return pipeline;
+      await applyDefaultCaptionPreset(uid, pipeline.sessionId);
+      const next = { ...pipeline, captionPresetPending: false };
+      await checkpoint(next);
+      return next;
+    },
+    [checkpoint, uid],
+  );
+
+  const withRun = useCallback(
+    async (
+      run: () => Promise<StoryCreateRunResult>,
+      fallbackMessage: string,
+    ): Promise<StoryCreateRunResult> => {
+      isRunningRef.current = true;
+      setIsRunning(true);
+      try {
+        return await run();
+      } catch (error) {
+        console.error("[create] pipeline error:", error);
+        return { ok: false, failure: error, fallbackMessage };
+      } finally {
+        isRunningRef.current = false;
+        setIsRunning(false);
+        setProgressText(null);
+      }
+    },
+    [],
+  );
+
+  const startCreate = useCallback(
+    (input: StoryCreateInput) =>
+      withRun(async () => {
+        setProgressText(getStageCopy("start", input).progress);
+        const startResult = await storyStart({
+          input: input.text,
+          inputType: input.type,
+          ...(input.styleKey ? { styleKey: input.styleKey } : {}),
+        });
+        if (!startResult.ok) {
+          return {
+            ok: false,
+            failure: startResult,
+            fallbackMessage: START_FAILURE,
+          };
+        }
+
+        const sessionId = startResult.data?.id;
+        if (!sessionId) {
+          console.error(
+            "[story] Missing sessionId in start response:",
+            startResult.data,
+          );
+          return {
+            ok: false,
+            failure: { code: "INVALID_RESPONSE" },
+            fallbackMessage: START_FAILURE,
+          };
+        }
+
+        const pipeline: StoredStoryCreatePipeline = {
+          uid: uid ?? "",
+          sessionId,
+          input,
+          target: "script",
+          completedStage: "start",
+          updatedAt: new Date().toISOString(),
+          captionPresetPending: true,
+        };
+        await checkpoint(pipeline);
+        return runRemainingStages(
+          await applyPendingCaptionPreset(pipeline),
+          startResult.data,
+        );
+      }, START_FAILURE),
+    [applyPendingCaptionPreset, checkpoint, runRemainingStages, uid, withRun],
+  );
+
+  /**
+   * Plan + search for a scripted session. Plan always re-runs, since the
+   * script may have changed after a failed search.
+   */
+  const buildStoryboard = useCallback(
+    (sessionId: string) =>
+      withRun(async () => {
+        const stored = uid ? await loadStoredStoryCreatePipeline(uid) : null;
+        const resumable = stored?.sessionId === sessionId ? stored : null;
+        const pipeline = rewindStalePlan(
+          advanceStoryCreatePipeline(
+            {
+              uid: uid ?? "",
+              sessionId,
+              input: resumable?.input ?? null,
+              target: "storyboard",
+              completedStage: resumable?.completedStage ?? "start",
+              updatedAt: new Date().toISOString(),
+            },
+            "script",
+          ),
+        );
+        await checkpoint(pipeline);
+        return runRemainingStages(pipeline);
+      }, "Failed to generate storyboard. Please try again."),
+    [checkpoint, runRemainingStages, uid, withRun],
+  );
+
+  /** Reconcile the checkpoint with the server session, then run what's missing. */
+  const resumePipeline = useCallback(
+    () =>
+      withRun(async () => {
+        const pipeline = pendingPipeline;
+        if (!pipeline) {
+          return {
+            ok: false,
+            failure: { code: "NOT_FOUND" },
+            fallbackMessage: START_FAILURE,
+          };
+        }
+        setProgressText("Checking your project…");
+        const sessionResult = await storyGet(pipeline.sessionId);
+        if (!sessionResult.ok) {
+          if (describeError(sessionResult).action === "go_back") {
+            await checkpoint(null);
+          }
+          return {
+            ok: false,
+            failure: sessionResult,
+            fallbackMessage: "Couldn't resume your project. Please try again.",
+          };
+        }
+        const reconciled = rewindStalePlan(
+          advanceStoryCreatePipeline(
+            await applyPendingCaptionPreset(pipeline),
+            getCompletedStageFromSession(sessionResult.data),
+          ),
+        );
+        return runRemainingStages(reconciled, sessionResult.data);
+      }, "Couldn't resume your project. Please try again."),
+    [
+      applyPendingCaptionPreset,
+      checkpoint,
+      pendingPipeline,
+      runRemainingStages,
+      withRun,
+    ],
+  );
+
+  const discardPendingPipeline = useCallback(
+    () => checkpoint(null),
+    [checkpoint],
+  );
+
+  return {
+    pendingPipeline,
+    progressText,
+    isRunning,
+    startCreate,
+    buildStoryboard,
+    resumePipeline,
+    discardPendingPipeline,
+    reloadPendingPipeline,
+  };
+}
@@ -0,0 +1,104 @@
+import { describe, expect, test } from "@jest/globals";
+
+import {
+  arrangeBeats,
+  getBeatArrangement,
+  getBeatClipUpdates,
+  getMoveOrder,
+  getMovedBeatIndices,
+  hasUnassignedClips,
+  reorderStorySession,
+} from "@/lib/beatOrder";
+import type { StorySession } from "@/types/story";
+
+const session: StorySession = {
+  id: "session-1",
+  story: { sentences: ["A", "B", "C", "D"] },
+  shots: [
+    { sentenceIndex: 0, selectedClip: { id: "clip-a" } },
+    { sentenceIndex: 1, selectedClip: { id: "clip-b" }, clipStartSec: 2.5 },
+    { sentenceIndex: 2, selectedClip: { id: "clip-c" } },
+    { sentenceIndex: 3, selectedClip: null },
+  ],
+  beats: [
+    { captionMeta: null, narration: { fingerprint: "a" } },
+    { captionMeta: null, narration: { fingerprint: "b" } },
+    { captionMeta: null, narration: { fingerprint: "c" } },
+    { captionMeta: null, narration: { fingerprint: "d" } },
+  ],
+};
+
+describe("client/lib/beatOrder", () => {
+  test("a move only shifts the beats between the two slots", () => {
+    expect(getMoveOrder(4, 0, 2)).toEqual([1, 2, 0, 3]);
+    expect(getMoveOrder(4, 3, 1)).toEqual([0, 3, 1, 2]);
+    expect(getMoveOrder(4, 1, 1)).toEqual([0, 1, 2, 3]);
+    expect(getMoveOrder(4, 0, 9)).toEqual([0, 1, 2, 3]);
+    expect(getMovedBeatIndices(getMoveOrder(4, 0, 2))).toEqual([0, 1, 2]);
+  });
+
+  test("clip updates follow moved beats and skip unchanged or empty slots", () => {
+    const before = getBeatArrangement(session);
+    expect(before).toEqual({
+      sentences: ["A", "B", "C", "D"],
+      clipIds: ["clip-a", "clip-b", "clip-c", null],
+      clipStartSecs: [0, 2.5, 0, 0],
+    });
+
+    const after = arrangeBeats(before, getMoveOrder(4, 3, 0));
+    expect(after.sentences).toEqual(["D", "A", "B", "C"]);
+    expect(getBeatClipUpdates(before, after)).toEqual([
+      { sentenceIndex: 1, clipId: "clip-a" },
+      { sentenceIndex: 2, clipId: "clip-b", clipStartSec: 2.5 },
+      { sentenceIndex: 3, clipId: "clip-c" },
+    ]);
+  });
+
+  test("a slot keeping its clip is rewritten when its trim has to change", () => {
+    const current = {
+      sentences: ["A", "B"],
+      clipIds: ["clip-a", "clip-a"],
+      clipStartSecs: [0, 4],
+    };
+    const target = arrangeBeats(current, [1, 0]);
+
+    expect(getBeatClipUpdates(current, target)).toEqual([
+      { sentenceIndex: 0, clipId: "clip-a", clipStartSec: 4 },
+      { sentenceIndex: 1, clipId: "clip-a" },
+    ]);
+  });
+
+  test("only a partly storyboarded session has unassigned clips", () => {
+    expect(hasUnassignedClips(getBeatArrangement(session))).toBe(true);
+    expect(
+      hasUnassignedClips({
+        sentences: ["A", "B"],
+        clipIds: [null, null],
+        clipStartSecs: [0, 0],
+      }),
+    ).toBe(false);
+    expect(
+      hasUnassignedClips({
+        sentences: ["A", "B"],
+        clipIds: ["clip-a", "clip-b"],
+        clipStartSecs: [0, 0],
+      }),
+    ).toBe(false);
+  });
+
+  test("the optimistic session carries shots and beat meta with each beat", () => {
+    const moved = reorderStorySession(session, getMoveOrder(4, 0, 1));
+
+    expect(moved.story?.sentences).toEqual(["B", "A", "C", "D"]);
+    expect(
+      moved.shots?.map((shot) => [shot.sentenceIndex, shot.selectedClip?.id]),
+    ).toEqual([
+      [0, "clip-b"],
+      [1, "clip-a"],
+      [2, "clip-c"],
+      [3, undefined],
+    ]);
+    expect(moved.beats?.[0]).toBe(session.beats?.[1]);
+    expect(moved.beats?.[2]).toBe(session.beats?.[2]);
+  });
+});
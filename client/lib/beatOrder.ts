@@ -0,0 +1,155 @@
+import { getShotClipStartSec } from "@/lib/clipTrim";
+import type { StorySession } from "@/types/story";
+
+/**
+ * A beat order: `order[newIndex]` is the old index of the beat that lands at
+ * `newIndex`. Helpers here are pure; persisting lives in
+ * `client/api/storyBeatEdits.ts`.
+ */
+export type BeatOrder = number[];
+
+/** What the client can send back for each slot: the text and its chosen clip. */
+export interface BeatArrangement {
+  sentences: string[];
+  /** Selected clip per index; null before storyboarding or when unset. */
+  clipIds: (string | null)[];
+  /** Trim in-point of that clip; 0 plays it from the start. */
+  clipStartSecs: number[];
+}
+
+export function getMoveOrder(
+  count: number,
+  fromIndex: number,
+  toIndex: number,
+): BeatOrder {
+  const order = Array.from({ length: count }, (_, index) => index);
+  if (
+    fromIndex < 0 ||
+    fromIndex >= count ||
+    toIndex < 0 ||
+    toIndex >= count ||
+    fromIndex === toIndex
+  ) {
+    return order;
+  }
+  const [moved] = order.splice(fromIndex, 1);
+  order.splice(toIndex, 0, moved);
+  return order;
+}
+
+/** Indices whose beat changed; everything outside the moved span keeps its slot. */
+export function getMovedBeatIndices(order: BeatOrder): number[] {
+  return order.flatMap((oldIndex, newIndex) =>
+    oldIndex === newIndex ? [] : [newIndex],
+  );
+}
+
+export function applyBeatOrder<T>(items: readonly T[], order: BeatOrder): T[] {
+  return order.map((oldIndex) => items[oldIndex]);
+}
+
+export function getBeatArrangement(
+  session: StorySession | null | undefined,
+): BeatArrangement {
+  const sentences = Array.isArray(session?.story?.sentences)
+    ? session.story.sentences.map((text) => String(text))
+    : [];
+  const shots = sentences.map((_, index) =>
+    Array.isArray(session?.shots)
+      ? session.shots.find((entry) => entry?.sentenceIndex === index)
+      : undefined,
+  );
+  return {
+    sentences,
+    clipIds: shots.map((shot) => shot?.selectedClip?.id ?? null),
+    clipStartSecs: shots.map(getShotClipStartSec),
+  };
+}
+
+export function arrangeBeats(
+  arrangement: BeatArrangement,
+  order: BeatOrder,
+): BeatArrangement {
+  return {
+    sentences: applyBeatOrder(arrangement.sentences, order),
+    clipIds: applyBeatOrder(arrangement.clipIds, order),
+    clipStartSecs: applyBeatOrder(arrangement.clipStartSecs, order),
+  };
+}
+
+/**
+ * True for a storyboard where some beats have no clip. Shots stay by index
+ * on a script update and update-shot cannot clear a clip, so a clip-less
+ * beat moved into a slot would inherit that slot's clip.
+ */
+export function hasUnassignedClips(arrangement: BeatArrangement): boolean {
+  const { clipIds } = arrangement;
+  return clipIds.some((id) => id === null) && clipIds.some((id) => id !== null);
+}
+
+/**
+ * Clip writes needed once the server holds `target.sentences`. Shots stay by
+ * index on a script update, so any slot whose clip or in-point differs from
+ * `current` has to be pointed back at the clip that belongs to its beat.
+ */
+export function getBeatClipUpdates(
+  current: BeatArrangement,
+  target: BeatArrangement,
+): { sentenceIndex: number; clipId: string; clipStartSec?: number }[] {
+  return target.clipIds.flatMap((clipId, sentenceIndex) => {
+    const clipStartSec = target.clipStartSecs[sentenceIndex] ?? 0;
+    if (
+      !clipId ||
+      (clipId === current.clipIds[sentenceIndex] &&
+        clipStartSec === (current.clipStartSecs[sentenceIndex] ?? 0))
+    ) {
+      return [];
+    }
+    return [
+      { sentenceIndex, clipId, ...(clipStartSec > 0 ? { clipStartSec } : {}) },
+    ];
+  });
+}
+
+/**
+ * Local copy of the session with beats moved, so the list reflects a drop
+ * before the server answers. Shots, caption meta and narration travel with
+ * their beat.
+ */
+export function reorderStorySession(
+  session: StorySession,
+  order: BeatOrder,
+): StorySession {
+  const newIndexByOld = new Map(
+    order.map((oldIndex, newIndex) => [oldIndex, newIndex]),
+  );
+  const remap = <T extends { sentenceIndex: number }>(entry: T): T => ({
+    ...entry,
+    sentenceIndex:
+      newIndexByOld.get(entry.sentenceIndex) ?? entry.sentenceIndex,
+  });
+  const bySentenceIndex = (
+    a: { sentenceIndex: number },
+    b: { sentenceIndex: number },
+  ) => a.sentenceIndex - b.sentenceIndex;
+
+  return {
+    ...session,
+    story: session.story
+      ? {
+          ...session.story,
+          sentences: applyBeatOrder(session.story.sentences, order),
+        }
+      : session.story,
+    shots: Array.isArray(session.shots)
+      ? session.shots.map(remap).sort(bySentenceIndex)
+      : session.shots,
+    plan: Array.isArray(session.plan)
+      ? session.plan.map(remap).sort(bySentenceIndex)
+      : session.plan,
+    beats:
+      Array.isArray(session.beats) && session.beats.length === order.length
+        ? applyBeatOrder(session.beats, order)
+        : session.beats,
+  };
+}
@@ -0,0 +1,74 @@
+import { describe, expect, test } from "@jest/globals";
+
+import {
+  CAPTION_SAFE_ZONE,
+  getCaptionPositionFromOverlay,
+  getCaptionPositionPayload,
+  snapCaptionPosition,
+  snapCaptionWidthPct,
+} from "@/lib/captionPosition";
+
+const box = { width: 0.6, height: 0.1 };
+
+describe("client/lib/captionPosition", () => {
+  test("snaps onto preset lines and gives back the preset when centred", () => {
+    const snapped = snapCaptionPosition({ xPct: 0.51, yPct: 0.49 }, box);
+
+    expect(snapped.position).toEqual({
+      placement: "center",
+      xPct: 0.5,
+      yPct: 0.5,
+    });
+    expect(snapped.guides).toEqual([
+      { axis: "x", at: 0.5 },
+      { axis: "y", at: 0.5 },
+    ]);
+  });
+
+  test("snaps box edges to the safe zone and keeps the box in frame", () => {
+    const nearLeft = snapCaptionPosition({ xPct: 0.36, yPct: 0.3 }, box);
+    expect(nearLeft.position).toEqual({
+      placement: "custom",
+      xPct: 0.35,
+      yPct: 0.3,
+    });
+    expect(nearLeft.guides).toEqual([
+      { axis: "x", at: CAPTION_SAFE_ZONE.left },
+    ]);
+
+    const offFrame = snapCaptionPosition({ xPct: 0.95, yPct: -0.2 }, box);
+    expect(offFrame.position).toEqual({
+      placement: "custom",
+      xPct: 0.7,
+      yPct: 0.05,
+    });
+  });
+
+  test("reads and writes custom and preset placements", () => {
+    expect(
+      getCaptionPositionFromOverlay({
+        placement: "custom",
+        xPct: 0.4,
+        yPct: 0.7,
+      }),
+    ).toEqual({ placement: "custom", xPct: 0.4, yPct: 0.7 });
+    expect(getCaptionPositionFromOverlay({ placement: "top" })).toEqual({
+      placement: "top",
+      xPct: 0.5,
+      yPct: 0.1,
+    });
+    expect(getCaptionPositionFromOverlay({ placement: "custom" })).toBe(
+      undefined,
+    );
+
+    expect(
+      getCaptionPositionPayload({ placement: "custom", xPct: 0.4, yPct: 0.7 }),
+    ).toEqual({ placement: "custom", xPct: 0.4, yPct: 0.7 });
+    expect(
+      getCaptionPositionPayload({ placement: "top", xPct: 0.5, yPct: 0.1 }),
+    ).toEqual({ placement: "top", yPct: 0.1 });
+
+    expect(snapCaptionWidthPct(63)).toBe(65);
+    expect(snapCaptionWidthPct(20)).toBe(40);
+  });
+});
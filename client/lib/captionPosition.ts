@@ -0,0 +1,175 @@
+import { CAPTION_STYLE_CONTROLS } from "@/lib/captionStyle";
+import {
+  CAPTION_PLACEMENTS,
+  PLACEMENT_TO_YPCT,
+  type CaptionPlacement,
+  type CaptionPosition,
+} from "@/screens/story-editor/model";
+import type { StoryOverlayCaptionStyle } from "@/types/story";
+
+/** Keep captions inside these lines so platform UI does not cover them. */
+export const CAPTION_SAFE_ZONE = {
+  top: 0.06,
+  bottom: 0.94,
+  left: 0.05,
+  right: 0.95,
+};
+
+/** Drags this close to a guide (as a fraction of the frame) snap onto it. */
+export const CAPTION_SNAP_THRESHOLD = 0.025;
+
+export interface CaptionGuide {
+  axis: "x" | "y";
+  /** Fraction of the frame width (x) or height (y). */
+  at: number;
+}
+
+/** Caption box size as fractions of the frame. */
+export interface CaptionBoxSize {
+  width: number;
+  height: number;
+}
+
+interface SnapCandidate {
+  value: number;
+  guide: number;
+  distance: number;
+}
+
+function round3(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
+
+function clampCenter(center: number, half: number): number {
+  if (half >= 0.5) return 0.5;
+  return Math.min(1 - half, Math.max(half, center));
+}
+
+function pickSnap(candidates: SnapCandidate[]): SnapCandidate | null {
+  let best: SnapCandidate | null = null;
+  for (const candidate of candidates) {
+    if (candidate.distance > CAPTION_SNAP_THRESHOLD) continue;
+    if (!best || candidate.distance < best.distance) best = candidate;
+  }
+  return best;
+}
+
+export function getPresetCaptionPosition(
+  placement: CaptionPlacement,
+): CaptionPosition {
+  return { placement, xPct: 0.5, yPct: PLACEMENT_TO_YPCT[placement] };
+}
+
+/** Saved position, or undefined when `overlayCaption` has none usable. */
+export function getCaptionPositionFromOverlay(
+  overlay: StoryOverlayCaptionStyle | null | undefined,
+): CaptionPosition | undefined {
+  const placement = overlay?.placement;
+  if (placement === "custom") {
+    const xPct = Number(overlay?.xPct);
+    const yPct = Number(overlay?.yPct);
+    if (!Number.isFinite(xPct) || !Number.isFinite(yPct)) return undefined;
+    return {
+      placement,
+      xPct: Math.min(1, Math.max(0, xPct)),
+      yPct: Math.min(1, Math.max(0, yPct)),
+    };
+  }
+  if (CAPTION_PLACEMENTS.includes(placement as CaptionPlacement)) {
+    return getPresetCaptionPosition(placement as CaptionPlacement);
+  }
+  return undefined;
+}
+
+/** `overlayCaption` keys for update-caption-style; presets send no `xPct`. */
+export function getCaptionPositionPayload(position: CaptionPosition): {
+  placement: CaptionPosition["placement"];
+  xPct?: number;
+  yPct: number;
+} {
+  if (position.placement === "custom") {
+    return {
+      placement: "custom",
+      xPct: position.xPct,
+      yPct: position.yPct,
+    };
+  }
+  return { placement: position.placement, yPct: position.yPct };
+}
+
+export function isSameCaptionPosition(
+  a: CaptionPosition,
+  b: CaptionPosition,
+): boolean {
+  return a.placement === b.placement && a.xPct === b.xPct && a.yPct === b.yPct;
+}
+
+/**
+ * Snap a dragged box centre onto the frame centre, the preset lines and the
+ * safe-zone edges, then keep the box inside the frame. Landing centred on a
+ * preset line gives back that preset instead of a custom placement.
+ */
+export function snapCaptionPosition(
+  center: { xPct: number; yPct: number },
+  box: CaptionBoxSize,
+): { position: CaptionPosition; guides: CaptionGuide[] } {
+  const halfW = box.width / 2;
+  const halfH = box.height / 2;
+  const guides: CaptionGuide[] = [];
+
+  const snapX = pickSnap([
+    { value: 0.5, guide: 0.5, distance: Math.abs(center.xPct - 0.5) },
+    {
+      value: CAPTION_SAFE_ZONE.left + halfW,
+      guide: CAPTION_SAFE_ZONE.left,
+      distance: Math.abs(center.xPct - halfW - CAPTION_SAFE_ZONE.left),
+    },
+    {
+      value: CAPTION_SAFE_ZONE.right - halfW,
+      guide: CAPTION_SAFE_ZONE.right,
+      distance: Math.abs(center.xPct + halfW - CAPTION_SAFE_ZONE.right),
+    },
+  ]);
+  const snapY = pickSnap([
+    ...CAPTION_PLACEMENTS.map((placement) => ({
+      value: PLACEMENT_TO_YPCT[placement],
+      guide: PLACEMENT_TO_YPCT[placement],
+      distance: Math.abs(center.yPct - PLACEMENT_TO_YPCT[placement]),
+    })),
+    {
+      value: CAPTION_SAFE_ZONE.top + halfH,
+      guide: CAPTION_SAFE_ZONE.top,
+      distance: Math.abs(center.yPct - halfH - CAPTION_SAFE_ZONE.top),
+    },
+    {
+      value: CAPTION_SAFE_ZONE.bottom - halfH,
+      guide: CAPTION_SAFE_ZONE.bottom,
+      distance: Math.abs(center.yPct + halfH - CAPTION_SAFE_ZONE.bottom),
+    },
+  ]);
+
+  if (snapX) guides.push({ axis: "x", at: snapX.guide });
+  if (snapY) guides.push({ axis: "y", at: snapY.guide });
+
+  const xPct = round3(clampCenter(snapX?.value ?? center.xPct, halfW));
+  const yPct = round3(clampCenter(snapY?.value ?? center.yPct, halfH));
+  const preset =
+    xPct === 0.5
+      ? CAPTION_PLACEMENTS.find(
+          (placement) => PLACEMENT_TO_YPCT[placement] === yPct,
+        )
+      : undefined;
+
+  return {
+    position: { placement: preset ?? "custom", xPct, yPct },
+    guides,
+  };
+}
+
+/** Resize handles work in whole `wPct` style steps within its control range. */
+export function snapCaptionWidthPct(wPct: number): number {
+  const control = CAPTION_STYLE_CONTROLS.wPct;
+  if (control.kind !== "number") return wPct;
+  const stepped = Math.round(wPct / control.step) * control.step;
+  return Math.min(control.max, Math.max(control.min, stepped));
+}
@@ -0,0 +1,127 @@
+import { describe, expect, test } from "@jest/globals";
+
+import {
+  BUILT_IN_CAPTION_PRESETS,
+  EMPTY_CAPTION_PRESETS,
+  addImportedCaptionPresets,
+  buildCaptionPresetStyle,
+  createCaptionPreset,
+  deleteCaptionPreset,
+  formatCaptionPresetExport,
+  getCaptionPresetOverlay,
+  getCaptionPresets,
+  getDefaultCaptionPreset,
+  parseCaptionPresetImport,
+  setDefaultCaptionPreset,
+} from "@/lib/captionPresets";
+import { CAPTION_STYLE_DEFAULTS } from "@/lib/captionStyle";
+
+const now = new Date("2026-01-01T00:00:00.000Z");
+
+describe("client/lib/captionPresets", () => {
+  test("saves presets after the built-ins and tracks the default", () => {
+    const style = buildCaptionPresetStyle(
+      { ...CAPTION_STYLE_DEFAULTS, color: "#FFD60A" },
+      { placement: "custom", xPct: 0.4, yPct: 0.7 },
+    );
+    expect(style).toMatchObject({
+      color: "#FFD60A",
+      placement: "custom",
+      xPct: 0.4,
+      yPct: 0.7,
+    });
+
+    const saved = createCaptionPreset(
+      EMPTY_CAPTION_PRESETS,
+      { id: "preset-1", name: "  Brand   yellow ", style },
+      now,
+    );
+    expect(getCaptionPresets(saved).map((preset) => preset.name)).toEqual([
+      ...BUILT_IN_CAPTION_PRESETS.map((preset) => preset.name),
+      "Brand yellow",
+    ]);
+    expect(
+      createCaptionPreset(saved, { id: "preset-2", name: " ", style }),
+    ).toBe(saved);
+
+    const withDefault = setDefaultCaptionPreset(saved, "preset-1");
+    expect(getDefaultCaptionPreset(withDefault)?.name).toBe("Brand yellow");
+    expect(setDefaultCaptionPreset(withDefault, "missing")).toBe(withDefault);
+
+    const deleted = deleteCaptionPreset(withDefault, "preset-1");
+    expect(deleted.presets).toEqual([]);
+    expect(deleted.defaultPresetId).toBeNull();
+    expect(deleteCaptionPreset(deleted, "builtin-classic")).toBe(deleted);
+  });
+
+  test("applies presets over the defaults so unset keys are reset", () => {
+    const overlay = getCaptionPresetOverlay({
+      id: "preset-1",
+      name: "Big",
+      style: { fontPx: 90, placement: "top", yPct: 0.1 },
+      updatedAt: now.toISOString(),
+    });
+    expect(overlay).toEqual({
+      ...CAPTION_STYLE_DEFAULTS,
+      fontPx: 90,
+      placement: "top",
+      yPct: 0.1,
+    });
+  });
+
+  test("round-trips exports and renames clashing imports", () => {
+    const registry = createCaptionPreset(
+      EMPTY_CAPTION_PRESETS,
+      { id: "preset-1", name: "Classic look", style: { fontPx: 60 } },
+      now,
+    );
+    const result = parseCaptionPresetImport(
+      formatCaptionPresetExport(registry.presets),
+    );
+    expect(result).toEqual({
+      ok: true,
+      presets: [{ name: "Classic look", style: { fontPx: 60 } }],
+    });
+    if (!result.ok) return;
+
+    let nextId = 2;
+    const imported = addImportedCaptionPresets(
+      registry,
+      [...result.presets, { name: "Classic", style: {} }],
+      () => `preset-${nextId++}`,
+      now,
+    );
+    expect(imported.presets.map((preset) => [preset.id, preset.name])).toEqual([
+      ["preset-1", "Classic look"],
+      ["preset-2", "Classic look 2"],
+      ["preset-3", "Classic 2"],
+    ]);
+  });
+
+  test("rejects files that aren't preset exports", () => {
+    expect(parseCaptionPresetImport("{")).toEqual({
+      ok: false,
+      message: "This JSON couldn't be read.",
+    });
+    expect(
+      parseCaptionPresetImport(
+        JSON.stringify({ kind: "vaiform.script", version: 1, beats: [] }),
+      ),
+    ).toEqual({
+      ok: false,
+      message: "This JSON isn't a Vaiform caption preset export.",
+    });
+    expect(
+      parseCaptionPresetImport(
+        JSON.stringify({
+          kind: "vaiform.captionPresets",
+          version: 99,
+          presets: [],
+        }),
+      ),
+    ).toEqual({
+      ok: false,
+      message: "These presets were exported by a newer version of the app.",
+    });
+  });
+});
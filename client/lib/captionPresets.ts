@@ -0,0 +1,393 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import { z } from "zod";
+
+import {
+  extractStyleWhitelist,
+  type CaptionPreviewStyle,
+  type StoryOverlayCaptionStyle,
+} from "@/api/client";
+import { storyOverlayCaptionStyleSchema } from "@/api/schemas";
+import {
+  getCaptionPositionFromOverlay,
+  getCaptionPositionPayload,
+} from "@/lib/captionPosition";
+import { CAPTION_STYLE_DEFAULTS } from "@/lib/captionStyle";
+import type { CaptionPosition } from "@/screens/story-editor/model";
+
+const STORAGE_KEY_PREFIX = "@vaiform/captionPresets:";
+
+export const CAPTION_PRESETS_VERSION = 1;
+export const CAPTION_PRESET_EXPORT_VERSION = 1;
+const CAPTION_PRESET_EXPORT_KIND = "vaiform.captionPresets";
+export const MAX_CAPTION_PRESET_NAME_CHARS = 40;
+
+export interface CaptionPreset {
+  id: string;
+  name: string;
+  /** Whitelisted style keys plus an optional placement. */
+  style: StoryOverlayCaptionStyle;
+  builtIn?: boolean;
+  updatedAt: string;
+}
+
+export interface CaptionPresetsRegistry {
+  version: typeof CAPTION_PRESETS_VERSION;
+  /** User presets only; built-ins are not stored. */
+  presets: CaptionPreset[];
+  /** Applied to sessions created on this account; may name a built-in. */
+  defaultPresetId: string | null;
+}
+
+export type CaptionPresetImportResult =
+  | { ok: true; presets: { name: string; style: StoryOverlayCaptionStyle }[] }
+  | { ok: false; message: string };
+
+export const EMPTY_CAPTION_PRESETS: CaptionPresetsRegistry = {
+  version: CAPTION_PRESETS_VERSION,
+  presets: [],
+  defaultPresetId: null,
+};
+
+const BUILT_IN_UPDATED_AT = new Date(0).toISOString();
+
+export const BUILT_IN_CAPTION_PRESETS: CaptionPreset[] = [
+  {
+    id: "builtin-classic",
+    name: "Classic",
+    builtIn: true,
+    updatedAt: BUILT_IN_UPDATED_AT,
+    style: { ...CAPTION_STYLE_DEFAULTS, placement: "center", yPct: 0.5 },
+  },
+  {
+    id: "builtin-bold-pop",
+    name: "Bold Pop",
+    builtIn: true,
+    updatedAt: BUILT_IN_UPDATED_AT,
+    style: {
+      ...CAPTION_STYLE_DEFAULTS,
+      fontPx: 84,
+      weightCss: "900",
+      textTransform: "uppercase",
+      color: "#FFD60A",
+      strokePx: 6,
+      placement: "center",
+      yPct: 0.5,
+    },
+  },
+  {
+    id: "builtin-subtitle",
+    name: "Subtitle",
+    builtIn: true,
+    updatedAt: BUILT_IN_UPDATED_AT,
+    style: {
+      ...CAPTION_STYLE_DEFAULTS,
+      fontPx: 48,
+      weightCss: "600",
+      strokePx: 0,
+      shadowBlur: 16,
+      wPct: 90,
+      placement: "bottom",
+      yPct: 0.9,
+    },
+  },
+  {
+    id: "builtin-minimal",
+    name: "Minimal",
+    builtIn: true,
+    updatedAt: BUILT_IN_UPDATED_AT,
+    style: {
+      ...CAPTION_STYLE_DEFAULTS,
+      fontPx: 52,
+      weightCss: "400",
+      strokePx: 0,
+      shadowBlur: 0,
+      placement: "top",
+      yPct: 0.1,
+    },
+  },
+];
+
+const captionPresetExportSchema = z.object({
+  kind: z.literal(CAPTION_PRESET_EXPORT_KIND),
+  version: z.number().int(),
+  presets: z.array(
+    z.object({
+      name: z.string(),
+      style: storyOverlayCaptionStyleSchema,
+    }),
+  ),
+});
+
+function storageKey(uid: string): string {
+  return `${STORAGE_KEY_PREFIX}${uid}`;
+}
+
+function normalizeName(name: string): string {
+  return name
+    .replace(/\s+/g, " ")
+    .trim()
+    .slice(0, MAX_CAPTION_PRESET_NAME_CHARS);
+}
+
+/** Keep whitelisted style keys and a usable placement; drop everything else. */
+export function sanitizeCaptionPresetStyle(
+  style:
+    | (CaptionPreviewStyle & {
+        placement?: string;
+        xPct?: number;
+        yPct?: number;
+      })
+    | null
+    | undefined,
+): StoryOverlayCaptionStyle {
+  const position = getCaptionPositionFromOverlay({
+    placement: style?.placement,
+    xPct: style?.xPct,
+    yPct: style?.yPct,
+  });
+  return {
+    ...extractStyleWhitelist(style ?? undefined),
+    ...(position ? getCaptionPositionPayload(position) : {}),
+  };
+}
+
+/** Snapshot of the editor's current look, for "Save as preset". */
+export function buildCaptionPresetStyle(
+  style: CaptionPreviewStyle,
+  position: CaptionPosition,
+): StoryOverlayCaptionStyle {
+  return sanitizeCaptionPresetStyle({
+    ...style,
+    ...getCaptionPositionPayload(position),
+  });
+}
+
+/**
+ * `overlayCaption` to send when applying a preset. Unset keys fall back to
+ * the defaults, since update-caption-style merges into the saved style.
+ */
+export function getCaptionPresetOverlay(
+  preset: CaptionPreset,
+): StoryOverlayCaptionStyle {
+  return {
+    ...CAPTION_STYLE_DEFAULTS,
+    ...sanitizeCaptionPresetStyle(preset.style),
+  };
+}
+
+export function getCaptionPresets(
+  registry: CaptionPresetsRegistry,
+): CaptionPreset[] {
+  return [...BUILT_IN_CAPTION_PRESETS, ...registry.presets];
+}
+
+export function getDefaultCaptionPreset(
+  registry: CaptionPresetsRegistry,
+): CaptionPreset | null {
+  if (!registry.defaultPresetId) return null;
+  return (
+    getCaptionPresets(registry).find(
+      (preset) => preset.id === registry.defaultPresetId,
+    ) ?? null
+  );
+}
+
+export function createCaptionPreset(
+  registry: CaptionPresetsRegistry,
+  entry: { id: string; name: string; style: StoryOverlayCaptionStyle },
+  now: Date = new Date(),
+): CaptionPresetsRegistry {
+  const name = normalizeName(entry.name);
+  if (
+    !name ||
+    getCaptionPresets(registry).some((preset) => preset.id === entry.id)
+  ) {
+    return registry;
+  }
+  return {
+    ...registry,
+    presets: [
+      ...registry.presets,
+      {
+        id: entry.id,
+        name,
+        style: sanitizeCaptionPresetStyle(entry.style),
+        updatedAt: now.toISOString(),
+      },
+    ],
+  };
+}
+
+/** Built-ins can't be deleted; deleting the default clears it. */
+export function deleteCaptionPreset(
+  registry: CaptionPresetsRegistry,
+  presetId: string,
+): CaptionPresetsRegistry {
+  if (!registry.presets.some((preset) => preset.id === presetId)) {
+    return registry;
+  }
+  return {
+    ...registry,
+    presets: registry.presets.filter((preset) => preset.id !== presetId),
+    defaultPresetId:
+      registry.defaultPresetId === presetId ? null : registry.defaultPresetId,
+  };
+}
+
+export function setDefaultCaptionPreset(
+  registry: CaptionPresetsRegistry,
+  presetId: string | null,
+): CaptionPresetsRegistry {
+  if (registry.defaultPresetId === presetId) return registry;
+  if (
+    presetId !== null &&
+    !getCaptionPresets(registry).some((preset) => preset.id === presetId)
+  ) {
+    return registry;
+  }
+  return { ...registry, defaultPresetId: presetId };
+}
+
+/** Imported presets get fresh ids; a name already in use gets a number. */
+export function addImportedCaptionPresets(
+  registry: CaptionPresetsRegistry,
+  imported: { name: string; style: StoryOverlayCaptionStyle }[],
+  createId: () => string,
+  now: Date = new Date(),
+): CaptionPresetsRegistry {
+  let next = registry;
+  for (const entry of imported) {
+    const base = normalizeName(entry.name);
+    if (!base) continue;
+    const taken = new Set(
+      getCaptionPresets(next).map((preset) => preset.name.toLowerCase()),
+    );
+    let name = base;
+    for (let n = 2; taken.has(name.toLowerCase()); n += 1) {
+      name = normalizeName(
+        `${base.slice(0, MAX_CAPTION_PRESET_NAME_CHARS - 4)} ${n}`,
+      );
+    }
+    next = createCaptionPreset(
+      next,
+      { id: createId(), name, style: entry.style },
+      now,
+    );
+  }
+  return next;
+}
+
+export function formatCaptionPresetExport(presets: CaptionPreset[]): string {
+  return `${JSON.stringify(
+    {
+      kind: CAPTION_PRESET_EXPORT_KIND,
+      version: CAPTION_PRESET_EXPORT_VERSION,
+      presets: presets.map((preset) => ({
+        name: preset.name,
+        style: sanitizeCaptionPresetStyle(preset.style),
+      })),
+    },
+    null,
+    2,
+  )}\n`;
+}
+
+export function parseCaptionPresetImport(
+  raw: string,
+): CaptionPresetImportResult {
+  const trimmed = raw.trim();
+  if (!trimmed) {
+    return { ok: false, message: "There are no presets to import." };
+  }
+  let data: unknown;
+  try {
+    data = JSON.parse(trimmed);
+  } catch {
+    return { ok: false, message: "This JSON couldn't be read." };
+  }
+  const parsed = captionPresetExportSchema.safeParse(data);
+  if (!parsed.success) {
+    return {
+      ok: false,
+      message: "This JSON isn't a Vaiform caption preset export.",
+    };
+  }
+  if (parsed.data.version > CAPTION_PRESET_EXPORT_VERSION) {
+    return {
+      ok: false,
+      message: "These presets were exported by a newer version of the app.",
+    };
+  }
+  const presets = parsed.data.presets
+    .map((preset) => ({
+      name: normalizeName(preset.name),
+      style: sanitizeCaptionPresetStyle(preset.style),
+    }))
+    .filter((preset) => preset.name.length > 0);
+  if (presets.length === 0) {
+    return { ok: false, message: "No presets were found in this file." };
+  }
+  return { ok: true, presets };
+}
+
+function parseStoredPreset(value: unknown): CaptionPreset | null {
+  const preset = value as Partial<CaptionPreset> | null;
+  if (
+    typeof preset?.id !== "string" ||
+    typeof preset?.name !== "string" ||
+    !preset.style ||
+    typeof preset.style !== "object"
+  ) {
+    return null;
+  }
+  return {
+    id: preset.id,
+    name: preset.name,
+    style: sanitizeCaptionPresetStyle(preset.style),
+    updatedAt:
+      typeof preset.updatedAt === "string"
+        ? preset.updatedAt
+        : BUILT_IN_UPDATED_AT,
+  };
+}
+
+export async function loadCaptionPresets(
+  uid: string,
+): Promise<CaptionPresetsRegistry> {
+  const raw = await AsyncStorage.getItem(storageKey(uid));
+  if (!raw) return EMPTY_CAPTION_PRESETS;
+
+  try {
+    const parsed = JSON.parse(raw) as Partial<CaptionPresetsRegistry>;
+    if (
+      parsed?.version !== CAPTION_PRESETS_VERSION ||
+      !Array.isArray(parsed.presets)
+    ) {
+      await AsyncStorage.removeItem(storageKey(uid));
+      return EMPTY_CAPTION_PRESETS;
+    }
+    const registry: CaptionPresetsRegistry = {
+      version: CAPTION_PRESETS_VERSION,
+      presets: parsed.presets
+        .map(parseStoredPreset)
+        .filter((preset): preset is CaptionPreset => preset !== null),
+      defaultPresetId: null,
+    };
+    return setDefaultCaptionPreset(
+      registry,
+      typeof parsed.defaultPresetId === "string"
+        ? parsed.defaultPresetId
+        : null,
+    );
+  } catch {
+    await AsyncStorage.removeItem(storageKey(uid));
+    return EMPTY_CAPTION_PRESETS;
+  }
+}
+
+export async function storeCaptionPresets(
+  uid: string,
+  registry: CaptionPresetsRegistry,
+): Promise<void> {
+  await AsyncStorage.setItem(storageKey(uid), JSON.stringify(registry));
+}
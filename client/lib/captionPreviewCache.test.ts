@@ -0,0 +1,110 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import { beforeEach, describe, expect, test } from "@jest/globals";
+
+import {
+  CAPTION_PREVIEW_CACHE_MAX_ENTRIES,
+  CAPTION_PREVIEW_CACHE_TTL_MS,
+  clearCaptionPreviewCache,
+  flushCaptionPreviewCache,
+  getCachedCaptionPreview,
+  getCaptionPreviewCacheKey,
+  getCaptionPreviewCacheMetrics,
+  hydrateCaptionPreviewCache,
+  setCachedCaptionPreview,
+} from "@/lib/captionPreviewCache";
+import { getRecentDiagnostics } from "@/lib/diagnostics";
+
+const STORAGE_KEY = "@vaiform/captionPreviewCache";
+const T0 = Date.parse("2026-01-01T10:00:00.000Z");
+
+function meta(id: string, padding = 0) {
+  return {
+    rasterUrl: `data:image/png;base64,${id}${"A".repeat(padding)}`,
+    rasterW: 864,
+    rasterH: 120,
+  };
+}
+
+describe("client/lib/captionPreviewCache", () => {
+  beforeEach(async () => {
+    await clearCaptionPreviewCache();
+  });
+
+  test("keys include the frame size", () => {
+    expect(getCaptionPreviewCacheKey("style|center|Hi", 1080, 1920)).toBe(
+      "style|center|Hi|1080x1920",
+    );
+  });
+
+  test("evicts the least recently used entry when over capacity", () => {
+    for (let i = 0; i < CAPTION_PREVIEW_CACHE_MAX_ENTRIES; i += 1) {
+      setCachedCaptionPreview(`k${i}`, meta(`m${i}`), T0);
+    }
+    // Touching k0 makes k1 the oldest.
+    expect(getCachedCaptionPreview("k0", T0)?.rasterUrl).toContain("m0");
+    setCachedCaptionPreview("extra", meta("extra"), T0);
+
+    expect(getCachedCaptionPreview("k1", T0)).toBeNull();
+    expect(getCachedCaptionPreview("k0", T0)).not.toBeNull();
+    expect(getCaptionPreviewCacheMetrics()).toMatchObject({
+      hits: 2,
+      misses: 1,
+      writes: CAPTION_PREVIEW_CACHE_MAX_ENTRIES + 1,
+      evictions: { capacity: 1, size: 0, expired: 0 },
+      entries: CAPTION_PREVIEW_CACHE_MAX_ENTRIES,
+    });
+  });
+
+  test("evicts by size and drops expired entries", () => {
+    setCachedCaptionPreview("a", meta("a", 600_000), T0);
+    setCachedCaptionPreview("b", meta("b", 600_000), T0);
+    setCachedCaptionPreview("c", meta("c", 600_000), T0);
+    setCachedCaptionPreview("huge", meta("huge", 2_000_000), T0);
+
+    expect(getCachedCaptionPreview("a", T0)).toBeNull();
+    expect(
+      getCachedCaptionPreview("b", T0 + CAPTION_PREVIEW_CACHE_TTL_MS),
+    ).toBeNull();
+    expect(getCaptionPreviewCacheMetrics()).toMatchObject({
+      evictions: { capacity: 0, size: 1, expired: 1 },
+      rejected: 1,
+      entries: 1,
+    });
+  });
+
+  test("persists entries with an eviction diagnostic and reloads them", async () => {
+    for (let i = 0; i <= CAPTION_PREVIEW_CACHE_MAX_ENTRIES; i += 1) {
+      setCachedCaptionPreview(`k${i}`, meta(`m${i}`), T0);
+    }
+    await flushCaptionPreviewCache();
+
+    expect(getRecentDiagnostics()).toEqual([
+      expect.objectContaining({
+        code: "CAPTION_PREVIEW_CACHE_EVICTED",
+        context: expect.objectContaining({ capacity: 1 }),
+      }),
+    ]);
+
+    const raw = await AsyncStorage.getItem(STORAGE_KEY);
+    await clearCaptionPreviewCache();
+    await AsyncStorage.setItem(STORAGE_KEY, raw!);
+    await hydrateCaptionPreviewCache(T0);
+
+    expect(getCachedCaptionPreview("k0", T0)).toBeNull();
+    expect(getCachedCaptionPreview("k1", T0)?.rasterUrl).toContain("m1");
+    expect(getCaptionPreviewCacheMetrics().entries).toBe(
+      CAPTION_PREVIEW_CACHE_MAX_ENTRIES,
+    );
+  });
+
+  test("discards a saved cache from another version", async () => {
+    await AsyncStorage.setItem(
+      STORAGE_KEY,
+      JSON.stringify({ version: 99, entries: [] }),
+    );
+    await hydrateCaptionPreviewCache(T0);
+
+    expect(await AsyncStorage.getItem(STORAGE_KEY)).toBeNull();
+    expect(getCaptionPreviewCacheMetrics().entries).toBe(0);
+  });
+});
@@ -0,0 +1,263 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+
+import type { CaptionPreviewMeta } from "@/api/client";
+import { recordClientDiagnostic } from "@/lib/diagnostics";
+
+const STORAGE_KEY = "@vaiform/captionPreviewCache";
+
+export const CAPTION_PREVIEW_CACHE_VERSION = 1;
+export const CAPTION_PREVIEW_CACHE_MAX_ENTRIES = 150;
+/**
+ * Budget for the serialized metas, which are mostly base64 `rasterUrl`s.
+ * Android's AsyncStorage can't read back a value much over 2MB.
+ */
+export const CAPTION_PREVIEW_CACHE_MAX_CHARS = 1_500_000;
+export const CAPTION_PREVIEW_CACHE_TTL_MS = 24 * 60 * 60 * 1000;
+const PERSIST_DEBOUNCE_MS = 1_000;
+
+export type CaptionPreviewEvictionReason = "capacity" | "size" | "expired";
+
+export interface CaptionPreviewCacheMetrics {
+  hits: number;
+  misses: number;
+  writes: number;
+  evictions: Record<CaptionPreviewEvictionReason, number>;
+  /** Metas larger than the whole budget are never cached. */
+  rejected: number;
+  entries: number;
+  totalChars: number;
+}
+
+interface CacheEntry {
+  meta: CaptionPreviewMeta;
+  expiresAt: number;
+  size: number;
+}
+
+interface StoredCache {
+  version: typeof CAPTION_PREVIEW_CACHE_VERSION;
+  /** Least recently used first. */
+  entries: [string, { meta: CaptionPreviewMeta; expiresAt: number }][];
+}
+
+function emptyMetrics(): Omit<
+  CaptionPreviewCacheMetrics,
+  "entries" | "totalChars"
+> {
+  return {
+    hits: 0,
+    misses: 0,
+    writes: 0,
+    evictions: { capacity: 0, size: 0, expired: 0 },
+    rejected: 0,
+  };
+}
+
+// Map iteration order is insertion order, so the first key is the LRU entry.
+const entries = new Map<string, CacheEntry>();
+let totalChars = 0;
+let metrics = emptyMetrics();
+let pendingEvictions: Record<CaptionPreviewEvictionReason, number> = {
+  capacity: 0,
+  size: 0,
+  expired: 0,
+};
+let hydratePromise: Promise<void> | null = null;
+let persistTimer: ReturnType<typeof setTimeout> | null = null;
+
+/** `hashStyleAndText` key plus the frame the raster was measured for. */
+export function getCaptionPreviewCacheKey(
+  baseKey: string,
+  frameW: number,
+  frameH: number,
+): string {
+  return `${baseKey}|${frameW}x${frameH}`;
+}
+
+function evict(key: string, reason: CaptionPreviewEvictionReason): void {
+  const entry = entries.get(key);
+  if (!entry) return;
+  entries.delete(key);
+  totalChars -= entry.size;
+  metrics.evictions[reason] += 1;
+  pendingEvictions[reason] += 1;
+}
+
+function insert(key: string, entry: CacheEntry): void {
+  const existing = entries.get(key);
+  if (existing) {
+    entries.delete(key);
+    totalChars -= existing.size;
+  }
+  entries.set(key, entry);
+  totalChars += entry.size;
+  for (const lruKey of entries.keys()) {
+    if (entries.size <= CAPTION_PREVIEW_CACHE_MAX_ENTRIES) break;
+    evict(lruKey, "capacity");
+  }
+  for (const lruKey of entries.keys()) {
+    if (totalChars <= CAPTION_PREVIEW_CACHE_MAX_CHARS) break;
+    evict(lruKey, "size");
+  }
+}
+
+/** Report evictions since the last save as one diagnostic, not one per entry. */
+function flushEvictionDiagnostic(): void {
+  const { capacity, size, expired } = pendingEvictions;
+  if (capacity + size + expired === 0) return;
+  recordClientDiagnostic({
+    route: "/api/caption/preview",
+    code: "CAPTION_PREVIEW_CACHE_EVICTED",
+    context: {
+      capacity,
+      size,
+      expired,
+      entries: entries.size,
+      totalChars,
+    },
+  });
+  pendingEvictions = { capacity: 0, size: 0, expired: 0 };
+}
+
+async function persist(): Promise<void> {
+  flushEvictionDiagnostic();
+  const stored: StoredCache = {
+    version: CAPTION_PREVIEW_CACHE_VERSION,
+    entries: Array.from(entries, ([key, entry]) => [
+      key,
+      { meta: entry.meta, expiresAt: entry.expiresAt },
+    ]),
+  };
+  await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(stored));
+}
+
+function schedulePersist(): void {
+  if (persistTimer) clearTimeout(persistTimer);
+  persistTimer = setTimeout(() => {
+    persistTimer = null;
+    persist().catch((error) => {
+      console.warn("[caption-preview-cache] persist failed:", error);
+    });
+  }, PERSIST_DEBOUNCE_MS);
+}
+
+async function loadStoredEntries(now: number): Promise<void> {
+  const raw = await AsyncStorage.getItem(STORAGE_KEY);
+  if (!raw) return;
+
+  try {
+    const parsed = JSON.parse(raw) as Partial<StoredCache>;
+    if (
+      parsed?.version !== CAPTION_PREVIEW_CACHE_VERSION ||
+      !Array.isArray(parsed.entries)
+    ) {
+      await AsyncStorage.removeItem(STORAGE_KEY);
+      return;
+    }
+    // Rebuild oldest first, then re-add this launch's entries as the newest.
+    const cachedThisLaunch = Array.from(entries);
+    entries.clear();
+    totalChars = 0;
+    for (const item of parsed.entries) {
+      const [key, value] = Array.isArray(item) ? item : [];
+      if (
+        typeof key !== "string" ||
+        typeof value?.meta?.rasterUrl !== "string" ||
+        typeof value.expiresAt !== "number" ||
+        value.expiresAt <= now
+      ) {
+        continue;
+      }
+      insert(key, {
+        meta: value.meta,
+        expiresAt: value.expiresAt,
+        size: JSON.stringify(value.meta).length,
+      });
+    }
+    for (const [key, entry] of cachedThisLaunch) {
+      insert(key, entry);
+    }
+  } catch {
+    await AsyncStorage.removeItem(STORAGE_KEY);
+  }
+}
+
+/** Save now instead of waiting for the debounce, e.g. when leaving the editor. */
+export async function flushCaptionPreviewCache(): Promise<void> {
+  if (!persistTimer) return;
+  clearTimeout(persistTimer);
+  persistTimer = null;
+  await persist();
+}
+
+/** Load the saved cache once per launch; later calls share the first load. */
+export function hydrateCaptionPreviewCache(
+  now: number = Date.now(),
+): Promise<void> {
+  if (!hydratePromise) {
+    hydratePromise = loadStoredEntries(now).catch((error) => {
+      console.warn("[caption-preview-cache] hydrate failed:", error);
+    });
+  }
+  return hydratePromise;
+}
+
+/** Returns a fresh meta and marks it most recently used. */
+export function getCachedCaptionPreview(
+  key: string,
+  now: number = Date.now(),
+): CaptionPreviewMeta | null {
+  const entry = entries.get(key);
+  if (!entry) {
+    metrics.misses += 1;
+    return null;
+  }
+  if (entry.expiresAt <= now) {
+    evict(key, "expired");
+    metrics.misses += 1;
+    schedulePersist();
+    return null;
+  }
+  entries.delete(key);
+  entries.set(key, entry);
+  metrics.hits += 1;
+  return entry.meta;
+}
+
+export function setCachedCaptionPreview(
+  key: string,
+  meta: CaptionPreviewMeta,
+  now: number = Date.now(),
+): void {
+  const size = JSON.stringify(meta).length;
+  if (size > CAPTION_PREVIEW_CACHE_MAX_CHARS) {
+    metrics.rejected += 1;
+    return;
+  }
+  insert(key, { meta, expiresAt: now + CAPTION_PREVIEW_CACHE_TTL_MS, size });
+  metrics.writes += 1;
+  schedulePersist();
+}
+
+export function getCaptionPreviewCacheMetrics(): CaptionPreviewCacheMetrics {
+  return {
+    ...metrics,
+    evictions: { ...metrics.evictions },
+    entries: entries.size,
+    totalChars,
+  };
+}
+
+/** Drop every entry and the saved copy; metrics start over. */
+export async function clearCaptionPreviewCache(): Promise<void> {
+  if (persistTimer) {
+    clearTimeout(persistTimer);
+    persistTimer = null;
+  }
+  entries.clear();
+  totalChars = 0;
+  metrics = emptyMetrics();
+  pendingEvictions = { capacity: 0, size: 0, expired: 0 };
+  hydratePromise = null;
+  await AsyncStorage.removeItem(STORAGE_KEY);
+}
@@ -0,0 +1,64 @@
+import { describe, expect, test } from "@jest/globals";
+
+import { CAPTION_PREVIEW_STYLE_KEYS } from "@/api/client";
+import {
+  CAPTION_STYLE_CONTROLS,
+  CAPTION_STYLE_DEFAULTS,
+  CAPTION_STYLE_SECTIONS,
+  getCaptionStyleFromSession,
+  getChangedCaptionStyle,
+  stepCaptionStyleValue,
+} from "@/lib/captionStyle";
+
+describe("captionStyle", () => {
+  test("exposes a control and a default for every whitelisted key", () => {
+    const sectionKeys = CAPTION_STYLE_SECTIONS.flatMap(
+      (section) => section.keys,
+    );
+
+    expect([...sectionKeys].sort()).toEqual(
+      [...CAPTION_PREVIEW_STYLE_KEYS].sort(),
+    );
+    expect(Object.keys(CAPTION_STYLE_CONTROLS).sort()).toEqual(
+      [...CAPTION_PREVIEW_STYLE_KEYS].sort(),
+    );
+    expect(Object.keys(CAPTION_STYLE_DEFAULTS).sort()).toEqual(
+      [...CAPTION_PREVIEW_STYLE_KEYS].sort(),
+    );
+  });
+
+  test("reads saved keys over the defaults and ignores placement", () => {
+    const style = getCaptionStyleFromSession({
+      id: "session-1",
+      overlayCaption: {
+        fontPx: 80,
+        color: "#FFD60A",
+        placement: "top",
+        yPct: 0.1,
+      },
+    });
+
+    expect(style.fontPx).toBe(80);
+    expect(style.color).toBe("#FFD60A");
+    expect(style.strokePx).toBe(CAPTION_STYLE_DEFAULTS.strokePx);
+    expect(style).not.toHaveProperty("placement");
+    expect(style).not.toHaveProperty("yPct");
+  });
+
+  test("steps numeric values within bounds and reports only changed keys", () => {
+    expect(stepCaptionStyleValue("fontPx", 64, 1)).toBe(66);
+    expect(stepCaptionStyleValue("fontPx", 120, 1)).toBe(120);
+    expect(stepCaptionStyleValue("opacity", 0.1, -1)).toBe(0.1);
+    expect(stepCaptionStyleValue("opacity", 0.7, 1)).toBe(0.8);
+
+    expect(
+      getChangedCaptionStyle(CAPTION_STYLE_DEFAULTS, {
+        ...CAPTION_STYLE_DEFAULTS,
+        fontPx: 72,
+      }),
+    ).toEqual({ fontPx: 72 });
+    expect(
+      getChangedCaptionStyle(CAPTION_STYLE_DEFAULTS, CAPTION_STYLE_DEFAULTS),
+    ).toBeNull();
+  });
+});
@@ -0,0 +1,268 @@
+import { extractStyleWhitelist, type CaptionPreviewStyle } from "@/api/client";
+import type { StorySession } from "@/types/story";
+
+export type CaptionStyleKey = keyof CaptionPreviewStyle;
+
+export type CaptionStyleControl =
+  | {
+      kind: "number";
+      label: string;
+      min: number;
+      max: number;
+      step: number;
+      unit?: string;
+    }
+  | {
+      kind: "options";
+      label: string;
+      options: { value: string; label: string }[];
+    }
+  | { kind: "color"; label: string; options: string[] };
+
+const SWATCHES = [
+  "#FFFFFF",
+  "#000000",
+  "#FFD60A",
+  "#FF453A",
+  "#30D158",
+  "#0A84FF",
+  "#BF5AF2",
+];
+
+/**
+ * Values the renderer uses when a key is unset. Reset writes these back
+ * explicitly, since update-caption-style merges into `overlayCaption`.
+ */
+export const CAPTION_STYLE_DEFAULTS: Required<CaptionPreviewStyle> = {
+  fontFamily: "DejaVu Sans",
+  fontPx: 64,
+  weightCss: "700",
+  fontStyle: "normal",
+  letterSpacingPx: 0,
+  lineSpacingPx: 8,
+  textAlign: "center",
+  textTransform: "none",
+  color: "#FFFFFF",
+  opacity: 1,
+  strokePx: 3,
+  strokeColor: "#000000",
+  shadowBlur: 12,
+  shadowOffsetX: 0,
+  shadowOffsetY: 2,
+  shadowColor: "#000000",
+  wPct: 80,
+  internalPaddingPx: 24,
+  internalPadding: 24,
+  rasterPadding: 24,
+};
+
+/** One control per whitelisted preview style key. */
+export const CAPTION_STYLE_CONTROLS: Record<
+  CaptionStyleKey,
+  CaptionStyleControl
+> = {
+  fontFamily: {
+    kind: "options",
+    label: "Font",
+    options: [
+      { value: "DejaVu Sans", label: "DejaVu Sans" },
+      { value: "Inter", label: "Inter" },
+      { value: "Montserrat", label: "Montserrat" },
+      { value: "Bebas Neue", label: "Bebas Neue" },
+    ],
+  },
+  fontPx: {
+    kind: "number",
+    label: "Size",
+    min: 32,
+    max: 120,
+    step: 2,
+    unit: "px",
+  },
+  weightCss: {
+    kind: "options",
+    label: "Weight",
+    options: [
+      { value: "400", label: "Regular" },
+      { value: "600", label: "Semibold" },
+      { value: "700", label: "Bold" },
+      { value: "900", label: "Black" },
+    ],
+  },
+  fontStyle: {
+    kind: "options",
+    label: "Style",
+    options: [
+      { value: "normal", label: "Normal" },
+      { value: "italic", label: "Italic" },
+    ],
+  },
+  letterSpacingPx: {
+    kind: "number",
+    label: "Letter spacing",
+    min: -4,
+    max: 12,
+    step: 0.5,
+    unit: "px",
+  },
+  lineSpacingPx: {
+    kind: "number",
+    label: "Line spacing",
+    min: 0,
+    max: 48,
+    step: 2,
+    unit: "px",
+  },
+  textAlign: {
+    kind: "options",
+    label: "Align",
+    options: [
+      { value: "left", label: "Left" },
+      { value: "center", label: "Center" },
+      { value: "right", label: "Right" },
+    ],
+  },
+  textTransform: {
+    kind: "options",
+    label: "Case",
+    options: [
+      { value: "none", label: "As typed" },
+      { value: "uppercase", label: "UPPER" },
+      { value: "lowercase", label: "lower" },
+      { value: "capitalize", label: "Title" },
+    ],
+  },
+  color: { kind: "color", label: "Text color", options: SWATCHES },
+  opacity: { kind: "number", label: "Opacity", min: 0.1, max: 1, step: 0.1 },
+  strokePx: {
+    kind: "number",
+    label: "Outline",
+    min: 0,
+    max: 12,
+    step: 1,
+    unit: "px",
+  },
+  strokeColor: { kind: "color", label: "Outline color", options: SWATCHES },
+  shadowBlur: {
+    kind: "number",
+    label: "Shadow blur",
+    min: 0,
+    max: 40,
+    step: 2,
+    unit: "px",
+  },
+  shadowOffsetX: {
+    kind: "number",
+    label: "Shadow X",
+    min: -20,
+    max: 20,
+    step: 1,
+    unit: "px",
+  },
+  shadowOffsetY: {
+    kind: "number",
+    label: "Shadow Y",
+    min: -20,
+    max: 20,
+    step: 1,
+    unit: "px",
+  },
+  shadowColor: { kind: "color", label: "Shadow color", options: SWATCHES },
+  wPct: {
+    kind: "number",
+    label: "Width",
+    min: 40,
+    max: 100,
+    step: 5,
+    unit: "%",
+  },
+  internalPaddingPx: {
+    kind: "number",
+    label: "Padding",
+    min: 0,
+    max: 80,
+    step: 4,
+    unit: "px",
+  },
+  internalPadding: {
+    kind: "number",
+    label: "Padding (legacy)",
+    min: 0,
+    max: 80,
+    step: 4,
+    unit: "px",
+  },
+  rasterPadding: {
+    kind: "number",
+    label: "Image padding",
+    min: 0,
+    max: 80,
+    step: 4,
+    unit: "px",
+  },
+};
+
+export const CAPTION_STYLE_SECTIONS: {
+  title: string;
+  keys: CaptionStyleKey[];
+}[] = [
+  {
+    title: "Text",
+    keys: [
+      "fontFamily",
+      "fontPx",
+      "weightCss",
+      "fontStyle",
+      "textTransform",
+      "textAlign",
+    ],
+  },
+  { title: "Spacing", keys: ["letterSpacingPx", "lineSpacingPx"] },
+  { title: "Color", keys: ["color", "opacity"] },
+  { title: "Outline", keys: ["strokePx", "strokeColor"] },
+  {
+    title: "Shadow",
+    keys: ["shadowBlur", "shadowOffsetX", "shadowOffsetY", "shadowColor"],
+  },
+  {
+    title: "Layout",
+    keys: ["wPct", "internalPaddingPx", "internalPadding", "rasterPadding"],
+  },
+];
+
+/** Saved style over the defaults, limited to the preview whitelist. */
+export function getCaptionStyleFromSession(
+  session: StorySession | null | undefined,
+): Required<CaptionPreviewStyle> {
+  return {
+    ...CAPTION_STYLE_DEFAULTS,
+    ...extractStyleWhitelist(session?.overlayCaption),
+  };
+}
+
+/** Move a numeric control one step, clamped and rounded to its step. */
+export function stepCaptionStyleValue(
+  key: CaptionStyleKey,
+  current: number,
+  direction: 1 | -1,
+): number {
+  const control = CAPTION_STYLE_CONTROLS[key];
+  if (control.kind !== "number") return current;
+  const next = Math.round((current + direction * control.step) / control.step);
+  const value = Number((next * control.step).toFixed(2));
+  return Math.min(control.max, Math.max(control.min, value));
+}
+
+/** Keys whose value differs; update-caption-style only needs these. */
+export function getChangedCaptionStyle(
+  previous: CaptionPreviewStyle,
+  next: CaptionPreviewStyle,
+): CaptionPreviewStyle | null {
+  const changed: CaptionPreviewStyle = {};
+  for (const key of Object.keys(next) as CaptionStyleKey[]) {
+    if (next[key] !== previous[key]) {
+      (changed as Record<string, unknown>)[key] = next[key];
+    }
+  }
+  return Object.keys(changed).length ? changed : null;
+}
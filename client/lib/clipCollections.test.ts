@@ -0,0 +1,101 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import { describe, expect, test } from "@jest/globals";
+
+import {
+  EMPTY_CLIP_COLLECTIONS,
+  FAVORITES_COLLECTION_ID,
+  createClipCollection,
+  deleteClipCollection,
+  getClipKey,
+  isClipInCollection,
+  loadClipCollections,
+  storeClipCollections,
+  toggleClipInCollection,
+} from "@/lib/clipCollections";
+
+const T0 = new Date("2026-01-01T10:00:00.000Z");
+
+const ocean = {
+  id: "session-a-clip-3",
+  url: "https://example.com/ocean.mp4",
+  provider: "pexels",
+  providerId: "123",
+};
+
+describe("client/lib/clipCollections", () => {
+  test("matches clips across sessions by provider id and toggles favorites", () => {
+    const sameClipOtherSession = { ...ocean, id: "session-b-clip-0" };
+    expect(getClipKey(sameClipOtherSession)).toBe("pexels:123");
+
+    let registry = toggleClipInCollection(
+      EMPTY_CLIP_COLLECTIONS,
+      FAVORITES_COLLECTION_ID,
+      ocean,
+      T0,
+    );
+    expect(
+      isClipInCollection(
+        registry,
+        FAVORITES_COLLECTION_ID,
+        sameClipOtherSession,
+      ),
+    ).toBe(true);
+    expect(registry.collections[0].clips).toEqual([ocean]);
+
+    registry = toggleClipInCollection(
+      registry,
+      FAVORITES_COLLECTION_ID,
+      sameClipOtherSession,
+      T0,
+    );
+    expect(registry.collections[0].clips).toEqual([]);
+  });
+
+  test("creates named collections and never deletes favorites", () => {
+    let registry = createClipCollection(
+      EMPTY_CLIP_COLLECTIONS,
+      { id: "c1", name: "  Beach   b-roll ", clip: ocean },
+      T0,
+    );
+    expect(registry.collections[1]).toEqual({
+      id: "c1",
+      name: "Beach b-roll",
+      clips: [ocean],
+      updatedAt: T0.toISOString(),
+    });
+    expect(createClipCollection(registry, { id: "c2", name: "  " })).toBe(
+      registry,
+    );
+
+    expect(deleteClipCollection(registry, FAVORITES_COLLECTION_ID)).toBe(
+      registry,
+    );
+    registry = deleteClipCollection(registry, "c1");
+    expect(registry.collections.map((collection) => collection.id)).toEqual([
+      FAVORITES_COLLECTION_ID,
+    ]);
+  });
+
+  test("stores collections per UID and drops unusable records", async () => {
+    const registry = createClipCollection(
+      EMPTY_CLIP_COLLECTIONS,
+      { id: "c1", name: "Beach", clip: ocean },
+      T0,
+    );
+    await storeClipCollections("user-1", registry);
+
+    expect(await loadClipCollections("user-1")).toEqual(registry);
+    expect(await loadClipCollections("user-2")).toEqual(EMPTY_CLIP_COLLECTIONS);
+
+    await AsyncStorage.setItem(
+      "@vaiform/clipCollections:user-3",
+      JSON.stringify({
+        version: 1,
+        collections: [{ id: "c1", name: "Beach", clips: [{ id: "no-url" }] }],
+      }),
+    );
+    const loaded = await loadClipCollections("user-3");
+    expect(loaded.collections[0].id).toBe(FAVORITES_COLLECTION_ID);
+    expect(loaded.collections[1].clips).toEqual([]);
+  });
+});
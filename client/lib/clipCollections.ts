@@ -0,0 +1,207 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+
+import type { StoryClip } from "@/types/story";
+
+const STORAGE_KEY_PREFIX = "@vaiform/clipCollections:";
+
+export const CLIP_COLLECTIONS_VERSION = 1;
+export const FAVORITES_COLLECTION_ID = "favorites";
+export const MAX_COLLECTION_NAME_CHARS = 40;
+
+export interface ClipCollection {
+  id: string;
+  name: string;
+  /** Full clip records, newest first, so they can be assigned in any session. */
+  clips: StoryClip[];
+  updatedAt: string;
+}
+
+export interface ClipCollectionsRegistry {
+  version: typeof CLIP_COLLECTIONS_VERSION;
+  /** Favorites always comes first; the rest are user-created. */
+  collections: ClipCollection[];
+}
+
+export const EMPTY_CLIP_COLLECTIONS: ClipCollectionsRegistry = {
+  version: CLIP_COLLECTIONS_VERSION,
+  collections: [
+    {
+      id: FAVORITES_COLLECTION_ID,
+      name: "Favorites",
+      clips: [],
+      updatedAt: new Date(0).toISOString(),
+    },
+  ],
+};
+
+function storageKey(uid: string): string {
+  return `${STORAGE_KEY_PREFIX}${uid}`;
+}
+
+/**
+ * Stable identity for a clip across sessions. Session-scoped `id`s can differ
+ * for the same stock clip, so provider + providerId wins when present.
+ */
+export function getClipKey(clip: StoryClip | null | undefined): string | null {
+  if (clip?.provider && clip.providerId) {
+    return `${clip.provider}:${clip.providerId}`;
+  }
+  return clip?.id ?? clip?.url ?? null;
+}
+
+export function getClipCollection(
+  registry: ClipCollectionsRegistry,
+  collectionId: string,
+): ClipCollection | null {
+  return (
+    registry.collections.find((collection) => collection.id === collectionId) ??
+    null
+  );
+}
+
+export function isClipInCollection(
+  registry: ClipCollectionsRegistry,
+  collectionId: string,
+  clip: StoryClip | null | undefined,
+): boolean {
+  const key = getClipKey(clip);
+  if (!key) return false;
+  return (
+    getClipCollection(registry, collectionId)?.clips.some(
+      (saved) => getClipKey(saved) === key,
+    ) ?? false
+  );
+}
+
+/** Add the clip to the front of the collection, or remove it when saved. */
+export function toggleClipInCollection(
+  registry: ClipCollectionsRegistry,
+  collectionId: string,
+  clip: StoryClip,
+  now: Date = new Date(),
+): ClipCollectionsRegistry {
+  const key = getClipKey(clip);
+  const target = getClipCollection(registry, collectionId);
+  if (!key || !target) return registry;
+
+  const remaining = target.clips.filter((saved) => getClipKey(saved) !== key);
+  const clips =
+    remaining.length < target.clips.length ? remaining : [clip, ...remaining];
+  return {
+    ...registry,
+    collections: registry.collections.map((collection) =>
+      collection.id === collectionId
+        ? { ...collection, clips, updatedAt: now.toISOString() }
+        : collection,
+    ),
+  };
+}
+
+function normalizeName(name: string): string {
+  return name.replace(/\s+/g, " ").trim().slice(0, MAX_COLLECTION_NAME_CHARS);
+}
+
+export function createClipCollection(
+  registry: ClipCollectionsRegistry,
+  entry: { id: string; name: string; clip?: StoryClip },
+  now: Date = new Date(),
+): ClipCollectionsRegistry {
+  const name = normalizeName(entry.name);
+  if (!name || getClipCollection(registry, entry.id)) return registry;
+  return {
+    ...registry,
+    collections: [
+      ...registry.collections,
+      {
+        id: entry.id,
+        name,
+        clips: entry.clip ? [entry.clip] : [],
+        updatedAt: now.toISOString(),
+      },
+    ],
+  };
+}
+
+export function deleteClipCollection(
+  registry: ClipCollectionsRegistry,
+  collectionId: string,
+): ClipCollectionsRegistry {
+  if (collectionId === FAVORITES_COLLECTION_ID) return registry;
+  return {
+    ...registry,
+    collections: registry.collections.filter(
+      (collection) => collection.id !== collectionId,
+    ),
+  };
+}
+
+function parseStoredClip(value: unknown): StoryClip | null {
+  const clip = value as StoryClip | null;
+  if (typeof clip?.url !== "string" || !getClipKey(clip)) return null;
+  return clip;
+}
+
+function parseStoredCollection(value: unknown): ClipCollection | null {
+  const collection = value as Partial<ClipCollection> | null;
+  if (
+    typeof collection?.id !== "string" ||
+    typeof collection?.name !== "string" ||
+    !Array.isArray(collection.clips)
+  ) {
+    return null;
+  }
+  return {
+    id: collection.id,
+    name: collection.name,
+    clips: collection.clips
+      .map(parseStoredClip)
+      .filter((clip): clip is StoryClip => clip !== null),
+    updatedAt:
+      typeof collection.updatedAt === "string"
+        ? collection.updatedAt
+        : new Date(0).toISOString(),
+  };
+}
+
+export async function loadClipCollections(
+  uid: string,
+): Promise<ClipCollectionsRegistry> {
+  const raw = await AsyncStorage.getItem(storageKey(uid));
+  if (!raw) return EMPTY_CLIP_COLLECTIONS;
+
+  try {
+    const parsed = JSON.parse(raw) as Partial<ClipCollectionsRegistry>;
+    if (
+      parsed?.version !== CLIP_COLLECTIONS_VERSION ||
+      !Array.isArray(parsed.collections)
+    ) {
+      await AsyncStorage.removeItem(storageKey(uid));
+      return EMPTY_CLIP_COLLECTIONS;
+    }
+    const stored = parsed.collections
+      .map(parseStoredCollection)
+      .filter((collection): collection is ClipCollection => !!collection);
+    const favorites =
+      stored.find((collection) => collection.id === FAVORITES_COLLECTION_ID) ??
+      EMPTY_CLIP_COLLECTIONS.collections[0];
+    return {
+      version: CLIP_COLLECTIONS_VERSION,
+      collections: [
+        favorites,
+        ...stored.filter(
+          (collection) => collection.id !== FAVORITES_COLLECTION_ID,
+        ),
+      ],
+    };
+  } catch {
+    await AsyncStorage.removeItem(storageKey(uid));
+    return EMPTY_CLIP_COLLECTIONS;
+  }
+}
+
+export async function storeClipCollections(
+  uid: string,
+  registry: ClipCollectionsRegistry,
+): Promise<void> {
+  await AsyncStorage.setItem(storageKey(uid), JSON.stringify(registry));
+}
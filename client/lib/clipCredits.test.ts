@@ -0,0 +1,91 @@
+import { describe, expect, test } from "@jest/globals";
+
+import {
+  formatClipCreditsCaption,
+  formatUnlicensedClipWarning,
+  getSessionClipCredits,
+  getUnlicensedClipBeats,
+} from "@/lib/clipCredits";
+import type { StorySession } from "@/types/story";
+
+const ocean = {
+  id: "clip-1",
+  url: "https://example.com/ocean.mp4",
+  provider: "pexels",
+  providerId: "1",
+  photographer: "Ana Silva",
+  sourceUrl: "https://pexels.com/video/1",
+  license: "Pexels License",
+};
+const city = {
+  id: "clip-2",
+  url: "https://example.com/city.mp4",
+  provider: "pixabay",
+  providerId: "2",
+  photographer: " ",
+  sourceUrl: "https://pixabay.com/videos/2",
+};
+const forest = {
+  id: "clip-3",
+  url: "https://example.com/forest.mp4",
+  provider: "pexels",
+  providerId: "3",
+  photographer: "Kai Mori",
+  license: "unknown",
+};
+
+function session(): StorySession {
+  return {
+    id: "session-1",
+    shots: [
+      { sentenceIndex: 3, selectedClip: forest },
+      { sentenceIndex: 0, selectedClip: ocean },
+      { sentenceIndex: 1, selectedClip: city },
+      { sentenceIndex: 2, selectedClip: { ...ocean, id: "clip-9" } },
+      { sentenceIndex: 4, selectedClip: null },
+    ],
+  };
+}
+
+describe("client/lib/clipCredits", () => {
+  test("dedupes selected clips and groups them by provider in beat order", () => {
+    const groups = getSessionClipCredits(session());
+
+    expect(groups.map((group) => group.provider)).toEqual([
+      "Pexels",
+      "Pixabay",
+    ]);
+    expect(groups[0].credits.map((credit) => credit.photographer)).toEqual([
+      "Ana Silva",
+      "Kai Mori",
+    ]);
+    expect(groups[1].credits[0]).toEqual({
+      key: "pixabay:2",
+      photographer: null,
+      sourceUrl: "https://pixabay.com/videos/2",
+      license: null,
+    });
+  });
+
+  test("formats a caption block", () => {
+    expect(formatClipCreditsCaption(getSessionClipCredits(session()))).toBe(
+      [
+        "Stock footage:",
+        "Pexels: Ana Silva – https://pexels.com/video/1, Kai Mori",
+        "Pixabay: Unknown creator – https://pixabay.com/videos/2",
+      ].join("\n"),
+    );
+    expect(formatClipCreditsCaption([])).toBe("");
+  });
+
+  test("flags beats whose clip license is missing or unknown", () => {
+    const beats = getUnlicensedClipBeats(session());
+
+    expect(beats).toEqual([2, 4]);
+    expect(formatUnlicensedClipWarning(beats)).toBe(
+      "Beats 2 and 4 use clips with a missing or unknown license. Check the source before publishing.",
+    );
+    expect(formatUnlicensedClipWarning([1])).toMatch(/^Beat 1 uses a clip/);
+    expect(formatUnlicensedClipWarning([])).toBeNull();
+  });
+});
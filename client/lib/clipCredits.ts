@@ -0,0 +1,122 @@
+import { getClipKey } from "@/lib/clipCollections";
+import type { StoryClip, StorySession } from "@/types/story";
+
+const UNKNOWN_LICENSES = new Set(["", "unknown", "n/a", "none"]);
+const OTHER_PROVIDER = "Other";
+
+export interface ClipCredit {
+  key: string;
+  photographer: string | null;
+  sourceUrl: string | null;
+  license: string | null;
+}
+
+export interface ClipCreditGroup {
+  provider: string;
+  credits: ClipCredit[];
+}
+
+export function isUnknownClipLicense(license: string | null | undefined) {
+  return UNKNOWN_LICENSES.has((license ?? "").trim().toLowerCase());
+}
+
+function formatProvider(provider: string | undefined): string {
+  const trimmed = provider?.trim();
+  if (!trimmed) return OTHER_PROVIDER;
+  return trimmed.charAt(0).toUpperCase() + trimmed.slice(1);
+}
+
+function trimOrNull(value: string | null | undefined): string | null {
+  const trimmed = value?.trim();
+  return trimmed ? trimmed : null;
+}
+
+/** Selected clips in beat order; beats without a clip are skipped. */
+export function getSessionSelectedClips(
+  session: StorySession | null | undefined,
+): { sentenceIndex: number; clip: StoryClip }[] {
+  return (session?.shots ?? [])
+    .filter((shot) => !!shot.selectedClip)
+    .slice()
+    .sort((left, right) => left.sentenceIndex - right.sentenceIndex)
+    .map((shot) => ({
+      sentenceIndex: shot.sentenceIndex,
+      clip: shot.selectedClip as StoryClip,
+    }));
+}
+
+/**
+ * One credit per distinct clip, grouped by provider. Groups are sorted by
+ * name with "Other" last; credits keep first-use order.
+ */
+export function buildClipCredits(
+  clips: (StoryClip | null | undefined)[],
+): ClipCreditGroup[] {
+  const seen = new Set<string>();
+  const groups = new Map<string, ClipCredit[]>();
+  for (const clip of clips) {
+    const key = getClipKey(clip);
+    if (!clip || !key || seen.has(key)) continue;
+    seen.add(key);
+    const provider = formatProvider(clip.provider);
+    const credits = groups.get(provider) ?? [];
+    credits.push({
+      key,
+      photographer: trimOrNull(clip.photographer),
+      sourceUrl: trimOrNull(clip.sourceUrl),
+      license: trimOrNull(clip.license),
+    });
+    groups.set(provider, credits);
+  }
+  return Array.from(groups, ([provider, credits]) => ({
+    provider,
+    credits,
+  })).sort((left, right) => {
+    if (left.provider === OTHER_PROVIDER) return 1;
+    if (right.provider === OTHER_PROVIDER) return -1;
+    return left.provider.localeCompare(right.provider);
+  });
+}
+
+export function getSessionClipCredits(
+  session: StorySession | null | undefined,
+): ClipCreditGroup[] {
+  return buildClipCredits(
+    getSessionSelectedClips(session).map(({ clip }) => clip),
+  );
+}
+
+export function formatClipCredit(credit: ClipCredit): string {
+  const name = credit.photographer ?? "Unknown creator";
+  return credit.sourceUrl ? `${name} – ${credit.sourceUrl}` : name;
+}
+
+/** Ready-to-paste caption block, one provider heading per group. */
+export function formatClipCreditsCaption(groups: ClipCreditGroup[]): string {
+  if (groups.length === 0) return "";
+  const lines = ["Stock footage:"];
+  for (const group of groups) {
+    lines.push(
+      `${group.provider}: ${group.credits.map(formatClipCredit).join(", ")}`,
+    );
+  }
+  return lines.join("\n");
+}
+
+/** 1-based beat numbers whose selected clip has a missing or unknown license. */
+export function getUnlicensedClipBeats(
+  session: StorySession | null | undefined,
+): number[] {
+  return getSessionSelectedClips(session)
+    .filter(({ clip }) => isUnknownClipLicense(clip.license))
+    .map(({ sentenceIndex }) => sentenceIndex + 1);
+}
+
+export function formatUnlicensedClipWarning(beats: number[]): string | null {
+  if (beats.length === 0) return null;
+  const label =
+    beats.length === 1
+      ? `Beat ${beats[0]} uses a clip`
+      : `Beats ${beats.slice(0, -1).join(", ")} and ${beats[beats.length - 1]} use clips`;
+  return `${label} with a missing or unknown license. Check the source before publishing.`;
+}
@@ -0,0 +1,57 @@
+import { describe, expect, test } from "@jest/globals";
+
+import {
+  DEFAULT_CLIP_SEARCH_FILTERS,
+  appendClipPage,
+  filterClips,
+  getClipOrientation,
+  getClipProviders,
+} from "@/lib/clipFilters";
+
+const clips = [
+  { id: "a", provider: "pexels", duration: 4, width: 1080, height: 1920 },
+  { id: "b", provider: "pixabay", duration: 12, width: 1920, height: 1080 },
+  { id: "c", provider: "pexels", duration: 20, width: 1080, height: 1080 },
+  { id: "d", provider: "pexels" },
+];
+
+describe("client/lib/clipFilters", () => {
+  test("derives orientation from width and height", () => {
+    expect(clips.map(getClipOrientation)).toEqual([
+      "portrait",
+      "landscape",
+      "square",
+      null,
+    ]);
+    expect(getClipOrientation({ width: 1000, height: 1030 })).toBe("square");
+  });
+
+  test("combines duration, orientation and provider filters", () => {
+    const ids = (filters: typeof DEFAULT_CLIP_SEARCH_FILTERS) =>
+      filterClips(clips, filters).map((clip) => clip.id);
+
+    expect(ids(DEFAULT_CLIP_SEARCH_FILTERS)).toEqual(["a", "b", "c", "d"]);
+    expect(ids({ ...DEFAULT_CLIP_SEARCH_FILTERS, minDurationSec: 10 })).toEqual(
+      ["b", "c"],
+    );
+    expect(
+      ids({ ...DEFAULT_CLIP_SEARCH_FILTERS, orientation: "portrait" }),
+    ).toEqual(["a"]);
+    expect(
+      ids({
+        minDurationSec: 10,
+        orientation: null,
+        provider: "pexels",
+      }),
+    ).toEqual(["c"]);
+  });
+
+  test("lists providers and appends pages without duplicates", () => {
+    expect(getClipProviders(clips)).toEqual(["pexels", "pixabay"]);
+    expect(
+      appendClipPage(clips.slice(0, 2), [clips[1], clips[2]]).map(
+        (clip) => clip.id,
+      ),
+    ).toEqual(["a", "b", "c"]);
+  });
+});
@@ -0,0 +1,100 @@
+import type { StoryClip } from "@/types/story";
+
+export type ClipOrientation = "portrait" | "landscape" | "square";
+
+export interface ClipSearchFilters {
+  /** Zero means no minimum. */
+  minDurationSec: number;
+  orientation: ClipOrientation | null;
+  provider: string | null;
+}
+
+export const DEFAULT_CLIP_SEARCH_FILTERS: ClipSearchFilters = {
+  minDurationSec: 0,
+  orientation: null,
+  provider: null,
+};
+
+export const CLIP_MIN_DURATION_OPTIONS = [0, 5, 10, 15] as const;
+
+export const CLIP_ORIENTATIONS: ClipOrientation[] = [
+  "portrait",
+  "landscape",
+  "square",
+];
+
+// Within 5% of square counts as square; stock footage is rarely exact.
+const SQUARE_TOLERANCE = 0.05;
+
+/** Null when the provider didn't report both dimensions. */
+export function getClipOrientation(clip: StoryClip): ClipOrientation | null {
+  const { width, height } = clip;
+  if (
+    typeof width !== "number" ||
+    typeof height !== "number" ||
+    width <= 0 ||
+    height <= 0
+  ) {
+    return null;
+  }
+  const ratio = width / height;
+  if (Math.abs(ratio - 1) <= SQUARE_TOLERANCE) return "square";
+  return ratio < 1 ? "portrait" : "landscape";
+}
+
+/**
+ * Filters apply client-side to the pages loaded so far; search-shot has no
+ * filter parameters. Clips missing the filtered field are excluded.
+ */
+export function filterClips(
+  clips: readonly StoryClip[],
+  filters: ClipSearchFilters,
+): StoryClip[] {
+  return clips.filter((clip) => {
+    if (
+      filters.minDurationSec > 0 &&
+      !(
+        typeof clip.duration === "number" &&
+        clip.duration >= filters.minDurationSec
+      )
+    ) {
+      return false;
+    }
+    if (
+      filters.orientation &&
+      getClipOrientation(clip) !== filters.orientation
+    ) {
+      return false;
+    }
+    if (filters.provider && clip.provider !== filters.provider) return false;
+    return true;
+  });
+}
+
+export function hasActiveClipFilters(filters: ClipSearchFilters): boolean {
+  return (
+    filters.minDurationSec > 0 ||
+    filters.orientation !== null ||
+    filters.provider !== null
+  );
+}
+
+/** Providers present in the loaded results, in first-seen order. */
+export function getClipProviders(clips: readonly StoryClip[]): string[] {
+  const providers: string[] = [];
+  clips.forEach((clip) => {
+    if (clip.provider && !providers.includes(clip.provider)) {
+      providers.push(clip.provider);
+    }
+  });
+  return providers;
+}
+
+/** Append a page of results, dropping clips already listed. */
+export function appendClipPage(
+  existing: readonly StoryClip[],
+  page: readonly StoryClip[],
+): StoryClip[] {
+  const seen = new Set(existing.map((clip) => clip.id));
+  return [...existing, ...page.filter((clip) => clip.id && !seen.has(clip.id))];
+}
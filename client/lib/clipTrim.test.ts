@@ -0,0 +1,34 @@
+import { describe, expect, test } from "@jest/globals";
+
+import {
+  clampClipStartSec,
+  getClipStartFromTrackOffset,
+  getClipTrimWindowSec,
+  getShotClipStartSec,
+} from "@/lib/clipTrim";
+
+describe("client/lib/clipTrim", () => {
+  test("sizes the window to the beat, capped by the clip", () => {
+    expect(getClipTrimWindowSec(12, 4.6)).toBe(4.6);
+    expect(getClipTrimWindowSec(3, 4.6)).toBe(3);
+    expect(getClipTrimWindowSec(12, 0)).toBe(12);
+    expect(getClipTrimWindowSec(0, 4)).toBe(0);
+  });
+
+  test("keeps the in-point inside the clip and snaps to tenths", () => {
+    expect(clampClipStartSec(2.34, 12, 4.6)).toBe(2.3);
+    expect(clampClipStartSec(-1, 12, 4.6)).toBe(0);
+    expect(clampClipStartSec(9, 12, 4.6)).toBe(7.4);
+    expect(clampClipStartSec(7.37, 12, 4.63)).toBe(7.37);
+    expect(clampClipStartSec(2, 3, 3)).toBe(0);
+  });
+
+  test("maps track offsets and reads saved in-points", () => {
+    expect(getClipStartFromTrackOffset(100, 300, 12, 4)).toBe(4);
+    expect(getClipStartFromTrackOffset(290, 300, 12, 4)).toBe(8);
+    expect(getShotClipStartSec({ sentenceIndex: 0, clipStartSec: 2.5 })).toBe(
+      2.5,
+    );
+    expect(getShotClipStartSec({ sentenceIndex: 0 })).toBe(0);
+  });
+});
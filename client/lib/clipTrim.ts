@@ -0,0 +1,57 @@
+import type { StoryShot } from "@/types/story";
+
+/** In-points are stored to a tenth of a second. */
+export const CLIP_TRIM_STEP_SEC = 0.1;
+
+function roundToStep(sec: number): number {
+  return Math.round(sec / CLIP_TRIM_STEP_SEC) * CLIP_TRIM_STEP_SEC;
+}
+
+/** Saved in-point for a shot, or 0 when none was chosen. */
+export function getShotClipStartSec(
+  shot: StoryShot | null | undefined,
+): number {
+  const value = Number(shot?.clipStartSec);
+  return Number.isFinite(value) && value > 0 ? value : 0;
+}
+
+/**
+ * Length of the clip that plays under the beat. A clip shorter than the
+ * narration plays whole, so there is nothing to trim.
+ */
+export function getClipTrimWindowSec(
+  clipDurationSec: number,
+  beatDurationSec: number,
+): number {
+  if (!(clipDurationSec > 0)) return 0;
+  if (!(beatDurationSec > 0)) return clipDurationSec;
+  return Math.min(clipDurationSec, beatDurationSec);
+}
+
+/** Keep the window inside the clip and snap to the storage step. */
+export function clampClipStartSec(
+  startSec: number,
+  clipDurationSec: number,
+  windowSec: number,
+): number {
+  const maxStartSec = Math.max(0, clipDurationSec - windowSec);
+  const clamped = Math.min(Math.max(0, startSec), maxStartSec);
+  // Snapping up past the end would push the window off the clip.
+  const snapped = Number(roundToStep(clamped).toFixed(1));
+  return snapped > maxStartSec ? maxStartSec : snapped;
+}
+
+/** Map a drag position on the trim track (0..trackWidth) to an in-point. */
+export function getClipStartFromTrackOffset(
+  offsetPx: number,
+  trackWidthPx: number,
+  clipDurationSec: number,
+  windowSec: number,
+): number {
+  if (!(trackWidthPx > 0)) return 0;
+  return clampClipStartSec(
+    (offsetPx / trackWidthPx) * clipDurationSec,
+    clipDurationSec,
+    windowSec,
+  );
+}
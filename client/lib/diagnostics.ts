@@ -85,6 +85,7 @@ export function recordApiFailure(seed: {
   code: string;
   message: string;
   requestId: string | null;
+  context?: DiagnosticContext;
 }): MobileDiagnosticEntry {
   return pushDiagnostic({
     source: "api",
@@ -94,6 +95,7 @@ export function recordApiFailure(seed: {
     code: seed.code,
     message: seed.message,
     requestId: seed.requestId,
+    context: seed.context,
   });
 }
 
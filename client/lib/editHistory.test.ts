@@ -0,0 +1,75 @@
+import { describe, expect, test } from "@jest/globals";
+
+import {
+  EMPTY_EDIT_HISTORY,
+  MAX_EDIT_HISTORY,
+  completeEditStep,
+  describeEditCommand,
+  getNextEditCommand,
+  recordEditCommand,
+  type EditCommand,
+} from "@/lib/editHistory";
+
+const editText: EditCommand = {
+  kind: "beat_text",
+  sentenceIndex: 1,
+  before: "Old",
+  after: "New",
+};
+const deleteBeat: EditCommand = {
+  kind: "delete_beat",
+  sentenceIndex: 0,
+  text: "Gone",
+  clipId: "clip-1",
+};
+
+describe("client/lib/editHistory", () => {
+  test("undo and redo move the top command between stacks", () => {
+    let history = recordEditCommand(EMPTY_EDIT_HISTORY, editText);
+    history = recordEditCommand(history, deleteBeat);
+
+    expect(getNextEditCommand(history, "undo")).toBe(deleteBeat);
+    expect(getNextEditCommand(history, "redo")).toBeNull();
+
+    history = completeEditStep(history, "undo");
+    expect(history).toEqual({ past: [editText], future: [deleteBeat] });
+    expect(getNextEditCommand(history, "redo")).toBe(deleteBeat);
+
+    history = completeEditStep(history, "redo");
+    expect(history).toEqual({ past: [editText, deleteBeat], future: [] });
+    expect(completeEditStep(EMPTY_EDIT_HISTORY, "undo")).toBe(
+      EMPTY_EDIT_HISTORY,
+    );
+  });
+
+  test("a new edit drops the redo branch and caps the undo depth", () => {
+    const undone = completeEditStep(
+      recordEditCommand(EMPTY_EDIT_HISTORY, editText),
+      "undo",
+    );
+    expect(recordEditCommand(undone, deleteBeat)).toEqual({
+      past: [deleteBeat],
+      future: [],
+    });
+
+    let history = EMPTY_EDIT_HISTORY;
+    for (let index = 0; index < MAX_EDIT_HISTORY + 5; index += 1) {
+      history = recordEditCommand(history, { ...editText, after: `v${index}` });
+    }
+    expect(history.past).toHaveLength(MAX_EDIT_HISTORY);
+    expect(history.past[0]).toMatchObject({ after: "v5" });
+  });
+
+  test("labels commands with one-based beat numbers", () => {
+    expect(describeEditCommand(editText)).toBe("Beat 2 edited");
+    expect(describeEditCommand(deleteBeat)).toBe("Beat 1 deleted");
+    expect(
+      describeEditCommand({
+        kind: "script",
+        label: "Beat 3 added",
+        before: [],
+        after: [],
+      }),
+    ).toBe("Beat 3 added");
+  });
+});
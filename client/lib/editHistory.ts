@@ -0,0 +1,161 @@
+import type { BeatArrangement } from "@/lib/beatOrder";
+import type { BeatTextChange } from "@/lib/findReplace";
+import type { CaptionPosition } from "@/screens/story-editor/model";
+import type { StoryClip } from "@/types/story";
+
+/** Oldest entries drop off past this many undo steps per session. */
+export const MAX_EDIT_HISTORY = 30;
+
+/**
+ * One recorded mutation plus what is needed to invert it. Every command is
+ * applied through the same API route in both directions.
+ */
+export type EditCommand =
+  /** Pre-storyboard edit applied with update-script (save, add, delete). */
+  | { kind: "script"; label: string; before: string[]; after: string[] }
+  | {
+      kind: "beat_text";
+      sentenceIndex: number;
+      before: string;
+      after: string;
+    }
+  /** Storyboarded batch text edit (find/replace), one update-beat-text per beat. */
+  | { kind: "beat_texts"; label: string; changes: BeatTextChange[] }
+  /** Undo re-inserts the text via insert-beat, then restores the clip and its trim. */
+  | {
+      kind: "delete_beat";
+      sentenceIndex: number;
+      text: string;
+      clipId: string | null;
+      clipStartSec?: number;
+    }
+  /** The inverse of delete_beat: undo deletes, redo re-inserts with the clip. */
+  | {
+      kind: "insert_beat";
+      sentenceIndex: number;
+      text: string;
+      clipId: string | null;
+      clipStartSec?: number;
+    }
+  /**
+   * `beforeClip`/`afterClip` are full records for clips that may not be among
+   * the session's candidates (favorites), re-sent so update-shot can find them.
+   * The in-points are re-sent too; a missing one plays the clip from 0.
+   */
+  | {
+      kind: "shot";
+      sentenceIndex: number;
+      beforeClipId: string;
+      afterClipId: string;
+      beforeClip?: StoryClip;
+      afterClip?: StoryClip;
+      beforeClipStartSec?: number;
+      afterClipStartSec?: number;
+    }
+  /** In-point change for the beat's current clip, re-sent with update-shot. */
+  | {
+      kind: "clip_trim";
+      sentenceIndex: number;
+      clipId: string;
+      before: number;
+      after: number;
+    }
+  | {
+      kind: "caption_placement";
+      before: CaptionPosition;
+      after: CaptionPosition;
+    }
+  /** Storyboarded split; undo merges `tail` back, restoring `before`. */
+  | {
+      kind: "split_beat";
+      sentenceIndex: number;
+      before: string;
+      head: string;
+      tail: string;
+      clipId: string | null;
+    }
+  /** Storyboarded merge; undo splits `second` back out onto its old clip. */
+  | {
+      kind: "merge_beats";
+      sentenceIndex: number;
+      first: string;
+      second: string;
+      merged: string;
+      secondClipId: string | null;
+    }
+  /** Drag reorder; both directions rewrite the script, then re-point clips. */
+  | {
+      kind: "beat_order";
+      fromIndex: number;
+      toIndex: number;
+      before: BeatArrangement;
+      after: BeatArrangement;
+    };
+
+export interface EditHistory {
+  /** Applied commands, oldest first; the last one is the next undo. */
+  past: EditCommand[];
+  /** Undone commands, oldest first; the last one is the next redo. */
+  future: EditCommand[];
+}
+
+export type EditDirection = "undo" | "redo";
+
+export const EMPTY_EDIT_HISTORY: EditHistory = { past: [], future: [] };
+
+/** A new edit starts a new branch, so anything that was undone is dropped. */
+export function recordEditCommand(
+  history: EditHistory,
+  command: EditCommand,
+): EditHistory {
+  return {
+    past: [...history.past, command].slice(-MAX_EDIT_HISTORY),
+    future: [],
+  };
+}
+
+export function getNextEditCommand(
+  history: EditHistory,
+  direction: EditDirection,
+): EditCommand | null {
+  const stack = direction === "undo" ? history.past : history.future;
+  return stack[stack.length - 1] ?? null;
+}
+
+/** Move the top command across once its inverse (or replay) has been applied. */
+export function completeEditStep(
+  history: EditHistory,
+  direction: EditDirection,
+): EditHistory {
+  const command = getNextEditCommand(history, direction);
+  if (!command) return history;
+  return direction === "undo"
+    ? { past: history.past.slice(0, -1), future: [...history.future, command] }
+    : { past: [...history.past, command], future: history.future.slice(0, -1) };
+}
+
+export function describeEditCommand(command: EditCommand): string {
+  switch (command.kind) {
+    case "script":
+    case "beat_texts":
+      return command.label;
+    case "beat_text":
+      return `Beat ${command.sentenceIndex + 1} edited`;
+    case "delete_beat":
+      return `Beat ${command.sentenceIndex + 1} deleted`;
+    case "insert_beat":
+      return `Beat ${command.sentenceIndex + 1} inserted`;
+    case "shot":
+      return `Beat ${command.sentenceIndex + 1} clip replaced`;
+    case "clip_trim":
+      return `Beat ${command.sentenceIndex + 1} clip trimmed`;
+    case "caption_placement":
+      return "Caption placement changed";
+    case "split_beat":
+      return `Beat ${command.sentenceIndex + 1} split`;
+    case "merge_beats":
+      return `Beats ${command.sentenceIndex + 1} and ${command.sentenceIndex + 2} merged`;
+    case "beat_order":
+      return `Beat ${command.fromIndex + 1} moved to ${command.toIndex + 1}`;
+  }
+}
@@ -0,0 +1,61 @@
+import { describe, expect, test } from "@jest/globals";
+
+import { describeError, isKnownErrorCode } from "@/lib/errorCatalog";
+
+describe("client/lib/errorCatalog", () => {
+  test("maps known backend codes to catalog copy, severity, and action", () => {
+    expect(
+      describeError({
+        ok: false,
+        status: 429,
+        code: "SCRIPT_LIMIT_REACHED",
+        message: "SCRIPT_LIMIT_REACHED",
+        requestId: "req-1",
+      }),
+    ).toEqual({
+      code: "SCRIPT_LIMIT_REACHED",
+      status: 429,
+      message: "Daily script limit reached. Try again tomorrow.",
+      severity: "warning",
+      action: "wait",
+    });
+    expect(describeError({ code: "BEAT_TOO_LONG", status: 400 })).toMatchObject(
+      { action: "fix_beat", severity: "error" },
+    );
+  });
+
+  test("falls back to the HTTP status when the code is unknown", () => {
+    expect(describeError({ code: "SOMETHING_NEW", status: 402 })).toMatchObject(
+      {
+        code: "SOMETHING_NEW",
+        action: "buy_render_time",
+      },
+    );
+    expect(describeError({ code: "HTTP_502", status: 502 })).toMatchObject({
+      message: "Something went wrong. Please try again.",
+      action: "retry",
+    });
+  });
+
+  test("uses the caller fallback instead of backend text for unmapped failures", () => {
+    expect(
+      describeError(
+        { code: "WEIRD_CONSTANT", status: 400, message: "WEIRD_CONSTANT" },
+        "Failed to plan shots. Please try again.",
+      ),
+    ).toMatchObject({
+      message: "Failed to plan shots. Please try again.",
+      severity: "error",
+    });
+    expect(describeError(new Error("boom"))).toMatchObject({
+      message: "Something went wrong. Please try again.",
+      code: null,
+    });
+  });
+
+  test("recognizes catalog codes only", () => {
+    expect(isKnownErrorCode("NETWORK_ERROR")).toBe(true);
+    expect(isKnownErrorCode("toString")).toBe(false);
+    expect(isKnownErrorCode(undefined)).toBe(false);
+  });
+});
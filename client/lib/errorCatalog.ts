@@ -0,0 +1,257 @@
+export type ErrorSeverity = "error" | "warning" | "info";
+
+/**
+ * What the user can do about a failure. Screens may act on it (refresh data,
+ * focus a beat); the copy already tells the user what to do.
+ */
+export type ErrorAction =
+  | "retry"
+  | "reauth"
+  | "buy_render_time"
+  | "fix_beat"
+  | "sync_voice"
+  | "refresh"
+  | "wait"
+  | "go_back"
+  | "none";
+
+/** Toast button label for actions a screen can run on the user's behalf. */
+export const ERROR_ACTION_LABELS: Partial<Record<ErrorAction, string>> = {
+  retry: "Retry",
+  reauth: "Sign in",
+  buy_render_time: "Render time",
+  fix_beat: "Show beat",
+  sync_voice: "Sync voice",
+  refresh: "Refresh",
+  go_back: "Go back",
+};
+
+export interface ErrorCatalogEntry {
+  message: string;
+  severity: ErrorSeverity;
+  action: ErrorAction;
+}
+
+export interface ErrorPresentation extends ErrorCatalogEntry {
+  code: string | null;
+  status: number | null;
+}
+
+const GENERIC_MESSAGE = "Something went wrong. Please try again.";
+
+/** Backend and client error codes mobile knows how to explain (spec §7). */
+export const ERROR_CATALOG = {
+  AUTH_REQUIRED: {
+    message: "Please sign in to continue.",
+    severity: "error",
+    action: "reauth",
+  },
+  INSUFFICIENT_RENDER_TIME: {
+    message:
+      "Not enough render time for this video. Add render time to continue.",
+    severity: "error",
+    action: "buy_render_time",
+  },
+  FORBIDDEN: {
+    message: "You don't have permission to do this.",
+    severity: "error",
+    action: "none",
+  },
+  NOT_FOUND: {
+    message: "This item no longer exists.",
+    severity: "error",
+    action: "go_back",
+  },
+  STALE_META: {
+    message: "Data is out of sync. Refresh and try again.",
+    severity: "warning",
+    action: "refresh",
+  },
+  RATE_LIMIT_EXCEEDED: {
+    message: "Too many requests. Please wait a moment.",
+    severity: "warning",
+    action: "wait",
+  },
+  SCRIPT_LIMIT_REACHED: {
+    message: "Daily script limit reached. Try again tomorrow.",
+    severity: "warning",
+    action: "wait",
+  },
+  SERVER_BUSY: {
+    message: "Server is busy. Please try again in a moment.",
+    severity: "warning",
+    action: "retry",
+  },
+  SERVER_ERROR: {
+    message: GENERIC_MESSAGE,
+    severity: "error",
+    action: "retry",
+  },
+  NETWORK_ERROR: {
+    message: "No internet connection. Check your connection and try again.",
+    severity: "error",
+    action: "retry",
+  },
+  TIMEOUT: {
+    message: "This is taking longer than expected. Please try again.",
+    severity: "error",
+    action: "retry",
+  },
+  INVALID_RESPONSE: {
+    message: "We got an unexpected response. Please try again.",
+    severity: "error",
+    action: "retry",
+  },
+  INVALID_INPUT: {
+    message: "Some of that input isn't valid. Check it and try again.",
+    severity: "error",
+    action: "none",
+  },
+  SCRIPT_REQUIRED: {
+    message: "Write a script before building the storyboard.",
+    severity: "error",
+    action: "fix_beat",
+  },
+  BEAT_TOO_LONG: {
+    message: "A beat is too long. Shorten it and try again.",
+    severity: "error",
+    action: "fix_beat",
+  },
+  SCRIPT_TOO_LONG: {
+    message: "Your script is too long. Trim some beats and try again.",
+    severity: "error",
+    action: "fix_beat",
+  },
+  TOO_MANY_BEATS: {
+    message: "Your script has too many beats. Remove one and try again.",
+    severity: "error",
+    action: "fix_beat",
+  },
+  LAST_BEAT: {
+    message: "Story needs at least one beat.",
+    severity: "error",
+    action: "fix_beat",
+  },
+  BEAT_NOT_FOUND: {
+    message: "That beat changed elsewhere. Refresh your script and try again.",
+    severity: "warning",
+    action: "refresh",
+  },
+  CLIP_NOT_FOUND: {
+    message: "That clip is no longer available. Pick another one.",
+    severity: "error",
+    action: "fix_beat",
+  },
+  PLAN_REQUIRED: {
+    message: "Generate the storyboard before searching for clips.",
+    severity: "error",
+    action: "none",
+  },
+  STORYBOARD_REQUIRED: {
+    message: "Generate the storyboard first.",
+    severity: "error",
+    action: "none",
+  },
+  MISSING_CLIP_COVERAGE: {
+    message: "Some beats still need a clip. Pick clips for them and try again.",
+    severity: "error",
+    action: "fix_beat",
+  },
+  VOICE_SYNC_REQUIRED: {
+    message: "Sync voice and timing before render.",
+    severity: "error",
+    action: "sync_voice",
+  },
+  VOICE_SYNC_STALE: {
+    message: "Voice timing is stale. Re-sync before render.",
+    severity: "error",
+    action: "sync_voice",
+  },
+  VOICE_SYNC_NOT_CURRENT: {
+    message: "Voice timing is stale. Re-sync before render.",
+    severity: "error",
+    action: "sync_voice",
+  },
+  CAPTIONS_INCOMPLETE: {
+    message: "Captions are still being prepared. Try again in a moment.",
+    severity: "warning",
+    action: "retry",
+  },
+  STORY_SYNC_ALREADY_ACTIVE: {
+    message: "Voice sync is already running. Hang tight.",
+    severity: "info",
+    action: "wait",
+  },
+  PREVIEW_ALREADY_ACTIVE: {
+    message: "A preview is already being built. Hang tight.",
+    severity: "info",
+    action: "wait",
+  },
+  FINALIZE_ALREADY_ACTIVE: {
+    message: "This video is already rendering. Hang tight.",
+    severity: "info",
+    action: "wait",
+  },
+  IDEMPOTENT_IN_PROGRESS: {
+    message: "That request is still in progress. Hang tight.",
+    severity: "info",
+    action: "wait",
+  },
+} satisfies Record<string, ErrorCatalogEntry>;
+
+export type KnownErrorCode = keyof typeof ERROR_CATALOG;
+
+export function isKnownErrorCode(code: unknown): code is KnownErrorCode {
+  return (
+    typeof code === "string" &&
+    Object.prototype.hasOwnProperty.call(ERROR_CATALOG, code)
+  );
+}
+
+function getStatusFallbackCode(status: number | null): KnownErrorCode | null {
+  if (status === null) return null;
+  if (status === 0) return "NETWORK_ERROR";
+  if (status === 401) return "AUTH_REQUIRED";
+  if (status === 402) return "INSUFFICIENT_RENDER_TIME";
+  if (status === 403) return "FORBIDDEN";
+  if (status === 404) return "NOT_FOUND";
+  if (status === 409) return "STALE_META";
+  if (status === 429) return "RATE_LIMIT_EXCEEDED";
+  if (status === 503) return "SERVER_BUSY";
+  if (status >= 500) return "SERVER_ERROR";
+  return null;
+}
+
+/**
+ * Map a normalized API failure, `ApiError`, or thrown value to user-facing copy.
+ * Known codes win, then the HTTP status; anything else gets `fallbackMessage`
+ * so backend constants and raw exception text never reach the UI.
+ */
+export function describeError(
+  error: unknown,
+  fallbackMessage: string = GENERIC_MESSAGE,
+): ErrorPresentation {
+  const source =
+    typeof error === "object" && error !== null
+      ? (error as { code?: unknown; status?: unknown })
+      : {};
+  const code = typeof source.code === "string" ? source.code : null;
+  const status =
+    typeof source.status === "number" && Number.isFinite(source.status)
+      ? source.status
+      : null;
+
+  const knownCode = isKnownErrorCode(code)
+    ? code
+    : getStatusFallbackCode(status);
+  if (knownCode) {
+    return { ...ERROR_CATALOG[knownCode], code, status };
+  }
+  return {
+    message: fallbackMessage,
+    severity: "error",
+    action: "retry",
+    code,
+    status,
+  };
+}
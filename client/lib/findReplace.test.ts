@@ -0,0 +1,68 @@
+import { describe, expect, test } from "@jest/globals";
+
+import { describeBeatIndices, previewFindReplace } from "@/lib/findReplace";
+
+const sentences = [
+  "Acme makes the best anvils.",
+  "Everyone at ACME loves acmeville.",
+  "Nothing to see here.",
+];
+
+describe("client/lib/findReplace", () => {
+  test("matches case-insensitively by default and previews changed beats", () => {
+    const preview = previewFindReplace(sentences, "acme", "Apex", {
+      caseSensitive: false,
+      wholeWord: false,
+    });
+
+    expect(preview.matchCount).toBe(3);
+    expect(preview.changes.map((change) => change.after)).toEqual([
+      "Apex makes the best anvils.",
+      "Everyone at Apex loves Apexville.",
+    ]);
+    expect(preview.sentences[2]).toBe("Nothing to see here.");
+    expect(preview.issues).toEqual([]);
+  });
+
+  test("honours case-sensitive and whole-word options", () => {
+    expect(
+      previewFindReplace(sentences, "ACME", "Apex", {
+        caseSensitive: true,
+        wholeWord: false,
+      }).changes.map((change) => change.sentenceIndex),
+    ).toEqual([1]);
+
+    const wholeWord = previewFindReplace(sentences, "acme", "Apex", {
+      caseSensitive: false,
+      wholeWord: true,
+    });
+    expect(wholeWord.changes[1].after).toBe(
+      "Everyone at Apex loves acmeville.",
+    );
+    expect(wholeWord.matchCount).toBe(2);
+  });
+
+  test("treats the query literally and flags beats it would empty", () => {
+    const preview = previewFindReplace(
+      ["(a+b)", "keep (a+b) here"],
+      "(a+b)",
+      "",
+      {
+        caseSensitive: false,
+        wholeWord: false,
+      },
+    );
+
+    expect(preview.changes.map((change) => change.after)).toEqual([
+      "",
+      "keep here",
+    ]);
+    expect(preview.emptyBeatIndices).toEqual([0]);
+  });
+
+  test("describes beat lists for reports", () => {
+    expect(describeBeatIndices([1])).toBe("beat 2");
+    expect(describeBeatIndices([0, 4])).toBe("beats 1 and 5");
+    expect(describeBeatIndices([0, 1, 4])).toBe("beats 1, 2 and 5");
+  });
+});
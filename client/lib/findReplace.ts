@@ -0,0 +1,102 @@
+import {
+  getScriptLimitIssues,
+  type ScriptLimitIssue,
+} from "@/lib/scriptLimits";
+
+export interface FindReplaceOptions {
+  caseSensitive: boolean;
+  wholeWord: boolean;
+}
+
+export interface BeatTextChange {
+  sentenceIndex: number;
+  before: string;
+  after: string;
+}
+
+export interface FindReplacePreview {
+  /** Beats whose text changes, in script order. */
+  changes: (BeatTextChange & { matchCount: number })[];
+  matchCount: number;
+  /** Every beat after the replacement, for pre-storyboard update-script. */
+  sentences: string[];
+  /** Limit problems the replaced script would have; apply is blocked. */
+  issues: ScriptLimitIssue[];
+  emptyBeatIndices: number[];
+}
+
+// Letters (including Latin accents), digits and underscore count as word
+// characters, so "café" is one word for whole-word matching.
+const WORD_CHAR = "A-Za-z0-9_\\u00C0-\\u024F";
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/** Null for an empty query. Whole-word keeps the leading boundary in group 1. */
+export function buildFindPattern(
+  query: string,
+  { caseSensitive, wholeWord }: FindReplaceOptions,
+): RegExp | null {
+  if (!query) return null;
+  const escaped = escapeRegExp(query);
+  const source = wholeWord
+    ? `(^|[^${WORD_CHAR}])(${escaped})(?=[^${WORD_CHAR}]|$)`
+    : `()(${escaped})`;
+  return new RegExp(source, caseSensitive ? "g" : "gi");
+}
+
+export function replaceInText(
+  text: string,
+  pattern: RegExp,
+  replacement: string,
+): { text: string; matchCount: number } {
+  let matchCount = 0;
+  const replaced = text.replace(pattern, (_match, boundary: string) => {
+    matchCount += 1;
+    return `${boundary}${replacement}`;
+  });
+  return {
+    text: matchCount > 0 ? replaced.replace(/\s+/g, " ").trim() : text,
+    matchCount,
+  };
+}
+
+export function previewFindReplace(
+  sentences: readonly string[],
+  query: string,
+  replacement: string,
+  options: FindReplaceOptions,
+): FindReplacePreview {
+  const pattern = buildFindPattern(query, options);
+  const changes: FindReplacePreview["changes"] = [];
+  const next = sentences.map((before, sentenceIndex) => {
+    if (!pattern) return before;
+    const { text: after, matchCount } = replaceInText(
+      before,
+      pattern,
+      replacement,
+    );
+    if (matchCount > 0 && after !== before) {
+      changes.push({ sentenceIndex, before, after, matchCount });
+    }
+    return after;
+  });
+
+  return {
+    changes,
+    matchCount: changes.reduce((total, change) => total + change.matchCount, 0),
+    sentences: next,
+    issues: changes.length > 0 ? getScriptLimitIssues(next) : [],
+    emptyBeatIndices: changes
+      .filter((change) => change.after.length === 0)
+      .map((change) => change.sentenceIndex),
+  };
+}
+
+/** "beat 2", "beats 2 and 5", "beats 1, 2 and 5" from zero-based indices. */
+export function describeBeatIndices(indices: readonly number[]): string {
+  const numbers = indices.map((index) => String(index + 1));
+  if (numbers.length <= 1) return `beat ${numbers[0] ?? ""}`.trim();
+  return `beats ${numbers.slice(0, -1).join(", ")} and ${numbers[numbers.length - 1]}`;
+}
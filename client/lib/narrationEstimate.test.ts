@@ -0,0 +1,54 @@
+import { describe, expect, test } from "@jest/globals";
+
+import {
+  estimateBeatNarrationSec,
+  estimateScriptNarration,
+  getNarrationCalibration,
+} from "@/lib/narrationEstimate";
+import type { StorySession } from "@/types/story";
+
+describe("client/lib/narrationEstimate", () => {
+  test("estimates per-beat and total narration by pace", () => {
+    const sentences = ["one two three four five", "six", "   "];
+
+    expect(estimateScriptNarration(sentences, "normal")).toEqual({
+      beatSec: [1.92, 1, 0],
+      totalSec: 2.92,
+      renderSec: 3,
+    });
+    expect(estimateBeatNarrationSec(sentences[0], "slow")).toBeGreaterThan(
+      estimateBeatNarrationSec(sentences[0], "fast"),
+    );
+    expect(estimateBeatNarrationSec(sentences[0], "unknown")).toBe(1.92);
+  });
+
+  test("calibrates against the last current voice sync only", () => {
+    const session = {
+      id: "session-1",
+      voicePacePreset: "normal",
+      story: {
+        sentences: [
+          "one two three four five six seven eight nine ten eleven twelve thirteen",
+        ],
+      },
+      voiceSync: { state: "current", totalDurationSec: 6 },
+    } as unknown as StorySession;
+
+    expect(getNarrationCalibration(session)).toBe(1.2);
+    expect(
+      estimateBeatNarrationSec(session.story!.sentences[0], "normal", 1.2),
+    ).toBe(6);
+    expect(
+      getNarrationCalibration({
+        ...session,
+        voiceSync: { ...session.voiceSync, state: "stale" },
+      } as StorySession),
+    ).toBe(1);
+    expect(
+      getNarrationCalibration({
+        ...session,
+        voiceSync: { ...session.voiceSync, totalDurationSec: 60 },
+      } as StorySession),
+    ).toBe(2);
+  });
+});
@@ -0,0 +1,92 @@
+import type { StorySession } from "@/types/story";
+
+/**
+ * Words per second for each `voicePacePreset`. Copied from
+ * `WORDS_PER_SEC_BY_PACE` in `server/storyMock.ts`, which reports
+ * `heuristicSource: "words_per_sec"`; the production rates are not published,
+ * so keep the two tables in step and treat the result as an estimate.
+ */
+export const NARRATION_WORDS_PER_SEC: Record<string, number> = {
+  slow: 2.2,
+  normal: 2.6,
+  fast: 3.1,
+};
+
+// A synced take far off the heuristic is more likely a bad sample than a pace.
+const MIN_CALIBRATION = 0.5;
+const MAX_CALIBRATION = 2;
+
+export interface NarrationEstimate {
+  /** Projected narration per beat, in script order. */
+  beatSec: number[];
+  totalSec: number;
+  /** Render time the story would use; the backend bills whole seconds. */
+  renderSec: number;
+}
+
+function roundSec(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+export function countWords(text: string): number {
+  return text.trim().split(/\s+/).filter(Boolean).length;
+}
+
+function getWordsPerSec(pacePreset: string | null | undefined): number {
+  return (
+    NARRATION_WORDS_PER_SEC[pacePreset ?? "normal"] ??
+    NARRATION_WORDS_PER_SEC.normal
+  );
+}
+
+/** Narration length for one beat; any spoken beat takes at least a second. */
+export function estimateBeatNarrationSec(
+  text: string,
+  pacePreset: string | null | undefined,
+  calibration = 1,
+): number {
+  const words = countWords(text);
+  if (words === 0) return 0;
+  return Math.max(
+    1,
+    roundSec((words / getWordsPerSec(pacePreset)) * calibration),
+  );
+}
+
+export function estimateScriptNarration(
+  sentences: readonly string[],
+  pacePreset: string | null | undefined,
+  calibration = 1,
+): NarrationEstimate {
+  const beatSec = sentences.map((text) =>
+    estimateBeatNarrationSec(text, pacePreset, calibration),
+  );
+  const totalSec = roundSec(beatSec.reduce((sum, sec) => sum + sec, 0));
+  return { beatSec, totalSec, renderSec: Math.ceil(totalSec) };
+}
+
+/**
+ * Ratio of the last synced narration length to what the heuristic predicts
+ * for the same script and pace. 1 until the session has a current voice sync.
+ */
+export function getNarrationCalibration(
+  session: StorySession | null | undefined,
+): number {
+  const sync = session?.voiceSync;
+  const syncedSec = Number(sync?.totalDurationSec);
+  if (sync?.state !== "current" || !Number.isFinite(syncedSec)) return 1;
+  if (syncedSec <= 0) return 1;
+
+  const sentences = Array.isArray(session?.story?.sentences)
+    ? session.story.sentences
+    : [];
+  const { totalSec } = estimateScriptNarration(
+    sentences,
+    session?.voicePacePreset,
+  );
+  if (totalSec <= 0) return 1;
+  return Math.min(
+    MAX_CALIBRATION,
+    Math.max(MIN_CALIBRATION, roundSec(syncedSec / totalSec)),
+  );
+}
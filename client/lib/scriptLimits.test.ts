@@ -0,0 +1,85 @@
+import { describe, expect, test } from "@jest/globals";
+
+import {
+  MAX_BEAT_CHARS,
+  MAX_BEATS,
+  fitScriptToLimits,
+  getBeatToFix,
+  getScriptLimitIssues,
+  mergeBeatTexts,
+  splitBeatAt,
+  splitBeatToFit,
+  splitScriptIntoBeats,
+} from "@/lib/scriptLimits";
+
+describe("client/lib/scriptLimits", () => {
+  test("keeps one beat per line and splits a single paragraph into sentences", () => {
+    expect(
+      splitScriptIntoBeats("1. First beat.\n\n- Second   beat!\n• Third"),
+    ).toEqual(["First beat.", "Second beat!", "Third"]);
+    expect(
+      splitScriptIntoBeats('  He said "stop." Then he left?! And again'),
+    ).toEqual(['He said "stop."', "Then he left?!", "And again"]);
+    expect(splitScriptIntoBeats("   \n  ")).toEqual([]);
+  });
+
+  test("reports every limit the pasted beats break", () => {
+    const long = "x".repeat(MAX_BEAT_CHARS + 1);
+    const beats = [
+      long,
+      ...Array.from({ length: MAX_BEATS }, () => "a".repeat(100)),
+    ];
+
+    expect(getScriptLimitIssues(beats)).toEqual([
+      { kind: "beat_too_long", index: 0, length: MAX_BEAT_CHARS + 1 },
+      { kind: "too_many_beats", count: MAX_BEATS + 1 },
+      { kind: "script_too_long", length: MAX_BEAT_CHARS + 1 + MAX_BEATS * 100 },
+    ]);
+    expect(getScriptLimitIssues(["Short beat."])).toEqual([]);
+  });
+
+  test("points at the first over-long beat, else the last beat", () => {
+    const long = "x".repeat(MAX_BEAT_CHARS + 1);
+    const tooMany = Array.from({ length: MAX_BEATS + 1 }, () => "Beat.");
+
+    expect(getBeatToFix(["Short.", long, long])).toBe(1);
+    expect(getBeatToFix(tooMany)).toBe(MAX_BEATS);
+    expect(getBeatToFix(["Short beat."])).toBeNull();
+  });
+
+  test("splits long beats at sentence, then word, boundaries", () => {
+    const sentence = `${"word ".repeat(20).trim()}.`;
+    expect(splitBeatToFit(`${sentence} ${sentence}`)).toEqual([
+      sentence,
+      sentence,
+    ]);
+
+    const pieces = splitBeatToFit("word ".repeat(50));
+    expect(pieces).toHaveLength(2);
+    expect(pieces.every((piece) => piece.length <= MAX_BEAT_CHARS)).toBe(true);
+    expect(pieces.join(" ")).toBe("word ".repeat(50).trim());
+  });
+
+  test("fits a script by splitting, then keeping the leading beats that fit", () => {
+    const fitted = fitScriptToLimits([
+      "word ".repeat(50),
+      ...Array.from({ length: 10 }, (_, index) => `Beat ${index}.`),
+    ]);
+
+    expect(fitted).toHaveLength(MAX_BEATS);
+    expect(fitted[2]).toBe("Beat 0.");
+    expect(getScriptLimitIssues(fitted)).toEqual([]);
+  });
+
+  test("splits at the cursor and merges with a single space", () => {
+    expect(splitBeatAt("Start small.  Then grow.", 12)).toEqual([
+      "Start small.",
+      "Then grow.",
+    ]);
+    expect(splitBeatAt("Start small.", 0)).toBeNull();
+    expect(splitBeatAt("Start small.   ", 12)).toBeNull();
+    expect(mergeBeatTexts("Start small. ", " Then grow.")).toBe(
+      "Start small. Then grow.",
+    );
+  });
+});
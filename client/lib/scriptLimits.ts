@@ -0,0 +1,157 @@
+// Script limits enforced by the story backend, plus helpers to fit pasted
+// scripts inside them.
+
+export const MAX_BEAT_CHARS = 160;
+export const MAX_TOTAL_CHARS = 850;
+export const MAX_BEATS = 8;
+
+export type ScriptLimitIssue =
+  | { kind: "beat_too_long"; index: number; length: number }
+  | { kind: "too_many_beats"; count: number }
+  | { kind: "script_too_long"; length: number };
+
+const LIST_MARKER = /^(?:[-*•]|\d+[.)])\s+/;
+const SENTENCE = /[^.!?]+(?:[.!?]+["'”’)\]]*|$)/g;
+
+function normalizeSpaces(text: string): string {
+  return text.replace(/\s+/g, " ").trim();
+}
+
+function splitSentences(text: string): string[] {
+  return (text.match(SENTENCE) ?? [])
+    .map(normalizeSpaces)
+    .filter((sentence) => sentence.length > 0);
+}
+
+/**
+ * Turn pasted text into beats. Multi-line scripts keep one beat per line
+ * (list markers stripped); a single paragraph is split into sentences.
+ */
+export function splitScriptIntoBeats(text: string): string[] {
+  const lines = text
+    .split(/\r?\n/)
+    .map((line) => normalizeSpaces(line.replace(LIST_MARKER, "")))
+    .filter((line) => line.length > 0);
+  if (lines.length === 1) {
+    return splitSentences(lines[0]);
+  }
+  return lines;
+}
+
+/** Same measure ScriptScreen uses: characters across all beats, no separators. */
+export function getScriptLength(beats: string[]): number {
+  return beats.join("").length;
+}
+
+export function getScriptLimitIssues(beats: string[]): ScriptLimitIssue[] {
+  const issues: ScriptLimitIssue[] = [];
+  beats.forEach((beat, index) => {
+    if (beat.length > MAX_BEAT_CHARS) {
+      issues.push({ kind: "beat_too_long", index, length: beat.length });
+    }
+  });
+  if (beats.length > MAX_BEATS) {
+    issues.push({ kind: "too_many_beats", count: beats.length });
+  }
+  const length = getScriptLength(beats);
+  if (length > MAX_TOTAL_CHARS) {
+    issues.push({ kind: "script_too_long", length });
+  }
+  return issues;
+}
+
+/**
+ * Index of the beat to show for a limit failure: the first beat that is too
+ * long, else the last beat. Null when the script is within limits.
+ */
+export function getBeatToFix(beats: string[]): number | null {
+  const issues = getScriptLimitIssues(beats);
+  if (issues.length === 0) return null;
+  const tooLong = issues.find((issue) => issue.kind === "beat_too_long");
+  return tooLong?.kind === "beat_too_long" ? tooLong.index : beats.length - 1;
+}
+
+function packPieces(pieces: string[], separator: string): string[] {
+  const chunks: string[] = [];
+  let current = "";
+  for (const piece of pieces) {
+    const candidate = current ? `${current}${separator}${piece}` : piece;
+    if (candidate.length <= MAX_BEAT_CHARS) {
+      current = candidate;
+      continue;
+    }
+    if (current) chunks.push(current);
+    current = piece;
+  }
+  if (current) chunks.push(current);
+  return chunks;
+}
+
+function splitWords(text: string): string[] {
+  const words = text.split(" ").flatMap((word) => {
+    const parts: string[] = [];
+    for (let start = 0; start < word.length; start += MAX_BEAT_CHARS) {
+      parts.push(word.slice(start, start + MAX_BEAT_CHARS));
+    }
+    return parts;
+  });
+  return packPieces(words, " ");
+}
+
+/**
+ * Break one beat into pieces that each fit `MAX_BEAT_CHARS`, preferring
+ * sentence boundaries and falling back to word boundaries.
+ */
+export function splitBeatToFit(beat: string): string[] {
+  const text = normalizeSpaces(beat);
+  if (text.length <= MAX_BEAT_CHARS) return text ? [text] : [];
+  const sentences = splitSentences(text).flatMap((sentence) =>
+    sentence.length > MAX_BEAT_CHARS ? splitWords(sentence) : [sentence],
+  );
+  return packPieces(sentences, " ");
+}
+
+/**
+ * Apply every automatic fix: split long beats, then keep the leading beats
+ * that fit both the beat count and the total character budget.
+ */
+export function fitScriptToLimits(beats: string[]): string[] {
+  const fitted: string[] = [];
+  let length = 0;
+  for (const beat of beats.flatMap(splitBeatToFit)) {
+    if (fitted.length >= MAX_BEATS || length + beat.length > MAX_TOTAL_CHARS) {
+      break;
+    }
+    fitted.push(beat);
+    length += beat.length;
+  }
+  return fitted;
+}
+
+/**
+ * Split one beat at a cursor offset into two trimmed halves. Returns null
+ * when either half would be empty.
+ */
+export function splitBeatAt(
+  beat: string,
+  cursor: number,
+): [string, string] | null {
+  const head = normalizeSpaces(beat.slice(0, cursor));
+  const tail = normalizeSpaces(beat.slice(cursor));
+  return head && tail ? [head, tail] : null;
+}
+
+export function mergeBeatTexts(first: string, second: string): string {
+  return normalizeSpaces(`${first} ${second}`);
+}
+
+export function describeScriptLimitIssue(issue: ScriptLimitIssue): string {
+  switch (issue.kind) {
+    case "beat_too_long":
+      return `Beat ${issue.index + 1} is ${issue.length}/${MAX_BEAT_CHARS} characters.`;
+    case "too_many_beats":
+      return `${issue.count} beats; stories can include up to ${MAX_BEATS}.`;
+    case "script_too_long":
+      return `${issue.length}/${MAX_TOTAL_CHARS} characters across all beats.`;
+  }
+}
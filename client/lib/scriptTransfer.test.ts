@@ -0,0 +1,82 @@
+import { describe, expect, test } from "@jest/globals";
+
+import {
+  formatScriptExport,
+  getScriptExportBeats,
+  parseScriptImport,
+  type ScriptExportFormat,
+} from "@/lib/scriptTransfer";
+import type { StorySession } from "@/types/story";
+
+const session = {
+  id: "session-1",
+  story: {
+    sentences: ["The city wakes up. Lights flicker.", "A train pulls in"],
+  },
+  plan: [
+    {
+      sentenceIndex: 0,
+      searchQuery: "city sunrise",
+      visualDescription: "Skyline at dawn",
+    },
+  ],
+} as unknown as StorySession;
+
+describe("client/lib/scriptTransfer", () => {
+  test.each<ScriptExportFormat>(["text", "markdown", "json"])(
+    "round-trips %s exports with and without plan notes",
+    (format) => {
+      for (const includePlan of [false, true]) {
+        const exported = formatScriptExport(
+          getScriptExportBeats(session, { includePlan }),
+          format,
+        );
+        expect(parseScriptImport(exported)).toEqual({
+          ok: true,
+          format,
+          sentences: session.story!.sentences,
+        });
+      }
+    },
+  );
+
+  test("exports plan notes per beat only when asked", () => {
+    expect(getScriptExportBeats(session, { includePlan: true })).toEqual([
+      {
+        text: "The city wakes up. Lights flicker.",
+        searchQuery: "city sunrise",
+        visualDescription: "Skyline at dawn",
+      },
+      { text: "A train pulls in" },
+    ]);
+    expect(
+      formatScriptExport(
+        getScriptExportBeats(session, { includePlan: true }),
+        "markdown",
+      ),
+    ).toBe(
+      "# Script\n\n1. The city wakes up. Lights flicker.\n   - search: city sunrise\n   - visual: Skyline at dawn\n2. A train pulls in\n",
+    );
+  });
+
+  test("rejects unknown JSON, newer versions and over-limit scripts", () => {
+    expect(parseScriptImport('{"beats": []}')).toEqual({
+      ok: false,
+      message: "This JSON isn't a Vaiform script export.",
+    });
+    expect(
+      parseScriptImport(
+        JSON.stringify({ kind: "vaiform.script", version: 2, beats: [] }),
+      ),
+    ).toMatchObject({ ok: false });
+    expect(
+      parseScriptImport(
+        Array.from({ length: 9 }, (_, i) => `Beat ${i}`).join("\n"),
+      ),
+    ).toEqual({
+      ok: false,
+      message: "This script doesn't fit: 9 beats; stories can include up to 8.",
+    });
+    expect(parseScriptImport("  \n ")).toMatchObject({ ok: false });
+  });
+});
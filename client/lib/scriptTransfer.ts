@@ -0,0 +1,206 @@
+import { z } from "zod";
+
+import {
+  MAX_BEAT_CHARS,
+  describeScriptLimitIssue,
+  getScriptLimitIssues,
+  splitScriptIntoBeats,
+} from "@/lib/scriptLimits";
+import type { StorySession } from "@/types/story";
+
+// Script export/import formats. Only the beat text round-trips; plan notes
+// are exported for reference and dropped on import, since update-script
+// takes sentences alone.
+
+export type ScriptExportFormat = "text" | "markdown" | "json";
+
+export const SCRIPT_EXPORT_VERSION = 1;
+const SCRIPT_EXPORT_KIND = "vaiform.script";
+
+export interface ScriptExportBeat {
+  text: string;
+  searchQuery?: string;
+  visualDescription?: string;
+}
+
+export type ScriptImportResult =
+  | { ok: true; format: ScriptExportFormat; sentences: string[] }
+  | { ok: false; message: string };
+
+const scriptExportSchema = z.object({
+  kind: z.literal(SCRIPT_EXPORT_KIND),
+  version: z.number().int(),
+  beats: z.array(
+    z.object({
+      text: z.string(),
+      searchQuery: z.string().optional(),
+      visualDescription: z.string().optional(),
+    }),
+  ),
+});
+
+const MARKDOWN_BEAT = /^(?:\d+[.)]|[-*])\s+(.*)$/;
+const MARKDOWN_NOTE = /^\s+(?:[-*]\s+)?(?:search|visual):/i;
+const TEXT_NOTE = /^\s+(?:search|visual):/i;
+
+export const SCRIPT_EXPORT_FILE_TYPES: Record<
+  ScriptExportFormat,
+  { extension: string; mimeType: string }
+> = {
+  text: { extension: "txt", mimeType: "text/plain" },
+  markdown: { extension: "md", mimeType: "text/markdown" },
+  json: { extension: "json", mimeType: "application/json" },
+};
+
+export function getScriptExportBeats(
+  session: StorySession | null | undefined,
+  { includePlan }: { includePlan: boolean },
+): ScriptExportBeat[] {
+  const sentences = Array.isArray(session?.story?.sentences)
+    ? session.story.sentences
+    : [];
+  return sentences.map((text, index) => {
+    const plan = includePlan
+      ? session?.plan?.find((entry) => entry.sentenceIndex === index)
+      : undefined;
+    return {
+      text,
+      ...(plan?.searchQuery ? { searchQuery: plan.searchQuery } : {}),
+      ...(plan?.visualDescription
+        ? { visualDescription: plan.visualDescription }
+        : {}),
+    };
+  });
+}
+
+function getNoteLines(beat: ScriptExportBeat): string[] {
+  return [
+    ...(beat.searchQuery ? [`search: ${beat.searchQuery}`] : []),
+    ...(beat.visualDescription ? [`visual: ${beat.visualDescription}`] : []),
+  ];
+}
+
+export function formatScriptExport(
+  beats: ScriptExportBeat[],
+  format: ScriptExportFormat,
+): string {
+  switch (format) {
+    case "json":
+      return `${JSON.stringify(
+        { kind: SCRIPT_EXPORT_KIND, version: SCRIPT_EXPORT_VERSION, beats },
+        null,
+        2,
+      )}\n`;
+    case "markdown":
+      return `${[
+        "# Script",
+        "",
+        ...beats.flatMap((beat, index) => [
+          `${index + 1}. ${beat.text}`,
+          ...getNoteLines(beat).map((note) => `   - ${note}`),
+        ]),
+      ].join("\n")}\n`;
+    case "text":
+      return `${beats
+        .flatMap((beat) => [
+          beat.text,
+          ...getNoteLines(beat).map((note) => `  ${note}`),
+        ])
+        .join("\n")}\n`;
+  }
+}
+
+function parseJsonScript(raw: string): ScriptImportResult {
+  let data: unknown;
+  try {
+    data = JSON.parse(raw);
+  } catch {
+    return { ok: false, message: "This JSON file couldn't be read." };
+  }
+  const parsed = scriptExportSchema.safeParse(data);
+  if (!parsed.success) {
+    return { ok: false, message: "This JSON isn't a Vaiform script export." };
+  }
+  if (parsed.data.version > SCRIPT_EXPORT_VERSION) {
+    return {
+      ok: false,
+      message: "This script was exported by a newer version of the app.",
+    };
+  }
+  return {
+    ok: true,
+    format: "json",
+    sentences: parsed.data.beats.map((beat) => beat.text),
+  };
+}
+
+// An exported one-beat script stays one beat; a pasted paragraph that can't
+// be a single beat is split into sentences like on Home.
+function parseTextScript(lines: string[]): string[] {
+  const text = lines.filter((line) => !TEXT_NOTE.test(line)).join("\n");
+  const single = text.trim();
+  if (!single.includes("\n") && single.length <= MAX_BEAT_CHARS) {
+    return [single];
+  }
+  return splitScriptIntoBeats(text);
+}
+
+function isMarkdownScript(lines: string[]): boolean {
+  return lines.some((line) => /^#{1,6}\s/.test(line));
+}
+
+function parseMarkdownScript(lines: string[]): string[] {
+  return lines.flatMap((line) => {
+    if (/^#{1,6}\s/.test(line) || MARKDOWN_NOTE.test(line)) return [];
+    const match = line.match(MARKDOWN_BEAT);
+    return match ? [match[1]] : [];
+  });
+}
+
+/**
+ * Parse an exported (or hand-written) script back into beats. JSON must be a
+ * versioned export; Markdown keeps list items under a heading; anything else
+ * is read as pasted text. The beats must already fit the script limits.
+ */
+export function parseScriptImport(raw: string): ScriptImportResult {
+  const trimmed = raw.trim();
+  if (!trimmed) {
+    return { ok: false, message: "There's no script to import." };
+  }
+
+  let result: ScriptImportResult;
+  if (trimmed.startsWith("{")) {
+    result = parseJsonScript(trimmed);
+  } else {
+    const lines = trimmed.split(/\r?\n/);
+    result = isMarkdownScript(lines)
+      ? {
+          ok: true,
+          format: "markdown",
+          sentences: parseMarkdownScript(lines),
+        }
+      : {
+          ok: true,
+          format: "text",
+          sentences: parseTextScript(lines),
+        };
+  }
+  if (!result.ok) return result;
+
+  const sentences = result.sentences
+    .map((text) => text.replace(/\s+/g, " ").trim())
+    .filter((text) => text.length > 0);
+  if (sentences.length === 0) {
+    return { ok: false, message: "No beats were found in this script." };
+  }
+  const issues = getScriptLimitIssues(sentences);
+  if (issues.length > 0) {
+    return {
+      ok: false,
+      message: `This script doesn't fit: ${issues
+        .map(describeScriptLimitIssue)
+        .join(" ")}`,
+    };
+  }
+  return { ...result, sentences };
+}
@@ -0,0 +1,107 @@
+import { describe, expect, test } from "@jest/globals";
+
+import AsyncStorage from "@react-native-async-storage/async-storage";
+
+import {
+  advanceStoryCreatePipeline,
+  clearStoredStoryCreatePipeline,
+  getCompletedStageFromSession,
+  getRemainingCreateStages,
+  loadStoredStoryCreatePipeline,
+  rewindStalePlan,
+  storeStoryCreatePipeline,
+  type StoredStoryCreatePipeline,
+} from "@/lib/storyCreatePipelineStorage";
+import type { StorySession } from "@/types/story";
+
+const pipeline: StoredStoryCreatePipeline = {
+  uid: "user-1",
+  sessionId: "session-1",
+  input: { text: "One.\nTwo.", type: "paragraph", sentences: ["One.", "Two."] },
+  target: "storyboard",
+  completedStage: "script",
+  updatedAt: "2026-03-21T12:00:00.000Z",
+};
+
+describe("client/lib/storyCreatePipelineStorage", () => {
+  test("lists only the stages between the checkpoint and the target", () => {
+    expect(getRemainingCreateStages(pipeline)).toEqual(["plan", "search"]);
+    expect(
+      getRemainingCreateStages({ completedStage: "start", target: "script" }),
+    ).toEqual(["script"]);
+    expect(
+      getRemainingCreateStages({ completedStage: "search", target: "script" }),
+    ).toEqual([]);
+  });
+
+  test("advances forward only and reads progress off the server session", () => {
+    const now = new Date("2026-03-21T12:05:00.000Z");
+    expect(advanceStoryCreatePipeline(pipeline, "start", now)).toBe(pipeline);
+    expect(advanceStoryCreatePipeline(pipeline, "plan", now)).toEqual({
+      ...pipeline,
+      completedStage: "plan",
+      updatedAt: now.toISOString(),
+    });
+
+    expect(getCompletedStageFromSession({ id: "s" } as StorySession)).toBe(
+      "start",
+    );
+    expect(
+      getCompletedStageFromSession({
+        id: "s",
+        story: { sentences: ["One."] },
+        plan: [{ sentenceIndex: 0 }],
+      } as StorySession),
+    ).toBe("plan");
+  });
+
+  test("a recorded plan is redone before search", () => {
+    const planned = { ...pipeline, completedStage: "plan" as const };
+    expect(rewindStalePlan(planned)).toEqual(pipeline);
+    expect(getRemainingCreateStages(rewindStalePlan(planned))).toEqual([
+      "plan",
+      "search",
+    ]);
+    expect(rewindStalePlan(pipeline)).toBe(pipeline);
+  });
+
+  test("stores, reloads, and clears the checkpoint per uid", async () => {
+    await storeStoryCreatePipeline(pipeline);
+
+    await expect(loadStoredStoryCreatePipeline("user-1")).resolves.toEqual(
+      pipeline,
+    );
+    await expect(loadStoredStoryCreatePipeline("user-2")).resolves.toBeNull();
+
+    await clearStoredStoryCreatePipeline("user-1");
+    await expect(loadStoredStoryCreatePipeline("user-1")).resolves.toBeNull();
+  });
+
+  test("keeps an owed caption preset across reloads", async () => {
+    const started = { ...pipeline, captionPresetPending: true };
+    await storeStoryCreatePipeline(started);
+    await expect(loadStoredStoryCreatePipeline("user-1")).resolves.toEqual(
+      started,
+    );
+
+    await storeStoryCreatePipeline({
+      ...pipeline,
+      captionPresetPending: false,
+    });
+    await expect(loadStoredStoryCreatePipeline("user-1")).resolves.toEqual(
+      pipeline,
+    );
+  });
+
+  test("clears malformed checkpoints and returns null", async () => {
+    await AsyncStorage.setItem(
+      "@vaiform/storyCreatePipeline:user-1",
+      JSON.stringify({ ...pipeline, completedStage: "render" }),
+    );
+
+    await expect(loadStoredStoryCreatePipeline("user-1")).resolves.toBeNull();
+    await expect(
+      AsyncStorage.getItem("@vaiform/storyCreatePipeline:user-1"),
+    ).resolves.toBeNull();
+  });
+});
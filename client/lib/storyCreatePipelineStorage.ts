@@ -0,0 +1,178 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+
+import type { StoryStyleKey } from "@/api/client";
+import type { StorySession } from "@/types/story";
+
+const STORAGE_KEY_PREFIX = "@vaiform/storyCreatePipeline:";
+
+/** Create stages in run order; a pipeline resumes after its last completed stage. */
+export const STORY_CREATE_STAGES = [
+  "start",
+  "script",
+  "plan",
+  "search",
+] as const;
+
+export type StoryCreateStage = (typeof STORY_CREATE_STAGES)[number];
+
+/** Home stops once the script exists; ScriptScreen runs through clip search. */
+export type StoryCreateTarget = "script" | "storyboard";
+
+const TARGET_STAGE: Record<StoryCreateTarget, StoryCreateStage> = {
+  script: "script",
+  storyboard: "search",
+};
+
+export interface StoryCreateInput {
+  text: string;
+  type: "link" | "idea" | "paragraph";
+  styleKey?: StoryStyleKey;
+  /** Pasted beats for paragraph input; seeded with update-script instead of generate. */
+  sentences?: string[];
+}
+
+export interface StoredStoryCreatePipeline {
+  uid: string;
+  sessionId: string;
+  input: StoryCreateInput | null;
+  target: StoryCreateTarget;
+  completedStage: StoryCreateStage;
+  updatedAt: string;
+  /** Set at start until the default caption preset has been sent. */
+  captionPresetPending?: boolean;
+}
+
+function storageKey(uid: string): string {
+  return `${STORAGE_KEY_PREFIX}${uid}`;
+}
+
+function stageIndex(stage: StoryCreateStage): number {
+  return STORY_CREATE_STAGES.indexOf(stage);
+}
+
+export function getRemainingCreateStages(
+  pipeline: Pick<StoredStoryCreatePipeline, "completedStage" | "target">,
+): StoryCreateStage[] {
+  return STORY_CREATE_STAGES.slice(
+    stageIndex(pipeline.completedStage) + 1,
+    stageIndex(TARGET_STAGE[pipeline.target]) + 1,
+  );
+}
+
+/** Furthest stage the server-side session already reflects. */
+export function getCompletedStageFromSession(
+  session: StorySession | null | undefined,
+): StoryCreateStage {
+  if (Array.isArray(session?.shots) && session.shots.length > 0) {
+    return "search";
+  }
+  if (Array.isArray(session?.plan) && session.plan.length > 0) {
+    return "plan";
+  }
+  if (
+    Array.isArray(session?.story?.sentences) &&
+    session.story.sentences.length > 0
+  ) {
+    return "script";
+  }
+  return "start";
+}
+
+/** Move the checkpoint forward; never rewinds a stage already recorded. */
+export function advanceStoryCreatePipeline(
+  pipeline: StoredStoryCreatePipeline,
+  stage: StoryCreateStage,
+  now: Date = new Date(),
+): StoredStoryCreatePipeline {
+  if (stageIndex(stage) <= stageIndex(pipeline.completedStage)) {
+    return pipeline;
+  }
+  return { ...pipeline, completedStage: stage, updatedAt: now.toISOString() };
+}
+
+/**
+ * The plan is built from the script, which may have been edited since it ran,
+ * so a pipeline that still has to search re-plans first.
+ */
+export function rewindStalePlan(
+  pipeline: StoredStoryCreatePipeline,
+): StoredStoryCreatePipeline {
+  return pipeline.completedStage === "plan"
+    ? { ...pipeline, completedStage: "script" }
+    : pipeline;
+}
+
+const STYLE_KEYS: readonly StoryStyleKey[] = ["default", "hype", "cozy"];
+
+function parseInput(value: unknown): StoryCreateInput | null {
+  const input = value as Partial<StoryCreateInput> | null;
+  if (
+    typeof input?.text !== "string" ||
+    (input.type !== "link" &&
+      input.type !== "idea" &&
+      input.type !== "paragraph")
+  ) {
+    return null;
+  }
+  return {
+    text: input.text,
+    type: input.type,
+    ...(input.styleKey && STYLE_KEYS.includes(input.styleKey)
+      ? { styleKey: input.styleKey }
+      : {}),
+    ...(Array.isArray(input.sentences) &&
+    input.sentences.every((sentence) => typeof sentence === "string")
+      ? { sentences: input.sentences }
+      : {}),
+  };
+}
+
+export async function loadStoredStoryCreatePipeline(
+  uid: string,
+): Promise<StoredStoryCreatePipeline | null> {
+  const raw = await AsyncStorage.getItem(storageKey(uid));
+  if (!raw) return null;
+
+  try {
+    const parsed = JSON.parse(raw) as Partial<StoredStoryCreatePipeline>;
+    if (
+      parsed?.uid !== uid ||
+      typeof parsed?.sessionId !== "string" ||
+      typeof parsed?.updatedAt !== "string" ||
+      (parsed.target !== "script" && parsed.target !== "storyboard") ||
+      !STORY_CREATE_STAGES.includes(parsed.completedStage as StoryCreateStage)
+    ) {
+      await AsyncStorage.removeItem(storageKey(uid));
+      return null;
+    }
+    return {
+      uid: parsed.uid,
+      sessionId: parsed.sessionId,
+      input: parseInput(parsed.input),
+      target: parsed.target,
+      completedStage: parsed.completedStage as StoryCreateStage,
+      updatedAt: parsed.updatedAt,
+      ...(parsed.captionPresetPending === true
+        ? { captionPresetPending: true }
+        : {}),
+    };
+  } catch {
+    await AsyncStorage.removeItem(storageKey(uid));
+    return null;
+  }
+}
+
+export async function storeStoryCreatePipeline(
+  pipeline: StoredStoryCreatePipeline,
+): Promise<void> {
+  await AsyncStorage.setItem(
+    storageKey(pipeline.uid),
+    JSON.stringify(pipeline),
+  );
+}
+
+export async function clearStoredStoryCreatePipeline(
+  uid: string,
+): Promise<void> {
+  await AsyncStorage.removeItem(storageKey(uid));
+}
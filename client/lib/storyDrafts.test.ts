@@ -0,0 +1,165 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import { describe, expect, test } from "@jest/globals";
+
+import {
+  EMPTY_STORY_DRAFTS,
+  loadStoryDrafts,
+  pruneExpiredStoryDrafts,
+  removeStoryDraft,
+  renameStoryDraft,
+  storeStoryDrafts,
+  upsertStoryDraft,
+} from "@/lib/storyDrafts";
+import type { StorySession } from "@/types/story";
+
+const T0 = new Date("2026-01-01T10:00:00.000Z");
+const T1 = new Date("2026-01-01T11:00:00.000Z");
+
+function session(id: string, sentences: string[], expiresAt?: string) {
+  return {
+    id,
+    story: { sentences },
+    expiresAt,
+  } as unknown as StorySession;
+}
+
+describe("client/lib/storyDrafts", () => {
+  test("titles drafts from the first beat and keeps the furthest step", () => {
+    let registry = upsertStoryDraft(
+      EMPTY_STORY_DRAFTS,
+      {
+        id: "s1",
+        step: "storyboard",
+        session: session(
+          "s1",
+          ["", "Tiny habits compound faster than motivation ever could."],
+          "2026-01-03T10:00:00.000Z",
+        ),
+      },
+      T0,
+    );
+    registry = upsertStoryDraft(
+      registry,
+      { id: "s2", step: "script", session: session("s2", ["Second"]) },
+      T0,
+    );
+    registry = upsertStoryDraft(registry, { id: "s1", step: "script" }, T1);
+
+    expect(registry.openDraftId).toBe("s1");
+    expect(registry.drafts.map((draft) => draft.id)).toEqual(["s1", "s2"]);
+    expect(registry.drafts[0]).toEqual({
+      id: "s1",
+      title: "Tiny habits compound faster than motivation ever could.",
+      titleEdited: false,
+      lastStep: "storyboard",
+      updatedAt: T1.toISOString(),
+      expiresAt: "2026-01-03T10:00:00.000Z",
+    });
+  });
+
+  test("keeps a renamed title through later session updates", () => {
+    let registry = upsertStoryDraft(
+      EMPTY_STORY_DRAFTS,
+      { id: "s1", step: "script", session: session("s1", ["Original"]) },
+      T0,
+    );
+    registry = renameStoryDraft(registry, "s1", "  My pitch  ");
+    registry = upsertStoryDraft(
+      registry,
+      { id: "s1", step: "script", session: session("s1", ["Edited beat"]) },
+      T1,
+    );
+    expect(registry.drafts[0]).toMatchObject({
+      title: "My pitch",
+      titleEdited: true,
+    });
+
+    registry = renameStoryDraft(registry, "s1", "   ");
+    registry = upsertStoryDraft(
+      registry,
+      { id: "s1", step: "script", session: session("s1", ["Edited beat"]) },
+      T1,
+    );
+    expect(registry.drafts[0]).toMatchObject({
+      title: "Edited beat",
+      titleEdited: false,
+    });
+  });
+
+  test("removing or expiring the open draft closes it", () => {
+    let registry = upsertStoryDraft(
+      EMPTY_STORY_DRAFTS,
+      {
+        id: "old",
+        step: "script",
+        session: session("old", ["Old"], "2026-01-01T10:30:00.000Z"),
+      },
+      T0,
+    );
+    registry = upsertStoryDraft(
+      registry,
+      { id: "new", step: "script", session: session("new", ["New"]) },
+      T0,
+    );
+
+    expect(removeStoryDraft(registry, "new")).toMatchObject({
+      openDraftId: null,
+      drafts: [expect.objectContaining({ id: "old" })],
+    });
+
+    const pruned = pruneExpiredStoryDrafts(
+      { ...registry, openDraftId: "old" },
+      T1,
+    );
+    expect(pruned.openDraftId).toBeNull();
+    expect(pruned.drafts.map((draft) => draft.id)).toEqual(["new"]);
+    expect(pruneExpiredStoryDrafts(pruned, T1)).toBe(pruned);
+  });
+
+  test("loads stored registries per UID and drops malformed entries", async () => {
+    const registry = upsertStoryDraft(
+      EMPTY_STORY_DRAFTS,
+      { id: "s1", step: "script", session: session("s1", ["Beat"]) },
+      T0,
+    );
+    await storeStoryDrafts("user-a", {
+      ...registry,
+      drafts: [...registry.drafts, { id: 7 } as never],
+    });
+
+    await expect(loadStoryDrafts("user-a")).resolves.toEqual(registry);
+    await expect(loadStoryDrafts("user-b")).resolves.toEqual(
+      EMPTY_STORY_DRAFTS,
+    );
+
+    await AsyncStorage.setItem("@vaiform/storyDrafts:user-c", "{not json");
+    await expect(loadStoryDrafts("user-c")).resolves.toEqual(
+      EMPTY_STORY_DRAFTS,
+    );
+    expect(await AsyncStorage.getItem("@vaiform/storyDrafts:user-c")).toBe(
+      null,
+    );
+  });
+
+  test("migrates the legacy single active session into a draft", async () => {
+    await AsyncStorage.setItem(
+      "@vaiform/activeStorySessionId:user-a",
+      "legacy-session",
+    );
+
+    const registry = await loadStoryDrafts("user-a");
+
+    expect(registry.openDraftId).toBe("legacy-session");
+    expect(registry.drafts).toEqual([
+      expect.objectContaining({
+        id: "legacy-session",
+        title: "Untitled draft",
+        lastStep: "script",
+      }),
+    ]);
+    expect(
+      await AsyncStorage.getItem("@vaiform/activeStorySessionId:user-a"),
+    ).toBe(null);
+    await expect(loadStoryDrafts("user-a")).resolves.toEqual(registry);
+  });
+});
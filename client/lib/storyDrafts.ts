@@ -0,0 +1,240 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+
+import type { StorySession } from "@/types/story";
+
+const STORAGE_KEY_PREFIX = "@vaiform/storyDrafts:";
+// Pre-registry builds kept a single open session id per UID under this key.
+const LEGACY_ACTIVE_SESSION_KEY_PREFIX = "@vaiform/activeStorySessionId:";
+
+export const STORY_DRAFTS_VERSION = 1;
+export const MAX_DRAFT_TITLE_CHARS = 60;
+const UNTITLED_DRAFT = "Untitled draft";
+
+export type StoryDraftStep = "script" | "storyboard";
+
+const STEP_ORDER: Record<StoryDraftStep, number> = {
+  script: 0,
+  storyboard: 1,
+};
+
+export interface StoryDraft {
+  id: string;
+  title: string;
+  /** True once the user renamed the draft; session updates stop retitling it. */
+  titleEdited: boolean;
+  lastStep: StoryDraftStep;
+  updatedAt: string;
+  expiresAt: string | null;
+}
+
+export interface StoryDraftsRegistry {
+  version: typeof STORY_DRAFTS_VERSION;
+  openDraftId: string | null;
+  drafts: StoryDraft[];
+}
+
+export const EMPTY_STORY_DRAFTS: StoryDraftsRegistry = {
+  version: STORY_DRAFTS_VERSION,
+  openDraftId: null,
+  drafts: [],
+};
+
+function storageKey(uid: string): string {
+  return `${STORAGE_KEY_PREFIX}${uid}`;
+}
+
+function truncateTitle(text: string): string {
+  const singleLine = text.replace(/\s+/g, " ").trim();
+  if (singleLine.length <= MAX_DRAFT_TITLE_CHARS) return singleLine;
+  return `${singleLine.slice(0, MAX_DRAFT_TITLE_CHARS - 1).trimEnd()}…`;
+}
+
+/** Title from the first beat, falling back to the original link/idea input. */
+export function getDraftTitleFromSession(
+  session: StorySession | null | undefined,
+): string {
+  const firstBeat = session?.story?.sentences?.find(
+    (sentence) => typeof sentence === "string" && sentence.trim().length > 0,
+  );
+  if (firstBeat) return truncateTitle(firstBeat);
+  const input = session?.input?.text?.trim();
+  if (input) return truncateTitle(input);
+  return UNTITLED_DRAFT;
+}
+
+export function isStoryDraftExpired(draft: StoryDraft, now: Date): boolean {
+  if (!draft.expiresAt) return false;
+  const expiresAtMs = Date.parse(draft.expiresAt);
+  return Number.isFinite(expiresAtMs) && expiresAtMs <= now.getTime();
+}
+
+function sortDrafts(drafts: StoryDraft[]): StoryDraft[] {
+  return drafts
+    .slice()
+    .sort((left, right) => right.updatedAt.localeCompare(left.updatedAt));
+}
+
+/**
+ * Record that a draft was opened at `step`. Creates the entry when needed,
+ * keeps the furthest step reached, and makes it the open draft.
+ */
+export function upsertStoryDraft(
+  registry: StoryDraftsRegistry,
+  entry: {
+    id: string;
+    step: StoryDraftStep;
+    session?: StorySession | null;
+  },
+  now: Date = new Date(),
+): StoryDraftsRegistry {
+  const existing = registry.drafts.find((draft) => draft.id === entry.id);
+  const session = entry.session?.id === entry.id ? entry.session : null;
+  const lastStep =
+    existing && STEP_ORDER[existing.lastStep] > STEP_ORDER[entry.step]
+      ? existing.lastStep
+      : entry.step;
+  const title =
+    existing && (existing.titleEdited || !session)
+      ? existing.title
+      : getDraftTitleFromSession(session);
+
+  const next: StoryDraft = {
+    id: entry.id,
+    title,
+    titleEdited: existing?.titleEdited ?? false,
+    lastStep,
+    updatedAt: now.toISOString(),
+    expiresAt: session?.expiresAt ?? existing?.expiresAt ?? null,
+  };
+
+  return {
+    ...registry,
+    openDraftId: entry.id,
+    drafts: sortDrafts([
+      next,
+      ...registry.drafts.filter((draft) => draft.id !== entry.id),
+    ]),
+  };
+}
+
+export function renameStoryDraft(
+  registry: StoryDraftsRegistry,
+  id: string,
+  title: string,
+): StoryDraftsRegistry {
+  const trimmed = truncateTitle(title);
+  return {
+    ...registry,
+    drafts: registry.drafts.map((draft) =>
+      draft.id === id
+        ? trimmed
+          ? { ...draft, title: trimmed, titleEdited: true }
+          : { ...draft, titleEdited: false }
+        : draft,
+    ),
+  };
+}
+
+export function removeStoryDraft(
+  registry: StoryDraftsRegistry,
+  id: string,
+): StoryDraftsRegistry {
+  return {
+    ...registry,
+    openDraftId: registry.openDraftId === id ? null : registry.openDraftId,
+    drafts: registry.drafts.filter((draft) => draft.id !== id),
+  };
+}
+
+export function pruneExpiredStoryDrafts(
+  registry: StoryDraftsRegistry,
+  now: Date = new Date(),
+): StoryDraftsRegistry {
+  const drafts = registry.drafts.filter(
+    (draft) => !isStoryDraftExpired(draft, now),
+  );
+  if (drafts.length === registry.drafts.length) return registry;
+  const openDraftId = drafts.some((draft) => draft.id === registry.openDraftId)
+    ? registry.openDraftId
+    : null;
+  return { ...registry, openDraftId, drafts };
+}
+
+function parseStoredDraft(value: unknown): StoryDraft | null {
+  const draft = value as Partial<StoryDraft> | null;
+  if (
+    typeof draft?.id !== "string" ||
+    typeof draft?.title !== "string" ||
+    typeof draft?.updatedAt !== "string" ||
+    (draft.lastStep !== "script" && draft.lastStep !== "storyboard")
+  ) {
+    return null;
+  }
+  return {
+    id: draft.id,
+    title: draft.title,
+    titleEdited: draft.titleEdited === true,
+    lastStep: draft.lastStep,
+    updatedAt: draft.updatedAt,
+    expiresAt: typeof draft.expiresAt === "string" ? draft.expiresAt : null,
+  };
+}
+
+async function migrateLegacyActiveSession(
+  uid: string,
+): Promise<StoryDraftsRegistry | null> {
+  const legacyKey = `${LEGACY_ACTIVE_SESSION_KEY_PREFIX}${uid}`;
+  const legacyId = await AsyncStorage.getItem(legacyKey);
+  if (!legacyId) return null;
+
+  const registry = upsertStoryDraft(EMPTY_STORY_DRAFTS, {
+    id: legacyId,
+    step: "script",
+  });
+  await storeStoryDrafts(uid, registry);
+  await AsyncStorage.removeItem(legacyKey);
+  return registry;
+}
+
+export async function loadStoryDrafts(
+  uid: string,
+): Promise<StoryDraftsRegistry> {
+  const raw = await AsyncStorage.getItem(storageKey(uid));
+  if (!raw) {
+    return (await migrateLegacyActiveSession(uid)) ?? EMPTY_STORY_DRAFTS;
+  }
+
+  try {
+    const parsed = JSON.parse(raw) as Partial<StoryDraftsRegistry>;
+    if (
+      parsed?.version !== STORY_DRAFTS_VERSION ||
+      !Array.isArray(parsed.drafts)
+    ) {
+      await AsyncStorage.removeItem(storageKey(uid));
+      return EMPTY_STORY_DRAFTS;
+    }
+    const drafts = parsed.drafts
+      .map(parseStoredDraft)
+      .filter((draft): draft is StoryDraft => draft !== null);
+    const openDraftId =
+      typeof parsed.openDraftId === "string" &&
+      drafts.some((draft) => draft.id === parsed.openDraftId)
+        ? parsed.openDraftId
+        : null;
+    return {
+      version: STORY_DRAFTS_VERSION,
+      openDraftId,
+      drafts: sortDrafts(drafts),
+    };
+  } catch {
+    await AsyncStorage.removeItem(storageKey(uid));
+    return EMPTY_STORY_DRAFTS;
+  }
+}
+
+export async function storeStoryDrafts(
+  uid: string,
+  registry: StoryDraftsRegistry,
+): Promise<void> {
+  await AsyncStorage.setItem(storageKey(uid), JSON.stringify(registry));
+}
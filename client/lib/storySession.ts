@@ -2,6 +2,7 @@
 // Shared helpers for working with StorySession responses.
 // SSOT: keep response unwrapping and beat extraction in one place.
 
+import { getBeatToFix } from "@/lib/scriptLimits";
 import type { StorySession, StoryShot } from "@/types/story";
 
 export interface StoryBeat {
@@ -62,3 +63,19 @@ export function getSelectedShot(
     ? session.shots.find((shot) => shot?.sentenceIndex === sentenceIndex) || null
     : null;
 }
+
+/**
+ * Sentence index of the beat a `fix_beat` failure most likely points at: the
+ * first beat without a clip, else the beat that breaks the script limits.
+ */
+export function findBeatNeedingFix(
+  session: StorySession | null | undefined,
+): number | null {
+  const beats = extractBeats(session);
+  const missingClip = beats.find(
+    (beat) => !getSelectedShot(session, beat.sentenceIndex)?.selectedClip,
+  );
+  if (missingClip) return missingClip.sentenceIndex;
+  const index = getBeatToFix(beats.map((beat) => beat.text));
+  return index === null ? null : beats[index].sentenceIndex;
+}
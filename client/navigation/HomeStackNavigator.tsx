@@ -4,21 +4,30 @@ import HomeScreen from "@/screens/HomeScreen";
 import StoryEditorScreen from "@/screens/StoryEditorScreen";
 import ClipSearchModal from "@/screens/ClipSearchModal";
 import ScriptScreen from "@/screens/ScriptScreen";
+import DraftsScreen from "@/screens/DraftsScreen";
 import { FlowTabsHeader } from "@/components/FlowTabsHeader";
 import { useScreenOptions } from "@/hooks/useScreenOptions";
 import { useTheme } from "@/hooks/useTheme";
-import { useActiveStorySession } from "@/contexts/ActiveStorySessionContext";
+import { useStoryDrafts } from "@/contexts/StoryDraftsContext";
 import { useToast } from "@/contexts/ToastContext";
+import type { StoryClip } from "@/types/story";
 
 export type HomeStackParamList = {
-  Home: undefined;
+  /** `url`/`text` arrive from `vaiform://create` links and prefill the input. */
+  Home: { url?: string; text?: string } | undefined;
   StoryEditor: { sessionId: string };
   ClipSearch: {
     sessionId: string;
     sentenceIndex: number;
     initialQuery?: string;
+    /** Clip being replaced; recorded so the swap can be undone. */
+    currentClipId?: string;
+    currentClip?: StoryClip;
+    /** In-point of `currentClip`, restored when the swap is undone. */
+    currentClipStartSec?: number;
   };
   Script: { sessionId: string };
+  Drafts: undefined;
 };
 
 const Stack = createNativeStackNavigator<HomeStackParamList>();
@@ -29,29 +38,29 @@ interface HomeFlowHeaderProps {
 
 function HomeFlowHeader({ navigation }: HomeFlowHeaderProps) {
   const { showError } = useToast();
-  const { activeSessionId, isHydrated } = useActiveStorySession();
+  const { openDraftId, isHydrated } = useStoryDrafts();
 
   return (
     <FlowTabsHeader
       currentStep="create"
       onCreatePress={undefined}
       onScriptPress={() => {
-        if (!isHydrated || !activeSessionId) {
-          if (isHydrated) showError("Create a script first");
+        if (!isHydrated || !openDraftId) {
+          if (isHydrated) showError("Create a script or open a draft first");
           return;
         }
-        navigation.navigate("Script", { sessionId: activeSessionId });
+        navigation.navigate("Script", { sessionId: openDraftId });
       }}
       onStoryboardPress={() => {
-        if (!isHydrated || !activeSessionId) {
-          if (isHydrated) showError("Create a script first");
+        if (!isHydrated || !openDraftId) {
+          if (isHydrated) showError("Create a script or open a draft first");
           return;
         }
-        navigation.navigate("StoryEditor", { sessionId: activeSessionId });
+        navigation.navigate("StoryEditor", { sessionId: openDraftId });
       }}
       disabledSteps={{
-        script: !isHydrated || !activeSessionId,
-        storyboard: !isHydrated || !activeSessionId,
+        script: !isHydrated || !openDraftId,
+        storyboard: !isHydrated || !openDraftId,
       }}
       renderDisabled={true}
     />
@@ -110,6 +119,13 @@ export default function HomeStackNavigator() {
           headerTitle: "Replace Clip",
         }}
       />
+      <Stack.Screen
+        name="Drafts"
+        component={DraftsScreen}
+        options={{
+          headerTitle: "Drafts",
+        }}
+      />
       <Stack.Screen
         name="Script"
         component={ScriptScreen}
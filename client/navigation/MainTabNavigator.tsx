@@ -1,11 +1,16 @@
 import React from "react";
 import { createBottomTabNavigator } from "@react-navigation/bottom-tabs";
+import type { NavigatorScreenParams } from "@react-navigation/native";
 import { Feather } from "@expo/vector-icons";
 import { BlurView } from "expo-blur";
 import { Platform, StyleSheet } from "react-native";
 
-import HomeStackNavigator from "@/navigation/HomeStackNavigator";
-import LibraryStackNavigator from "@/navigation/LibraryStackNavigator";
+import HomeStackNavigator, {
+  type HomeStackParamList,
+} from "@/navigation/HomeStackNavigator";
+import LibraryStackNavigator, {
+  type LibraryStackParamList,
+} from "@/navigation/LibraryStackNavigator";
 import SettingsStackNavigator from "@/navigation/SettingsStackNavigator";
 import { useTheme } from "@/hooks/useTheme";
 
@@ -14,8 +19,8 @@ const COLORS = {
 };
 
 export type MainTabParamList = {
-  HomeTab: undefined;
-  LibraryTab: undefined;
+  HomeTab: NavigatorScreenParams<HomeStackParamList> | undefined;
+  LibraryTab: NavigatorScreenParams<LibraryStackParamList> | undefined;
   SettingsTab: undefined;
 };
 
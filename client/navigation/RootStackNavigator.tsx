@@ -1,16 +1,20 @@
-import React from "react";
+import React, { useEffect } from "react";
 import { ActivityIndicator, View, StyleSheet } from "react-native";
 import { createNativeStackNavigator } from "@react-navigation/native-stack";
+import type { NavigatorScreenParams } from "@react-navigation/native";
 
-import MainTabNavigator from "@/navigation/MainTabNavigator";
+import MainTabNavigator, {
+  type MainTabParamList,
+} from "@/navigation/MainTabNavigator";
 import LoginScreen from "@/screens/LoginScreen";
 import ModalScreen from "@/screens/ModalScreen";
 import { useScreenOptions } from "@/hooks/useScreenOptions";
 import { useAuth } from "@/contexts/AuthContext";
+import { useToast } from "@/contexts/ToastContext";
 import { useTheme } from "@/hooks/useTheme";
 
 export type RootStackParamList = {
-  Main: undefined;
+  Main: NavigatorScreenParams<MainTabParamList> | undefined;
   Login: undefined;
   Modal: undefined;
 };
@@ -19,9 +23,16 @@ const Stack = createNativeStackNavigator<RootStackParamList>();
 
 export default function RootStackNavigator() {
   const screenOptions = useScreenOptions();
-  const { user, isLoading } = useAuth();
+  const { user, isLoading, authNotice, clearAuthNotice } = useAuth();
+  const { showError } = useToast();
   const { theme } = useTheme();
 
+  useEffect(() => {
+    if (!authNotice) return;
+    showError(authNotice);
+    clearAuthNotice();
+  }, [authNotice, clearAuthNotice, showError]);
+
   if (isLoading) {
     return (
       <View
@@ -0,0 +1,131 @@
+import { describe, expect, jest, test } from "@jest/globals";
+import { getStateFromPath } from "@react-navigation/native";
+
+import {
+  LINKING_CONFIG,
+  createDeepLinkGate,
+  getShareIntentCreateUrl,
+  getSharedCreateInput,
+} from "@/navigation/linking";
+
+jest.mock("expo-linking", () => ({
+  createURL: (
+    path: string,
+    { queryParams = {} }: { queryParams?: Record<string, string> } = {},
+  ) => {
+    const query = Object.entries(queryParams)
+      .map(([key, value]) => `${key}=${encodeURIComponent(value)}`)
+      .join("&");
+    return `vaiform://${path}${query ? `?${query}` : ""}`;
+  },
+}));
+
+function leafRoute(path: string) {
+  let state = getStateFromPath(path, LINKING_CONFIG) as any;
+  let route = null;
+  const stack: string[] = [];
+  while (state) {
+    route = state.routes[state.index ?? state.routes.length - 1];
+    stack.push(state.routes.map((entry: any) => entry.name).join(">"));
+    state = route.state;
+  }
+  return { name: route?.name, params: route?.params, stack };
+}
+
+describe("client/navigation/linking", () => {
+  test("maps draft, short and create paths into the nested stacks", () => {
+    expect(leafRoute("story/session-1")).toEqual({
+      name: "StoryEditor",
+      params: { sessionId: "session-1" },
+      stack: ["Main", "HomeTab", "Home>StoryEditor"],
+    });
+    expect(leafRoute("script/session-1")).toMatchObject({
+      name: "Script",
+      params: { sessionId: "session-1" },
+    });
+    expect(leafRoute("shorts/short-9")).toEqual({
+      name: "ShortDetail",
+      params: { shortId: "short-9" },
+      stack: ["Main", "LibraryTab", "Library>ShortDetail"],
+    });
+    expect(
+      leafRoute("create?url=https%3A%2F%2Fexample.com%2Fpost"),
+    ).toMatchObject({
+      name: "Home",
+      params: { url: "https://example.com/post" },
+    });
+  });
+
+  test("holds links until the app is ready, then replays the latest one", () => {
+    const gate = createDeepLinkGate();
+    const listener = jest.fn();
+    gate.subscribe(listener);
+
+    expect(gate.accept("vaiform://story/a")).toBeNull();
+    expect(gate.accept("vaiform://story/b")).toBeNull();
+    expect(listener).not.toHaveBeenCalled();
+
+    gate.setReady(true);
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(listener).toHaveBeenCalledWith("vaiform://story/b");
+    expect(gate.getPendingUrl()).toBeNull();
+
+    expect(gate.accept("vaiform://drafts")).toBe("vaiform://drafts");
+    gate.setReady(false);
+    expect(gate.accept(null)).toBeNull();
+  });
+
+  test("holds shared content until sign-in and skips the share extension wake-up url", () => {
+    const gate = createDeepLinkGate();
+    const listener = jest.fn();
+    gate.subscribe(listener);
+
+    expect(gate.accept("vaiform://dataUrl=vaiformShareKey#text")).toBeNull();
+    expect(gate.getPendingUrl()).toBeNull();
+
+    gate.open("vaiform://create?url=https%3A%2F%2Fexample.com%2Fa");
+    expect(listener).not.toHaveBeenCalled();
+
+    gate.setReady(true);
+    expect(listener).toHaveBeenCalledWith(
+      "vaiform://create?url=https%3A%2F%2Fexample.com%2Fa",
+    );
+    gate.open("vaiform://create?text=Tiny%20habits");
+    expect(listener).toHaveBeenLastCalledWith(
+      "vaiform://create?text=Tiny%20habits",
+    );
+  });
+
+  test("turns share-sheet content into a create link that opens Home", () => {
+    const url = getShareIntentCreateUrl({
+      text: "Great read https://example.com/habits",
+      webUrl: "https://example.com/habits",
+    });
+    const path = url?.slice(url.indexOf("create"));
+
+    expect(leafRoute(path ?? "")).toMatchObject({
+      name: "Home",
+      params: {
+        url: "https://example.com/habits",
+        text: "Great read https://example.com/habits",
+      },
+    });
+    expect(getShareIntentCreateUrl({ text: null, webUrl: null })).toBeNull();
+  });
+
+  test("pulls a URL out of shared text and falls back to an idea", () => {
+    expect(
+      getSharedCreateInput({
+        text: "Why habits stick (great read): https://example.com/habits.",
+      }),
+    ).toEqual({ type: "link", text: "https://example.com/habits" });
+    expect(
+      getSharedCreateInput({ url: "https://example.com/a", text: "ignored" }),
+    ).toEqual({ type: "link", text: "https://example.com/a" });
+    expect(getSharedCreateInput({ text: "  Tiny habits  " })).toEqual({
+      type: "idea",
+      text: "Tiny habits",
+    });
+    expect(getSharedCreateInput({})).toBeNull();
+  });
+});
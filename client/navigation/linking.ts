@@ -0,0 +1,167 @@
+import * as Linking from "expo-linking";
+import type { LinkingOptions, PathConfig } from "@react-navigation/native";
+
+import type { HomeStackParamList } from "@/navigation/HomeStackNavigator";
+import type { LibraryStackParamList } from "@/navigation/LibraryStackNavigator";
+import type { RootStackParamList } from "@/navigation/RootStackNavigator";
+
+/**
+ * URL map for the signed-in app:
+ *   vaiform://create?url=<article>   Home, prefilled in link mode
+ *   vaiform://script/<sessionId>     Script step of a draft
+ *   vaiform://story/<sessionId>      Storyboard of a draft
+ *   vaiform://drafts                 Drafts list
+ *   vaiform://shorts/<shortId>       Short detail in the Library tab
+ *
+ * The app is also a share-sheet target for text and web URLs: the
+ * `expo-share-intent` config plugin adds the Android `SEND` intent filter and
+ * the iOS share extension. Shared content is turned into a `create` link by
+ * `getShareIntentCreateUrl` and goes through the same gate as other links.
+ */
+const HOME_STACK_PATHS: PathConfig<HomeStackParamList> = {
+  initialRouteName: "Home",
+  screens: {
+    Home: "create",
+    Script: "script/:sessionId",
+    StoryEditor: "story/:sessionId",
+    Drafts: "drafts",
+  },
+};
+
+const LIBRARY_STACK_PATHS: PathConfig<LibraryStackParamList> = {
+  initialRouteName: "Library",
+  screens: {
+    Library: "library",
+    ShortDetail: "shorts/:shortId",
+  },
+};
+
+export const LINKING_CONFIG: NonNullable<
+  LinkingOptions<RootStackParamList>["config"]
+> = {
+  screens: {
+    Main: {
+      screens: {
+        HomeTab: HOME_STACK_PATHS,
+        LibraryTab: LIBRARY_STACK_PATHS,
+      },
+    },
+  },
+};
+
+type LinkListener = (url: string) => void;
+
+/** The iOS share extension opens `vaiform://dataUrl=<key>` to wake the app. */
+const SHARE_EXTENSION_URL_MARKER = "://dataUrl=";
+
+/**
+ * Holds links that arrive while the user is signed out (or auth is still
+ * bootstrapping) and hands the latest one to navigation once the app is ready.
+ */
+export interface DeepLinkGate {
+  /** Returns the url when it can be handled now; otherwise keeps it for later. */
+  accept: (url: string | null) => string | null;
+  /** Hands a url to navigation now, or keeps it until the app is ready. */
+  open: (url: string) => void;
+  setReady: (ready: boolean) => void;
+  subscribe: (listener: LinkListener) => () => void;
+  getPendingUrl: () => string | null;
+}
+
+export function createDeepLinkGate(): DeepLinkGate {
+  let ready = false;
+  let pendingUrl: string | null = null;
+  const listeners = new Set<LinkListener>();
+
+  return {
+    accept(url) {
+      // The share extension's hand-off url is read by expo-share-intent.
+      if (!url || url.includes(SHARE_EXTENSION_URL_MARKER)) return null;
+      if (ready) return url;
+      pendingUrl = url;
+      return null;
+    },
+    open(url) {
+      if (ready) {
+        listeners.forEach((listener) => listener(url));
+      } else {
+        pendingUrl = url;
+      }
+    },
+    setReady(nextReady) {
+      ready = nextReady;
+      if (!ready || !pendingUrl) return;
+      const url = pendingUrl;
+      pendingUrl = null;
+      listeners.forEach((listener) => listener(url));
+    },
+    subscribe(listener) {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+    getPendingUrl: () => pendingUrl,
+  };
+}
+
+export function createAppLinking(
+  gate: DeepLinkGate,
+): LinkingOptions<RootStackParamList> {
+  return {
+    prefixes: [Linking.createURL("/")],
+    config: LINKING_CONFIG,
+    async getInitialURL() {
+      return gate.accept(await Linking.getInitialURL());
+    },
+    subscribe(listener) {
+      const subscription = Linking.addEventListener("url", ({ url }) => {
+        const accepted = gate.accept(url);
+        if (accepted) listener(accepted);
+      });
+      const unsubscribeGate = gate.subscribe(listener);
+      return () => {
+        subscription.remove();
+        unsubscribeGate();
+      };
+    },
+  };
+}
+
+const URL_PATTERN = /https?:\/\/[^\s<>"']+/i;
+
+export type SharedCreateInput = { type: "link" | "idea"; text: string };
+
+/**
+ * Turn `create` link params into Home input. `text` may be a browser's share
+ * text, usually "<title> <url>"; a URL anywhere wins and opens link mode.
+ */
+export function getSharedCreateInput(params: {
+  url?: string;
+  text?: string;
+}): SharedCreateInput | null {
+  for (const candidate of [params.url, params.text]) {
+    const match = candidate?.match(URL_PATTERN);
+    if (match) {
+      return { type: "link", text: match[0].replace(/[).,;!?]+$/, "") };
+    }
+  }
+  const text = params.text?.trim();
+  return text ? { type: "idea", text } : null;
+}
+
+/**
+ * Turn share-sheet content into a `create` link, or null when there is no
+ * text or URL to prefill Home with.
+ */
+export function getShareIntentCreateUrl(shareIntent: {
+  text?: string | null;
+  webUrl?: string | null;
+}): string | null {
+  const url = shareIntent.webUrl ?? undefined;
+  const text = shareIntent.text ?? undefined;
+  if (!getSharedCreateInput({ url, text })) return null;
+  return Linking.createURL("create", {
+    queryParams: { ...(url ? { url } : {}), ...(text ? { text } : {}) },
+  });
+}
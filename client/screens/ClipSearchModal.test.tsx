@@ -0,0 +1,276 @@
+import React from "react";
+import { describe, expect, test, beforeEach, jest } from "@jest/globals";
+import {
+  act,
+  fireEvent,
+  render,
+  screen,
+  waitFor,
+} from "@testing-library/react-native";
+
+const mockNavigation = { goBack: jest.fn() };
+const mockShowError = jest.fn();
+const mockRecordEdit = jest.fn();
+const mockStorySearchShot = jest.fn<(...args: unknown[]) => Promise<unknown>>();
+const mockStoryUpdateShot = jest.fn<(...args: unknown[]) => Promise<unknown>>();
+const mockToggleFavorite = jest.fn();
+const mockCollections: {
+  id: string;
+  name: string;
+  clips: Record<string, unknown>[];
+}[] = [];
+
+jest.mock("@react-navigation/native", () => ({
+  useRoute: () => ({
+    params: {
+      sessionId: "session-1",
+      sentenceIndex: 2,
+      initialQuery: "ocean waves",
+      currentClipId: "clip-1",
+    },
+  }),
+  useNavigation: () => mockNavigation,
+}));
+
+jest.mock("expo-av", () => ({
+  Video: "Video",
+  ResizeMode: { COVER: "cover" },
+}));
+
+jest.mock("@expo/vector-icons", () => ({
+  Feather: "Feather",
+}));
+
+jest.mock("@/hooks/useTheme", () => ({
+  useTheme: () => ({
+    theme: {
+      backgroundDefault: "#111",
+      backgroundSecondary: "#222",
+      backgroundTertiary: "#333",
+      textPrimary: "#fff",
+      textTertiary: "#777",
+      buttonText: "#fff",
+      primary: "#4A5FFF",
+      link: "#4A5FFF",
+    },
+  }),
+}));
+
+jest.mock("@/contexts/ToastContext", () => ({
+  useToast: () => ({
+    showError: mockShowError,
+    showSuccess: jest.fn(),
+    showToast: jest.fn(),
+    showWarning: jest.fn(),
+  }),
+}));
+
+jest.mock("@/contexts/EditHistoryContext", () => ({
+  useEditHistory: () => ({ record: mockRecordEdit }),
+}));
+
+jest.mock("@/contexts/ClipCollectionsContext", () => ({
+  useClipCollections: () => ({
+    collections: mockCollections,
+    deleteCollection: jest.fn(),
+    isFavorite: () => false,
+    toggleFavorite: mockToggleFavorite,
+  }),
+}));
+
+jest.mock("@/components/ClipCollectionPicker", () => ({
+  ClipCollectionPicker: () => null,
+}));
+
+jest.mock("@/components/Card", () => ({
+  Card: ({ children, onPress }: any) => {
+    const { Pressable } = require("react-native");
+    return (
+      <Pressable testID="clip-card" onPress={onPress}>
+        {children}
+      </Pressable>
+    );
+  },
+}));
+
+jest.mock("@/api/client", () => ({
+  storySearchShot: (...args: unknown[]) => mockStorySearchShot(...args),
+  storyUpdateShot: (...args: unknown[]) => mockStoryUpdateShot(...args),
+}));
+
+import ClipSearchModal from "@/screens/ClipSearchModal";
+
+function clip(id: string, overrides: Record<string, unknown> = {}) {
+  return {
+    id,
+    url: `https://example.com/${id}.mp4`,
+    thumbUrl: `https://example.com/${id}.jpg`,
+    duration: 8,
+    width: 1080,
+    height: 1920,
+    provider: "pexels",
+    ...overrides,
+  };
+}
+
+function searchPage(candidates: unknown[], page: number, hasMore: boolean) {
+  return {
+    ok: true,
+    data: { shot: { sentenceIndex: 2, candidates }, page, hasMore },
+  };
+}
+
+describe("client/screens/ClipSearchModal", () => {
+  beforeEach(() => {
+    mockNavigation.goBack.mockReset();
+    mockShowError.mockReset();
+    mockRecordEdit.mockReset();
+    mockStorySearchShot.mockReset();
+    mockStoryUpdateShot.mockReset();
+    mockToggleFavorite.mockReset();
+    mockCollections.splice(0, mockCollections.length, {
+      id: "favorites",
+      name: "Favorites",
+      clips: [],
+    });
+  });
+
+  test("loads the next page for the searched query and filters by orientation", async () => {
+    mockStorySearchShot
+      .mockResolvedValueOnce(
+        searchPage([clip("clip-1"), clip("clip-2")], 1, true),
+      )
+      .mockResolvedValueOnce(
+        searchPage(
+          [clip("clip-2"), clip("clip-3", { width: 1920, height: 1080 })],
+          2,
+          false,
+        ),
+      );
+
+    render(<ClipSearchModal />);
+    await waitFor(() =>
+      expect(screen.getAllByTestId("clip-card")).toHaveLength(2),
+    );
+
+    await act(async () => {
+      fireEvent.press(screen.getByText("Load more results"));
+    });
+    expect(screen.getAllByTestId("clip-card")).toHaveLength(3);
+    expect(mockStorySearchShot).toHaveBeenLastCalledWith({
+      sessionId: "session-1",
+      sentenceIndex: 2,
+      query: "ocean waves",
+      page: 2,
+    });
+    expect(screen.queryByText("Load more results")).toBeNull();
+
+    fireEvent.press(screen.getByText("Landscape"));
+    expect(screen.getAllByTestId("clip-card")).toHaveLength(1);
+    fireEvent.press(screen.getByText("15s+"));
+    expect(screen.getByText("No clips match these filters.")).toBeTruthy();
+  });
+
+  test("drops a later page that arrives after a new search", async () => {
+    let resolveStalePage: (value: unknown) => void = () => {};
+    mockStorySearchShot
+      .mockResolvedValueOnce(searchPage([clip("clip-1")], 1, true))
+      .mockReturnValueOnce(
+        new Promise((resolve) => {
+          resolveStalePage = resolve;
+        }),
+      )
+      .mockResolvedValueOnce(searchPage([clip("clip-9")], 1, false));
+
+    render(<ClipSearchModal />);
+    await waitFor(() =>
+      expect(screen.getAllByTestId("clip-card")).toHaveLength(1),
+    );
+
+    fireEvent.press(screen.getByText("Load more results"));
+    fireEvent.changeText(
+      screen.getByPlaceholderText("Search clips..."),
+      "city",
+    );
+    await act(async () => {
+      fireEvent(
+        screen.getByPlaceholderText("Search clips..."),
+        "submitEditing",
+      );
+    });
+    await act(async () => {
+      resolveStalePage(searchPage([clip("clip-2")], 2, false));
+    });
+
+    expect(screen.getAllByTestId("clip-card")).toHaveLength(1);
+    expect(screen.queryByText("Load more results")).toBeNull();
+  });
+
+  test("previews a clip inline before committing it with update-shot", async () => {
+    mockStorySearchShot.mockResolvedValueOnce(
+      searchPage([clip("clip-1"), clip("clip-2")], 1, false),
+    );
+    mockStoryUpdateShot.mockResolvedValueOnce({ ok: true, data: {} });
+
+    render(<ClipSearchModal />);
+    await waitFor(() =>
+      expect(screen.getAllByTestId("clip-card")).toHaveLength(2),
+    );
+
+    fireEvent.press(screen.getAllByTestId("clip-card")[1]);
+    expect(screen.getByTestId("clip-preview-clip-2")).toBeTruthy();
+    expect(mockStoryUpdateShot).not.toHaveBeenCalled();
+
+    fireEvent.press(screen.getByLabelText("Use this clip"));
+    await waitFor(() => expect(mockNavigation.goBack).toHaveBeenCalled());
+    expect(mockStoryUpdateShot).toHaveBeenCalledWith({
+      sessionId: "session-1",
+      sentenceIndex: 2,
+      clipId: "clip-2",
+    });
+    expect(mockRecordEdit).toHaveBeenCalledWith({
+      kind: "shot",
+      sentenceIndex: 2,
+      beforeClipId: "clip-1",
+      afterClipId: "clip-2",
+    });
+  });
+
+  test("assigns a favorite clip from the Favorites tab with its saved record", async () => {
+    const saved = clip("clip-9", { providerId: "9001" });
+    mockCollections[0].clips = [saved];
+    mockStorySearchShot.mockResolvedValueOnce(
+      searchPage([clip("clip-2")], 1, false),
+    );
+    mockStoryUpdateShot.mockResolvedValueOnce({ ok: true, data: {} });
+
+    render(<ClipSearchModal />);
+    await waitFor(() =>
+      expect(screen.getAllByTestId("clip-card")).toHaveLength(1),
+    );
+    fireEvent.press(screen.getByLabelText("Add to favorites"));
+    expect(mockToggleFavorite).toHaveBeenCalledWith(clip("clip-2"));
+
+    fireEvent.press(screen.getByText("Favorites"));
+    expect(screen.getByText("Favorites (1)")).toBeTruthy();
+    fireEvent.press(screen.getAllByTestId("clip-card")[0]);
+    await act(async () => {
+      fireEvent.press(screen.getByLabelText("Use this clip"));
+    });
+
+    expect(mockStoryUpdateShot).toHaveBeenCalledWith({
+      sessionId: "session-1",
+      sentenceIndex: 2,
+      clipId: "clip-9",
+      clip: saved,
+    });
+    expect(mockRecordEdit).toHaveBeenCalledWith({
+      kind: "shot",
+      sentenceIndex: 2,
+      beforeClipId: "clip-1",
+      afterClipId: "clip-9",
+      afterClip: saved,
+    });
+    expect(mockNavigation.goBack).toHaveBeenCalled();
+  });
+});
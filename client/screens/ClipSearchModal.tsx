@@ -1,4 +1,4 @@
-import React, { useState, useEffect, useRef } from "react";
+import React, { useState, useEffect, useMemo, useRef } from "react";
 import {
   View,
   StyleSheet,
@@ -7,56 +7,101 @@ import {
   ActivityIndicator,
   Image,
   Pressable,
+  ScrollView,
 } from "react-native";
 import { useRoute, useNavigation, RouteProp } from "@react-navigation/native";
 import { Feather } from "@expo/vector-icons";
+import { ResizeMode, Video } from "expo-av";
 import { ThemedView } from "@/components/ThemedView";
 import { ThemedText } from "@/components/ThemedText";
 import { Card } from "@/components/Card";
+import { ClipCollectionPicker } from "@/components/ClipCollectionPicker";
+import { ClipSearchFilterBar } from "@/components/ClipSearchFilterBar";
 import { HomeStackParamList } from "@/navigation/HomeStackNavigator";
 import { useTheme } from "@/hooks/useTheme";
-import { useToast } from "@/contexts/ToastContext";
+import { useErrorToast } from "@/hooks/useErrorToast";
+import { useClipCollections } from "@/contexts/ClipCollectionsContext";
+import { useEditHistory } from "@/contexts/EditHistoryContext";
 import { Spacing } from "@/constants/theme";
 import { storySearchShot, storyUpdateShot } from "@/api/client";
+import { FAVORITES_COLLECTION_ID, getClipKey } from "@/lib/clipCollections";
+import {
+  DEFAULT_CLIP_SEARCH_FILTERS,
+  appendClipPage,
+  filterClips,
+  getClipProviders,
+  hasActiveClipFilters,
+  type ClipSearchFilters,
+} from "@/lib/clipFilters";
 import { unwrapNormalized } from "@/lib/storySession";
+import type { StoryClip } from "@/types/story";
 
 type ClipSearchRouteProp = RouteProp<HomeStackParamList, "ClipSearch">;
 
-interface Clip {
-  id: string;
-  url: string;
-  thumbUrl: string;
-  duration: number;
-  photographer?: string;
-  provider: string;
-}
-
 interface ClipSearchResult {
   shot?: {
-    candidates?: Clip[];
+    candidates?: StoryClip[];
   };
   page?: number;
   hasMore?: boolean;
 }
 
+type ClipPickerTab = "search" | "favorites";
+
+const SEARCH_FAILURE = "Failed to search clips. Please try again.";
+
 export default function ClipSearchModal() {
   const route = useRoute<ClipSearchRouteProp>();
   const navigation = useNavigation();
-  const { sessionId, sentenceIndex, initialQuery } = route.params;
+  const {
+    sessionId,
+    sentenceIndex,
+    initialQuery,
+    currentClipId,
+    currentClip,
+    currentClipStartSec,
+  } = route.params;
   const { theme } = useTheme();
-  const { showError } = useToast();
+  const { showApiError } = useErrorToast();
+  const editHistory = useEditHistory(sessionId);
+  const { collections, deleteCollection, isFavorite, toggleFavorite } =
+    useClipCollections();
 
   const [query, setQuery] = useState("");
-  const [candidates, setCandidates] = useState<Clip[]>([]);
+  const [candidates, setCandidates] = useState<StoryClip[]>([]);
   const [isSearching, setIsSearching] = useState(false);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
   const [page, setPage] = useState(1);
   const [hasMore, setHasMore] = useState(false);
+  const [filters, setFilters] = useState<ClipSearchFilters>(
+    DEFAULT_CLIP_SEARCH_FILTERS,
+  );
+  const [previewClipId, setPreviewClipId] = useState<string | null>(null);
   const [selectingClipId, setSelectingClipId] = useState<string | null>(null);
+  const [tab, setTab] = useState<ClipPickerTab>("search");
+  const [collectionId, setCollectionId] = useState(FAVORITES_COLLECTION_ID);
+  const [collectionPickerClip, setCollectionPickerClip] =
+    useState<StoryClip | null>(null);
   const autoSearchedRef = useRef(false);
+  // Later pages continue the query that produced page 1, not the input text.
+  const searchedQueryRef = useRef("");
+  const loadingMoreRef = useRef(false);
+  // Bumped per search; a response from an older run is dropped.
+  const searchRunRef = useRef(0);
+
+  const visibleCandidates = useMemo(
+    () => filterClips(candidates, filters),
+    [candidates, filters],
+  );
+  const providers = useMemo(() => getClipProviders(candidates), [candidates]);
+  const activeCollection =
+    collections.find((collection) => collection.id === collectionId) ??
+    collections[0];
 
   const handleSearch = async (qOverride?: string) => {
     const q = (qOverride ?? query).trim();
     if (!q) return;
+    const run = ++searchRunRef.current;
     setIsSearching(true);
     try {
       const res = await storySearchShot({
@@ -65,48 +110,119 @@ export default function ClipSearchModal() {
         query: q || undefined,
         page: 1,
       });
+      if (run !== searchRunRef.current) return;
 
       if (!res.ok) {
-        showError(res.message || "Failed to search clips");
+        const failure = showApiError(res, SEARCH_FAILURE);
+        if (failure.action === "go_back") navigation.goBack();
         return;
       }
 
       const unwrapped = unwrapNormalized<ClipSearchResult>(res);
       const shot = unwrapped?.shot;
-      const foundCandidates = shot?.candidates || [];
+      const foundCandidates = (shot?.candidates || []).filter(
+        (clip) => clip.id,
+      );
       const pageNum = unwrapped?.page || 1;
       const hasMoreResults = unwrapped?.hasMore || false;
 
+      searchedQueryRef.current = q;
       setCandidates(foundCandidates);
+      // Providers differ per query; a stale provider chip could hide every result.
+      setFilters((prev) => ({ ...prev, provider: null }));
       setPage(pageNum);
       setHasMore(hasMoreResults);
+      setPreviewClipId(null);
     } catch (error) {
+      if (run !== searchRunRef.current) return;
       console.error("[clip-search] search error:", error);
-      showError("Failed to search clips. Please try again.");
+      showApiError(error, SEARCH_FAILURE);
     } finally {
-      setIsSearching(false);
+      if (run === searchRunRef.current) setIsSearching(false);
     }
   };
 
-  const handleSelectClip = async (clipId: string) => {
+  const handleLoadMore = async () => {
+    if (
+      !hasMore ||
+      isSearching ||
+      loadingMoreRef.current ||
+      !searchedQueryRef.current
+    )
+      return;
+    const run = searchRunRef.current;
+    loadingMoreRef.current = true;
+    setIsLoadingMore(true);
+    try {
+      const res = await storySearchShot({
+        sessionId,
+        sentenceIndex,
+        query: searchedQueryRef.current,
+        page: page + 1,
+      });
+      // A new search replaced the list this page belonged to.
+      if (run !== searchRunRef.current) return;
+
+      if (!res.ok) {
+        showApiError(res, SEARCH_FAILURE);
+        return;
+      }
+
+      const unwrapped = unwrapNormalized<ClipSearchResult>(res);
+      setCandidates((prev) =>
+        appendClipPage(prev, unwrapped?.shot?.candidates || []),
+      );
+      setPage(unwrapped?.page || page + 1);
+      setHasMore(unwrapped?.hasMore || false);
+    } catch (error) {
+      if (run !== searchRunRef.current) return;
+      console.error("[clip-search] load more error:", error);
+      showApiError(error, SEARCH_FAILURE);
+    } finally {
+      loadingMoreRef.current = false;
+      setIsLoadingMore(false);
+    }
+  };
+
+  // Saved clips may come from another session, so their record goes along.
+  const handleSelectClip = async (clipId: string, savedClip?: StoryClip) => {
     setSelectingClipId(clipId);
     try {
       const res = await storyUpdateShot({
         sessionId,
         sentenceIndex,
         clipId,
+        ...(savedClip ? { clip: savedClip } : {}),
       });
 
       if (!res.ok) {
-        showError(res.message || "Failed to update clip");
+        const failure = showApiError(
+          res,
+          "Failed to update clip. Please try again.",
+        );
+        if (failure.action === "go_back") navigation.goBack();
         return;
       }
 
+      if (currentClipId && currentClipId !== clipId) {
+        editHistory.record({
+          kind: "shot",
+          sentenceIndex,
+          beforeClipId: currentClipId,
+          afterClipId: clipId,
+          ...(currentClip ? { beforeClip: currentClip } : {}),
+          ...(savedClip ? { afterClip: savedClip } : {}),
+          ...(currentClipStartSec
+            ? { beforeClipStartSec: currentClipStartSec }
+            : {}),
+        });
+      }
+
       // Success: close modal
       navigation.goBack();
     } catch (error) {
       console.error("[clip-search] select error:", error);
-      showError("Failed to update clip. Please try again.");
+      showApiError(error, "Failed to update clip. Please try again.");
     } finally {
       setSelectingClipId(null);
     }
@@ -126,17 +242,39 @@ export default function ClipSearchModal() {
     void handleSearch();
   };
 
-  const renderCandidate = ({ item }: { item: Clip }) => {
-    const isSelecting = selectingClipId === item.id;
+  const renderCandidate = ({ item }: { item: StoryClip }) => {
+    const clipId = item.id ?? "";
+    const previewKey = getClipKey(item) ?? clipId;
+    const isSelecting = selectingClipId === clipId;
+    const isPreviewing = previewClipId === previewKey && !!item.url;
+    const isCurrent = currentClipId === clipId;
+    const favorite = isFavorite(item);
 
     return (
       <Card
         elevation={1}
         style={styles.candidateCard}
-        onPress={() => !isSelecting && handleSelectClip(item.id)}
+        onPress={() =>
+          setPreviewClipId((prev) => (prev === previewKey ? null : previewKey))
+        }
       >
         <View style={styles.candidateContent}>
-          {item.thumbUrl ? (
+          {isPreviewing ? (
+            <Video
+              source={{ uri: item.url! }}
+              posterSource={item.thumbUrl ? { uri: item.thumbUrl } : undefined}
+              usePoster={!!item.thumbUrl}
+              style={[
+                styles.candidateThumbnail,
+                { backgroundColor: theme.backgroundSecondary },
+              ]}
+              resizeMode={ResizeMode.COVER}
+              shouldPlay
+              isLooping
+              isMuted
+              testID={`clip-preview-${clipId}`}
+            />
+          ) : item.thumbUrl ? (
             <Image
               source={{ uri: item.thumbUrl }}
               style={[
@@ -156,16 +294,76 @@ export default function ClipSearchModal() {
               <Feather name="video" size={24} color={theme.textTertiary} />
             </View>
           )}
+          {!isPreviewing && item.url && (
+            <View style={styles.playBadge} pointerEvents="none">
+              <Feather name="play" size={14} color="#fff" />
+            </View>
+          )}
           <View style={styles.candidateInfo}>
             <ThemedText style={styles.candidateProvider}>
-              {item.provider}
+              {isCurrent
+                ? `${item.provider ?? ""} · Current clip`
+                : item.provider}
             </ThemedText>
-            {item.duration && (
-              <ThemedText style={styles.candidateDuration}>
-                {item.duration}s
-              </ThemedText>
-            )}
+            <View style={styles.candidateActions}>
+              {!!item.duration && (
+                <ThemedText style={styles.candidateDuration}>
+                  {item.duration}s
+                </ThemedText>
+              )}
+              <Pressable
+                accessibilityRole="button"
+                accessibilityLabel={
+                  favorite ? "Remove from favorites" : "Add to favorites"
+                }
+                accessibilityState={{ selected: favorite }}
+                hitSlop={8}
+                onPress={() => toggleFavorite(item)}
+              >
+                <Feather
+                  name="heart"
+                  size={18}
+                  color={favorite ? theme.link : theme.textTertiary}
+                />
+              </Pressable>
+              <Pressable
+                accessibilityRole="button"
+                accessibilityLabel="Save to collection"
+                hitSlop={8}
+                onPress={() => setCollectionPickerClip(item)}
+              >
+                <Feather
+                  name="folder-plus"
+                  size={18}
+                  color={theme.textTertiary}
+                />
+              </Pressable>
+            </View>
           </View>
+          {previewClipId === previewKey && (
+            <Pressable
+              accessibilityRole="button"
+              accessibilityLabel="Use this clip"
+              accessibilityState={{ disabled: isCurrent || isSelecting }}
+              disabled={isCurrent || isSelecting}
+              onPress={() =>
+                void handleSelectClip(
+                  clipId,
+                  tab === "favorites" ? item : undefined,
+                )
+              }
+              style={[
+                styles.useClipButton,
+                { backgroundColor: theme.link, opacity: isCurrent ? 0.5 : 1 },
+              ]}
+            >
+              <ThemedText
+                style={[styles.useClipText, { color: theme.buttonText }]}
+              >
+                {isCurrent ? "Current clip" : "Use this clip"}
+              </ThemedText>
+            </Pressable>
+          )}
         </View>
         {isSelecting && (
           <View style={styles.selectingOverlay}>
@@ -176,59 +374,217 @@ export default function ClipSearchModal() {
     );
   };
 
-  return (
-    <ThemedView style={styles.container}>
-      <View style={styles.searchContainer}>
-        <TextInput
-          style={[
-            styles.searchInput,
-            {
-              color: theme.textPrimary,
-              backgroundColor: theme.backgroundSecondary,
-              borderColor: theme.backgroundTertiary,
-            },
-          ]}
-          value={query}
-          onChangeText={setQuery}
-          placeholder="Search clips..."
-          placeholderTextColor={theme.textTertiary}
-          onSubmitEditing={triggerSearch}
-          returnKeyType="search"
-        />
-        <Pressable
-          style={[
-            styles.searchButton,
-            {
-              backgroundColor: theme.link,
-              opacity: isSearching ? 0.5 : 1,
-            },
-          ]}
-          onPress={triggerSearch}
-          disabled={isSearching}
+  const renderListFooter = () => {
+    if (isLoadingMore) {
+      return (
+        <View style={styles.listFooter}>
+          <ActivityIndicator size="small" color={theme.link} />
+        </View>
+      );
+    }
+    if (!hasMore) return null;
+    return (
+      <Pressable
+        accessibilityRole="button"
+        onPress={() => void handleLoadMore()}
+        style={[
+          styles.loadMoreButton,
+          { backgroundColor: theme.backgroundSecondary },
+        ]}
+      >
+        <ThemedText style={styles.loadMoreText}>Load more results</ThemedText>
+      </Pressable>
+    );
+  };
+
+  const renderTabButton = (value: ClipPickerTab, label: string) => {
+    const selected = tab === value;
+    return (
+      <Pressable
+        key={value}
+        accessibilityRole="tab"
+        accessibilityState={{ selected }}
+        onPress={() => {
+          setTab(value);
+          setPreviewClipId(null);
+        }}
+        style={[
+          styles.tabButton,
+          {
+            backgroundColor: selected ? theme.link : theme.backgroundSecondary,
+          },
+        ]}
+      >
+        <ThemedText
+          style={[styles.tabText, selected && { color: theme.buttonText }]}
         >
-          {isSearching ? (
-            <ActivityIndicator size="small" color={theme.buttonText} />
-          ) : (
-            <Feather name="search" size={20} color={theme.buttonText} />
-          )}
-        </Pressable>
-      </View>
+          {label}
+        </ThemedText>
+      </Pressable>
+    );
+  };
+
+  const renderCollections = () => (
+    <>
+      <ScrollView
+        horizontal
+        showsHorizontalScrollIndicator={false}
+        contentContainerStyle={styles.collectionChips}
+        style={styles.collectionBar}
+      >
+        {collections.map((collection) => {
+          const selected = collection.id === activeCollection.id;
+          return (
+            <Pressable
+              key={collection.id}
+              accessibilityRole="button"
+              accessibilityState={{ selected }}
+              onPress={() => {
+                setCollectionId(collection.id);
+                setPreviewClipId(null);
+              }}
+              style={[
+                styles.collectionChip,
+                {
+                  backgroundColor: selected
+                    ? theme.link
+                    : theme.backgroundSecondary,
+                },
+              ]}
+            >
+              <ThemedText
+                style={[
+                  styles.collectionChipText,
+                  selected && { color: theme.buttonText },
+                ]}
+              >
+                {`${collection.name} (${collection.clips.length})`}
+              </ThemedText>
+            </Pressable>
+          );
+        })}
+        {activeCollection.id !== FAVORITES_COLLECTION_ID && (
+          <Pressable
+            accessibilityRole="button"
+            accessibilityLabel={`Delete collection ${activeCollection.name}`}
+            onPress={() => {
+              deleteCollection(activeCollection.id);
+              setCollectionId(FAVORITES_COLLECTION_ID);
+            }}
+            style={[
+              styles.collectionChip,
+              { backgroundColor: theme.backgroundSecondary },
+            ]}
+          >
+            <Feather name="trash-2" size={14} color={theme.textTertiary} />
+          </Pressable>
+        )}
+      </ScrollView>
 
-      {candidates.length === 0 && !isSearching ? (
+      {activeCollection.clips.length === 0 ? (
         <View style={styles.emptyContainer}>
           <ThemedText style={styles.emptyText}>
-            {query.trim() ? "No clips found. Try a different search." : "Enter a search query to find clips."}
+            {activeCollection.id === FAVORITES_COLLECTION_ID
+              ? "No favorites yet. Tap the heart on a clip to save it."
+              : "This collection is empty."}
           </ThemedText>
         </View>
       ) : (
         <FlatList
-          data={candidates}
+          data={activeCollection.clips}
           renderItem={renderCandidate}
-          keyExtractor={(item) => item.id}
+          keyExtractor={(item, index) => getClipKey(item) ?? `saved-${index}`}
           contentContainerStyle={styles.listContent}
-          keyboardShouldPersistTaps="handled"
         />
       )}
+    </>
+  );
+
+  return (
+    <ThemedView style={styles.container}>
+      <View style={styles.tabs}>
+        {renderTabButton("search", "Search")}
+        {renderTabButton("favorites", "Favorites")}
+      </View>
+
+      {tab === "favorites" ? (
+        renderCollections()
+      ) : (
+        <>
+          <View style={styles.searchContainer}>
+            <TextInput
+              style={[
+                styles.searchInput,
+                {
+                  color: theme.textPrimary,
+                  backgroundColor: theme.backgroundSecondary,
+                  borderColor: theme.backgroundTertiary,
+                },
+              ]}
+              value={query}
+              onChangeText={setQuery}
+              placeholder="Search clips..."
+              placeholderTextColor={theme.textTertiary}
+              onSubmitEditing={triggerSearch}
+              returnKeyType="search"
+            />
+            <Pressable
+              style={[
+                styles.searchButton,
+                {
+                  backgroundColor: theme.link,
+                  opacity: isSearching ? 0.5 : 1,
+                },
+              ]}
+              onPress={triggerSearch}
+              disabled={isSearching}
+            >
+              {isSearching ? (
+                <ActivityIndicator size="small" color={theme.buttonText} />
+              ) : (
+                <Feather name="search" size={20} color={theme.buttonText} />
+              )}
+            </Pressable>
+          </View>
+
+          {candidates.length > 0 && (
+            <ClipSearchFilterBar
+              filters={filters}
+              onChange={setFilters}
+              providers={providers}
+            />
+          )}
+
+          {visibleCandidates.length === 0 && !isSearching ? (
+            <View style={styles.emptyContainer}>
+              <ThemedText style={styles.emptyText}>
+                {candidates.length > 0 && hasActiveClipFilters(filters)
+                  ? "No clips match these filters."
+                  : query.trim()
+                    ? "No clips found. Try a different search."
+                    : "Enter a search query to find clips."}
+              </ThemedText>
+              {candidates.length > 0 && renderListFooter()}
+            </View>
+          ) : (
+            <FlatList
+              data={visibleCandidates}
+              renderItem={renderCandidate}
+              keyExtractor={(item, index) => item.id ?? `clip-${index}`}
+              contentContainerStyle={styles.listContent}
+              keyboardShouldPersistTaps="handled"
+              onEndReached={() => void handleLoadMore()}
+              onEndReachedThreshold={0.5}
+              ListFooterComponent={renderListFooter}
+            />
+          )}
+        </>
+      )}
+
+      <ClipCollectionPicker
+        clip={collectionPickerClip}
+        onClose={() => setCollectionPickerClip(null)}
+      />
     </ThemedView>
   );
 }
@@ -237,6 +593,40 @@ const styles = StyleSheet.create({
   container: {
     flex: 1,
   },
+  tabs: {
+    flexDirection: "row",
+    gap: Spacing.sm,
+    paddingHorizontal: Spacing.lg,
+    paddingTop: Spacing.lg,
+  },
+  tabButton: {
+    flex: 1,
+    paddingVertical: Spacing.sm,
+    borderRadius: 8,
+    alignItems: "center",
+  },
+  tabText: {
+    fontSize: 14,
+    fontWeight: "600",
+  },
+  collectionBar: {
+    flexGrow: 0,
+  },
+  collectionChips: {
+    gap: Spacing.sm,
+    paddingHorizontal: Spacing.lg,
+    paddingTop: Spacing.lg,
+  },
+  collectionChip: {
+    paddingVertical: Spacing.xs,
+    paddingHorizontal: Spacing.md,
+    borderRadius: 16,
+    justifyContent: "center",
+  },
+  collectionChipText: {
+    fontSize: 13,
+    fontWeight: "500",
+  },
   searchContainer: {
     flexDirection: "row",
     padding: Spacing.lg,
@@ -291,6 +681,46 @@ const styles = StyleSheet.create({
     fontSize: 12,
     opacity: 0.7,
   },
+  candidateActions: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: Spacing.md,
+  },
+  playBadge: {
+    position: "absolute",
+    top: Spacing.sm,
+    right: Spacing.sm,
+    width: 28,
+    height: 28,
+    borderRadius: 14,
+    backgroundColor: "rgba(0, 0, 0, 0.5)",
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  useClipButton: {
+    paddingVertical: Spacing.sm,
+    borderRadius: 8,
+    alignItems: "center",
+  },
+  useClipText: {
+    fontSize: 14,
+    fontWeight: "600",
+  },
+  listFooter: {
+    paddingVertical: Spacing.lg,
+    alignItems: "center",
+  },
+  loadMoreButton: {
+    marginTop: Spacing.md,
+    paddingVertical: Spacing.sm,
+    paddingHorizontal: Spacing.lg,
+    borderRadius: 8,
+    alignItems: "center",
+  },
+  loadMoreText: {
+    fontSize: 14,
+    fontWeight: "600",
+  },
   selectingOverlay: {
     position: "absolute",
     top: 0,
@@ -0,0 +1,288 @@
+import React, { useState } from "react";
+import { View, StyleSheet, Pressable, TextInput, Alert } from "react-native";
+import { useSafeAreaInsets } from "react-native-safe-area-context";
+import { useHeaderHeight } from "@react-navigation/elements";
+import { useBottomTabBarHeight } from "@react-navigation/bottom-tabs";
+import { useNavigation } from "@react-navigation/native";
+import { NativeStackNavigationProp } from "@react-navigation/native-stack";
+import { Feather } from "@expo/vector-icons";
+
+import { ThemedText } from "@/components/ThemedText";
+import { ThemedView } from "@/components/ThemedView";
+import { Card } from "@/components/Card";
+import { KeyboardAwareScrollViewCompat } from "@/components/KeyboardAwareScrollViewCompat";
+import { useStoryDrafts } from "@/contexts/StoryDraftsContext";
+import { useTheme } from "@/hooks/useTheme";
+import { Spacing, BorderRadius } from "@/constants/theme";
+import { MAX_DRAFT_TITLE_CHARS, type StoryDraft } from "@/lib/storyDrafts";
+import { HomeStackParamList } from "@/navigation/HomeStackNavigator";
+
+const COLORS = {
+  primary: "#4A5FFF",
+  textSecondary: "#6B7280",
+  textTertiary: "#9CA3AF",
+  border: "#E5E7EB",
+  error: "#EF4444",
+};
+
+type DraftsNavProp = NativeStackNavigationProp<HomeStackParamList, "Drafts">;
+
+const STEP_LABELS: Record<StoryDraft["lastStep"], string> = {
+  script: "Script",
+  storyboard: "Storyboard",
+};
+
+function formatUpdatedAt(isoString: string): string {
+  const diffMs = Date.now() - new Date(isoString).getTime();
+  const diffMins = Math.floor(diffMs / 60000);
+  const diffHours = Math.floor(diffMs / 3600000);
+  const diffDays = Math.floor(diffMs / 86400000);
+
+  if (diffMins < 1) return "Edited just now";
+  if (diffMins < 60) return `Edited ${diffMins}m ago`;
+  if (diffHours < 24) return `Edited ${diffHours}h ago`;
+  if (diffDays < 7) return `Edited ${diffDays}d ago`;
+  return `Edited ${new Date(isoString).toLocaleDateString()}`;
+}
+
+function formatExpiresAt(isoString: string | null): string | null {
+  if (!isoString) return null;
+  const remainingMs = new Date(isoString).getTime() - Date.now();
+  if (!Number.isFinite(remainingMs)) return null;
+  const remainingHours = Math.floor(remainingMs / 3600000);
+  if (remainingHours < 1) return "Expires soon";
+  if (remainingHours < 48) return `Expires in ${remainingHours}h`;
+  return `Expires in ${Math.floor(remainingHours / 24)}d`;
+}
+
+export default function DraftsScreen() {
+  const insets = useSafeAreaInsets();
+  const headerHeight = useHeaderHeight();
+  const tabBarHeight = useBottomTabBarHeight();
+  const { theme } = useTheme();
+  const navigation = useNavigation<DraftsNavProp>();
+  const { drafts, openDraftId, renameDraft, removeDraft } = useStoryDrafts();
+
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [renameText, setRenameText] = useState("");
+
+  const handleResume = (draft: StoryDraft) => {
+    if (draft.lastStep === "storyboard") {
+      navigation.navigate("StoryEditor", { sessionId: draft.id });
+    } else {
+      navigation.navigate("Script", { sessionId: draft.id });
+    }
+  };
+
+  const handleStartRename = (draft: StoryDraft) => {
+    setRenamingId(draft.id);
+    setRenameText(draft.title);
+  };
+
+  const handleSaveRename = () => {
+    if (renamingId) {
+      renameDraft(renamingId, renameText);
+    }
+    setRenamingId(null);
+    setRenameText("");
+  };
+
+  const handleRemove = (draft: StoryDraft) => {
+    Alert.alert(
+      "Remove draft?",
+      `"${draft.title}" will be removed from your drafts on this device.`,
+      [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: "Remove",
+          style: "destructive",
+          onPress: () => removeDraft(draft.id),
+        },
+      ],
+    );
+  };
+
+  return (
+    <ThemedView style={styles.container}>
+      <KeyboardAwareScrollViewCompat
+        style={{ flex: 1, backgroundColor: theme.backgroundRoot }}
+        contentContainerStyle={[
+          styles.scrollContent,
+          {
+            paddingTop: headerHeight + Spacing.xl,
+            paddingBottom: tabBarHeight + Spacing.xl,
+          },
+        ]}
+        scrollIndicatorInsets={{ bottom: insets.bottom }}
+      >
+        {drafts.length === 0 ? (
+          <View style={styles.emptyContainer}>
+            <Feather name="folder" size={48} color={COLORS.primary} />
+            <ThemedText style={styles.emptyTitle}>No drafts yet</ThemedText>
+            <ThemedText style={styles.emptySubtitle}>
+              Scripts you create will appear here until they expire.
+            </ThemedText>
+          </View>
+        ) : (
+          drafts.map((draft) => {
+            const isRenaming = renamingId === draft.id;
+            const expiresLabel = formatExpiresAt(draft.expiresAt);
+            return (
+              <Card
+                key={draft.id}
+                onPress={isRenaming ? undefined : () => handleResume(draft)}
+                style={styles.draftCard}
+              >
+                {isRenaming ? (
+                  <TextInput
+                    testID={`draft-rename-input-${draft.id}`}
+                    style={[
+                      styles.renameInput,
+                      { color: theme.text, borderColor: COLORS.border },
+                    ]}
+                    value={renameText}
+                    onChangeText={setRenameText}
+                    onSubmitEditing={handleSaveRename}
+                    onBlur={handleSaveRename}
+                    maxLength={MAX_DRAFT_TITLE_CHARS}
+                    returnKeyType="done"
+                    autoFocus
+                  />
+                ) : (
+                  <ThemedText style={styles.draftTitle} numberOfLines={2}>
+                    {draft.title}
+                  </ThemedText>
+                )}
+                <View style={styles.metaRow}>
+                  <ThemedText style={styles.stepBadge}>
+                    {STEP_LABELS[draft.lastStep]}
+                  </ThemedText>
+                  {draft.id === openDraftId ? (
+                    <ThemedText style={styles.metaText}>Open</ThemedText>
+                  ) : null}
+                  <ThemedText style={styles.metaText}>
+                    {formatUpdatedAt(draft.updatedAt)}
+                  </ThemedText>
+                  {expiresLabel ? (
+                    <ThemedText style={styles.metaText}>
+                      {expiresLabel}
+                    </ThemedText>
+                  ) : null}
+                </View>
+                <View style={styles.actionsRow}>
+                  <Pressable
+                    testID={`draft-rename-${draft.id}`}
+                    onPress={() =>
+                      isRenaming ? handleSaveRename() : handleStartRename(draft)
+                    }
+                    hitSlop={8}
+                    style={styles.actionButton}
+                  >
+                    <Feather
+                      name={isRenaming ? "check" : "edit-2"}
+                      size={16}
+                      color={COLORS.textSecondary}
+                    />
+                    <ThemedText style={styles.actionText}>
+                      {isRenaming ? "Save" : "Rename"}
+                    </ThemedText>
+                  </Pressable>
+                  <Pressable
+                    testID={`draft-remove-${draft.id}`}
+                    onPress={() => handleRemove(draft)}
+                    hitSlop={8}
+                    style={styles.actionButton}
+                  >
+                    <Feather name="trash-2" size={16} color={COLORS.error} />
+                    <ThemedText
+                      style={[styles.actionText, { color: COLORS.error }]}
+                    >
+                      Remove
+                    </ThemedText>
+                  </Pressable>
+                </View>
+              </Card>
+            );
+          })
+        )}
+      </KeyboardAwareScrollViewCompat>
+    </ThemedView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  scrollContent: {
+    paddingHorizontal: Spacing.lg,
+  },
+  draftCard: {
+    marginBottom: Spacing.md,
+    borderWidth: 1,
+    borderColor: COLORS.border,
+    borderRadius: BorderRadius.sm,
+  },
+  draftTitle: {
+    fontSize: 16,
+    fontWeight: "600",
+  },
+  renameInput: {
+    fontSize: 16,
+    borderWidth: 1,
+    borderRadius: BorderRadius.xs,
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.sm,
+  },
+  metaRow: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    alignItems: "center",
+    gap: Spacing.sm,
+    marginTop: Spacing.sm,
+  },
+  stepBadge: {
+    fontSize: 12,
+    fontWeight: "600",
+    color: COLORS.primary,
+    backgroundColor: `${COLORS.primary}15`,
+    paddingHorizontal: Spacing.sm,
+    paddingVertical: 2,
+    borderRadius: BorderRadius.xs,
+    overflow: "hidden",
+  },
+  metaText: {
+    fontSize: 12,
+    color: COLORS.textTertiary,
+  },
+  actionsRow: {
+    flexDirection: "row",
+    justifyContent: "flex-end",
+    gap: Spacing.lg,
+    marginTop: Spacing.md,
+  },
+  actionButton: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: Spacing.xs,
+  },
+  actionText: {
+    fontSize: 13,
+    fontWeight: "500",
+    color: COLORS.textSecondary,
+  },
+  emptyContainer: {
+    alignItems: "center",
+    paddingVertical: Spacing["5xl"],
+    gap: Spacing.md,
+  },
+  emptyTitle: {
+    fontSize: 18,
+    fontWeight: "600",
+  },
+  emptySubtitle: {
+    fontSize: 14,
+    color: COLORS.textSecondary,
+    textAlign: "center",
+  },
+});
@@ -1,21 +1,27 @@
 import React from "react";
 import { describe, expect, test, beforeEach, jest } from "@jest/globals";
 import { act, fireEvent, render, waitFor } from "@testing-library/react-native";
+import AsyncStorage from "@react-native-async-storage/async-storage";
 
 const mockNavigation = {
   navigate: jest.fn(),
+  setParams: jest.fn(),
 };
 const mockShowError = jest.fn();
-const mockSetActiveSessionId = jest.fn();
-const mockClearActiveSessionId = jest.fn();
+const mockOpenDraft = jest.fn();
 const mockStoryStart = jest.fn();
 const mockStoryGenerate = jest.fn();
+const mockStoryUpdateScript = jest.fn();
+const mockStoryGet = jest.fn();
 const mockHapticSuccess = jest.fn();
 
-let mockActiveSessionId: string | null = null;
+let mockDrafts: { id: string }[] = [];
+let mockRouteParams: { url?: string; text?: string } | undefined;
 
 jest.mock("@react-navigation/native", () => ({
   useNavigation: () => mockNavigation,
+  useRoute: () => ({ params: mockRouteParams }),
+  useFocusEffect: jest.fn(),
 }));
 
 jest.mock("@react-navigation/elements", () => ({
@@ -56,12 +62,14 @@ jest.mock("@/contexts/ToastContext", () => ({
   }),
 }));
 
-jest.mock("@/contexts/ActiveStorySessionContext", () => ({
-  useActiveStorySession: () => ({
-    activeSessionId: mockActiveSessionId,
-    isHydrated: true,
-    setActiveSessionId: mockSetActiveSessionId,
-    clearActiveSessionId: mockClearActiveSessionId,
+jest.mock("@/contexts/AuthContext", () => ({
+  useAuth: () => ({ user: { uid: "user-1" } }),
+}));
+
+jest.mock("@/contexts/StoryDraftsContext", () => ({
+  useStoryDrafts: () => ({
+    drafts: mockDrafts,
+    openDraft: mockOpenDraft,
   }),
 }));
 
@@ -96,19 +104,24 @@ jest.mock("@/components/KeyboardAwareScrollViewCompat", () => ({
 jest.mock("@/api/client", () => ({
   storyStart: (...args: unknown[]) => mockStoryStart(...args),
   storyGenerate: (...args: unknown[]) => mockStoryGenerate(...args),
+  storyUpdateScript: (...args: unknown[]) => mockStoryUpdateScript(...args),
+  storyGet: (...args: unknown[]) => mockStoryGet(...args),
 }));
 
 import HomeScreen from "@/screens/HomeScreen";
 
 describe("client/screens/HomeScreen", () => {
   beforeEach(() => {
-    mockActiveSessionId = null;
+    mockDrafts = [];
+    mockRouteParams = undefined;
+    mockNavigation.setParams.mockClear();
     mockNavigation.navigate.mockClear();
     mockShowError.mockClear();
-    mockSetActiveSessionId.mockClear();
-    mockClearActiveSessionId.mockClear();
+    mockOpenDraft.mockClear();
     mockStoryStart.mockReset();
     mockStoryGenerate.mockReset();
+    mockStoryUpdateScript.mockReset();
+    mockStoryGet.mockReset();
     mockHapticSuccess.mockClear();
 
     mockStoryStart.mockResolvedValue({
@@ -155,7 +168,9 @@ describe("client/screens/HomeScreen", () => {
 
     expect(mockStoryGenerate).toHaveBeenCalledWith({ sessionId: "session-1" });
     expect(mockStoryGenerate.mock.calls[0][0]).not.toHaveProperty("styleKey");
-    expect(mockSetActiveSessionId).toHaveBeenCalledWith("session-1");
+    expect(mockOpenDraft).toHaveBeenCalledWith("session-1", "script", {
+      id: "session-1",
+    });
     expect(mockNavigation.navigate).toHaveBeenCalledWith("Script", {
       sessionId: "session-1",
     });
@@ -198,4 +213,149 @@ describe("client/screens/HomeScreen", () => {
     expect(mockStoryGenerate).toHaveBeenCalledWith({ sessionId: "session-1" });
     expect(mockStoryGenerate.mock.calls[0][0]).not.toHaveProperty("styleKey");
   });
+
+  test("offers the drafts list instead of warning before a new script", async () => {
+    mockDrafts = [{ id: "session-0" }, { id: "session-older" }];
+    const screen = render(<HomeScreen />);
+
+    expect(screen.getByText("Continue one of your 2 drafts")).toBeTruthy();
+
+    await act(async () => {
+      fireEvent.press(screen.getByTestId("open-drafts-button"));
+    });
+
+    expect(mockNavigation.navigate).toHaveBeenCalledWith("Drafts");
+  });
+
+  test("seeds a pasted script through update-script instead of generating one", async () => {
+    mockStoryUpdateScript.mockResolvedValue({
+      ok: true,
+      data: { id: "session-1", story: { sentences: ["One.", "Two."] } },
+    });
+    const screen = render(<HomeScreen />);
+
+    await act(async () => {
+      fireEvent.press(screen.getByTestId("input-type-paragraph"));
+    });
+    expect(screen.queryByTestId("style-option-cozy")).toBeNull();
+
+    fireEvent.changeText(
+      screen.getByPlaceholderText("Paste your full script..."),
+      "One. Two.",
+    );
+    expect(screen.getByTestId("pasted-beat-1")).toBeTruthy();
+
+    await act(async () => {
+      fireEvent.press(screen.getByTestId("create-script-button"));
+    });
+
+    await waitFor(() => {
+      expect(mockStoryUpdateScript).toHaveBeenCalledWith({
+        sessionId: "session-1",
+        sentences: ["One.", "Two."],
+      });
+    });
+    expect(mockStoryStart).toHaveBeenCalledWith({
+      input: "One. Two.",
+      inputType: "paragraph",
+    });
+    expect(mockStoryGenerate).not.toHaveBeenCalled();
+    expect(mockOpenDraft).toHaveBeenCalledWith("session-1", "script", {
+      id: "session-1",
+      story: { sentences: ["One.", "Two."] },
+    });
+    expect(mockNavigation.navigate).toHaveBeenCalledWith("Script", {
+      sessionId: "session-1",
+    });
+  });
+
+  test("blocks an over-limit pasted script until the inline fix is applied", async () => {
+    const screen = render(<HomeScreen />);
+
+    await act(async () => {
+      fireEvent.press(screen.getByTestId("input-type-paragraph"));
+    });
+    fireEvent.changeText(
+      screen.getByPlaceholderText("Paste your full script..."),
+      `Intro line\n${"word ".repeat(50).trim()}`,
+    );
+
+    expect(screen.getByText("249/160")).toBeTruthy();
+    await act(async () => {
+      fireEvent.press(screen.getByTestId("create-script-button"));
+    });
+    expect(mockStoryStart).not.toHaveBeenCalled();
+
+    await act(async () => {
+      fireEvent.press(screen.getByTestId("pasted-beat-split-1"));
+    });
+
+    expect(screen.queryByTestId("pasted-script-fit")).toBeNull();
+    expect(screen.getByTestId("pasted-beat-2")).toBeTruthy();
+    expect(screen.queryByTestId("pasted-beat-3")).toBeNull();
+  });
+
+  test("checkpoints an interrupted create and resumes only the missing stage", async () => {
+    mockStoryGenerate.mockResolvedValueOnce({
+      ok: false,
+      status: 500,
+      code: "GENERATE_FAILED",
+      message: "GENERATE_FAILED",
+    });
+    const screen = render(<HomeScreen />);
+
+    fireEvent.changeText(
+      screen.getByPlaceholderText("Paste article URL..."),
+      "https://example.com/habits",
+    );
+    await act(async () => {
+      fireEvent.press(screen.getByTestId("create-script-button"));
+    });
+
+    await waitFor(() => {
+      expect(screen.getByText("Continue where you left off")).toBeTruthy();
+    });
+    expect(
+      JSON.parse(
+        (await AsyncStorage.getItem("@vaiform/storyCreatePipeline:user-1")) ??
+          "null",
+      ),
+    ).toMatchObject({ sessionId: "session-1", completedStage: "start" });
+    expect(screen.getByText("Next: writing your script")).toBeTruthy();
+
+    mockStoryGet.mockResolvedValue({ ok: true, data: { id: "session-1" } });
+    await act(async () => {
+      fireEvent.press(screen.getByTestId("resume-create-button"));
+    });
+
+    await waitFor(() => {
+      expect(mockNavigation.navigate).toHaveBeenCalledWith("Script", {
+        sessionId: "session-1",
+      });
+    });
+    expect(mockStoryStart).toHaveBeenCalledTimes(1);
+    expect(mockStoryGenerate).toHaveBeenCalledTimes(2);
+    expect(screen.queryByText("Continue where you left off")).toBeNull();
+    expect(
+      await AsyncStorage.getItem("@vaiform/storyCreatePipeline:user-1"),
+    ).toBeNull();
+  });
+
+  test("prefills link mode from a shared create link and consumes the params", async () => {
+    mockRouteParams = {
+      text: "Worth a read https://example.com/habits",
+    };
+    const screen = render(<HomeScreen />);
+
+    await waitFor(() => {
+      expect(
+        screen.getByDisplayValue("https://example.com/habits"),
+      ).toBeTruthy();
+    });
+    expect(screen.getByPlaceholderText("Paste article URL...")).toBeTruthy();
+    expect(mockNavigation.setParams).toHaveBeenCalledWith({
+      url: undefined,
+      text: undefined,
+    });
+  });
 });
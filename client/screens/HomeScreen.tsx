@@ -1,4 +1,4 @@
-import React, { useState } from "react";
+import React, { useCallback, useEffect, useMemo, useState } from "react";
 import {
   View,
   StyleSheet,
@@ -6,26 +6,47 @@ import {
   ActivityIndicator,
   Platform,
   TextInput,
-  Alert,
 } from "react-native";
 import { useSafeAreaInsets } from "react-native-safe-area-context";
 import { useHeaderHeight } from "@react-navigation/elements";
 import { useBottomTabBarHeight } from "@react-navigation/bottom-tabs";
-import { useNavigation } from "@react-navigation/native";
+import {
+  RouteProp,
+  useFocusEffect,
+  useNavigation,
+  useRoute,
+} from "@react-navigation/native";
 import { NativeStackNavigationProp } from "@react-navigation/native-stack";
 import { LinearGradient } from "expo-linear-gradient";
+import { Feather } from "@expo/vector-icons";
 import * as Haptics from "expo-haptics";
 
 import { ThemedText } from "@/components/ThemedText";
 import { ThemedView } from "@/components/ThemedView";
 import { Card } from "@/components/Card";
+import { PastedScriptReview } from "@/components/home/PastedScriptReview";
 import { KeyboardAwareScrollViewCompat } from "@/components/KeyboardAwareScrollViewCompat";
-import { useToast } from "@/contexts/ToastContext";
-import { useActiveStorySession } from "@/contexts/ActiveStorySessionContext";
+import { useStoryDrafts } from "@/contexts/StoryDraftsContext";
+import { useErrorToast } from "@/hooks/useErrorToast";
+import {
+  useStoryCreatePipeline,
+  type StoryCreateRunResult,
+} from "@/hooks/useStoryCreatePipeline";
 import { useTheme } from "@/hooks/useTheme";
 import { Spacing, BorderRadius } from "@/constants/theme";
-import { storyStart, storyGenerate, type StoryStyleKey } from "@/api/client";
+import type { StoryStyleKey } from "@/api/client";
+import {
+  fitScriptToLimits,
+  getScriptLimitIssues,
+  splitBeatToFit,
+  splitScriptIntoBeats,
+} from "@/lib/scriptLimits";
+import {
+  getRemainingCreateStages,
+  type StoryCreateStage,
+} from "@/lib/storyCreatePipelineStorage";
 import { HomeStackParamList } from "@/navigation/HomeStackNavigator";
+import { getSharedCreateInput } from "@/navigation/linking";
 
 const COLORS = {
   primary: "#4A5FFF",
@@ -39,6 +60,22 @@ const COLORS = {
 };
 
 type HomeNavProp = NativeStackNavigationProp<HomeStackParamList, "Home">;
+type HomeRouteProp = RouteProp<HomeStackParamList, "Home">;
+
+type HomeInputType = "link" | "idea" | "paragraph";
+
+const INPUT_PLACEHOLDERS: Record<HomeInputType, string> = {
+  link: "Paste article URL...",
+  idea: "Describe your idea...",
+  paragraph: "Paste your full script...",
+};
+
+const NEXT_STAGE_LABELS: Record<StoryCreateStage, string> = {
+  start: "starting your project",
+  script: "writing your script",
+  plan: "planning shots",
+  search: "finding clips",
+};
 
 const STYLE_OPTIONS: ReadonlyArray<{
   label: string;
@@ -55,39 +92,72 @@ export default function HomeScreen() {
   const headerHeight = useHeaderHeight();
   const tabBarHeight = useBottomTabBarHeight();
   const { theme } = useTheme();
-  const { showError } = useToast();
+  const { showError, showApiError } = useErrorToast();
   const navigation = useNavigation<HomeNavProp>();
-  const { activeSessionId, setActiveSessionId, clearActiveSessionId } =
-    useActiveStorySession();
+  const route = useRoute<HomeRouteProp>();
+  const { drafts, openDraft } = useStoryDrafts();
+  const {
+    pendingPipeline,
+    progressText,
+    isRunning: isCreating,
+    startCreate,
+    resumePipeline,
+    discardPendingPipeline,
+    reloadPendingPipeline,
+  } = useStoryCreatePipeline();
 
-  const [inputType, setInputType] = useState<"link" | "idea">("link");
+  const [inputType, setInputType] = useState<HomeInputType>("link");
   const [inputText, setInputText] = useState("");
   const [styleKey, setStyleKey] = useState<StoryStyleKey | null>(null);
-  const [progressText, setProgressText] = useState<string | null>(null);
-  const [isCreating, setIsCreating] = useState(false);
+
+  const sharedUrl = route.params?.url;
+  const sharedText = route.params?.text;
+  useEffect(() => {
+    const shared = getSharedCreateInput({ url: sharedUrl, text: sharedText });
+    if (!shared) return;
+    setInputType(shared.type);
+    setInputText(shared.text);
+    // Consume the params so going back to Home doesn't re-apply them.
+    navigation.setParams({ url: undefined, text: undefined });
+  }, [navigation, sharedText, sharedUrl]);
+
+  useFocusEffect(
+    useCallback(() => {
+      void reloadPendingPipeline();
+    }, [reloadPendingPipeline]),
+  );
+
+  const isPastedScript = inputType === "paragraph";
+  const pastedBeats = useMemo(
+    () => (isPastedScript ? splitScriptIntoBeats(inputText) : []),
+    [inputText, isPastedScript],
+  );
+  const pastedScriptIssues = useMemo(
+    () => getScriptLimitIssues(pastedBeats),
+    [pastedBeats],
+  );
+  const canCreate =
+    inputText.trim().length > 0 &&
+    (!isPastedScript ||
+      (pastedBeats.length > 0 && pastedScriptIssues.length === 0));
+
+  // One beat per line round-trips through splitScriptIntoBeats.
+  const applyPastedBeats = (beats: string[]) => {
+    setInputText(beats.join("\n"));
+  };
 
   const handleCreateStoryboard = async () => {
     const trimmedInput = inputText.trim();
     if (!trimmedInput) {
-      showError("Please enter a link or idea");
+      showError(
+        isPastedScript
+          ? "Please paste your script"
+          : "Please enter a link or idea",
+      );
       return;
     }
-
-    if (activeSessionId) {
-      Alert.alert(
-        "Start new project?",
-        "This will replace your current script and storyboard.",
-        [
-          { text: "Cancel", style: "cancel" },
-          {
-            text: "OK",
-            onPress: () => {
-              clearActiveSessionId();
-              runCreateFlow(trimmedInput);
-            },
-          },
-        ],
-      );
+    if (isPastedScript && !canCreate) {
+      showError("Fix the highlighted beats before creating your script.");
       return;
     }
 
@@ -95,73 +165,45 @@ export default function HomeScreen() {
   };
 
   const runCreateFlow = async (trimmedInput: string) => {
-    setIsCreating(true);
-    setProgressText("Starting…");
-
-    try {
-      // Step 1: Start story session
-      const startResult = await storyStart({
-        input: trimmedInput,
-        inputType: inputType,
-        ...(styleKey ? { styleKey } : {}),
-      });
-
-      if (!startResult.ok) {
-        const errorMsg = startResult.code
-          ? `Failed to create storyboard: ${startResult.code}`
-          : `Failed to create storyboard: ${startResult.message}`;
-        showError(errorMsg);
-        setIsCreating(false);
-        setProgressText(null);
-        return;
-      }
-
-      const sessionId = startResult.data?.id;
-      if (!sessionId) {
-        console.error(
-          "[story] Missing sessionId in start response:",
-          startResult.data,
-        );
-        showError("Failed to create storyboard: Invalid response");
-        setIsCreating(false);
-        setProgressText(null);
-        return;
-      }
-
-      // Step 2: Generate script
-      setProgressText("Writing script…");
-      const generateResult = await storyGenerate({ sessionId });
-
-      if (!generateResult.ok) {
-        const errorMsg = generateResult.code
-          ? `Failed to generate script: ${generateResult.code}`
-          : `Failed to generate script: ${generateResult.message}`;
-        showError(errorMsg);
-        setIsCreating(false);
-        setProgressText(null);
-        return;
-      }
-
-      // Success - persist session and navigate to script screen
-      setIsCreating(false);
-      setProgressText(null);
-      setActiveSessionId(sessionId);
+    const result = await startCreate({
+      text: trimmedInput,
+      type: inputType,
+      ...(styleKey && !isPastedScript ? { styleKey } : {}),
+      ...(isPastedScript ? { sentences: pastedBeats } : {}),
+    });
+    finishCreateRun(result);
+  };
+
+  const handleResumeCreate = async () => {
+    finishCreateRun(await resumePipeline());
+  };
+
+  const finishCreateRun = (result: StoryCreateRunResult) => {
+    if (!result.ok) {
+      showApiError(result.failure, result.fallbackMessage);
+      return;
+    }
+
+    // Success - record the draft and land on the step the run finished
+    const { sessionId } = result;
+    if (result.target === "storyboard") {
+      openDraft(sessionId, "storyboard", result.session);
+      navigation.navigate("StoryEditor", { sessionId });
+    } else {
+      openDraft(sessionId, "script", result.session);
       navigation.navigate("Script", { sessionId });
+    }
 
-      if (Platform.OS !== "web") {
-        Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
-      }
-    } catch (error) {
-      const errorMessage =
-        error instanceof Error ? error.message : "Unknown error";
-      showError(`Failed to create storyboard: ${errorMessage}`);
-      setIsCreating(false);
-      setProgressText(null);
+    if (Platform.OS !== "web") {
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
     }
   };
 
-  const inputPlaceholder =
-    inputType === "link" ? "Paste article URL..." : "Describe your idea...";
+  const nextPendingStage = pendingPipeline
+    ? getRemainingCreateStages(pendingPipeline)[0]
+    : undefined;
+
+  const inputPlaceholder = INPUT_PLACEHOLDERS[inputType];
 
   return (
     <ThemedView style={styles.container}>
@@ -176,6 +218,46 @@ export default function HomeScreen() {
         ]}
         scrollIndicatorInsets={{ bottom: insets.bottom }}
       >
+        {pendingPipeline && nextPendingStage && !isCreating ? (
+          <Card style={styles.resumeCard}>
+            <ThemedText style={styles.resumeTitle}>
+              Continue where you left off
+            </ThemedText>
+            {pendingPipeline.input?.text ? (
+              <ThemedText style={styles.resumeInput} numberOfLines={2}>
+                {pendingPipeline.input.text}
+              </ThemedText>
+            ) : null}
+            <ThemedText style={styles.resumeHint}>
+              Next: {NEXT_STAGE_LABELS[nextPendingStage]}
+            </ThemedText>
+            <View style={styles.resumeActions}>
+              <Pressable
+                testID="discard-create-button"
+                onPress={() => void discardPendingPipeline()}
+                hitSlop={8}
+              >
+                <ThemedText style={styles.resumeDismissText}>
+                  Dismiss
+                </ThemedText>
+              </Pressable>
+              <Pressable
+                testID="resume-create-button"
+                style={({ pressed }) => [
+                  styles.resumeButton,
+                  pressed && styles.segmentPressed,
+                ]}
+                onPress={handleResumeCreate}
+              >
+                <Feather name="play" size={14} color={COLORS.white} />
+                <ThemedText style={styles.resumeButtonText}>
+                  Continue
+                </ThemedText>
+              </Pressable>
+            </View>
+          </Card>
+        ) : null}
+
         <Card style={styles.inputCard}>
           <ThemedText style={styles.cardTitle}>Create Script</ThemedText>
 
@@ -217,40 +299,63 @@ export default function HomeScreen() {
                 Idea
               </ThemedText>
             </Pressable>
+            <Pressable
+              testID="input-type-paragraph"
+              style={({ pressed }) => [
+                styles.segment,
+                inputType === "paragraph" && styles.segmentActive,
+                pressed && styles.segmentPressed,
+              ]}
+              onPress={() => setInputType("paragraph")}
+              disabled={isCreating}
+            >
+              <ThemedText
+                style={[
+                  styles.segmentText,
+                  inputType === "paragraph" && styles.segmentTextActive,
+                ]}
+              >
+                Script
+              </ThemedText>
+            </Pressable>
           </View>
 
-          <View style={styles.lensHeader}>
-            <ThemedText style={styles.lensTitle}>Script Lens</ThemedText>
-            <ThemedText style={styles.lensHint}>Optional</ThemedText>
-          </View>
+          {!isPastedScript ? (
+            <>
+              <View style={styles.lensHeader}>
+                <ThemedText style={styles.lensTitle}>Script Lens</ThemedText>
+                <ThemedText style={styles.lensHint}>Optional</ThemedText>
+              </View>
 
-          <View style={styles.lensControl}>
-            {STYLE_OPTIONS.map((option) => {
-              const isActive = styleKey === option.value;
-              return (
-                <Pressable
-                  key={option.label}
-                  testID={`style-option-${option.value ?? "auto"}`}
-                  style={({ pressed }) => [
-                    styles.lensSegment,
-                    isActive && styles.segmentActive,
-                    pressed && styles.segmentPressed,
-                  ]}
-                  onPress={() => setStyleKey(option.value)}
-                  disabled={isCreating}
-                >
-                  <ThemedText
-                    style={[
-                      styles.lensSegmentText,
-                      isActive && styles.segmentTextActive,
-                    ]}
-                  >
-                    {option.label}
-                  </ThemedText>
-                </Pressable>
-              );
-            })}
-          </View>
+              <View style={styles.lensControl}>
+                {STYLE_OPTIONS.map((option) => {
+                  const isActive = styleKey === option.value;
+                  return (
+                    <Pressable
+                      key={option.label}
+                      testID={`style-option-${option.value ?? "auto"}`}
+                      style={({ pressed }) => [
+                        styles.lensSegment,
+                        isActive && styles.segmentActive,
+                        pressed && styles.segmentPressed,
+                      ]}
+                      onPress={() => setStyleKey(option.value)}
+                      disabled={isCreating}
+                    >
+                      <ThemedText
+                        style={[
+                          styles.lensSegmentText,
+                          isActive && styles.segmentTextActive,
+                        ]}
+                      >
+                        {option.label}
+                      </ThemedText>
+                    </Pressable>
+                  );
+                })}
+              </View>
+            </>
+          ) : null}
 
           {/* Text Input */}
           <TextInput
@@ -267,6 +372,29 @@ export default function HomeScreen() {
             textAlignVertical="top"
           />
 
+          {isPastedScript ? (
+            <PastedScriptReview
+              beats={pastedBeats}
+              issues={pastedScriptIssues}
+              disabled={isCreating}
+              onSplitBeat={(index) =>
+                applyPastedBeats(
+                  pastedBeats.flatMap((beat, beatIndex) =>
+                    beatIndex === index ? splitBeatToFit(beat) : [beat],
+                  ),
+                )
+              }
+              onRemoveBeat={(index) =>
+                applyPastedBeats(
+                  pastedBeats.filter((_, beatIndex) => beatIndex !== index),
+                )
+              }
+              onFitToLimits={() =>
+                applyPastedBeats(fitScriptToLimits(pastedBeats))
+              }
+            />
+          ) : null}
+
           {/* Progress Display */}
           {progressText && (
             <View style={styles.progressContainer}>
@@ -282,18 +410,15 @@ export default function HomeScreen() {
           testID="create-script-button"
           style={({ pressed }) => [
             styles.createButton,
-            (isCreating || !inputText.trim()) && styles.createButtonDisabled,
-            pressed &&
-              !isCreating &&
-              inputText.trim() &&
-              styles.createButtonPressed,
+            (isCreating || !canCreate) && styles.createButtonDisabled,
+            pressed && !isCreating && canCreate && styles.createButtonPressed,
           ]}
           onPress={handleCreateStoryboard}
-          disabled={isCreating || !inputText.trim()}
+          disabled={isCreating || !canCreate}
         >
           <LinearGradient
             colors={
-              isCreating || !inputText.trim()
+              isCreating || !canCreate
                 ? [COLORS.textTertiary, COLORS.textTertiary]
                 : [COLORS.primary, COLORS.primaryEnd]
             }
@@ -310,6 +435,25 @@ export default function HomeScreen() {
             )}
           </LinearGradient>
         </Pressable>
+
+        {drafts.length > 0 ? (
+          <Pressable
+            testID="open-drafts-button"
+            style={({ pressed }) => [
+              styles.draftsLink,
+              pressed && styles.segmentPressed,
+            ]}
+            onPress={() => navigation.navigate("Drafts")}
+            disabled={isCreating}
+          >
+            <Feather name="folder" size={16} color={COLORS.primary} />
+            <ThemedText style={styles.draftsLinkText}>
+              {drafts.length === 1
+                ? "Continue your draft"
+                : `Continue one of your ${drafts.length} drafts`}
+            </ThemedText>
+          </Pressable>
+        ) : null}
       </KeyboardAwareScrollViewCompat>
     </ThemedView>
   );
@@ -322,6 +466,53 @@ const styles = StyleSheet.create({
   scrollContent: {
     paddingHorizontal: Spacing.lg,
   },
+  resumeCard: {
+    marginBottom: Spacing.lg,
+    borderWidth: 1,
+    borderColor: COLORS.primary,
+    borderRadius: BorderRadius.sm,
+    padding: Spacing.lg,
+    gap: Spacing.sm,
+  },
+  resumeTitle: {
+    fontSize: 16,
+    fontWeight: "600",
+    color: COLORS.textPrimary,
+  },
+  resumeInput: {
+    fontSize: 14,
+    color: COLORS.textSecondary,
+  },
+  resumeHint: {
+    fontSize: 13,
+    color: COLORS.textTertiary,
+  },
+  resumeActions: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "flex-end",
+    gap: Spacing.lg,
+    marginTop: Spacing.xs,
+  },
+  resumeDismissText: {
+    fontSize: 14,
+    fontWeight: "600",
+    color: COLORS.textSecondary,
+  },
+  resumeButton: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: Spacing.xs,
+    backgroundColor: COLORS.primary,
+    borderRadius: BorderRadius.xs,
+    paddingVertical: Spacing.sm,
+    paddingHorizontal: Spacing.lg,
+  },
+  resumeButtonText: {
+    fontSize: 14,
+    fontWeight: "600",
+    color: COLORS.white,
+  },
   inputCard: {
     marginBottom: Spacing.xl,
     borderWidth: 1,
@@ -446,4 +637,17 @@ const styles = StyleSheet.create({
     fontWeight: "600",
     color: COLORS.white,
   },
+  draftsLink: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "center",
+    gap: Spacing.sm,
+    marginTop: Spacing.lg,
+    paddingVertical: Spacing.md,
+  },
+  draftsLinkText: {
+    fontSize: 15,
+    fontWeight: "600",
+    color: COLORS.primary,
+  },
 });
@@ -14,7 +14,7 @@ import { ThemedView } from "@/components/ThemedView";
 import { Card } from "@/components/Card";
 import { KeyboardAwareScrollViewCompat } from "@/components/KeyboardAwareScrollViewCompat";
 import { useTheme } from "@/hooks/useTheme";
-import { useToast } from "@/contexts/ToastContext";
+import { useErrorToast } from "@/hooks/useErrorToast";
 import { Spacing, BorderRadius } from "@/constants/theme";
 import { getMyShorts, ShortItem } from "@/api/client";
 import { LibraryStackParamList } from "@/navigation/LibraryStackNavigator";
@@ -34,6 +34,8 @@ const COLORS = {
 
 type LibraryNavProp = NativeStackNavigationProp<LibraryStackParamList, "Library">;
 
+const LOAD_FAILURE = "Failed to load shorts. Please try again.";
+
 function formatDate(isoString: string): string {
   const date = new Date(isoString);
   const now = new Date();
@@ -68,7 +70,7 @@ export default function LibraryScreen() {
   const headerHeight = useHeaderHeight();
   const tabBarHeight = useBottomTabBarHeight();
   const { theme } = useTheme();
-  const { showError, showWarning } = useToast();
+  const { showApiError, showWarning } = useErrorToast();
   const navigation = useNavigation<LibraryNavProp>();
 
   const [shorts, setShorts] = useState<ShortItem[]>([]);
@@ -96,16 +98,20 @@ export default function LibraryScreen() {
         setNextCursor(result.data.nextCursor);
         setHasMore(result.data.hasMore);
       } else {
-        showError(result.message || "Failed to load shorts");
+        showApiError(result, LOAD_FAILURE, {
+          retry: () => void fetchShorts(cursor),
+        });
       }
     } catch (err) {
-      const message = err instanceof Error ? err.message : "Failed to load shorts";
-      showError(message);
+      console.error("[shorts] load error:", err);
+      showApiError(err, LOAD_FAILURE, {
+        retry: () => void fetchShorts(cursor),
+      });
     } finally {
       setIsLoading(false);
       setIsLoadingMore(false);
     }
-  }, [showError]);
+  }, [showApiError]);
 
   useEffect(() => {
     fetchShorts();
@@ -6,16 +6,24 @@ const mockNavigation = {
   replace: jest.fn(),
   navigate: jest.fn(),
 };
-const mockSetActiveSessionId = jest.fn();
+const mockOpenDraft = jest.fn();
 const mockShowError = jest.fn();
+const mockShowWarning = jest.fn();
 const mockStoryGet = jest.fn();
 const mockStoryPlan = jest.fn();
 const mockStorySearchAll = jest.fn();
 const mockStoryUpdateBeatText = jest.fn();
 const mockStoryDeleteBeat = jest.fn();
 const mockStoryUpdateScript = jest.fn();
+const mockStoryUpdateShot = jest.fn();
+const mockStoryInsertBeat = jest.fn();
+const mockStorySearchShot = jest.fn();
+const mockRecordEdit = jest.fn();
+const mockClearEditHistory = jest.fn();
+const mockGetClipboardString = jest.fn();
 
 let mockRouteParams = { sessionId: "session-1" };
+let mockUsageSnapshot: unknown = null;
 
 jest.mock("@react-navigation/native", () => ({
   useRoute: () => ({ params: mockRouteParams }),
@@ -49,12 +57,38 @@ jest.mock("@/hooks/useTheme", () => ({
 jest.mock("@/contexts/ToastContext", () => ({
   useToast: () => ({
     showError: mockShowError,
+    showSuccess: jest.fn(),
+    showWarning: mockShowWarning,
   }),
 }));
 
-jest.mock("@/contexts/ActiveStorySessionContext", () => ({
-  useActiveStorySession: () => ({
-    setActiveSessionId: mockSetActiveSessionId,
+jest.mock("expo-clipboard", () => ({
+  getStringAsync: () => mockGetClipboardString(),
+  setStringAsync: jest.fn(),
+}));
+
+jest.mock("@/contexts/AuthContext", () => ({
+  useAuth: () => ({
+    user: { uid: "user-1" },
+    usageSnapshot: mockUsageSnapshot,
+  }),
+}));
+
+jest.mock("@/contexts/StoryDraftsContext", () => ({
+  useStoryDrafts: () => ({
+    openDraft: mockOpenDraft,
+  }),
+}));
+
+jest.mock("@/contexts/EditHistoryContext", () => ({
+  useEditHistory: () => ({
+    canUndo: false,
+    canRedo: false,
+    isApplying: false,
+    record: mockRecordEdit,
+    undo: jest.fn(),
+    redo: jest.fn(),
+    clear: mockClearEditHistory,
   }),
 }));
 
@@ -101,6 +135,9 @@ jest.mock("@/api/client", () => ({
   storyUpdateBeatText: (...args: unknown[]) => mockStoryUpdateBeatText(...args),
   storyDeleteBeat: (...args: unknown[]) => mockStoryDeleteBeat(...args),
   storyUpdateScript: (...args: unknown[]) => mockStoryUpdateScript(...args),
+  storyUpdateShot: (...args: unknown[]) => mockStoryUpdateShot(...args),
+  storyInsertBeat: (...args: unknown[]) => mockStoryInsertBeat(...args),
+  storySearchShot: (...args: unknown[]) => mockStorySearchShot(...args),
 }));
 
 import ScriptScreen from "@/screens/ScriptScreen";
@@ -129,16 +166,24 @@ function createDeferred<T>() {
 describe("client/screens/ScriptScreen", () => {
   beforeEach(() => {
     mockRouteParams = { sessionId: "session-1" };
+    mockUsageSnapshot = null;
     mockNavigation.replace.mockClear();
     mockNavigation.navigate.mockClear();
-    mockSetActiveSessionId.mockClear();
+    mockOpenDraft.mockClear();
     mockShowError.mockClear();
+    mockShowWarning.mockClear();
+    mockRecordEdit.mockClear();
+    mockClearEditHistory.mockClear();
     mockStoryGet.mockReset();
     mockStoryPlan.mockReset();
     mockStorySearchAll.mockReset();
     mockStoryUpdateBeatText.mockReset();
     mockStoryDeleteBeat.mockReset();
     mockStoryUpdateScript.mockReset();
+    mockStoryUpdateShot.mockReset();
+    mockStoryInsertBeat.mockReset();
+    mockStorySearchShot.mockReset();
+    mockGetClipboardString.mockReset();
   });
 
   test("pre-storyboard edit uses update-script, refetches once, and keeps edited text visible", async () => {
@@ -251,6 +296,12 @@ describe("client/screens/ScriptScreen", () => {
       text: "Updated sentence text",
     });
     expect(mockStoryUpdateScript).not.toHaveBeenCalled();
+    expect(mockRecordEdit).toHaveBeenCalledWith({
+      kind: "beat_text",
+      sentenceIndex: 0,
+      before: "Original sentence text",
+      after: "Updated sentence text",
+    });
   });
 
   test("pre-storyboard add beat appends through update-script only", async () => {
@@ -349,9 +400,322 @@ describe("client/screens/ScriptScreen", () => {
       sentences: ["Beat two"],
     });
     expect(mockStoryDeleteBeat).not.toHaveBeenCalled();
+    expect(mockRecordEdit).toHaveBeenCalledWith({
+      kind: "script",
+      label: "Beat 1 deleted",
+      before: ["Beat one", "Beat two"],
+      after: ["Beat two"],
+    });
     alertSpy.mockRestore();
   });
 
+  test("pre-storyboard reorder persists the moved script through update-script", async () => {
+    mockStoryGet
+      .mockResolvedValueOnce({
+        ok: true,
+        data: buildSession(["First", "Second", "Third"]),
+      })
+      .mockResolvedValueOnce({
+        ok: true,
+        data: buildSession(["Second", "First", "Third"]),
+      });
+    mockStoryUpdateScript.mockResolvedValue({
+      ok: true,
+      data: buildSession(["Second", "First", "Third"]),
+    });
+
+    const screen = render(<ScriptScreen />);
+    await waitFor(() => {
+      expect(screen.getByText("First")).toBeTruthy();
+    });
+
+    await act(async () => {
+      fireEvent(screen.getByLabelText("Beat 2"), "accessibilityAction", {
+        nativeEvent: { actionName: "moveEarlier" },
+      });
+    });
+
+    await waitFor(() => {
+      expect(mockStoryGet).toHaveBeenCalledTimes(2);
+    });
+    expect(mockStoryUpdateScript).toHaveBeenCalledWith({
+      sessionId: "session-1",
+      sentences: ["Second", "First", "Third"],
+    });
+    expect(mockStoryUpdateShot).not.toHaveBeenCalled();
+    expect(mockRecordEdit).toHaveBeenCalledWith({
+      kind: "beat_order",
+      fromIndex: 1,
+      toIndex: 0,
+      before: {
+        sentences: ["First", "Second", "Third"],
+        clipIds: [null, null, null],
+        clipStartSecs: [0, 0, 0],
+      },
+      after: {
+        sentences: ["Second", "First", "Third"],
+        clipIds: [null, null, null],
+        clipStartSecs: [0, 0, 0],
+      },
+    });
+  });
+
+  test("post-storyboard reorder re-points only the moved beats' clips", async () => {
+    const shots = [
+      { sentenceIndex: 0, selectedClip: { id: "clip-a" } },
+      { sentenceIndex: 1, selectedClip: { id: "clip-b" } },
+      { sentenceIndex: 2, selectedClip: { id: "clip-c" } },
+    ];
+    mockStoryGet.mockResolvedValue({
+      ok: true,
+      data: buildSession(["First", "Second", "Third"], shots),
+    });
+    mockStoryUpdateScript.mockResolvedValue({
+      ok: true,
+      data: buildSession(["Second", "First", "Third"], shots),
+    });
+    mockStoryUpdateShot.mockResolvedValue({ ok: true, data: {} });
+
+    const screen = render(<ScriptScreen />);
+    await waitFor(() => {
+      expect(screen.getByText("First")).toBeTruthy();
+    });
+
+    await act(async () => {
+      fireEvent(screen.getByLabelText("Beat 1"), "accessibilityAction", {
+        nativeEvent: { actionName: "moveLater" },
+      });
+    });
+
+    await waitFor(() => {
+      expect(mockStoryUpdateShot).toHaveBeenCalledTimes(2);
+    });
+    expect(mockStoryUpdateScript).toHaveBeenCalledWith({
+      sessionId: "session-1",
+      sentences: ["Second", "First", "Third"],
+    });
+    expect(mockStoryUpdateShot).toHaveBeenNthCalledWith(1, {
+      sessionId: "session-1",
+      sentenceIndex: 0,
+      clipId: "clip-b",
+    });
+    expect(mockStoryUpdateShot).toHaveBeenNthCalledWith(2, {
+      sessionId: "session-1",
+      sentenceIndex: 1,
+      clipId: "clip-a",
+    });
+  });
+
+  test("pre-storyboard split at the cursor replaces the beat through update-script", async () => {
+    mockStoryGet.mockResolvedValue({
+      ok: true,
+      data: buildSession(["Start small. Then grow.", "Last"]),
+    });
+    mockStoryUpdateScript.mockResolvedValue({
+      ok: true,
+      data: buildSession(["Start small.", "Then grow.", "Last"]),
+    });
+
+    const screen = render(<ScriptScreen />);
+    await waitFor(() => {
+      expect(screen.getByText("Start small. Then grow.")).toBeTruthy();
+    });
+
+    await act(async () => {
+      fireEvent.press(screen.getAllByTestId("beat-card")[0]);
+    });
+    const input = await screen.findByDisplayValue("Start small. Then grow.");
+    fireEvent(input, "selectionChange", {
+      nativeEvent: { selection: { start: 12, end: 12 } },
+    });
+
+    await act(async () => {
+      fireEvent.press(screen.getByLabelText("Split beat 1 at cursor"));
+    });
+
+    await waitFor(() => {
+      expect(mockStoryUpdateScript).toHaveBeenCalledWith({
+        sessionId: "session-1",
+        sentences: ["Start small.", "Then grow.", "Last"],
+      });
+    });
+    expect(mockRecordEdit).toHaveBeenCalledWith({
+      kind: "script",
+      label: "Beat 1 split",
+      before: ["Start small. Then grow.", "Last"],
+      after: ["Start small.", "Then grow.", "Last"],
+    });
+  });
+
+  test("post-storyboard split inherits the clip and searches for the new half", async () => {
+    const shots = [
+      { sentenceIndex: 0, selectedClip: { id: "clip-a" } },
+      { sentenceIndex: 1, selectedClip: { id: "clip-b" } },
+    ];
+    mockStoryGet.mockResolvedValue({
+      ok: true,
+      data: buildSession(["Start small. Then grow.", "Last"], shots),
+    });
+    mockStoryUpdateBeatText.mockResolvedValue({
+      ok: true,
+      data: { sentences: ["Start small.", "Last"], shots },
+    });
+    mockStoryInsertBeat.mockResolvedValue({
+      ok: true,
+      data: {
+        sentences: ["Start small.", "Then grow.", "Last"],
+        shots,
+        insertedIndex: 1,
+      },
+    });
+    mockStoryUpdateShot.mockResolvedValue({ ok: true, data: {} });
+    mockStorySearchShot.mockResolvedValue({ ok: true, data: {} });
+
+    const screen = render(<ScriptScreen />);
+    await waitFor(() => {
+      expect(screen.getByText("Start small. Then grow.")).toBeTruthy();
+    });
+
+    await act(async () => {
+      fireEvent.press(screen.getAllByTestId("beat-card")[0]);
+    });
+    const input = await screen.findByDisplayValue("Start small. Then grow.");
+    fireEvent(input, "selectionChange", {
+      nativeEvent: { selection: { start: 12, end: 12 } },
+    });
+
+    await act(async () => {
+      fireEvent.press(screen.getByLabelText("Split beat 1 at cursor"));
+    });
+
+    await waitFor(() => {
+      expect(mockStorySearchShot).toHaveBeenCalledWith({
+        sessionId: "session-1",
+        sentenceIndex: 1,
+      });
+    });
+    expect(mockStoryUpdateBeatText).toHaveBeenCalledWith({
+      sessionId: "session-1",
+      sentenceIndex: 0,
+      text: "Start small.",
+    });
+    expect(mockStoryInsertBeat).toHaveBeenCalledWith({
+      sessionId: "session-1",
+      insertAfterIndex: 0,
+      text: "Then grow.",
+    });
+    expect(mockStoryUpdateShot).toHaveBeenCalledWith({
+      sessionId: "session-1",
+      sentenceIndex: 1,
+      clipId: "clip-a",
+    });
+    expect(mockStoryUpdateScript).not.toHaveBeenCalled();
+    expect(mockRecordEdit).toHaveBeenCalledWith({
+      kind: "split_beat",
+      sentenceIndex: 0,
+      before: "Start small. Then grow.",
+      head: "Start small.",
+      tail: "Then grow.",
+      clipId: "clip-a",
+    });
+  });
+
+  test("post-storyboard merge keeps the first clip and deletes the next beat", async () => {
+    const shots = [
+      { sentenceIndex: 0, selectedClip: { id: "clip-a" } },
+      { sentenceIndex: 1, selectedClip: { id: "clip-b" } },
+    ];
+    mockStoryGet.mockResolvedValue({
+      ok: true,
+      data: buildSession(["Start small.", "Then grow."], shots),
+    });
+    mockStoryUpdateBeatText.mockResolvedValue({
+      ok: true,
+      data: { sentences: ["Start small. Then grow.", "Then grow."], shots },
+    });
+    mockStoryDeleteBeat.mockResolvedValue({
+      ok: true,
+      data: { sentences: ["Start small. Then grow."], shots: [shots[0]] },
+    });
+
+    const screen = render(<ScriptScreen />);
+    await waitFor(() => {
+      expect(screen.getByText("Start small.")).toBeTruthy();
+    });
+
+    await act(async () => {
+      fireEvent.press(screen.getAllByTestId("beat-card")[0]);
+    });
+    await screen.findByDisplayValue("Start small.");
+
+    await act(async () => {
+      fireEvent.press(screen.getByLabelText("Merge beat 1 with next"));
+    });
+
+    await waitFor(() => {
+      expect(mockStoryDeleteBeat).toHaveBeenCalledWith({
+        sessionId: "session-1",
+        sentenceIndex: 1,
+      });
+    });
+    expect(mockStoryUpdateBeatText).toHaveBeenCalledWith({
+      sessionId: "session-1",
+      sentenceIndex: 0,
+      text: "Start small. Then grow.",
+    });
+    expect(mockRecordEdit).toHaveBeenCalledWith({
+      kind: "merge_beats",
+      sentenceIndex: 0,
+      first: "Start small.",
+      second: "Then grow.",
+      merged: "Start small. Then grow.",
+      secondClipId: "clip-b",
+    });
+  });
+
+  test("post-storyboard merge restores the first beat when the delete fails", async () => {
+    const shots = [
+      { sentenceIndex: 0, selectedClip: { id: "clip-a" } },
+      { sentenceIndex: 1, selectedClip: { id: "clip-b" } },
+    ];
+    mockStoryGet.mockResolvedValue({
+      ok: true,
+      data: buildSession(["Start small.", "Then grow."], shots),
+    });
+    mockStoryUpdateBeatText.mockResolvedValue({ ok: true, data: {} });
+    mockStoryDeleteBeat.mockResolvedValue({
+      ok: false,
+      status: 500,
+      code: "SERVER_ERROR",
+      message: "boom",
+      requestId: null,
+    });
+
+    const screen = render(<ScriptScreen />);
+    await waitFor(() => {
+      expect(screen.getByText("Start small.")).toBeTruthy();
+    });
+
+    await act(async () => {
+      fireEvent.press(screen.getAllByTestId("beat-card")[0]);
+    });
+    await screen.findByDisplayValue("Start small.");
+
+    await act(async () => {
+      fireEvent.press(screen.getByLabelText("Merge beat 1 with next"));
+    });
+
+    await waitFor(() => {
+      expect(mockStoryUpdateBeatText).toHaveBeenLastCalledWith({
+        sessionId: "session-1",
+        sentenceIndex: 0,
+        text: "Start small.",
+      });
+    });
+    expect(mockStoryUpdateBeatText).toHaveBeenCalledTimes(2);
+    expect(mockRecordEdit).not.toHaveBeenCalled();
+  });
+
   test("Generate Storyboard still calls plan then search", async () => {
     mockStoryGet.mockResolvedValue({
       ok: true,
@@ -390,4 +754,267 @@ describe("client/screens/ScriptScreen", () => {
     );
     expect(mockStoryUpdateScript).not.toHaveBeenCalled();
   });
+
+  test("Generate Storyboard re-plans before retrying a failed clip search", async () => {
+    mockStoryGet.mockResolvedValue({
+      ok: true,
+      data: buildSession("Beat one"),
+    });
+    mockStoryPlan.mockResolvedValue({
+      ok: true,
+      data: buildSession("Beat one"),
+    });
+    mockStorySearchAll
+      .mockResolvedValueOnce({
+        ok: false,
+        status: 500,
+        code: "SEARCH_FAILED",
+        message: "SEARCH_FAILED",
+      })
+      .mockResolvedValueOnce({
+        ok: true,
+        data: buildSession("Beat one"),
+      });
+
+    const screen = render(<ScriptScreen />);
+
+    await waitFor(() => {
+      expect(screen.getByText("Generate Storyboard")).toBeTruthy();
+    });
+
+    await act(async () => {
+      fireEvent.press(screen.getByText("Generate Storyboard"));
+    });
+    await waitFor(() => {
+      expect(mockShowError).toHaveBeenCalledWith(
+        "Something went wrong. Please try again.",
+      );
+    });
+    expect(mockNavigation.replace).not.toHaveBeenCalled();
+
+    await act(async () => {
+      fireEvent.press(screen.getByText("Generate Storyboard"));
+    });
+
+    await waitFor(() => {
+      expect(mockNavigation.replace).toHaveBeenCalledWith("StoryEditor", {
+        sessionId: "session-1",
+      });
+    });
+    expect(mockStoryPlan).toHaveBeenCalledTimes(2);
+    expect(mockStorySearchAll).toHaveBeenCalledTimes(2);
+  });
+
+  test("projects narration length and warns before generating past the render budget", async () => {
+    const { Alert } = require("react-native");
+    const alertSpy = jest
+      .spyOn(Alert, "alert")
+      .mockImplementation(() => undefined);
+    const sentences = [
+      "One two three four five six seven eight nine ten eleven twelve",
+      "Short beat here",
+    ];
+    mockUsageSnapshot = { usage: { availableSec: 5 } };
+    mockStoryGet.mockResolvedValue({ ok: true, data: buildSession(sentences) });
+    mockStoryPlan.mockResolvedValue({
+      ok: true,
+      data: buildSession(sentences),
+    });
+    mockStorySearchAll.mockResolvedValue({
+      ok: true,
+      data: buildSession(sentences),
+    });
+
+    const screen = render(<ScriptScreen />);
+
+    await waitFor(() => {
+      expect(screen.getByTestId("beat-duration-0")).toHaveTextContent("~4.6s");
+    });
+    expect(screen.getByTestId("beat-duration-1")).toHaveTextContent("~1.1s");
+    expect(screen.getByTestId("script-duration-total")).toHaveTextContent(
+      "About 5.8s of narration · uses ~6s of render time",
+    );
+    expect(screen.getByTestId("script-render-time-warning")).toHaveTextContent(
+      "Not enough render time. Estimated usage is 6s. You have 5s left.",
+    );
+
+    fireEvent.press(screen.getByText("Generate Storyboard"));
+
+    expect(alertSpy).toHaveBeenCalledTimes(1);
+    expect(mockStoryPlan).not.toHaveBeenCalled();
+
+    const buttons = alertSpy.mock.calls[0][2] as {
+      text: string;
+      onPress?: () => void;
+    }[];
+    await act(async () => {
+      buttons.find((button) => button.text === "Generate anyway")?.onPress?.();
+      await Promise.resolve();
+    });
+
+    await waitFor(() => {
+      expect(mockNavigation.replace).toHaveBeenCalledWith("StoryEditor", {
+        sessionId: "session-1",
+      });
+    });
+    alertSpy.mockRestore();
+  });
+
+  test("imports a pasted Markdown script through update-script after confirming", async () => {
+    const { Alert } = require("react-native");
+    const alertSpy = jest
+      .spyOn(Alert, "alert")
+      .mockImplementation(
+        (
+          _title: string,
+          _message?: string,
+          buttons?: { text: string; onPress?: () => void }[],
+        ) => {
+          buttons?.find((button) => button.text === "Replace")?.onPress?.();
+        },
+      );
+    mockGetClipboardString.mockResolvedValue(
+      "# Script\n\n1. New opening\n   - search: city\n2. New ending\n",
+    );
+    mockStoryGet.mockResolvedValue({
+      ok: true,
+      data: buildSession(["Beat one"]),
+    });
+    mockStoryUpdateScript.mockResolvedValue({
+      ok: true,
+      data: buildSession(["New opening", "New ending"]),
+    });
+
+    const screen = render(<ScriptScreen />);
+
+    await waitFor(() => {
+      expect(screen.getByText("Beat one")).toBeTruthy();
+    });
+
+    fireEvent.press(screen.getByLabelText("Import or export script"));
+    await act(async () => {
+      fireEvent.press(screen.getByLabelText("Paste"));
+      await Promise.resolve();
+    });
+
+    await waitFor(() => {
+      expect(mockStoryUpdateScript).toHaveBeenCalledWith({
+        sessionId: "session-1",
+        sentences: ["New opening", "New ending"],
+      });
+    });
+    expect(alertSpy.mock.calls[0][1]).toBe(
+      "Replace 1 beat with 2 beats from the import.",
+    );
+    expect(mockRecordEdit).toHaveBeenCalledWith({
+      kind: "script",
+      label: "Script imported",
+      before: ["Beat one"],
+      after: ["New opening", "New ending"],
+    });
+    alertSpy.mockRestore();
+  });
+
+  test("post-storyboard find and replace updates each matching beat and reports stale voice", async () => {
+    const shots = [
+      { sentenceIndex: 0 },
+      { sentenceIndex: 1 },
+      { sentenceIndex: 2 },
+    ];
+    const synced = (sentences: string[], staleBeatIndices: number[]) => ({
+      ...buildSession(sentences, shots),
+      voiceSync: { state: "stale", staleScope: "beat", staleBeatIndices },
+    });
+    mockStoryGet
+      .mockResolvedValueOnce({
+        ok: true,
+        data: synced(["Acme rocks", "Nothing here", "Go Acme"], []),
+      })
+      .mockResolvedValueOnce({
+        ok: true,
+        data: synced(["Apex rocks", "Nothing here", "Go Apex"], [0, 2]),
+      });
+    mockStoryUpdateBeatText.mockResolvedValue({ ok: true, data: {} });
+
+    const screen = render(<ScriptScreen />);
+
+    await waitFor(() => {
+      expect(screen.getByText("Acme rocks")).toBeTruthy();
+    });
+
+    fireEvent.press(screen.getByLabelText("Find and replace"));
+    fireEvent.changeText(screen.getByLabelText("Find"), "acme");
+    fireEvent.changeText(screen.getByLabelText("Replace with"), "Apex");
+
+    expect(screen.getByTestId("find-replace-summary")).toHaveTextContent(
+      "2 matches in beats 1 and 3",
+    );
+    expect(screen.getByTestId("find-replace-voice-stale")).toHaveTextContent(
+      "Voice sync will go stale for beats 1 and 3.",
+    );
+
+    await act(async () => {
+      fireEvent.press(screen.getByLabelText("Replace all"));
+      await Promise.resolve();
+    });
+
+    await waitFor(() => {
+      expect(mockShowWarning).toHaveBeenCalledWith(
+        "Voice sync is now stale for beats 1 and 3. Re-sync before rendering.",
+      );
+    });
+    expect(mockStoryUpdateBeatText.mock.calls).toEqual([
+      [{ sessionId: "session-1", sentenceIndex: 0, text: "Apex rocks" }],
+      [{ sessionId: "session-1", sentenceIndex: 2, text: "Go Apex" }],
+    ]);
+    expect(mockStoryUpdateScript).not.toHaveBeenCalled();
+    expect(mockRecordEdit).toHaveBeenCalledWith({
+      kind: "beat_texts",
+      label: 'Replaced "acme" in beats 1 and 3',
+      changes: [
+        { sentenceIndex: 0, before: "Acme rocks", after: "Apex rocks" },
+        { sentenceIndex: 2, before: "Go Acme", after: "Go Apex" },
+      ],
+    });
+  });
+
+  test("post-storyboard find and replace rolls back earlier beats when one update fails", async () => {
+    const shots = [{ sentenceIndex: 0 }, { sentenceIndex: 1 }];
+    mockStoryGet.mockResolvedValue({
+      ok: true,
+      data: buildSession(["Acme rocks", "Go Acme"], shots),
+    });
+    mockStoryUpdateBeatText
+      .mockResolvedValueOnce({ ok: true, data: {} })
+      .mockResolvedValueOnce({
+        ok: false,
+        status: 500,
+        code: "SERVER_ERROR",
+        message: "boom",
+        requestId: null,
+      })
+      .mockResolvedValue({ ok: true, data: {} });
+
+    const screen = render(<ScriptScreen />);
+    await waitFor(() => {
+      expect(screen.getByText("Acme rocks")).toBeTruthy();
+    });
+
+    fireEvent.press(screen.getByLabelText("Find and replace"));
+    fireEvent.changeText(screen.getByLabelText("Find"), "acme");
+    fireEvent.changeText(screen.getByLabelText("Replace with"), "Apex");
+
+    await act(async () => {
+      fireEvent.press(screen.getByLabelText("Replace all"));
+      await Promise.resolve();
+    });
+
+    await waitFor(() => {
+      expect(mockStoryUpdateBeatText).toHaveBeenCalledTimes(3);
+    });
+    expect(mockStoryUpdateBeatText.mock.calls[2]).toEqual([
+      { sessionId: "session-1", sentenceIndex: 0, text: "Acme rocks" },
+    ]);
+    expect(mockRecordEdit).not.toHaveBeenCalled();
+  });
 });
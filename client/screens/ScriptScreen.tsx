@@ -26,29 +26,63 @@ import { useBottomTabBarHeight } from "@react-navigation/bottom-tabs";
 import { ThemedView } from "@/components/ThemedView";
 import { ThemedText } from "@/components/ThemedText";
 import { Card } from "@/components/Card";
-import { useActiveStorySession } from "@/contexts/ActiveStorySessionContext";
+import { EditHistoryControls } from "@/components/EditHistoryControls";
+import { FindReplacePanel } from "@/components/FindReplacePanel";
+import { ReorderableItem } from "@/components/ReorderableItem";
+import { ScriptTransferModal } from "@/components/ScriptTransferModal";
+import { useAuth } from "@/contexts/AuthContext";
+import { useEditHistory } from "@/contexts/EditHistoryContext";
+import { useStoryDrafts } from "@/contexts/StoryDraftsContext";
 import { Button } from "@/components/Button";
 import { useTheme } from "@/hooks/useTheme";
-import { useToast } from "@/contexts/ToastContext";
+import { useBeatReorder } from "@/hooks/useBeatReorder";
+import { useBeatTextReplace } from "@/hooks/useBeatTextReplace";
+import { useErrorToast } from "@/hooks/useErrorToast";
+import {
+  useScriptTransfer,
+  type ScriptTransferTarget,
+} from "@/hooks/useScriptTransfer";
+import { useStoryCreatePipeline } from "@/hooks/useStoryCreatePipeline";
 import { Spacing } from "@/constants/theme";
 import {
   storyDeleteBeat,
   storyGet,
-  storyPlan,
-  storySearchAll,
+  storySearchShot,
   storyUpdateBeatText,
   storyUpdateScript,
 } from "@/api/client";
+import { mergeStoryBeats, splitStoryBeat } from "@/api/storyBeatEdits";
 import { unwrapNormalized, extractBeats, StoryBeat } from "@/lib/storySession";
+import {
+  getBeatToFix,
+  MAX_BEAT_CHARS,
+  MAX_BEATS,
+  MAX_TOTAL_CHARS,
+  mergeBeatTexts,
+  splitBeatAt,
+} from "@/lib/scriptLimits";
+import {
+  estimateScriptNarration,
+  getNarrationCalibration,
+} from "@/lib/narrationEstimate";
+import { getShotClipStartSec } from "@/lib/clipTrim";
+import type { FindReplacePreview } from "@/lib/findReplace";
+import { formatRenderTimeAmount } from "@/lib/renderUsage";
+import type { ScriptExportFormat } from "@/lib/scriptTransfer";
+import {
+  getInsufficientRenderTimeMessage,
+  getSelectedShot,
+  getVoiceSyncState,
+} from "@/screens/story-editor/model";
 
 import type { HomeStackParamList } from "@/navigation/HomeStackNavigator";
 import type { StorySession } from "@/types/story";
 
-type ScriptRouteProp = RouteProp<HomeStackParamList, "Script">;
+function formatBeatCount(count: number): string {
+  return `${count} ${count === 1 ? "beat" : "beats"}`;
+}
 
-const MAX_BEAT_CHARS = 160;
-const MAX_TOTAL_CHARS = 850;
-const MAX_BEATS = 8;
+type ScriptRouteProp = RouteProp<HomeStackParamList, "Script">;
 
 export default function ScriptScreen() {
   const route = useRoute<ScriptRouteProp>();
@@ -57,21 +91,27 @@ export default function ScriptScreen() {
   const { sessionId } = route.params;
 
   const { theme } = useTheme();
-  const { showError } = useToast();
-  const { setActiveSessionId } = useActiveStorySession();
+  const { showError, showApiError } = useErrorToast();
+  const { openDraft } = useStoryDrafts();
+  const { usageSnapshot } = useAuth();
   const headerHeight = useHeaderHeight();
   const tabBarHeight = useBottomTabBarHeight();
 
   const [session, setSession] = useState<StorySession | null>(null);
   const [isLoading, setIsLoading] = useState(true);
-  const [isBuilding, setIsBuilding] = useState(false);
-  const [buildProgress, setBuildProgress] = useState<string | null>(null);
+  const {
+    buildStoryboard,
+    isRunning: isBuilding,
+    progressText: buildProgress,
+  } = useStoryCreatePipeline();
   const [ctaHeight, setCtaHeight] = useState(0);
   const listRef = useRef<FlatList<StoryBeat>>(null);
   const activeInputRef = useRef<TextInput | null>(null);
   const activeListIndexRef = useRef<number | null>(null);
   const keyboardVisibleRef = useRef(false);
   const savingSentenceIndicesRef = useRef<Set<number>>(new Set());
+  // Cursor offset in the beat being edited; split happens here.
+  const cursorRef = useRef<number | null>(null);
   const [editingSentenceIndex, setEditingSentenceIndex] = useState<
     number | null
   >(null);
@@ -82,10 +122,13 @@ export default function ScriptScreen() {
   const [isScriptUpdating, setIsScriptUpdating] = useState(false);
   const [isAddingBeat, setIsAddingBeat] = useState(false);
   const [newBeatDraft, setNewBeatDraft] = useState("");
+  const [showTransfer, setShowTransfer] = useState(false);
+  const [showFindReplace, setShowFindReplace] = useState(false);
+  const { exportScript, readScriptImport } = useScriptTransfer(session);
 
   useEffect(() => {
-    setActiveSessionId(sessionId);
-  }, [sessionId, setActiveSessionId]);
+    openDraft(sessionId, "script", session);
+  }, [openDraft, session, sessionId]);
 
   const refreshSession = useCallback(
     async ({
@@ -99,7 +142,7 @@ export default function ScriptScreen() {
       try {
         const res = await storyGet(sessionId);
         if (!res?.ok) {
-          showError(res?.message || errorMessage);
+          showApiError(res, errorMessage);
           return null;
         }
         const unwrapped = unwrapNormalized<StorySession>(res);
@@ -107,19 +150,47 @@ export default function ScriptScreen() {
         return unwrapped;
       } catch (err) {
         console.error("[script] load error:", err);
-        showError(errorMessage);
+        showApiError(err, errorMessage);
         return null;
       } finally {
         if (showLoading) setIsLoading(false);
       }
     },
-    [sessionId, showError],
+    [sessionId, showApiError],
   );
 
   useEffect(() => {
     void refreshSession({ showLoading: true });
   }, [refreshSession]);
 
+  const editHistory = useEditHistory(sessionId, () => {
+    setEditingSentenceIndex(null);
+    setDraftTexts({});
+    void refreshSession({
+      errorMessage: "Change applied, but failed to refresh. Please try again.",
+    });
+  });
+
+  const { isReordering, moveBeat } = useBeatReorder({
+    sessionId,
+    session,
+    setSession,
+    recordEdit: editHistory.record,
+    refreshSession: () =>
+      refreshSession({
+        errorMessage: "Failed to reload script. Please try again.",
+      }),
+  });
+
+  const { isReplacing, replaceBeatTexts } = useBeatTextReplace({
+    sessionId,
+    recordEdit: editHistory.record,
+    refreshSession: () =>
+      refreshSession({
+        errorMessage: "Failed to reload script. Please try again.",
+      }),
+  });
+
   const beats: StoryBeat[] = useMemo(() => extractBeats(session), [session]);
 
   const hasShots = useMemo(() => {
@@ -136,6 +207,36 @@ export default function ScriptScreen() {
     [beats],
   );
 
+  // Live projection: the beat being typed and an unsaved new beat count too.
+  const narration = useMemo(() => {
+    const sentences = beats
+      .slice()
+      .sort((left, right) => left.sentenceIndex - right.sentenceIndex)
+      .map((beat) =>
+        beat.sentenceIndex === editingSentenceIndex
+          ? (draftTexts[beat.sentenceIndex] ?? beat.text)
+          : beat.text,
+      );
+    if (isAddingBeat && newBeatDraft.trim()) sentences.push(newBeatDraft);
+    return estimateScriptNarration(
+      sentences,
+      session?.voicePacePreset,
+      getNarrationCalibration(session),
+    );
+  }, [
+    beats,
+    draftTexts,
+    editingSentenceIndex,
+    isAddingBeat,
+    newBeatDraft,
+    session,
+  ]);
+  const availableSec = usageSnapshot?.usage?.availableSec;
+  const renderTimeWarning =
+    typeof availableSec === "number" && narration.renderSec > availableSec
+      ? getInsufficientRenderTimeMessage(narration.renderSec, availableSec)
+      : null;
+
   const showCta =
     !hasShots &&
     editingSentenceIndex === null &&
@@ -143,6 +244,14 @@ export default function ScriptScreen() {
     !isAddingBeat &&
     !isScriptUpdating;
   const isEditing = editingSentenceIndex !== null;
+  const canReorder =
+    !isEditing &&
+    savingSentenceIndex === null &&
+    !isAddingBeat &&
+    !isScriptUpdating &&
+    !isReordering &&
+    !isReplacing &&
+    !editHistory.isApplying;
 
   const validateScriptSentences = useCallback(
     (sentences: string[]) => {
@@ -176,7 +285,8 @@ export default function ScriptScreen() {
       sentences: string[],
       {
         errorMessage = "Failed to update script. Please try again.",
-      }: { errorMessage?: string } = {},
+        historyLabel,
+      }: { errorMessage?: string; historyLabel?: string } = {},
     ) => {
       if (!validateScriptSentences(sentences)) return false;
 
@@ -184,12 +294,20 @@ export default function ScriptScreen() {
       try {
         const res = await storyUpdateScript({ sessionId, sentences });
         if (!res?.ok) {
-          showError(res?.message || errorMessage);
+          showApiError(res, errorMessage);
           return false;
         }
 
         const unwrapped = unwrapNormalized<StorySession>(res);
         setSession(unwrapped);
+        if (historyLabel) {
+          editHistory.record({
+            kind: "script",
+            label: historyLabel,
+            before: orderedSentences,
+            after: sentences,
+          });
+        }
         await refreshSession({
           errorMessage:
             "Script updated, but failed to refresh. Please try again.",
@@ -197,13 +315,20 @@ export default function ScriptScreen() {
         return true;
       } catch (err) {
         console.error("[script] updateScript error:", err);
-        showError(errorMessage);
+        showApiError(err, errorMessage);
         return false;
       } finally {
         setIsScriptUpdating(false);
       }
     },
-    [refreshSession, sessionId, showError, validateScriptSentences],
+    [
+      editHistory,
+      orderedSentences,
+      refreshSession,
+      sessionId,
+      showApiError,
+      validateScriptSentences,
+    ],
   );
 
   useEffect(() => {
@@ -236,40 +361,122 @@ export default function ScriptScreen() {
     };
   }, [editingSentenceIndex]);
 
-  const handleGenerateStoryboard = async () => {
-    setIsBuilding(true);
+  // Open a beat for editing, e.g. from a failure toast's "Show beat" button.
+  const focusBeat = (sentenceIndex: number) => {
+    const index = beats.findIndex(
+      (beat) => beat.sentenceIndex === sentenceIndex,
+    );
+    if (index < 0) return;
+
+    activeListIndexRef.current = index;
+    setEditingSentenceIndex(sentenceIndex);
+    cursorRef.current = null;
+    setDraftTexts((prev) => ({
+      ...prev,
+      [sentenceIndex]: prev[sentenceIndex] ?? beats[index].text,
+    }));
+    requestAnimationFrame(() => {
+      try {
+        listRef.current?.scrollToIndex({
+          index,
+          viewPosition: 0.2,
+          animated: true,
+        });
+      } catch {}
+    });
+  };
 
-    try {
-      // Step 1: Plan shots
-      setBuildProgress("Planning shots…");
-      const planResult = await storyPlan({ sessionId });
-
-      if (!planResult.ok) {
-        showError(planResult.message || "Failed to plan shots");
-        setIsBuilding(false);
-        setBuildProgress(null);
-        return;
-      }
+  const buildAndOpenStoryboard = async () => {
+    // Plan + search resume after whichever stage a previous attempt finished
+    const result = await buildStoryboard(sessionId);
+    if (!result.ok) {
+      const beatToFix = getBeatToFix(beats.map((beat) => beat.text));
+      showApiError(
+        result.failure,
+        result.fallbackMessage,
+        beatToFix === null
+          ? undefined
+          : { fix_beat: () => focusBeat(beats[beatToFix].sentenceIndex) },
+      );
+      return;
+    }
 
-      // Step 2: Search clips
-      setBuildProgress("Finding clips…");
-      const searchResult = await storySearchAll({ sessionId });
+    // Script-level steps can't be replayed once beats have clips
+    editHistory.clear();
 
-      if (!searchResult.ok) {
-        showError(searchResult.message || "Failed to find clips");
-        setIsBuilding(false);
-        setBuildProgress(null);
-        return;
-      }
+    // Success: replace Script with StoryEditor
+    navigation.replace("StoryEditor", { sessionId });
+  };
 
-      // Success: replace Script with StoryEditor
-      navigation.replace("StoryEditor", { sessionId });
-    } catch (error) {
-      console.error("[script] build error:", error);
-      showError("Failed to generate storyboard. Please try again.");
-      setIsBuilding(false);
-      setBuildProgress(null);
+  const handleGenerateStoryboard = () => {
+    if (!renderTimeWarning) {
+      void buildAndOpenStoryboard();
+      return;
     }
+    // The estimate is a heuristic, so warn rather than block
+    Alert.alert(
+      "Not enough render time",
+      `${renderTimeWarning} You can still build the storyboard and trim beats before rendering.`,
+      [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: "Generate anyway",
+          onPress: () => void buildAndOpenStoryboard(),
+        },
+      ],
+    );
+  };
+
+  const handleExportScript = (
+    format: ScriptExportFormat,
+    options: { includePlan: boolean; target: ScriptTransferTarget },
+  ) => {
+    setShowTransfer(false);
+    void exportScript(format, options);
+  };
+
+  const handleImportScript = async (source: ScriptTransferTarget) => {
+    setShowTransfer(false);
+    const sentences = await readScriptImport(source);
+    if (!sentences) return;
+
+    const clipNote = hasShots ? " Clips stay with their beat positions." : "";
+    Alert.alert(
+      "Replace script?",
+      `Replace ${formatBeatCount(beats.length)} with ${formatBeatCount(sentences.length)} from the import.${clipNote}`,
+      [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: "Replace",
+          style: "destructive",
+          onPress: () =>
+            void replacePreStoryboardScript(sentences, {
+              errorMessage: "Failed to import script. Please try again.",
+              historyLabel: "Script imported",
+            }),
+        },
+      ],
+    );
+  };
+
+  const handleApplyFindReplace = async (
+    preview: FindReplacePreview,
+    label: string,
+  ) => {
+    const applied = hasShots
+      ? await replaceBeatTexts(
+          preview.changes.map(({ sentenceIndex, before, after }) => ({
+            sentenceIndex,
+            before,
+            after,
+          })),
+          label,
+        )
+      : await replacePreStoryboardScript(preview.sentences, {
+          errorMessage: "Failed to replace text. Please try again.",
+          historyLabel: label,
+        });
+    if (applied) setShowFindReplace(false);
   };
 
   const saveBeat = async (
@@ -334,7 +541,12 @@ export default function ScriptScreen() {
         : await storyUpdateScript({ sessionId, sentences: nextSentences });
 
       if (!res?.ok) {
-        showError(res?.message || "Failed to save beat. Please try again.");
+        const failure = showApiError(
+          res,
+          "Failed to save beat. Please try again.",
+          { fix_beat: () => focusBeat(sentenceIndex) },
+        );
+        if (failure.action === "refresh") void refreshSession();
 
         // If user dismissed keyboard, don't trap them in "editing" with CTA hidden
         if (reason === "blur") closeIfCurrent();
@@ -342,6 +554,21 @@ export default function ScriptScreen() {
       }
 
       setDraftTexts((prev) => ({ ...prev, [sentenceIndex]: cleaned }));
+      editHistory.record(
+        hasShots
+          ? {
+              kind: "beat_text",
+              sentenceIndex,
+              before: current,
+              after: cleaned,
+            }
+          : {
+              kind: "script",
+              label: `Beat ${sentenceIndex + 1} edited`,
+              before: orderedSentences,
+              after: nextSentences,
+            },
+      );
       if (hasShots) {
         setSession((prev: StorySession | null) => {
           const sentences = prev?.story?.sentences;
@@ -373,7 +600,7 @@ export default function ScriptScreen() {
       });
     } catch (err) {
       console.error("[script] saveBeat error:", err);
-      showError("Failed to save beat. Please try again.");
+      showApiError(err, "Failed to save beat. Please try again.");
       if (reason === "blur") closeIfCurrent();
     } finally {
       savingSentenceIndicesRef.current.delete(sentenceIndex);
@@ -405,6 +632,7 @@ export default function ScriptScreen() {
       );
       const updated = await replacePreStoryboardScript(nextSentences, {
         errorMessage: "Failed to delete beat.",
+        historyLabel: `Beat ${sentenceIndex + 1} deleted`,
       });
       if (!updated) return;
       setEditingSentenceIndex(null);
@@ -415,11 +643,23 @@ export default function ScriptScreen() {
       return;
     }
 
+    const deletedText = orderedSentences[sentenceIndex] ?? "";
+    const deletedShot = getSelectedShot(session, sentenceIndex);
+    const deletedClipId = deletedShot?.selectedClip?.id ?? null;
+    const deletedClipStartSec = getShotClipStartSec(deletedShot);
     const res = await storyDeleteBeat({ sessionId, sentenceIndex });
     if (!res?.ok) {
-      showError(res?.message ?? "Failed to delete beat.");
+      const failure = showApiError(res, "Failed to delete beat.");
+      if (failure.action === "refresh") void refreshSession();
       return;
     }
+    editHistory.record({
+      kind: "delete_beat",
+      sentenceIndex,
+      text: deletedText,
+      clipId: deletedClipId,
+      ...(deletedClipStartSec > 0 ? { clipStartSec: deletedClipStartSec } : {}),
+    });
     await refreshSession({
       errorMessage: "Failed to reload script. Please try again.",
     });
@@ -428,6 +668,149 @@ export default function ScriptScreen() {
     setSavingSentenceIndex(null);
   };
 
+  const runBeatStructureEdit = async (
+    sentenceIndex: number,
+    edit: () => Promise<boolean>,
+  ) => {
+    if (savingSentenceIndicesRef.current.has(sentenceIndex)) return;
+    savingSentenceIndicesRef.current.add(sentenceIndex);
+    setSavingSentenceIndex(sentenceIndex);
+    try {
+      if (!(await edit())) return;
+      setEditingSentenceIndex(null);
+      setDraftTexts({});
+      cursorRef.current = null;
+    } finally {
+      savingSentenceIndicesRef.current.delete(sentenceIndex);
+      setSavingSentenceIndex((currentSaving) =>
+        currentSaving === sentenceIndex ? null : currentSaving,
+      );
+    }
+  };
+
+  const getEditedText = (sentenceIndex: number) =>
+    (
+      draftTexts[sentenceIndex] ??
+      orderedSentences[sentenceIndex] ??
+      ""
+    ).replace(/\n/g, " ");
+
+  const handleSplitBeat = async (sentenceIndex: number) => {
+    const text = getEditedText(sentenceIndex);
+    const halves = splitBeatAt(text, cursorRef.current ?? text.length);
+    if (!halves) {
+      showError("Place the cursor inside the beat where it should split.");
+      return;
+    }
+    const nextSentences = [
+      ...orderedSentences.slice(0, sentenceIndex),
+      ...halves,
+      ...orderedSentences.slice(sentenceIndex + 1),
+    ];
+
+    if (!hasShots) {
+      await runBeatStructureEdit(sentenceIndex, () =>
+        replacePreStoryboardScript(nextSentences, {
+          errorMessage: "Failed to split beat.",
+          historyLabel: `Beat ${sentenceIndex + 1} split`,
+        }),
+      );
+      return;
+    }
+    if (!validateScriptSentences(nextSentences)) return;
+
+    await runBeatStructureEdit(sentenceIndex, async () => {
+      const [head, tail] = halves;
+      const clipId =
+        getSelectedShot(session, sentenceIndex)?.selectedClip?.id ?? null;
+      const before = orderedSentences[sentenceIndex] ?? "";
+      const res = await splitStoryBeat({
+        sessionId,
+        sentenceIndex,
+        before,
+        head,
+        tail,
+        clipId,
+      });
+      if (!res.ok) {
+        showApiError(res, "Failed to split beat.");
+        // The rollback of a half-applied split is best effort.
+        void refreshSession();
+        return false;
+      }
+      editHistory.record({
+        kind: "split_beat",
+        sentenceIndex,
+        before,
+        head,
+        tail,
+        clipId,
+      });
+      // The new half starts on the original clip; fetch candidates of its own.
+      const search = await storySearchShot({
+        sessionId,
+        sentenceIndex: res.data.insertedIndex,
+      });
+      if (!search.ok) {
+        showApiError(search, "Beat split, but clip search for it failed.");
+      }
+      await refreshSession({
+        errorMessage: "Failed to reload script. Please try again.",
+      });
+      return true;
+    });
+  };
+
+  const handleMergeWithNext = async (sentenceIndex: number) => {
+    const second = orderedSentences[sentenceIndex + 1];
+    if (second === undefined) return;
+    const merged = mergeBeatTexts(getEditedText(sentenceIndex), second);
+    const nextSentences = [
+      ...orderedSentences.slice(0, sentenceIndex),
+      merged,
+      ...orderedSentences.slice(sentenceIndex + 2),
+    ];
+
+    if (!hasShots) {
+      await runBeatStructureEdit(sentenceIndex, () =>
+        replacePreStoryboardScript(nextSentences, {
+          errorMessage: "Failed to merge beats.",
+          historyLabel: `Beats ${sentenceIndex + 1} and ${sentenceIndex + 2} merged`,
+        }),
+      );
+      return;
+    }
+    if (!validateScriptSentences(nextSentences)) return;
+
+    await runBeatStructureEdit(sentenceIndex, async () => {
+      const first = orderedSentences[sentenceIndex] ?? "";
+      const res = await mergeStoryBeats({
+        sessionId,
+        sentenceIndex,
+        first,
+        text: merged,
+      });
+      if (!res.ok) {
+        showApiError(res, "Failed to merge beats.");
+        void refreshSession();
+        return false;
+      }
+      editHistory.record({
+        kind: "merge_beats",
+        sentenceIndex,
+        first,
+        second,
+        merged,
+        secondClipId:
+          getSelectedShot(session, sentenceIndex + 1)?.selectedClip?.id ?? null,
+      });
+      await refreshSession({
+        errorMessage: "Failed to reload script. Please try again.",
+      });
+      return true;
+    });
+  };
+
   const handleSaveNewBeat = async () => {
     const cleaned = newBeatDraft.replace(/\n/g, " ").trim();
     if (!cleaned) {
@@ -439,6 +822,7 @@ export default function ScriptScreen() {
       [...orderedSentences, cleaned],
       {
         errorMessage: "Failed to add beat.",
+        historyLabel: `Beat ${orderedSentences.length + 1} added`,
       },
     );
     if (!updated) return;
@@ -544,203 +928,277 @@ export default function ScriptScreen() {
     const isEditing = editingSentenceIndex === item.sentenceIndex;
     const isSaving = savingSentenceIndex === item.sentenceIndex;
     const draft = draftTexts[item.sentenceIndex] ?? item.text;
+    const canMerge = !isSaving && !isScriptUpdating;
+    const canSplit = canMerge && beats.length < MAX_BEATS;
 
     return (
-      <Card
-        elevation={1}
-        style={styles.beatCard}
-        onPress={() => {
-          // Only block if the currently edited beat is saving (not the tapped beat)
-          if (
-            savingSentenceIndex !== null &&
-            savingSentenceIndex === editingSentenceIndex
-          )
-            return;
-
-          // If switching from one beat to another while editing:
-          if (
-            editingSentenceIndex !== null &&
-            editingSentenceIndex !== item.sentenceIndex
-          ) {
-            const prevIndex = editingSentenceIndex;
-            const prevDraft =
-              draftTexts[prevIndex] ??
-              beats.find((b) => b.sentenceIndex === prevIndex)?.text ??
-              "";
-
-            // Track active beat index
-            activeListIndexRef.current = index;
-
-            // Switch immediately (keyboard stays open via autoFocus on new TextInput)
-            setEditingSentenceIndex(item.sentenceIndex);
-
-            // Ensure draft init for the new beat
-            setDraftTexts((prev) => ({
-              ...prev,
-              [item.sentenceIndex]: prev[item.sentenceIndex] ?? item.text,
-            }));
-
-            // Save previous beat AFTER the switch (fire-and-forget)
-            requestAnimationFrame(() => {
-              saveBeat(prevIndex, "blur", prevDraft);
-            });
-
-            // Scroll to new beat
-            requestAnimationFrame(() => {
-              try {
-                listRef.current?.scrollToIndex({
-                  index,
-                  viewPosition: 0.2,
-                  animated: true,
-                });
-              } catch {}
-            });
-
-            return;
-          }
-
-          // Existing toggle behavior (edit → not edit, or not edit → edit)
-          const next = isEditing ? null : item.sentenceIndex;
-
-          if (!isEditing) {
-            // Track active beat index when entering edit mode
-            activeListIndexRef.current = index;
-          }
-
-          setEditingSentenceIndex(next);
-
-          if (!isEditing) {
-            setDraftTexts((prev) => ({
-              ...prev,
-              [item.sentenceIndex]: prev[item.sentenceIndex] ?? item.text,
-            }));
-
-            // Scroll to beat when editing starts
-            requestAnimationFrame(() => {
-              try {
-                listRef.current?.scrollToIndex({
-                  index,
-                  viewPosition: 0.2,
-                  animated: true,
-                });
-              } catch {}
-            });
-          } else {
-            Keyboard.dismiss();
-          }
-        }}
+      <ReorderableItem
+        index={index}
+        count={beats.length}
+        gap={Spacing.sm}
+        enabled={canReorder}
+        accessibilityLabel={`Beat ${item.sentenceIndex + 1}`}
+        onMove={(fromIndex, toIndex) => void moveBeat(fromIndex, toIndex)}
       >
-        <View style={styles.beatHeader}>
-          <ThemedText
-            style={[styles.beatLabel, { color: theme.textSecondary }]}
-          >
-            Beat {item.sentenceIndex + 1}
-          </ThemedText>
-          <Pressable
-            accessibilityRole="button"
-            accessibilityLabel={`Delete beat ${item.sentenceIndex + 1}`}
-            onPress={() => {
-              Alert.alert(
-                "Delete beat?",
-                "This beat will be removed. You can't undo.",
-                [
+        <Card
+          elevation={1}
+          style={styles.beatCard}
+          onPress={() => {
+            // Only block if the currently edited beat is saving (not the tapped beat)
+            if (
+              savingSentenceIndex !== null &&
+              savingSentenceIndex === editingSentenceIndex
+            )
+              return;
+
+            // If switching from one beat to another while editing:
+            if (
+              editingSentenceIndex !== null &&
+              editingSentenceIndex !== item.sentenceIndex
+            ) {
+              const prevIndex = editingSentenceIndex;
+              const prevDraft =
+                draftTexts[prevIndex] ??
+                beats.find((b) => b.sentenceIndex === prevIndex)?.text ??
+                "";
+
+              // Track active beat index
+              activeListIndexRef.current = index;
+
+              // Switch immediately (keyboard stays open via autoFocus on new TextInput)
+              setEditingSentenceIndex(item.sentenceIndex);
+              cursorRef.current = null;
+
+              // Ensure draft init for the new beat
+              setDraftTexts((prev) => ({
+                ...prev,
+                [item.sentenceIndex]: prev[item.sentenceIndex] ?? item.text,
+              }));
+
+              // Save previous beat AFTER the switch (fire-and-forget)
+              requestAnimationFrame(() => {
+                saveBeat(prevIndex, "blur", prevDraft);
+              });
+
+              // Scroll to new beat
+              requestAnimationFrame(() => {
+                try {
+                  listRef.current?.scrollToIndex({
+                    index,
+                    viewPosition: 0.2,
+                    animated: true,
+                  });
+                } catch {}
+              });
+
+              return;
+            }
+
+            // Existing toggle behavior (edit → not edit, or not edit → edit)
+            const next = isEditing ? null : item.sentenceIndex;
+
+            if (!isEditing) {
+              // Track active beat index when entering edit mode
+              activeListIndexRef.current = index;
+            }
+
+            setEditingSentenceIndex(next);
+            cursorRef.current = null;
+
+            if (!isEditing) {
+              setDraftTexts((prev) => ({
+                ...prev,
+                [item.sentenceIndex]: prev[item.sentenceIndex] ?? item.text,
+              }));
+
+              // Scroll to beat when editing starts
+              requestAnimationFrame(() => {
+                try {
+                  listRef.current?.scrollToIndex({
+                    index,
+                    viewPosition: 0.2,
+                    animated: true,
+                  });
+                } catch {}
+              });
+            } else {
+              Keyboard.dismiss();
+            }
+          }}
+        >
+          <View style={styles.beatHeader}>
+            <View style={styles.beatLabelRow}>
+              <ThemedText
+                style={[styles.beatLabel, { color: theme.textSecondary }]}
+              >
+                Beat {item.sentenceIndex + 1}
+              </ThemedText>
+              <ThemedText
+                style={[styles.beatDuration, { color: theme.textSecondary }]}
+                testID={`beat-duration-${item.sentenceIndex}`}
+              >
+                ~{formatRenderTimeAmount(narration.beatSec[item.sentenceIndex])}
+              </ThemedText>
+            </View>
+            <Pressable
+              accessibilityRole="button"
+              accessibilityLabel={`Delete beat ${item.sentenceIndex + 1}`}
+              onPress={() => {
+                Alert.alert("Delete beat?", "This beat will be removed.", [
                   { text: "Cancel", style: "cancel" },
                   {
                     text: "Delete",
                     style: "destructive",
                     onPress: () => handleDeleteBeat(item.sentenceIndex),
                   },
-                ],
-              );
-            }}
-            disabled={
-              editingSentenceIndex === item.sentenceIndex ||
-              savingSentenceIndex !== null
-            }
-            style={({ pressed }) => [
-              styles.trashButton,
-              (editingSentenceIndex === item.sentenceIndex ||
-                savingSentenceIndex !== null) &&
-                styles.trashButtonDisabled,
-              pressed &&
-                !(
-                  editingSentenceIndex === item.sentenceIndex ||
-                  savingSentenceIndex !== null
-                ) && { opacity: 0.7 },
-            ]}
-            hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}
-          >
-            <Feather name="trash-2" size={16} color={theme.textSecondary} />
-          </Pressable>
-        </View>
-
-        {isEditing ? (
-          <>
-            <TextInput
-              ref={(r) => {
-                if (isEditing) activeInputRef.current = r;
+                ]);
               }}
-              style={[
-                styles.textInput,
-                {
-                  color: theme.textPrimary,
-                  backgroundColor: theme.backgroundSecondary,
-                },
+              disabled={
+                editingSentenceIndex === item.sentenceIndex ||
+                savingSentenceIndex !== null
+              }
+              style={({ pressed }) => [
+                styles.trashButton,
+                (editingSentenceIndex === item.sentenceIndex ||
+                  savingSentenceIndex !== null) &&
+                  styles.trashButtonDisabled,
+                pressed &&
+                  !(
+                    editingSentenceIndex === item.sentenceIndex ||
+                    savingSentenceIndex !== null
+                  ) && { opacity: 0.7 },
               ]}
-              value={draft}
-              onChangeText={(text) => {
-                if (text.includes("\n")) {
-                  const cleaned = text.replace(/\n/g, " ").trim();
-                  setDraftTexts((prev) => ({
-                    ...prev,
-                    [item.sentenceIndex]: cleaned,
-                  }));
-                  saveBeat(item.sentenceIndex, "submit", cleaned);
-                } else {
-                  setDraftTexts((prev) => ({
-                    ...prev,
-                    [item.sentenceIndex]: text,
-                  }));
-                }
-              }}
-              onFocus={() => {
-                activeListIndexRef.current = index;
-
-                requestAnimationFrame(() => {
-                  try {
-                    listRef.current?.scrollToIndex({
-                      index,
-                      viewPosition: keyboardVisibleRef.current ? 1 : 0.2,
-                      animated: true,
-                    });
-                  } catch {}
-                });
-              }}
-              onBlur={() => {
-                // Only save if this is still the active editing beat
-                // (prevents duplicate save when switching beats)
-                if (editingSentenceIndex === item.sentenceIndex) {
-                  saveBeat(item.sentenceIndex, "blur");
-                }
-              }}
-              multiline
-              editable={!isSaving}
-              autoFocus
-              maxLength={MAX_BEAT_CHARS}
-              placeholderTextColor={theme.textSecondary}
-            />
-            {isSaving && (
-              <View style={styles.savingIndicator}>
-                <ActivityIndicator size="small" color={theme.primary} />
+              hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}
+            >
+              <Feather name="trash-2" size={16} color={theme.textSecondary} />
+            </Pressable>
+          </View>
+
+          {isEditing ? (
+            <>
+              <TextInput
+                ref={(r) => {
+                  if (isEditing) activeInputRef.current = r;
+                }}
+                style={[
+                  styles.textInput,
+                  {
+                    color: theme.textPrimary,
+                    backgroundColor: theme.backgroundSecondary,
+                  },
+                ]}
+                value={draft}
+                onChangeText={(text) => {
+                  if (text.includes("\n")) {
+                    const cleaned = text.replace(/\n/g, " ").trim();
+                    setDraftTexts((prev) => ({
+                      ...prev,
+                      [item.sentenceIndex]: cleaned,
+                    }));
+                    saveBeat(item.sentenceIndex, "submit", cleaned);
+                  } else {
+                    setDraftTexts((prev) => ({
+                      ...prev,
+                      [item.sentenceIndex]: text,
+                    }));
+                  }
+                }}
+                onSelectionChange={(event) => {
+                  cursorRef.current = event.nativeEvent.selection.start;
+                }}
+                onFocus={() => {
+                  activeListIndexRef.current = index;
+
+                  requestAnimationFrame(() => {
+                    try {
+                      listRef.current?.scrollToIndex({
+                        index,
+                        viewPosition: keyboardVisibleRef.current ? 1 : 0.2,
+                        animated: true,
+                      });
+                    } catch {}
+                  });
+                }}
+                onBlur={() => {
+                  // Only save if this is still the active editing beat
+                  // (prevents duplicate save when switching beats)
+                  if (editingSentenceIndex === item.sentenceIndex) {
+                    saveBeat(item.sentenceIndex, "blur");
+                  }
+                }}
+                multiline
+                editable={!isSaving}
+                autoFocus
+                maxLength={MAX_BEAT_CHARS}
+                placeholderTextColor={theme.textSecondary}
+              />
+              <View style={styles.beatEditActions}>
+                <Pressable
+                  accessibilityRole="button"
+                  accessibilityLabel={`Split beat ${item.sentenceIndex + 1} at cursor`}
+                  onPress={() => void handleSplitBeat(item.sentenceIndex)}
+                  disabled={!canSplit}
+                  style={({ pressed }) => [
+                    styles.beatEditAction,
+                    !canSplit && styles.trashButtonDisabled,
+                    pressed && canSplit && { opacity: 0.7 },
+                  ]}
+                >
+                  <Feather
+                    name="scissors"
+                    size={14}
+                    color={theme.textSecondary}
+                  />
+                  <ThemedText
+                    style={[
+                      styles.beatEditActionText,
+                      { color: theme.textSecondary },
+                    ]}
+                  >
+                    Split
+                  </ThemedText>
+                </Pressable>
+                {index < beats.length - 1 && (
+                  <Pressable
+                    accessibilityRole="button"
+                    accessibilityLabel={`Merge beat ${item.sentenceIndex + 1} with next`}
+                    onPress={() => void handleMergeWithNext(item.sentenceIndex)}
+                    disabled={!canMerge}
+                    style={({ pressed }) => [
+                      styles.beatEditAction,
+                      !canMerge && styles.trashButtonDisabled,
+                      pressed && canMerge && { opacity: 0.7 },
+                    ]}
+                  >
+                    <Feather
+                      name="git-merge"
+                      size={14}
+                      color={theme.textSecondary}
+                    />
+                    <ThemedText
+                      style={[
+                        styles.beatEditActionText,
+                        { color: theme.textSecondary },
+                      ]}
+                    >
+                      Merge with next
+                    </ThemedText>
+                  </Pressable>
+                )}
               </View>
-            )}
-          </>
-        ) : (
-          <ThemedText style={[styles.beatText, { color: theme.textPrimary }]}>
-            {item.text}
-          </ThemedText>
-        )}
-      </Card>
+              {isSaving && (
+                <View style={styles.savingIndicator}>
+                  <ActivityIndicator size="small" color={theme.primary} />
+                </View>
+              )}
+            </>
+          ) : (
+            <ThemedText style={[styles.beatText, { color: theme.textPrimary }]}>
+              {item.text}
+            </ThemedText>
+          )}
+        </Card>
+      </ReorderableItem>
     );
   };
 
@@ -749,14 +1207,68 @@ export default function ScriptScreen() {
       style={[styles.container, { paddingTop: headerHeight + Spacing.sm }]}
     >
       <View style={styles.topNote}>
-        <ThemedText style={[styles.topTitle, { color: theme.textPrimary }]}>
-          Script
-        </ThemedText>
+        <View style={styles.topTitleRow}>
+          <ThemedText style={[styles.topTitle, { color: theme.textPrimary }]}>
+            Script
+          </ThemedText>
+          <View style={styles.topActions}>
+            <Pressable
+              accessibilityRole="button"
+              accessibilityLabel="Find and replace"
+              onPress={() => setShowFindReplace(true)}
+              disabled={isLoading || isEditing}
+              hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+              style={({ pressed }) => [
+                styles.topActionButton,
+                (isLoading || isEditing) && styles.trashButtonDisabled,
+                pressed && { opacity: 0.7 },
+              ]}
+            >
+              <Feather name="search" size={18} color={theme.textSecondary} />
+            </Pressable>
+            <Pressable
+              accessibilityRole="button"
+              accessibilityLabel="Import or export script"
+              onPress={() => setShowTransfer(true)}
+              disabled={isLoading}
+              hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+              style={({ pressed }) => [
+                styles.topActionButton,
+                pressed && { opacity: 0.7 },
+              ]}
+            >
+              <Feather name="share" size={18} color={theme.textSecondary} />
+            </Pressable>
+            <EditHistoryControls
+              canUndo={editHistory.canUndo && !isEditing && !isScriptUpdating}
+              canRedo={editHistory.canRedo && !isEditing && !isScriptUpdating}
+              onUndo={() => void editHistory.undo()}
+              onRedo={() => void editHistory.redo()}
+            />
+          </View>
+        </View>
         <ThemedText
           style={[styles.topSubtitle, { color: theme.textSecondary }]}
         >
           Review and edit your beats before choosing clips.
         </ThemedText>
+        {!isLoading && beats.length > 0 && (
+          <ThemedText
+            style={[styles.estimateText, { color: theme.textSecondary }]}
+            testID="script-duration-total"
+          >
+            About {formatRenderTimeAmount(narration.totalSec)} of narration ·
+            uses ~{formatRenderTimeAmount(narration.renderSec)} of render time
+          </ThemedText>
+        )}
+        {!isLoading && renderTimeWarning && (
+          <ThemedText
+            style={[styles.estimateText, styles.estimateWarning]}
+            testID="script-render-time-warning"
+          >
+            {renderTimeWarning}
+          </ThemedText>
+        )}
       </View>
 
       {isLoading ? (
@@ -837,6 +1349,26 @@ export default function ScriptScreen() {
           )}
         </KeyboardAvoidingView>
       )}
+
+      <FindReplacePanel
+        visible={showFindReplace}
+        sentences={orderedSentences}
+        hasVoiceSync={getVoiceSyncState(session) !== "never_synced"}
+        isApplying={isScriptUpdating || isReplacing}
+        onClose={() => setShowFindReplace(false)}
+        onApply={(preview, label) =>
+          void handleApplyFindReplace(preview, label)
+        }
+      />
+
+      <ScriptTransferModal
+        visible={showTransfer}
+        hasPlan={Array.isArray(session?.plan) && session.plan.length > 0}
+        disabled={isEditing || isScriptUpdating || savingSentenceIndex !== null}
+        onClose={() => setShowTransfer(false)}
+        onExport={handleExportScript}
+        onImport={(source) => void handleImportScript(source)}
+      />
     </ThemedView>
   );
 }
@@ -848,8 +1380,21 @@ const styles = StyleSheet.create({
     paddingTop: Spacing.md,
     paddingBottom: Spacing.sm,
   },
+  topTitleRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+  },
   topTitle: { fontSize: 20, fontWeight: "600" },
+  topActions: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: Spacing.xs,
+  },
+  topActionButton: { padding: Spacing.xs },
   topSubtitle: { marginTop: 6, fontSize: 13, lineHeight: 18 },
+  estimateText: { marginTop: 4, fontSize: 12, lineHeight: 16 },
+  estimateWarning: { color: "#F2B24D", fontWeight: "600" },
   listContent: {
     padding: Spacing.md,
     paddingBottom: Spacing.lg,
@@ -862,6 +1407,15 @@ const styles = StyleSheet.create({
     alignItems: "center",
     marginBottom: 8,
   },
+  beatLabelRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: Spacing.sm,
+  },
+  beatDuration: {
+    fontSize: 12,
+    fontVariant: ["tabular-nums"],
+  },
   beatLabel: {
     fontSize: 12,
     fontWeight: "600",
@@ -910,6 +1464,18 @@ const styles = StyleSheet.create({
     minHeight: 90,
     textAlignVertical: "top",
   },
+  beatEditActions: {
+    flexDirection: "row",
+    gap: Spacing.md,
+    marginTop: Spacing.sm,
+  },
+  beatEditAction: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: Spacing.xs,
+    paddingVertical: Spacing.xs,
+  },
+  beatEditActionText: { fontSize: 13, fontWeight: "600" },
   savingIndicator: {
     marginTop: Spacing.sm,
     alignItems: "center",
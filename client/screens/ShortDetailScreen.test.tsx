@@ -157,7 +157,7 @@ describe("client/screens/ShortDetailScreen", () => {
     });
   });
 
-  test("treats non-404 detail failures as terminal and surfaces the current error message", async () => {
+  test("treats non-404 detail failures as terminal and surfaces the catalog message", async () => {
     mockGetShortDetail.mockResolvedValue({
       ok: false,
       status: 500,
@@ -169,7 +169,9 @@ describe("client/screens/ShortDetailScreen", () => {
     render(<ShortDetailScreen />);
 
     await waitFor(() => {
-      expect(mockShowError).toHaveBeenCalledWith("Backend unavailable");
+      expect(mockShowError).toHaveBeenCalledWith(
+        "Something went wrong. Please try again.",
+      );
     });
   });
 });
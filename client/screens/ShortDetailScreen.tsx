@@ -1,4 +1,4 @@
-import React from "react";
+import React, { useMemo } from "react";
 import {
   ActivityIndicator,
   Pressable,
@@ -9,15 +9,18 @@ import { SafeAreaView, useSafeAreaInsets } from "react-native-safe-area-context"
 import { useHeaderHeight } from "@react-navigation/elements";
 import { RouteProp, useNavigation, useRoute } from "@react-navigation/native";
 import { Feather } from "@expo/vector-icons";
+import * as Clipboard from "expo-clipboard";
 
 import { ThemedText } from "@/components/ThemedText";
 import { ThemedView } from "@/components/ThemedView";
 import { Card } from "@/components/Card";
+import { ClipCreditsList } from "@/components/ClipCreditsList";
 import { KeyboardAwareScrollViewCompat } from "@/components/KeyboardAwareScrollViewCompat";
 import { ShortMediaViewer } from "@/components/shorts/ShortMediaViewer";
-import { useToast } from "@/contexts/ToastContext";
 import { BorderRadius, Spacing } from "@/constants/theme";
+import { useErrorToast } from "@/hooks/useErrorToast";
 import { useTheme } from "@/hooks/useTheme";
+import { buildClipCredits, formatClipCreditsCaption } from "@/lib/clipCredits";
 import { LibraryStackParamList } from "@/navigation/LibraryStackNavigator";
 
 import { formatShortDate, isImageUrl, isVideoUrl } from "@/screens/short-detail/model";
@@ -41,7 +44,7 @@ export default function ShortDetailScreen() {
   const route = useRoute<ShortDetailRouteProp>();
   const navigation = useNavigation();
   const { theme } = useTheme();
-  const { showError } = useToast();
+  const { showApiError, showError, showSuccess } = useErrorToast();
 
   const params = route.params ?? {};
   const shortParam = params.short ?? null;
@@ -58,13 +61,28 @@ export default function ShortDetailScreen() {
     navigation,
     shortId,
     shortParam,
-    showError,
+    showApiError,
   });
 
   const mediaUrl = short?.videoUrl ?? null;
   const isVideo = mediaUrl ? isVideoUrl(mediaUrl) : false;
   const isImage = mediaUrl ? isImageUrl(mediaUrl) : false;
 
+  const creditGroups = useMemo(
+    () => buildClipCredits(short?.clips ?? []),
+    [short?.clips],
+  );
+
+  const handleCopyCredits = async () => {
+    try {
+      await Clipboard.setStringAsync(formatClipCreditsCaption(creditGroups));
+      showSuccess("Credits copied to clipboard.");
+    } catch (error) {
+      console.error("[credits] copy failed:", error);
+      showError("Couldn't copy credits. Please try again.");
+    }
+  };
+
   useMediaReachability({
     isImage,
     isVideo,
@@ -184,6 +202,16 @@ export default function ShortDetailScreen() {
                   </ThemedText>
                 </View>
               </Card>
+
+              {creditGroups.length > 0 ? (
+                <Card style={styles.creditsCard}>
+                  <ThemedText style={styles.sectionTitle}>Credits</ThemedText>
+                  <ClipCreditsList
+                    groups={creditGroups}
+                    onCopy={() => void handleCopyCredits()}
+                  />
+                </Card>
+              ) : null}
             </>
           )}
         </KeyboardAwareScrollViewCompat>
@@ -207,6 +235,12 @@ const styles = StyleSheet.create({
     fontSize: 14,
     color: COLORS.textSecondary,
   },
+  creditsCard: {
+    marginTop: Spacing.lg,
+    borderWidth: 1,
+    borderColor: COLORS.border,
+    borderRadius: BorderRadius.sm,
+  },
   metaCard: {
     borderWidth: 1,
     borderColor: COLORS.border,
@@ -25,8 +25,9 @@ const mockTabNavigator = {
 const mockShowError = jest.fn();
 const mockShowWarning = jest.fn();
 const mockShowSuccess = jest.fn();
+const mockShowToast = jest.fn();
 const mockRefreshUsage = jest.fn(async () => {});
-const mockSetActiveSessionId = jest.fn();
+const mockOpenDraft = jest.fn();
 const mockStoryGet = jest.fn();
 const mockStoryFinalize = jest.fn();
 const mockLoadStoredAttempt = jest.fn();
@@ -72,6 +73,7 @@ jest.mock("@/contexts/ToastContext", () => ({
     showError: mockShowError,
     showWarning: mockShowWarning,
     showSuccess: mockShowSuccess,
+    showToast: mockShowToast,
   }),
 }));
 
@@ -83,9 +85,45 @@ jest.mock("@/contexts/AuthContext", () => ({
   }),
 }));
 
-jest.mock("@/contexts/ActiveStorySessionContext", () => ({
-  useActiveStorySession: () => ({
-    setActiveSessionId: mockSetActiveSessionId,
+jest.mock("@/contexts/EditHistoryContext", () => ({
+  useEditHistory: () => ({
+    canUndo: false,
+    canRedo: false,
+    isApplying: false,
+    record: jest.fn(),
+    undo: jest.fn(),
+    redo: jest.fn(),
+    clear: jest.fn(),
+  }),
+}));
+
+jest.mock("@/contexts/StoryDraftsContext", () => ({
+  useStoryDrafts: () => ({
+    openDraft: mockOpenDraft,
+  }),
+}));
+
+jest.mock("@/contexts/ClipCollectionsContext", () => ({
+  useClipCollections: () => ({
+    isFavorite: () => false,
+    toggleFavorite: jest.fn(),
+  }),
+}));
+
+jest.mock("@/contexts/CaptionPresetsContext", () => ({
+  useCaptionPresets: () => ({
+    presets: [],
+    defaultPresetId: null,
+    savePreset: jest.fn(),
+    deletePreset: jest.fn(),
+    setDefaultPreset: jest.fn(),
+  }),
+}));
+
+jest.mock("@/hooks/useCaptionPresetTransfer", () => ({
+  useCaptionPresetTransfer: () => ({
+    exportPresets: jest.fn(),
+    importPresets: jest.fn(),
   }),
 }));
 
@@ -106,6 +144,7 @@ jest.mock("@/api/client", () => ({
   storyUpdateBeatText: jest.fn(),
   storyUpdateCaptionStyle: jest.fn(),
   storyDeleteBeat: jest.fn(),
+  extractStyleWhitelist: () => undefined,
 }));
 
 jest.mock("@/components/story-editor/StoryPreviewShell", () => ({
@@ -197,8 +236,9 @@ describe("client/screens/StoryEditorScreen", () => {
     mockShowError.mockClear();
     mockShowWarning.mockClear();
     mockShowSuccess.mockClear();
+    mockShowToast.mockClear();
     mockRefreshUsage.mockClear();
-    mockSetActiveSessionId.mockClear();
+    mockOpenDraft.mockClear();
     mockStoryGet.mockReset();
     mockStoryFinalize.mockReset();
     mockLoadStoredAttempt.mockReset();
@@ -338,10 +378,72 @@ describe("client/screens/StoryEditorScreen", () => {
       getHeaderProps().onRenderPress();
     });
 
-    expect(mockShowError).toHaveBeenCalledWith(
+    expect(mockShowToast).toHaveBeenCalledWith(
       "Not enough render time. Estimated usage is 12s. You have 5s left.",
+      "error",
+      { label: "Render time", onPress: expect.any(Function) },
     );
     expect(mockStoryFinalize).not.toHaveBeenCalled();
+
+    const [, , action] = mockShowToast.mock.calls.at(-1) as [
+      string,
+      string,
+      { onPress: () => void },
+    ];
+    action.onPress();
+    expect(mockTabNavigator.navigate).toHaveBeenCalledWith("SettingsTab");
+  });
+
+  test("offers to show the beat without a clip when finalize reports missing coverage", async () => {
+    const session = buildSession({
+      story: { sentences: ["Beat one", "Beat two"] },
+    });
+    mockStoryGet.mockResolvedValue({ ok: true, data: session });
+    mockStoryFinalize.mockResolvedValue({
+      ok: false,
+      status: 400,
+      code: "MISSING_CLIP_COVERAGE",
+      message: "MISSING_CLIP_COVERAGE",
+      requestId: "request-coverage",
+    });
+    jest
+      .spyOn(Alert, "alert")
+      .mockImplementation((_title, _message, buttons) => {
+        const renderButton = buttons?.[1] as
+          | { onPress?: () => void }
+          | undefined;
+        renderButton?.onPress?.();
+      });
+
+    render(<StoryEditorScreen />);
+
+    await waitFor(() => {
+      expect(mockNavigation.setOptions).toHaveBeenCalled();
+    });
+
+    await act(async () => {
+      getHeaderProps().onRenderPress();
+    });
+
+    await waitFor(() => {
+      expect(mockShowToast).toHaveBeenCalledWith(
+        "Some beats still need a clip. Pick clips for them and try again.",
+        "error",
+        { label: "Show beat", onPress: expect.any(Function) },
+      );
+    });
+
+    const [, , action] = mockShowToast.mock.calls.at(-1) as [
+      string,
+      string,
+      { onPress: () => void },
+    ];
+    act(() => {
+      action.onPress();
+    });
+    expect(mockStoryDeckRender.mock.calls.at(-1)?.[0]).toMatchObject({
+      selectedSentenceIndex: 1,
+    });
   });
 
   test("persists the active attempt and recovers an accepted 202 finalize to success", async () => {
@@ -2,6 +2,7 @@ import React, {
   useCallback,
   useEffect,
   useLayoutEffect,
+  useMemo,
   useRef,
   useState,
 } from "react";
@@ -24,29 +25,63 @@ import {
 import { RouteProp, useNavigation, useRoute } from "@react-navigation/native";
 import { useBottomTabBarHeight } from "@react-navigation/bottom-tabs";
 import { NativeStackNavigationProp } from "@react-navigation/native-stack";
+import * as Clipboard from "expo-clipboard";
 import * as Haptics from "expo-haptics";
 
 import { ThemedText } from "@/components/ThemedText";
 import { ThemedView } from "@/components/ThemedView";
 import { FlowTabsHeader } from "@/components/FlowTabsHeader";
+import { FindReplacePanel } from "@/components/FindReplacePanel";
 import { BeatActionsModal } from "@/components/story-editor/BeatActionsModal";
+import {
+  InsertBeatModal,
+  type BeatInsertTarget,
+} from "@/components/story-editor/InsertBeatModal";
 import { BeatEditorPanel } from "@/components/story-editor/BeatEditorPanel";
+import { CaptionStyleSheet } from "@/components/story-editor/CaptionStyleSheet";
+import { ClipCreditsSheet } from "@/components/story-editor/ClipCreditsSheet";
+import { ClipTrimSheet } from "@/components/story-editor/ClipTrimSheet";
 import { StoryboardSurface } from "@/components/story-editor/StoryboardSurface";
 import { StoryPreviewShell } from "@/components/story-editor/StoryPreviewShell";
 import { StoryDeck } from "@/components/story-editor/StoryDeck";
 import { useAuth } from "@/contexts/AuthContext";
-import { useToast } from "@/contexts/ToastContext";
+import { useCaptionPresets } from "@/contexts/CaptionPresetsContext";
+import { useClipCollections } from "@/contexts/ClipCollectionsContext";
+import { useEditHistory } from "@/contexts/EditHistoryContext";
 import { Spacing } from "@/constants/theme";
+import { useBeatReorder } from "@/hooks/useBeatReorder";
+import { useBeatTextReplace } from "@/hooks/useBeatTextReplace";
+import { useCaptionPresetTransfer } from "@/hooks/useCaptionPresetTransfer";
+import { useClipCandidateSwap } from "@/hooks/useClipCandidateSwap";
+import { useClipTrim } from "@/hooks/useClipTrim";
+import { useErrorToast } from "@/hooks/useErrorToast";
 import { useTheme } from "@/hooks/useTheme";
 import { HomeStackParamList } from "@/navigation/HomeStackNavigator";
+import {
+  formatClipCreditsCaption,
+  getSessionClipCredits,
+} from "@/lib/clipCredits";
+import { getCaptionPositionFromOverlay } from "@/lib/captionPosition";
+import {
+  buildCaptionPresetStyle,
+  getCaptionPresetOverlay,
+  type CaptionPreset,
+} from "@/lib/captionPresets";
+import { getShotClipStartSec } from "@/lib/clipTrim";
+import type { FindReplacePreview } from "@/lib/findReplace";
+import { estimateBeatNarrationSec } from "@/lib/narrationEstimate";
 import { getEstimatedUsageSec } from "@/lib/renderUsage";
+import { findBeatNeedingFix } from "@/lib/storySession";
 
 import {
-  CAPTION_PLACEMENTS,
+  type CaptionPosition,
   getSelectedShot,
+  getShotClipOptions,
   getVoiceSyncBlockedMessage,
+  getVoiceSyncState,
 } from "@/screens/story-editor/model";
 import { useStoryEditorCaptionPlacement } from "@/screens/story-editor/useStoryEditorCaptionPlacement";
+import { useStoryEditorCaptionStyle } from "@/screens/story-editor/useStoryEditorCaptionStyle";
 import { useStoryEditorFinalize } from "@/screens/story-editor/useStoryEditorFinalize";
 import { useStoryEditorSession } from "@/screens/story-editor/useStoryEditorSession";
 import { useStep3SessionModel } from "@/screens/story-editor/useStep3SessionModel";
@@ -188,8 +223,12 @@ export default function StoryEditorScreen() {
   const navigation = useNavigation<StoryEditorNavProp>();
   const { sessionId } = route.params;
   const { theme } = useTheme();
-  const { showError, showSuccess, showWarning } = useToast();
+  const { showApiError, showError, showSuccess, showToast, showWarning } =
+    useErrorToast();
   const { refreshUsage, usageSnapshot, user } = useAuth();
+  const { isFavorite, toggleFavorite } = useClipCollections();
+  const captionPresets = useCaptionPresets();
+  const captionPresetTransfer = useCaptionPresetTransfer();
   const availableSec = usageSnapshot?.usage?.availableSec ?? 0;
   const tabBarHeight = useBottomTabBarHeight();
   const unifiedStoryboardSurfaceEnabled = isUnifiedStoryboardSurfaceEnabled();
@@ -197,6 +236,16 @@ export default function StoryEditorScreen() {
   const [showBeatActionsForIndex, setShowBeatActionsForIndex] = useState<
     number | null
   >(null);
+  const [insertTarget, setInsertTarget] = useState<BeatInsertTarget | null>(
+    null,
+  );
+  const [trimSentenceIndex, setTrimSentenceIndex] = useState<number | null>(
+    null,
+  );
+  const [showFindReplace, setShowFindReplace] = useState(false);
+  const [showCredits, setShowCredits] = useState(false);
+  const [showCaptionStyle, setShowCaptionStyle] = useState(false);
+  const [isApplyingPreset, setIsApplyingPreset] = useState(false);
   const [keyboardVisible, setKeyboardVisible] = useState(false);
   const [editorCollapsed, setEditorCollapsed] = useState(false);
   const [deckAreaH, setDeckAreaH] = useState(0);
@@ -214,20 +263,37 @@ export default function StoryEditorScreen() {
   const editorTranslateY = useRef(new RNAnimated.Value(0)).current;
   const renderAreaHRef = useRef(0);
 
+  const editHistory = useEditHistory(sessionId, (command) => {
+    void reloadSession();
+    // Beat text and order changes invalidate the per-index caption rasters
+    if (
+      command.kind !== "shot" &&
+      command.kind !== "clip_trim" &&
+      command.kind !== "caption_placement"
+    ) {
+      resetPlacementPreviews();
+    }
+  });
+
   const {
     beats,
     beatTexts,
     handleDeleteBeat,
+    handleInsertBeat,
     handleSaveBeat,
+    isInserting,
     isLoading,
     markShouldRefresh,
+    reloadSession,
     savingByIndex,
     selectedSentenceIndex,
     session,
     setSelectedSentenceIndex,
     setSession,
   } = useStoryEditorSession({
+    recordEdit: editHistory.record,
     sessionId,
+    showApiError,
     showError,
   });
 
@@ -238,29 +304,76 @@ export default function StoryEditorScreen() {
           ?.text ??
         "")
       : "";
-  const serverPlacement = CAPTION_PLACEMENTS.includes(
-    session?.overlayCaption?.placement as (typeof CAPTION_PLACEMENTS)[number],
-  )
-    ? (session?.overlayCaption
-        ?.placement as (typeof CAPTION_PLACEMENTS)[number])
-    : undefined;
+  const overlayCaption = session?.overlayCaption;
+  const serverPosition = useMemo(
+    () => getCaptionPositionFromOverlay(overlayCaption),
+    [overlayCaption],
+  );
+
+  const recordEdit = editHistory.record;
+  const handlePlacementPersisted = useCallback(
+    (previous: CaptionPosition, next: CaptionPosition) => {
+      recordEdit({ kind: "caption_placement", before: previous, after: next });
+    },
+    [recordEdit],
+  );
+
+  const {
+    applyCaptionPreset,
+    captionStyle,
+    resetCaptionStyle,
+    updateCaptionStyle,
+  } = useStoryEditorCaptionStyle({ session, sessionId, showApiError });
 
   const {
     captionPlacement,
+    captionPosition,
     handlePlacementChange,
+    handlePositionChange,
     isLoadingByIndex,
     previewByIndex,
     resetPlacementPreviews,
   } = useStoryEditorCaptionPlacement({
     beats,
-    canPrefetch: () => !isEditingRef.current && !keyboardVisibleRef.current,
+    canPrefetch: () =>
+      !isEditingRef.current && !keyboardVisibleRef.current && !showCaptionStyle,
+    captionStyle,
     committedText,
+    onPlacementPersisted: handlePlacementPersisted,
     selectedSentenceIndex,
-    serverPlacement,
+    serverPosition,
     sessionId,
     showError,
   });
 
+  const selectedCaptionPreview =
+    selectedSentenceIndex !== null
+      ? (previewByIndex[selectedSentenceIndex] ?? null)
+      : null;
+  const isSelectedCaptionLoading =
+    selectedSentenceIndex !== null &&
+    Boolean(isLoadingByIndex[selectedSentenceIndex]);
+
+  const handleApplyCaptionPreset = useCallback(
+    async (preset: CaptionPreset) => {
+      setIsApplyingPreset(true);
+      const applied = await applyCaptionPreset(getCaptionPresetOverlay(preset));
+      setIsApplyingPreset(false);
+      // The placement comes back through `serverPosition`.
+      if (applied) void reloadSession();
+    },
+    [applyCaptionPreset, reloadSession],
+  );
+
+  const handleSaveCaptionPreset = useCallback(
+    (name: string) =>
+      captionPresets.savePreset(
+        name,
+        buildCaptionPresetStyle(captionStyle, captionPosition),
+      ) !== null,
+    [captionPosition, captionPresets, captionStyle],
+  );
+
   const estimatedSec = getEstimatedUsageSec(session);
   const canAttemptRender = Boolean(usageSnapshot);
   const {
@@ -299,6 +412,7 @@ export default function StoryEditorScreen() {
     session,
     sessionId,
     setSession,
+    showApiError,
     showError,
     showSuccess,
     showWarning,
@@ -308,6 +422,11 @@ export default function StoryEditorScreen() {
     (isSyncing
       ? "Voice sync is still running. Please wait for it to finish."
       : null) ?? getVoiceSyncBlockedMessage(session, hasLocalVoiceDraft);
+  const handleFixBeat = useCallback(() => {
+    // The selection effect scrolls the deck to the beat.
+    const sentenceIndex = findBeatNeedingFix(session);
+    if (sentenceIndex !== null) setSelectedSentenceIndex(sentenceIndex);
+  }, [session, setSelectedSentenceIndex]);
   const {
     handleRender,
     isRendering,
@@ -318,13 +437,16 @@ export default function StoryEditorScreen() {
     availableSec,
     estimatedSec,
     navigation,
+    onFixBeat: handleFixBeat,
     refreshUsage,
     renderBlockedMessage,
     session,
     sessionId,
     setSession,
+    showApiError,
     showError,
     showSuccess,
+    showToast,
     showWarning,
     usageLoaded: Boolean(usageSnapshot),
     userId: user?.uid,
@@ -537,6 +659,77 @@ export default function StoryEditorScreen() {
     [previewSentenceIndex, setSelectedSentenceIndex],
   );
 
+  const { isReordering, moveBeat } = useBeatReorder({
+    sessionId,
+    session,
+    setSession,
+    recordEdit,
+    refreshSession: reloadSession,
+  });
+
+  const { isReplacing, replaceBeatTexts } = useBeatTextReplace({
+    sessionId,
+    recordEdit,
+    refreshSession: reloadSession,
+  });
+
+  const { isSwapping, swapClip, swappingClipId } = useClipCandidateSwap({
+    sessionId,
+    session,
+    setSession,
+    recordEdit,
+  });
+
+  const { isTrimming, saveClipStart } = useClipTrim({
+    sessionId,
+    session,
+    setSession,
+    recordEdit,
+  });
+
+  const orderedSentences = useMemo(
+    () =>
+      beats
+        .slice()
+        .sort((left, right) => left.sentenceIndex - right.sentenceIndex)
+        .map((beat) => beat.text),
+    [beats],
+  );
+
+  const handleApplyFindReplace = useCallback(
+    async (preview: FindReplacePreview, label: string) => {
+      const applied = await replaceBeatTexts(
+        preview.changes.map(({ sentenceIndex, before, after }) => ({
+          sentenceIndex,
+          before,
+          after,
+        })),
+        label,
+      );
+      if (!applied) return;
+      // Caption rasters are rendered from beat text.
+      resetPlacementPreviews();
+      setShowFindReplace(false);
+    },
+    [replaceBeatTexts, resetPlacementPreviews],
+  );
+
+  const handleMoveBeat = useCallback(
+    async (fromIndex: number, toIndex: number) => {
+      const moved = await moveBeat(fromIndex, toIndex);
+      if (!moved) return;
+      // Caption rasters are cached per index; moved beats now sit elsewhere.
+      resetPlacementPreviews();
+      selectionFromDeckRef.current = true;
+      deckListRef.current?.scrollToOffset({
+        offset: toIndex * cardStep,
+        animated: true,
+      });
+      setSelectedSentenceIndex(toIndex);
+    },
+    [cardStep, moveBeat, resetPlacementPreviews, setSelectedSentenceIndex],
+  );
+
   const handleReplaceClip = useCallback(
     (sentenceIndex: number) => {
       const shot = session ? getSelectedShot(session, sentenceIndex) : null;
@@ -546,11 +739,53 @@ export default function StoryEditorScreen() {
         sessionId,
         sentenceIndex,
         initialQuery: shot?.searchQuery ?? "",
+        currentClipId: shot?.selectedClip?.id,
+        currentClip: shot?.selectedClip ?? undefined,
+        currentClipStartSec: getShotClipStartSec(shot),
       });
     },
     [markShouldRefresh, navigation, session, sessionId],
   );
 
+  const handleOpenClipTrim = useCallback((sentenceIndex: number) => {
+    setShowBeatActionsForIndex(null);
+    setTrimSentenceIndex(sentenceIndex);
+  }, []);
+
+  const handleSaveClipTrim = useCallback(
+    async (clipStartSec: number) => {
+      if (trimSentenceIndex === null) return;
+      const saved = await saveClipStart(trimSentenceIndex, clipStartSec);
+      if (saved) setTrimSentenceIndex(null);
+    },
+    [saveClipStart, trimSentenceIndex],
+  );
+
+  const handleToggleFavoriteClip = useCallback(
+    (sentenceIndex: number) => {
+      const clip = getSelectedShot(session, sentenceIndex)?.selectedClip;
+      if (!clip) return;
+      const wasFavorite = isFavorite(clip);
+      toggleFavorite(clip);
+      showSuccess(
+        wasFavorite ? "Removed from favorites" : "Added to favorites",
+      );
+    },
+    [isFavorite, session, showSuccess, toggleFavorite],
+  );
+
+  const creditGroups = useMemo(() => getSessionClipCredits(session), [session]);
+
+  const handleCopyCredits = useCallback(async () => {
+    try {
+      await Clipboard.setStringAsync(formatClipCreditsCaption(creditGroups));
+      showSuccess("Credits copied to clipboard.");
+    } catch (error) {
+      console.error("[credits] copy failed:", error);
+      showError("Couldn't copy credits. Please try again.");
+    }
+  }, [creditGroups, showError, showSuccess]);
+
   const handleDeleteBeatFromModal = useCallback(
     (sentenceIndex: number) => {
       setShowBeatActionsForIndex(null);
@@ -561,6 +796,38 @@ export default function StoryEditorScreen() {
     [handleDeleteBeat, resetPlacementPreviews],
   );
 
+  const handleOpenInsertBeat = useCallback(
+    (sentenceIndex: number, position: BeatInsertTarget["position"]) => {
+      setShowBeatActionsForIndex(null);
+      setInsertTarget({ sentenceIndex, position });
+    },
+    [],
+  );
+
+  const handleSubmitInsertBeat = useCallback(
+    async (text: string) => {
+      if (!insertTarget) return;
+      const { sentenceIndex, position } = insertTarget;
+      await handleInsertBeat(
+        position === "before" ? sentenceIndex - 1 : sentenceIndex,
+        text,
+        {
+          onInserted: (insertedIndex) => {
+            // Every beat after the insert shifts, so per-index rasters are stale.
+            resetPlacementPreviews();
+            setInsertTarget(null);
+            selectionFromDeckRef.current = true;
+            deckListRef.current?.scrollToOffset({
+              offset: insertedIndex * cardStep,
+              animated: true,
+            });
+          },
+        },
+      );
+    },
+    [cardStep, handleInsertBeat, insertTarget, resetPlacementPreviews],
+  );
+
   const handleSaveSelectedBeat = useCallback(
     async (text: string) => {
       if (selectedSentenceIndex === null) return;
@@ -653,10 +920,47 @@ export default function StoryEditorScreen() {
       ? (beats.find((beat) => beat.sentenceIndex === selectedSentenceIndex) ??
         null)
       : null;
+  const selectedShot = selectedBeat
+    ? getSelectedShot(session, selectedBeat.sentenceIndex)
+    : null;
+  const actionsShot =
+    showBeatActionsForIndex !== null
+      ? getSelectedShot(session, showBeatActionsForIndex)
+      : null;
+  const trimShot =
+    trimSentenceIndex !== null
+      ? getSelectedShot(session, trimSentenceIndex)
+      : null;
+  const trimRailItem =
+    trimSentenceIndex !== null
+      ? beatRailItems.find((item) => item.sentenceIndex === trimSentenceIndex)
+      : undefined;
+  // The window matches what plays under the beat: synced timing when known.
+  const trimBeatDurationSec =
+    trimRailItem?.durationSec ??
+    trimShot?.durationSec ??
+    estimateBeatNarrationSec(
+      beats.find((beat) => beat.sentenceIndex === trimSentenceIndex)?.text ??
+        "",
+      session?.voicePacePreset,
+    );
   const isSaving =
-    selectedSentenceIndex !== null
+    isReordering ||
+    isTrimming ||
+    isInserting ||
+    isReplacing ||
+    (selectedSentenceIndex !== null
       ? savingByIndex[selectedSentenceIndex] || false
-      : false;
+      : false);
+  const reorderEnabled =
+    !keyboardVisible &&
+    !isReordering &&
+    !isInserting &&
+    !isReplacing &&
+    !isSwapping &&
+    !isTrimming &&
+    !editHistory.isApplying &&
+    !Object.values(savingByIndex).some(Boolean);
 
   return (
     <ThemedView
@@ -672,11 +976,20 @@ export default function StoryEditorScreen() {
         <StoryboardSurface
           activeSentenceIndex={activeDeckSentenceIndex}
           blockedMessage={previewBlockedMessage}
+          captionLayout={{
+            isLoading: isSelectedCaptionLoading,
+            onPositionChange: handlePositionChange,
+            onWidthChange: (wPct) => updateCaptionStyle({ wPct }),
+            position: captionPosition,
+            preview: selectedCaptionPreview,
+            wPct: captionStyle.wPct,
+          }}
           currentPreviewBeatLabel={currentPreviewBeatLabel}
           helperBannerCopy={previewWorkspaceChrome.helperBannerCopy}
           isPreviewAvailable={isPreviewAvailable}
           isPreviewPlaying={isPreviewPlaying}
           maxVideoHeight={unifiedPreviewMaxVideoHeight}
+          onInsertBeat={isInserting ? undefined : handleOpenInsertBeat}
           onLongPressBeat={setShowBeatActionsForIndex}
           onOpenVoiceSync={openVoiceSyncModal}
           onPressBeat={handleDeckCardPress}
@@ -762,9 +1075,13 @@ export default function StoryEditorScreen() {
             onDeckLayout={onDeckLayout}
             onDeckScroll={onDeckScroll}
             onLongPressBeat={setShowBeatActionsForIndex}
+            onMoveBeat={(fromIndex, toIndex) =>
+              void handleMoveBeat(fromIndex, toIndex)
+            }
             onPressBeat={handleDeckCardPress}
             onVisibleBeatChange={handleVisibleBeatChange}
             previewByIndex={previewByIndex}
+            reorderEnabled={reorderEnabled}
             scrollX={scrollX}
             selectedSentenceIndex={activeDeckSentenceIndex}
             session={session}
@@ -777,11 +1094,17 @@ export default function StoryEditorScreen() {
       {selectedBeat ? (
         <BeatEditorPanel
           captionPlacement={captionPlacement}
+          clipOptions={getShotClipOptions(selectedShot)}
           draftText={draftText}
           editorCollapsed={editorCollapsed}
           editorTranslateY={editorTranslateY}
+          canRedo={editHistory.canRedo && !isSaving && !isSwapping}
+          canUndo={editHistory.canUndo && !isSaving && !isSwapping}
           isSaving={isSaving}
           onChangeDraftText={setDraftText}
+          onFindReplace={() => setShowFindReplace(true)}
+          onShowCaptionStyle={() => setShowCaptionStyle(true)}
+          onShowCredits={() => setShowCredits(true)}
           onFocus={() => {
             if (__DEV__) console.log("[beat] onFocus");
             isEditingRef.current = true;
@@ -792,10 +1115,17 @@ export default function StoryEditorScreen() {
             }
           }}
           onPlacementChange={handlePlacementChange}
+          onRedo={() => void editHistory.redo()}
           onSave={handleSaveSelectedBeat}
+          onSelectClip={(clip) =>
+            void swapClip(selectedBeat.sentenceIndex, clip)
+          }
           onShowActions={setShowBeatActionsForIndex}
           onToggleCollapsed={toggleEditorCollapsed}
+          onUndo={() => void editHistory.undo()}
           selectedBeat={selectedBeat}
+          selectedClipId={selectedShot?.selectedClip?.id ?? null}
+          swappingClipId={swappingClipId}
           textInputRef={textInputRef}
           theme={theme}
         />
@@ -878,12 +1208,82 @@ export default function StoryEditorScreen() {
       </Modal>
 
       <BeatActionsModal
+        isClipFavorite={isFavorite(actionsShot?.selectedClip)}
         onClose={() => setShowBeatActionsForIndex(null)}
         onDeleteBeat={handleDeleteBeatFromModal}
+        onInsertBeat={handleOpenInsertBeat}
         onReplaceClip={handleReplaceClip}
+        onToggleFavoriteClip={
+          actionsShot?.selectedClip ? handleToggleFavoriteClip : undefined
+        }
+        onTrimClip={
+          actionsShot?.selectedClip?.url ? handleOpenClipTrim : undefined
+        }
         selectedSentenceIndex={showBeatActionsForIndex}
         theme={theme}
       />
+
+      <ClipTrimSheet
+        beatDurationSec={trimBeatDurationSec}
+        clip={trimShot?.selectedClip ?? null}
+        initialStartSec={getShotClipStartSec(trimShot)}
+        isSaving={isTrimming}
+        onClose={() => setTrimSentenceIndex(null)}
+        onSave={(clipStartSec) => void handleSaveClipTrim(clipStartSec)}
+        sentenceIndex={trimSentenceIndex}
+        theme={theme}
+      />
+
+      <CaptionStyleSheet
+        captionStyle={captionStyle}
+        isPreviewLoading={isSelectedCaptionLoading}
+        onChange={updateCaptionStyle}
+        onClose={() => setShowCaptionStyle(false)}
+        onReset={resetCaptionStyle}
+        presets={{
+          defaultPresetId: captionPresets.defaultPresetId,
+          isApplying: isApplyingPreset,
+          onApply: (preset) => void handleApplyCaptionPreset(preset),
+          onDelete: captionPresets.deletePreset,
+          onExport: (target) =>
+            void captionPresetTransfer.exportPresets(target),
+          onImport: (source) =>
+            void captionPresetTransfer.importPresets(source),
+          onSave: handleSaveCaptionPreset,
+          onSetDefault: captionPresets.setDefaultPreset,
+          presets: captionPresets.presets,
+        }}
+        preview={selectedCaptionPreview}
+        theme={theme}
+        visible={showCaptionStyle}
+      />
+
+      <ClipCreditsSheet
+        groups={creditGroups}
+        onClose={() => setShowCredits(false)}
+        onCopy={() => void handleCopyCredits()}
+        theme={theme}
+        visible={showCredits}
+      />
+
+      <FindReplacePanel
+        visible={showFindReplace}
+        sentences={orderedSentences}
+        hasVoiceSync={getVoiceSyncState(session) !== "never_synced"}
+        isApplying={isReplacing}
+        onClose={() => setShowFindReplace(false)}
+        onApply={(preview, label) =>
+          void handleApplyFindReplace(preview, label)
+        }
+      />
+
+      <InsertBeatModal
+        isInserting={isInserting}
+        onClose={() => setInsertTarget(null)}
+        onSubmit={(text) => void handleSubmitInsertBeat(text)}
+        target={insertTarget}
+        theme={theme}
+      />
     </ThemedView>
   );
 }
@@ -63,6 +63,7 @@ export function adaptShortDetailToShortItem(shortDetail: ShortDetail): ShortItem
     completedAt: undefined,
     failedAt: undefined,
     errorMessage: undefined,
+    clips: shortDetail.clips,
   };
 }
 
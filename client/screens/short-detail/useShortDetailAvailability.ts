@@ -1,6 +1,7 @@
 import { useCallback, useEffect, useMemo, useRef, useState } from "react";
 
 import { getMyShorts, getShortDetail, type ShortDetail, type ShortItem } from "@/api/client";
+import type { ShowApiError } from "@/hooks/useErrorToast";
 import {
   enrichFailureDiagnostic,
   recordClientDiagnostic,
@@ -21,14 +22,16 @@ interface UseShortDetailAvailabilityOptions {
   navigation: any;
   shortId?: string | null;
   shortParam?: ShortItem | null;
-  showError: (message: string) => void;
+  showApiError: ShowApiError;
 }
 
+const LOAD_FAILURE = "Failed to load short details. Please try again.";
+
 export function useShortDetailAvailability({
   navigation,
   shortId,
   shortParam,
-  showError,
+  showApiError,
 }: UseShortDetailAvailabilityOptions) {
   const [isLoadingDetail, setIsLoadingDetail] = useState(false);
   const [retryCount, setRetryCount] = useState(0);
@@ -268,7 +271,7 @@ export function useShortDetailAvailability({
         setIsPendingAvailability(false);
         setDidRetryTimeout(false);
         setIsLoadingDetail(false);
-        showError(!result.ok ? result.message || "Failed to load short details" : "Failed to load short details");
+        showApiError(result.ok ? null : result, LOAD_FAILURE);
       }
 
       if (__DEV__) {
@@ -288,7 +291,7 @@ export function useShortDetailAvailability({
       }
       fallbackInFlightRef.current = false;
     };
-  }, [navigation, shortId, shortParam, showError]);
+  }, [navigation, shortId, shortParam, showApiError]);
 
   useEffect(() => {
     if (shortDetail && !shortDetail.videoUrl && shortId && retryCount < 2) {
@@ -341,15 +344,19 @@ export function useShortDetailAvailability({
       if (result.ok && result.data) {
         setShortDetail(result.data);
       } else {
-        showError(result.ok ? "Failed to load short details" : result.message || "Failed to load short details");
+        showApiError(result.ok ? null : result, LOAD_FAILURE, {
+          retry: () => void handleRetryFetch(),
+        });
       }
     } catch (error) {
       console.error("[shorts] retry fetch error:", error);
-      showError("Failed to load short details");
+      showApiError(error, LOAD_FAILURE, {
+        retry: () => void handleRetryFetch(),
+      });
     } finally {
       setIsLoadingDetail(false);
     }
-  }, [retryCount, shortId, showError]);
+  }, [retryCount, shortId, showApiError]);
 
   return {
     didRetryTimeout,
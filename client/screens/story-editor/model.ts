@@ -1,6 +1,7 @@
 import type { StoryFinalizePendingMeta } from "@/api/client";
 import { formatRenderTimeAmount } from "@/lib/renderUsage";
-import type { StorySession, StoryShot, StoryVoiceSync, StoryVoiceSyncState } from "@/types/story";
+import { unwrapNormalized } from "@/lib/storySession";
+import type { StoryClip, StorySession, StoryShot, StoryVoiceSync, StoryVoiceSyncState } from "@/types/story";
 
 export interface Beat {
   sentenceIndex: number;
@@ -9,6 +10,9 @@ export interface Beat {
 
 export type CaptionPlacement = "top" | "center" | "bottom";
 
+/** Where a new beat goes relative to the one the action was opened on. */
+export type BeatInsertPosition = "before" | "after";
+
 export const CAPTION_PLACEMENTS: CaptionPlacement[] = ["top", "center", "bottom"];
 
 export const PLACEMENT_TO_YPCT: Record<CaptionPlacement, number> = {
@@ -17,6 +21,16 @@ export const PLACEMENT_TO_YPCT: Record<CaptionPlacement, number> = {
   bottom: 0.9,
 };
 
+/** A preset, or "custom" once the caption is dragged on the preview stage. */
+export type CaptionPlacementMode = CaptionPlacement | "custom";
+
+/** Caption box centre as fractions of the frame. Width is the `wPct` style key. */
+export interface CaptionPosition {
+  placement: CaptionPlacementMode;
+  xPct: number;
+  yPct: number;
+}
+
 export interface RenderRecoveryState {
   state?: "pending" | "done" | "failed" | string;
   attemptId?: string | null;
@@ -30,13 +44,7 @@ export interface RenderRecoveryState {
 }
 
 export function unwrapSession<T>(res: unknown): T {
-  if (typeof res === "object" && res !== null) {
-    const envelope = res as { data?: T; ok?: boolean; success?: boolean };
-    if (envelope.data && (envelope.ok === true || envelope.success === true)) {
-      return envelope.data as T;
-    }
-  }
-  return res as T;
+  return unwrapNormalized<T>(res);
 }
 
 export function getRenderRecovery(session: StorySession | null | undefined): RenderRecoveryState | null {
@@ -117,6 +125,36 @@ export function getSelectedShot(
     : null;
 }
 
+/**
+ * The clips offered for a beat in search order. A selection that came from a
+ * manual search is not among the candidates, so it leads the list.
+ */
+export function getShotClipOptions(shot: StoryShot | null | undefined): StoryClip[] {
+  if (!shot) return [];
+  const seen = new Set<string>();
+  const options = (shot.candidates ?? []).filter((clip) => {
+    if (!clip?.id || seen.has(clip.id)) return false;
+    seen.add(clip.id);
+    return true;
+  });
+  const selected = shot.selectedClip;
+  return selected?.id && !seen.has(selected.id) ? [selected, ...options] : options;
+}
+
+/** Local copy of `session` with one beat's shot patched, e.g. a new clip. */
+export function withShotChanges(
+  session: StorySession,
+  sentenceIndex: number,
+  changes: Partial<Omit<StoryShot, "sentenceIndex">>
+): StorySession {
+  return {
+    ...session,
+    shots: session.shots?.map((shot) =>
+      shot.sentenceIndex === sentenceIndex ? { ...shot, ...changes } : shot
+    ),
+  };
+}
+
 export function getVoiceSync(session: StorySession | null | undefined): StoryVoiceSync | null {
   if (!session?.voiceSync || typeof session.voiceSync !== "object") return null;
   return session.voiceSync;
@@ -130,6 +168,39 @@ export function isVoiceSyncCurrent(session: StorySession | null | undefined): bo
   return getVoiceSyncState(session) === "current";
 }
 
+/** Beats the server reports as needing narration re-synced. */
+export function getVoiceStaleBeatIndices(session: StorySession | null | undefined): number[] {
+  const sync = getVoiceSync(session);
+  if (!sync || sync.state === "current" || sync.state === "never_synced") return [];
+  return Array.isArray(sync.staleBeatIndices) ? sync.staleBeatIndices : [];
+}
+
+/**
+ * Local voice sync after inserting a beat at `insertedIndex`: later stale indices
+ * shift up and the new beat (which has no narration yet) is stale. The next
+ * refetch replaces this with the server's view.
+ */
+export function markInsertedBeatVoiceStale(
+  session: StorySession,
+  insertedIndex: number
+): StorySession {
+  const sync = getVoiceSync(session);
+  if (!sync || sync.state === "never_synced") return session;
+  const shifted = (sync.staleBeatIndices ?? []).map((index) =>
+    index >= insertedIndex ? index + 1 : index
+  );
+  return {
+    ...session,
+    voiceSync: {
+      ...sync,
+      state: sync.state === "syncing" ? sync.state : "stale",
+      staleScope:
+        sync.state === "syncing" || sync.staleScope === "full" ? sync.staleScope : "beat",
+      staleBeatIndices: [...shifted, insertedIndex].sort((a, b) => a - b),
+    },
+  };
+}
+
 export function hasUnsyncedVoiceDraft(
   session: StorySession | null | undefined,
   draftVoicePreset: string | null | undefined,
@@ -12,6 +12,7 @@ import {
   getStep3PlaybackTimeline,
   getStep3PreviewReadiness,
   isStep3PreviewReady,
+  markStep3DraftPreviewStale,
 } from "@/screens/story-editor/step3";
 import type { StorySession } from "@/types/story";
 
@@ -231,6 +232,38 @@ describe("client/screens/story-editor/step3", () => {
     ).toBe(0);
   });
 
+  test("plays each beat's segments from the in-point saved on its shot", () => {
+    const session = buildSession();
+    const baseTimeline = getStep3PlaybackTimeline(session)!;
+    const trimmed = buildSession({
+      shots: [{ ...session.shots![0], clipStartSec: 2 }, session.shots![1]],
+      playbackTimelineV1: {
+        ...baseTimeline,
+        segments: [
+          baseTimeline.segments[0],
+          {
+            ...baseTimeline.segments[0],
+            segmentIndex: 1,
+            globalStartSec: 1.5,
+            clipStartSec: 1.5,
+          },
+          ...baseTimeline.segments.slice(1),
+        ],
+      },
+    });
+
+    const timeline = getStep3PlaybackTimeline(trimmed);
+    expect(timeline?.source).toBe("manual");
+    expect(timeline?.segments.map((segment) => segment.clipStartSec)).toEqual([
+      2, 3.5, 0,
+    ]);
+    expect(getStep3PlaybackTimeline(session)).toBe(session.playbackTimelineV1);
+
+    expect(
+      getStep3DraftPreview(markStep3DraftPreviewStale(trimmed)).state,
+    ).toBe("stale");
+  });
+
   test("builds one compact rail item per beat from canonical session truth", () => {
     const session = buildSession();
 
@@ -244,6 +277,7 @@ describe("client/screens/story-editor/step3", () => {
         endTimeSec: 3,
         durationSec: 3,
         hasSelectedClip: true,
+        needsVoiceSync: false,
       },
       {
         sentenceIndex: 1,
@@ -254,6 +288,7 @@ describe("client/screens/story-editor/step3", () => {
         endTimeSec: 6,
         durationSec: 3,
         hasSelectedClip: true,
+        needsVoiceSync: false,
       },
     ]);
   });
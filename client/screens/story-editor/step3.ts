@@ -1,11 +1,16 @@
+import {
+  parseOrNull,
+  storyDraftPreviewV1Schema,
+  storyPreviewReadinessV1Schema,
+} from "@/api/schemas";
+import { getVoiceStaleBeatIndices } from "@/screens/story-editor/model";
 import type {
   StoryCaption,
   StoryCaptionOverlayV1,
-  StoryDraftPreviewV1,
   StoryPlaybackTimelineSegmentV1,
   StoryPlaybackTimelineV1,
-  StoryPreviewReadinessV1,
   StorySession,
+  StoryShot,
 } from "@/types/story";
 
 export interface Step3PreviewReadiness {
@@ -42,13 +47,8 @@ export interface Step3BeatRailItem {
   endTimeSec: number | null;
   durationSec: number | null;
   hasSelectedClip: boolean;
-}
-
-function normalizeBeatIndices(values: unknown): number[] {
-  if (!Array.isArray(values)) return [];
-  return values
-    .map((value) => Number(value))
-    .filter((value) => Number.isFinite(value) && value >= 0);
+  /** Narration is missing or out of date for this beat's text. */
+  needsVoiceSync: boolean;
 }
 
 function toFiniteNumber(value: unknown): number | null {
@@ -59,58 +59,38 @@ function toFiniteNumber(value: unknown): number | null {
 export function getStep3PreviewReadiness(
   session: StorySession | null | undefined,
 ): Step3PreviewReadiness | null {
-  const readiness = session?.previewReadinessV1;
-  if (
-    !readiness ||
-    Number((readiness as StoryPreviewReadinessV1).version) !== 1 ||
-    typeof readiness.ready !== "boolean"
-  ) {
-    return null;
-  }
+  const readiness = parseOrNull(
+    storyPreviewReadinessV1Schema,
+    session?.previewReadinessV1,
+  );
+  if (!readiness) return null;
 
   return {
-    ready: readiness.ready === true,
-    reasonCode:
-      typeof readiness.reasonCode === "string" ? readiness.reasonCode : null,
-    missingBeatIndices: normalizeBeatIndices(readiness.missingBeatIndices),
+    ready: readiness.ready,
+    reasonCode: readiness.reasonCode ?? null,
+    missingBeatIndices: readiness.missingBeatIndices ?? [],
   };
 }
 
 export function getStep3DraftPreview(
   session: StorySession | null | undefined,
 ): Step3DraftPreview {
-  const preview = session?.draftPreviewV1 as
-    | StoryDraftPreviewV1
-    | null
-    | undefined;
-  const state =
-    typeof preview?.state === "string" && preview.state.length > 0
-      ? preview.state
-      : "not_requested";
-  const isReady = state === "ready";
+  const preview = parseOrNull(
+    storyDraftPreviewV1Schema,
+    session?.draftPreviewV1,
+  );
+  const state = preview?.state ?? "not_requested";
+  const artifact = state === "ready" ? preview?.artifact : null;
   return {
     state,
-    artifactUrl: isReady ? (preview?.artifact?.url ?? null) : null,
-    durationSec: isReady
-      ? toFiniteNumber(preview?.artifact?.durationSec)
-      : null,
-    width: isReady ? toFiniteNumber(preview?.artifact?.width) : null,
-    height: isReady ? toFiniteNumber(preview?.artifact?.height) : null,
-    blockedReasonCode:
-      typeof preview?.blocked?.reasonCode === "string"
-        ? preview.blocked.reasonCode
-        : null,
-    missingBeatIndices: normalizeBeatIndices(
-      preview?.blocked?.missingBeatIndices,
-    ),
-    errorMessage:
-      typeof preview?.error?.message === "string"
-        ? preview.error.message
-        : null,
-    attemptId:
-      typeof preview?.job?.attemptId === "string"
-        ? preview.job.attemptId
-        : null,
+    artifactUrl: artifact?.url ?? null,
+    durationSec: artifact?.durationSec ?? null,
+    width: artifact?.width ?? null,
+    height: artifact?.height ?? null,
+    blockedReasonCode: preview?.blocked?.reasonCode ?? null,
+    missingBeatIndices: preview?.blocked?.missingBeatIndices ?? [],
+    errorMessage: preview?.error?.message ?? null,
+    attemptId: preview?.job?.attemptId ?? null,
   };
 }
 
@@ -128,6 +108,43 @@ export function getStep3CaptionOverlay(
   return overlay;
 }
 
+/**
+ * Shift each beat's segments onto the in-point saved on its shot, keeping the
+ * offsets between segments of the same clip. The server rebuilds the timeline
+ * on the next sync; until then playback follows the shot.
+ */
+function applyShotClipStarts(
+  timeline: StoryPlaybackTimelineV1,
+  shots: StoryShot[],
+): StoryPlaybackTimelineV1 {
+  let changed = false;
+  const baseByOwner = new Map<number, number>();
+  const segments = timeline.segments.map((segment) => {
+    const owner = getStep3PlaybackOwnerSentenceIndex(segment);
+    const shot =
+      owner === null
+        ? null
+        : shots.find((entry) => entry?.sentenceIndex === owner);
+    const clipStartSec = toFiniteNumber(shot?.clipStartSec);
+    if (
+      owner === null ||
+      clipStartSec === null ||
+      !shot?.selectedClip?.url ||
+      shot.selectedClip.url !== segment.clipUrl
+    ) {
+      return segment;
+    }
+    const segmentStartSec = toFiniteNumber(segment.clipStartSec) ?? 0;
+    if (!baseByOwner.has(owner)) baseByOwner.set(owner, segmentStartSec);
+    const nextStartSec =
+      clipStartSec + segmentStartSec - (baseByOwner.get(owner) ?? 0);
+    if (nextStartSec === segmentStartSec) return segment;
+    changed = true;
+    return { ...segment, clipStartSec: nextStartSec };
+  });
+  return changed ? { ...timeline, source: "manual", segments } : timeline;
+}
+
 export function getStep3PlaybackTimeline(
   session: StorySession | null | undefined,
 ): StoryPlaybackTimelineV1 | null {
@@ -140,7 +157,21 @@ export function getStep3PlaybackTimeline(
   ) {
     return null;
   }
-  return timeline;
+  return Array.isArray(session?.shots)
+    ? applyShotClipStarts(timeline, session.shots)
+    : timeline;
+}
+
+/**
+ * A ready draft preview was rendered before the latest clip change; show it
+ * as stale until the user requests a new one.
+ */
+export function markStep3DraftPreviewStale(
+  session: StorySession,
+): StorySession {
+  const preview = session.draftPreviewV1;
+  if (!preview || preview.state !== "ready") return session;
+  return { ...session, draftPreviewV1: { ...preview, state: "stale" } };
 }
 
 export function getStep3CaptionTimeline(
@@ -320,6 +351,7 @@ export function getStep3BeatRailItems(
   const captions = getStep3CaptionTimeline(session);
   const timeline = getStep3PlaybackTimeline(session);
   const shots = Array.isArray(session?.shots) ? session.shots : [];
+  const staleBeatIndices = getVoiceStaleBeatIndices(session);
 
   return sentences.map((sentence, sentenceIndex) => {
     const shot =
@@ -345,6 +377,7 @@ export function getStep3BeatRailItems(
       endTimeSec: caption?.endTimeSec ?? toFiniteNumber(segment?.globalEndSec),
       durationSec: captionDuration ?? segmentDuration ?? shotDuration,
       hasSelectedClip: Boolean(selectedClip),
+      needsVoiceSync: staleBeatIndices.includes(sentenceIndex),
     };
   });
 }
@@ -3,6 +3,7 @@ import { Video, type AVPlaybackStatus } from "expo-av";
 import * as Crypto from "expo-crypto";
 
 import { storyGet, storyPreview } from "@/api/client";
+import type { ShowApiError } from "@/hooks/useErrorToast";
 import type { StorySession } from "@/types/story";
 
 import { getStep3DraftPreview } from "./step3";
@@ -11,6 +12,7 @@ interface UseStep3PreviewArtifactOptions {
   session: StorySession | null;
   sessionId: string;
   setSession: (session: StorySession | null) => void;
+  showApiError: ShowApiError;
   showError: (message: string) => void;
   showSuccess: (message: string) => void;
   showWarning: (message: string) => void;
@@ -27,6 +29,7 @@ export function useStep3PreviewArtifact({
   session,
   sessionId,
   setSession,
+  showApiError,
   showError,
   showSuccess,
   showWarning,
@@ -59,7 +62,7 @@ export function useStep3PreviewArtifact({
     pollAttemptsRef.current += 1;
     const result = await storyGet(sessionId);
     if (!result.ok) {
-      showError(result.message);
+      showApiError(result, "Failed to check the preview. Please try again.");
       clearPoll();
       return;
     }
@@ -91,7 +94,15 @@ export function useStep3PreviewArtifact({
     pollTimerRef.current = setTimeout(() => {
       void pollPreview();
     }, POLL_INTERVAL_MS);
-  }, [clearPoll, sessionId, setSession, showError, showSuccess, showWarning]);
+  }, [
+    clearPoll,
+    sessionId,
+    setSession,
+    showApiError,
+    showError,
+    showSuccess,
+    showWarning,
+  ]);
 
   const requestPreview = useCallback(async () => {
     if (!sessionId || isPreviewRequesting) return;
@@ -105,7 +116,9 @@ export function useStep3PreviewArtifact({
         },
       );
       if (!result.ok) {
-        showError(result.message);
+        showApiError(result, "Failed to build the preview. Please try again.", {
+          retry: () => void requestPreview(),
+        });
         return;
       }
       setSession(result.data);
@@ -140,6 +153,7 @@ export function useStep3PreviewArtifact({
     pollPreview,
     sessionId,
     setSession,
+    showApiError,
     showError,
     showSuccess,
     showWarning,
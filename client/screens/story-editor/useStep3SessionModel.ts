@@ -1,5 +1,6 @@
 import { useMemo } from "react";
 
+import type { ShowApiError } from "@/hooks/useErrorToast";
 import type { StorySession } from "@/types/story";
 
 import {
@@ -21,6 +22,7 @@ interface UseStep3SessionModelOptions {
   session: StorySession | null;
   sessionId: string;
   setSession: (session: StorySession | null) => void;
+  showApiError: ShowApiError;
   showError: (message: string) => void;
   showSuccess: (message: string) => void;
   showWarning: (message: string) => void;
@@ -32,6 +34,7 @@ export function useStep3SessionModel({
   session,
   sessionId,
   setSession,
+  showApiError,
   showError,
   showSuccess,
   showWarning,
@@ -42,6 +45,7 @@ export function useStep3SessionModel({
     session,
     sessionId,
     setSession,
+    showApiError,
     showError,
     showSuccess,
     showWarning,
@@ -51,6 +55,7 @@ export function useStep3SessionModel({
     session,
     sessionId,
     setSession,
+    showApiError,
     showError,
     showSuccess,
     showWarning,
@@ -1,21 +1,35 @@
 import { useCallback, useEffect, useRef, useState } from "react";
 
-import { storyUpdateCaptionStyle } from "@/api/client";
-import { useCaptionPreview } from "@/hooks/useCaptionPreview";
-
+import { storyUpdateCaptionStyle, type CaptionPreviewStyle } from "@/api/client";
+import { useCaptionPreview, type UseCaptionPreviewOptions } from "@/hooks/useCaptionPreview";
 import {
-  CAPTION_PLACEMENTS,
-  type Beat,
-  type CaptionPlacement,
-  PLACEMENT_TO_YPCT,
-} from "./model";
+  getCaptionPositionPayload,
+  getPresetCaptionPosition,
+  isSameCaptionPosition,
+} from "@/lib/captionPosition";
+
+import type { Beat, CaptionPlacement, CaptionPosition } from "./model";
+
+const DEFAULT_POSITION = getPresetCaptionPosition("center");
+
+function getPositionPreviewOptions(position: CaptionPosition): UseCaptionPreviewOptions {
+  return {
+    placement: position.placement,
+    xPct: position.placement === "custom" ? position.xPct : undefined,
+    yPct: position.yPct,
+  };
+}
 
 interface UseStoryEditorCaptionPlacementOptions {
   beats: Beat[];
   canPrefetch: () => boolean;
+  /** Style sent with every preview so edits re-measure live. */
+  captionStyle?: CaptionPreviewStyle;
   committedText: string;
+  /** Called once the server holds a new position; feeds undo history. */
+  onPlacementPersisted?: (previous: CaptionPosition, next: CaptionPosition) => void;
   selectedSentenceIndex: number | null;
-  serverPlacement?: CaptionPlacement;
+  serverPosition?: CaptionPosition;
   sessionId: string;
   showError: (message: string) => void;
 }
@@ -23,13 +37,15 @@ interface UseStoryEditorCaptionPlacementOptions {
 export function useStoryEditorCaptionPlacement({
   beats,
   canPrefetch,
+  captionStyle,
   committedText,
+  onPlacementPersisted,
   selectedSentenceIndex,
-  serverPlacement,
+  serverPosition,
   sessionId,
   showError,
 }: UseStoryEditorCaptionPlacementOptions) {
-  const [captionPlacement, setCaptionPlacement] = useState<CaptionPlacement>("center");
+  const [captionPosition, setCaptionPosition] = useState<CaptionPosition>(DEFAULT_POSITION);
 
   const {
     cancelPrefetch,
@@ -43,41 +59,41 @@ export function useStoryEditorCaptionPlacement({
   const prefetchDoneForSessionRef = useRef<string | null>(null);
   const prefetchTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
   const persistInFlightRef = useRef(false);
-  const pendingPlacementRef = useRef<CaptionPlacement | null>(null);
-  const lastPersistedPlacementRef = useRef<CaptionPlacement>("center");
-  const lastPersistedYPctRef = useRef<number>(PLACEMENT_TO_YPCT.center);
+  const pendingPositionRef = useRef<CaptionPosition | null>(null);
+  const lastPersistedPositionRef = useRef<CaptionPosition>(DEFAULT_POSITION);
 
   useEffect(() => {
-    if (serverPlacement && CAPTION_PLACEMENTS.includes(serverPlacement)) {
-      setCaptionPlacement((prev) => (prev === serverPlacement ? prev : serverPlacement));
-      lastPersistedPlacementRef.current = serverPlacement;
-      lastPersistedYPctRef.current = PLACEMENT_TO_YPCT[serverPlacement];
+    if (serverPosition) {
+      setCaptionPosition((prev) => (isSameCaptionPosition(prev, serverPosition) ? prev : serverPosition));
+      lastPersistedPositionRef.current = serverPosition;
     }
-  }, [serverPlacement]);
+  }, [serverPosition]);
 
   useEffect(() => {
     if (selectedSentenceIndex === null || !sessionId) return;
     if (!committedText.trim()) return;
-    const yPct = PLACEMENT_TO_YPCT[captionPlacement];
     requestPreview(selectedSentenceIndex, committedText, {
-      placement: captionPlacement,
-      yPct,
+      ...getPositionPreviewOptions(captionPosition),
+      style: captionStyle,
     });
-  }, [captionPlacement, committedText, requestPreview, selectedSentenceIndex, sessionId]);
+  }, [captionPosition, captionStyle, committedText, requestPreview, selectedSentenceIndex, sessionId]);
+
+  // A style edit re-keys the prefetch so the other beats re-measure too.
+  const prefetchKey = `${sessionId}|${captionStyle ? JSON.stringify(captionStyle) : ""}`;
 
   useEffect(() => {
     if (!sessionId || beats.length === 0) return;
-    if (prefetchDoneForSessionRef.current === sessionId) return;
+    if (prefetchDoneForSessionRef.current === prefetchKey) return;
 
     prefetchTimeoutRef.current = setTimeout(() => {
       prefetchTimeoutRef.current = null;
       if (!canPrefetch()) return;
-      if (prefetchDoneForSessionRef.current === sessionId) return;
-      prefetchDoneForSessionRef.current = sessionId;
+      if (prefetchDoneForSessionRef.current === prefetchKey) return;
+      prefetchDoneForSessionRef.current = prefetchKey;
       void prefetchAllBeats(beats, {
         delayBetweenMs: 120,
-        placement: captionPlacement,
-        yPct: PLACEMENT_TO_YPCT[captionPlacement],
+        ...getPositionPreviewOptions(captionPosition),
+        style: captionStyle,
       });
     }, 1500);
 
@@ -87,7 +103,7 @@ export function useStoryEditorCaptionPlacement({
         prefetchTimeoutRef.current = null;
       }
     };
-  }, [beats, canPrefetch, captionPlacement, prefetchAllBeats, sessionId]);
+  }, [beats, canPrefetch, captionPosition, captionStyle, prefetchAllBeats, prefetchKey, sessionId]);
 
   useEffect(() => {
     return () => {
@@ -99,82 +115,88 @@ export function useStoryEditorCaptionPlacement({
   }, []);
 
   const requestPlacementPreview = useCallback(
-    (placement: CaptionPlacement) => {
+    (position: CaptionPosition) => {
       if (selectedSentenceIndex === null) return;
       if (!committedText.trim()) return;
-      const yPct = PLACEMENT_TO_YPCT[placement];
       requestPreview(selectedSentenceIndex, committedText, {
-        placement,
-        yPct,
+        ...getPositionPreviewOptions(position),
+        style: captionStyle,
         immediate: true,
       });
     },
-    [committedText, requestPreview, selectedSentenceIndex]
+    [captionStyle, committedText, requestPreview, selectedSentenceIndex]
   );
 
-  const persistPlacement = useCallback(
-    async (placement: CaptionPlacement) => {
+  const persistPosition = useCallback(
+    async (position: CaptionPosition) => {
       if (persistInFlightRef.current) {
-        pendingPlacementRef.current = placement;
+        pendingPositionRef.current = position;
         return;
       }
 
       persistInFlightRef.current = true;
-      const yPct = PLACEMENT_TO_YPCT[placement];
 
       try {
         const res = await storyUpdateCaptionStyle({
           sessionId,
-          overlayCaption: { placement, yPct },
+          overlayCaption: getCaptionPositionPayload(position),
         });
         if (!res.ok) {
           throw new Error(res?.message || "Failed to update caption placement");
         }
-        lastPersistedPlacementRef.current = placement;
-        lastPersistedYPctRef.current = yPct;
+        const previous = lastPersistedPositionRef.current;
+        lastPersistedPositionRef.current = position;
+        if (!isSameCaptionPosition(previous, position)) onPlacementPersisted?.(previous, position);
       } catch (error) {
         console.error("[story] update caption placement error:", error);
-        const fallbackPlacement = lastPersistedPlacementRef.current ?? "center";
-        pendingPlacementRef.current = null;
-        setCaptionPlacement(fallbackPlacement);
-        requestPlacementPreview(fallbackPlacement);
+        const fallbackPosition = lastPersistedPositionRef.current ?? DEFAULT_POSITION;
+        pendingPositionRef.current = null;
+        setCaptionPosition(fallbackPosition);
+        requestPlacementPreview(fallbackPosition);
         showError("Failed to update caption placement. Please try again.");
         return;
       } finally {
         persistInFlightRef.current = false;
-        const pending = pendingPlacementRef.current;
-        if (pending && pending !== lastPersistedPlacementRef.current) {
-          pendingPlacementRef.current = null;
-          void persistPlacement(pending);
+        const pending = pendingPositionRef.current;
+        if (pending && !isSameCaptionPosition(pending, lastPersistedPositionRef.current)) {
+          pendingPositionRef.current = null;
+          void persistPosition(pending);
         } else {
-          pendingPlacementRef.current = null;
+          pendingPositionRef.current = null;
         }
       }
     },
-    [requestPlacementPreview, sessionId, showError]
+    [onPlacementPersisted, requestPlacementPreview, sessionId, showError]
   );
 
-  const handlePlacementChange = useCallback(
-    (nextPlacement: CaptionPlacement) => {
+  const handlePositionChange = useCallback(
+    (nextPosition: CaptionPosition) => {
       if (selectedSentenceIndex === null || !committedText.trim()) return;
       if (prefetchTimeoutRef.current != null) {
         clearTimeout(prefetchTimeoutRef.current);
         prefetchTimeoutRef.current = null;
       }
       cancelPrefetch();
-      setCaptionPlacement(nextPlacement);
-      requestPlacementPreview(nextPlacement);
-      void persistPlacement(nextPlacement);
+      setCaptionPosition(nextPosition);
+      requestPlacementPreview(nextPosition);
+      void persistPosition(nextPosition);
     },
     [
       cancelPrefetch,
       committedText,
-      persistPlacement,
+      persistPosition,
       requestPlacementPreview,
       selectedSentenceIndex,
     ]
   );
 
+  const handlePlacementChange = useCallback(
+    (nextPlacement: CaptionPlacement) => {
+      handlePositionChange(getPresetCaptionPosition(nextPlacement));
+    },
+    [handlePositionChange]
+  );
+
   const resetPlacementPreviews = useCallback(() => {
     if (prefetchTimeoutRef.current) {
       clearTimeout(prefetchTimeoutRef.current);
@@ -185,8 +207,10 @@ export function useStoryEditorCaptionPlacement({
   }, [resetPreviews]);
 
   return {
-    captionPlacement,
+    captionPlacement: captionPosition.placement,
+    captionPosition,
     handlePlacementChange,
+    handlePositionChange,
     isLoadingByIndex,
     previewByIndex,
     resetPlacementPreviews,
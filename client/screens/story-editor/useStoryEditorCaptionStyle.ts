@@ -0,0 +1,191 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+
+import {
+  extractStyleWhitelist,
+  storyUpdateCaptionStyle,
+  type CaptionPreviewStyle,
+  type StoryOverlayCaptionStyle,
+} from "@/api/client";
+import type { ShowApiError } from "@/hooks/useErrorToast";
+import {
+  CAPTION_STYLE_DEFAULTS,
+  getCaptionStyleFromSession,
+  getChangedCaptionStyle,
+} from "@/lib/captionStyle";
+import type { StorySession } from "@/types/story";
+
+const PERSIST_DEBOUNCE_MS = 800;
+const PERSIST_FAILURE = "Couldn't save caption style. Please try again.";
+const PRESET_FAILURE = "Couldn't apply that preset. Please try again.";
+
+interface UseStoryEditorCaptionStyleOptions {
+  session: StorySession | null;
+  sessionId: string;
+  showApiError: ShowApiError;
+}
+
+/**
+ * Local caption style for the style sheet. Edits apply at once (previews
+ * re-measure through `useCaptionPreview`) and are saved to `overlayCaption`
+ * after a pause; a failed save reverts to the last saved style.
+ */
+export function useStoryEditorCaptionStyle({
+  session,
+  sessionId,
+  showApiError,
+}: UseStoryEditorCaptionStyleOptions) {
+  const overlayCaption = session?.overlayCaption;
+  const serverStyle = useMemo(
+    () => getCaptionStyleFromSession({ id: sessionId, overlayCaption }),
+    [overlayCaption, sessionId],
+  );
+  const [captionStyle, setCaptionStyle] =
+    useState<Required<CaptionPreviewStyle>>(serverStyle);
+
+  const latestRef = useRef(serverStyle);
+  const persistedRef = useRef(serverStyle);
+  const timerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const inFlightRef = useRef(false);
+  const requestRef = useRef<Promise<unknown> | null>(null);
+
+  // Refetched sessions win unless the user has unsaved edits.
+  useEffect(() => {
+    if (timerRef.current || inFlightRef.current) return;
+    latestRef.current = serverStyle;
+    persistedRef.current = serverStyle;
+    setCaptionStyle(serverStyle);
+  }, [serverStyle]);
+
+  const persist = useCallback(async () => {
+    if (inFlightRef.current) return;
+    const target = latestRef.current;
+    const changes = getChangedCaptionStyle(persistedRef.current, target);
+    if (!changes) return;
+
+    const revert = () => {
+      if (timerRef.current) {
+        clearTimeout(timerRef.current);
+        timerRef.current = null;
+      }
+      latestRef.current = persistedRef.current;
+      setCaptionStyle(persistedRef.current);
+    };
+
+    inFlightRef.current = true;
+    try {
+      const request = storyUpdateCaptionStyle({
+        sessionId,
+        overlayCaption: changes,
+      });
+      requestRef.current = request;
+      const res = await request;
+      if (res.ok) {
+        persistedRef.current = target;
+      } else {
+        revert();
+        showApiError(res, PERSIST_FAILURE);
+      }
+    } catch (error) {
+      console.error("[story] update caption style error:", error);
+      revert();
+      showApiError(error, PERSIST_FAILURE);
+    } finally {
+      inFlightRef.current = false;
+    }
+    // Edits made while the request was in flight go out next.
+    if (!timerRef.current && latestRef.current !== persistedRef.current) {
+      void persist();
+    }
+  }, [sessionId, showApiError]);
+
+  const schedulePersist = useCallback(() => {
+    if (timerRef.current) clearTimeout(timerRef.current);
+    timerRef.current = setTimeout(() => {
+      timerRef.current = null;
+      void persist();
+    }, PERSIST_DEBOUNCE_MS);
+  }, [persist]);
+
+  const updateCaptionStyle = useCallback(
+    (patch: CaptionPreviewStyle) => {
+      const next = { ...latestRef.current, ...patch };
+      latestRef.current = next;
+      setCaptionStyle(next);
+      schedulePersist();
+    },
+    [schedulePersist],
+  );
+
+  const resetCaptionStyle = useCallback(() => {
+    updateCaptionStyle(CAPTION_STYLE_DEFAULTS);
+  }, [updateCaptionStyle]);
+
+  /**
+   * Replace the saved style with a preset in one request, queued behind any
+   * save already in flight. Pending edits are dropped; the caller reloads
+   * the session to pick up the placement.
+   */
+  const applyCaptionPreset = useCallback(
+    async (overlay: StoryOverlayCaptionStyle): Promise<boolean> => {
+      if (timerRef.current) {
+        clearTimeout(timerRef.current);
+        timerRef.current = null;
+      }
+      while (inFlightRef.current) {
+        await requestRef.current?.catch(() => undefined);
+      }
+      inFlightRef.current = true;
+      try {
+        const request = storyUpdateCaptionStyle({
+          sessionId,
+          overlayCaption: overlay,
+        });
+        requestRef.current = request;
+        const res = await request;
+        if (!res.ok) {
+          latestRef.current = persistedRef.current;
+          setCaptionStyle(persistedRef.current);
+          showApiError(res, PRESET_FAILURE);
+          return false;
+        }
+        const next = {
+          ...CAPTION_STYLE_DEFAULTS,
+          ...extractStyleWhitelist(overlay),
+        };
+        latestRef.current = next;
+        persistedRef.current = next;
+        setCaptionStyle(next);
+        return true;
+      } catch (error) {
+        console.error("[story] apply caption preset error:", error);
+        latestRef.current = persistedRef.current;
+        setCaptionStyle(persistedRef.current);
+        showApiError(error, PRESET_FAILURE);
+        return false;
+      } finally {
+        inFlightRef.current = false;
+      }
+    },
+    [sessionId, showApiError],
+  );
+
+  // Leaving the editor saves a pending edit instead of dropping it.
+  const persistRef = useRef(persist);
+  persistRef.current = persist;
+  useEffect(() => {
+    return () => {
+      if (timerRef.current) {
+        clearTimeout(timerRef.current);
+        timerRef.current = null;
+        void persistRef.current();
+      }
+    };
+  }, []);
+
+  return {
+    applyCaptionPreset,
+    captionStyle,
+    resetCaptionStyle,
+    updateCaptionStyle,
+  };
+}
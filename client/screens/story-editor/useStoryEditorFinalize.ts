@@ -4,10 +4,14 @@ import { NativeStackNavigationProp } from "@react-navigation/native-stack";
 import * as Crypto from "expo-crypto";
 
 import { storyFinalize, storyGet } from "@/api/client";
+import type { ToastAction, ToastType } from "@/components/Toast";
+import type { ShowApiError } from "@/hooks/useErrorToast";
+import { formatUnlicensedClipWarning, getUnlicensedClipBeats } from "@/lib/clipCredits";
 import {
   enrichFailureDiagnostic,
   recordClientDiagnostic,
 } from "@/lib/diagnostics";
+import { describeError, ERROR_ACTION_LABELS } from "@/lib/errorCatalog";
 import {
   formatRenderTimeAmount,
   getEstimatedUsageSec,
@@ -44,13 +48,17 @@ interface UseStoryEditorFinalizeOptions {
   availableSec: number;
   estimatedSec: number | null;
   navigation: StoryEditorNavProp;
+  /** Select the beat a `fix_beat` failure points at. */
+  onFixBeat: () => void;
   refreshUsage: () => Promise<void>;
   renderBlockedMessage?: string | null;
   session: StorySession | null;
   sessionId: string;
   setSession: (session: StorySession | null) => void;
+  showApiError: ShowApiError;
   showError: (message: string) => void;
   showSuccess: (message: string) => void;
+  showToast: (message: string, type?: ToastType, action?: ToastAction) => void;
   showWarning: (message: string) => void;
   usageLoaded: boolean;
   userId?: string | null;
@@ -78,18 +86,44 @@ export function useStoryEditorFinalize({
   availableSec,
   estimatedSec,
   navigation,
+  onFixBeat,
   refreshUsage,
   renderBlockedMessage,
   session,
   sessionId,
   setSession,
+  showApiError,
   showError,
   showSuccess,
+  showToast,
   showWarning,
   usageLoaded,
   userId,
 }: UseStoryEditorFinalizeOptions) {
   const [isRendering, setIsRendering] = useState(false);
+  const showRenderFailure = useCallback(
+    (failure: unknown) => {
+      showApiError(failure, "Render failed. Please try again.", {
+        fix_beat: onFixBeat,
+      });
+    },
+    [onFixBeat, showApiError],
+  );
+  const showRenderTimeShortfall = useCallback(
+    (message: string) => {
+      const label = ERROR_ACTION_LABELS.buy_render_time;
+      if (!label) {
+        showError(message);
+        return;
+      }
+      // No in-app purchase yet; Settings shows the balance and can refresh it.
+      showToast(message, "error", {
+        label,
+        onPress: () => navigation.getParent()?.navigate("SettingsTab"),
+      });
+    },
+    [navigation, showError, showToast],
+  );
   const [showRenderingModal, setShowRenderingModal] = useState(false);
   const [renderingModalTitle, setRenderingModalTitle] = useState(
     DEFAULT_RENDERING_MODAL_TITLE
@@ -222,7 +256,7 @@ export function useStoryEditorFinalize({
             }
 
             if (renderRecovery?.state === "failed") {
-              showError(renderRecovery.message || "Render failed. Please try again.");
+              showRenderFailure(renderRecovery);
               return "failed";
             }
           }
@@ -253,7 +287,14 @@ export function useStoryEditorFinalize({
       setShowRenderingModal(false);
       return "pending";
     },
-    [completeRenderSuccess, sessionId, setSession, showError, showWarning]
+    [
+      completeRenderSuccess,
+      sessionId,
+      setSession,
+      showError,
+      showRenderFailure,
+      showWarning,
+    ]
   );
 
   useEffect(() => {
@@ -294,7 +335,7 @@ export function useStoryEditorFinalize({
 
       if (renderRecovery?.state === "failed") {
         await clearActiveRenderAttempt();
-        showError(renderRecovery.message || "Render failed. Please try again.");
+        showRenderFailure(renderRecovery);
         return;
       }
 
@@ -343,6 +384,7 @@ export function useStoryEditorFinalize({
     session,
     sessionId,
     showError,
+    showRenderFailure,
     userId,
   ]);
 
@@ -433,24 +475,22 @@ export function useStoryEditorFinalize({
           shouldClearActiveRenderAttemptKey = true;
           await clearActiveRenderAttempt();
 
-          if (result.code === "INSUFFICIENT_RENDER_TIME" || result.status === 402) {
+          const failure = describeError(result);
+          if (failure.action === "buy_render_time") {
+            // The catalog copy is generic; the local estimate says how short we are.
             const estimateForError =
               reservedEstimateSec ?? estimatedSec ?? getEstimatedUsageSec(session);
-            showError(
+            showRenderTimeShortfall(
               getInsufficientRenderTimeMessage(
                 estimateForError ?? 0,
                 availableSec
               )
             );
-          } else if (result.code === "VOICE_SYNC_REQUIRED") {
-            showError("Sync voice and timing before render.");
-          } else if (result.code === "VOICE_SYNC_STALE") {
-            showError("Voice timing is stale. Re-sync before render.");
-          } else if (result.code === "NOT_FOUND" || result.status === 404) {
-            showError("Session not found. Please start a new video.");
-            navigation.goBack();
           } else {
-            showError(result.message || "Render failed. Please try again.");
+            showRenderFailure(result);
+            if (failure.action === "go_back") {
+              navigation.goBack();
+            }
           }
           setShowRenderingModal(false);
           return;
@@ -541,6 +581,8 @@ export function useStoryEditorFinalize({
       sessionId,
       setSession,
       showError,
+      showRenderFailure,
+      showRenderTimeShortfall,
       showWarning,
     ]
   );
@@ -559,14 +601,27 @@ export function useStoryEditorFinalize({
       return;
     }
     if (availableSec < estimatedSec) {
-      showError(getInsufficientRenderTimeMessage(estimatedSec, availableSec));
+      showRenderTimeShortfall(
+        getInsufficientRenderTimeMessage(estimatedSec, availableSec),
+      );
       return;
     }
-    Alert.alert("Render now?", `Estimated usage is ${formatRenderTimeAmount(estimatedSec)} of render time.`, [
+    const usageMessage = `Estimated usage is ${formatRenderTimeAmount(estimatedSec)} of render time.`;
+    const licenseWarning = formatUnlicensedClipWarning(getUnlicensedClipBeats(session));
+    Alert.alert("Render now?", licenseWarning ? `${usageMessage}\n\n${licenseWarning}` : usageMessage, [
       { text: "Cancel", style: "cancel" },
       { text: "Render", onPress: () => void doRender(estimatedSec) },
     ]);
-  }, [availableSec, doRender, estimatedSec, renderBlockedMessage, showError, usageLoaded]);
+  }, [
+    availableSec,
+    doRender,
+    estimatedSec,
+    renderBlockedMessage,
+    session,
+    showError,
+    showRenderTimeShortfall,
+    usageLoaded,
+  ]);
 
   return {
     handleRender,
@@ -5,32 +5,56 @@ import { useFocusEffect } from "@react-navigation/native";
 import {
   storyDeleteBeat,
   storyGet,
+  storyInsertBeat,
   storyUpdateBeatText,
 } from "@/api/client";
-import { useActiveStorySession } from "@/contexts/ActiveStorySessionContext";
+import { searchClipForBeat } from "@/api/storyBeatEdits";
+import { useStoryDrafts } from "@/contexts/StoryDraftsContext";
+import type { ShowApiError } from "@/hooks/useErrorToast";
+import { getShotClipStartSec } from "@/lib/clipTrim";
+import type { EditCommand } from "@/lib/editHistory";
+import {
+  describeScriptLimitIssue,
+  getScriptLimitIssues,
+  MAX_BEAT_CHARS,
+  MAX_TOTAL_CHARS,
+} from "@/lib/scriptLimits";
 import type { StorySession } from "@/types/story";
 
-import { extractBeats, type Beat, unwrapSession } from "./model";
-
-const MAX_BEAT_CHARS = 160;
-const MAX_TOTAL_CHARS = 850;
+import {
+  extractBeats,
+  getSelectedShot,
+  markInsertedBeatVoiceStale,
+  type Beat,
+  unwrapSession,
+} from "./model";
 
 interface UseStoryEditorSessionOptions {
+  recordEdit: (command: EditCommand) => void;
   sessionId: string;
+  showApiError: ShowApiError;
   showError: (message: string) => void;
 }
 
+const LOAD_FAILURE = "Failed to load storyboard. Please try again.";
+const RELOAD_FAILURE = "Failed to reload storyboard. Please try again.";
+const SAVE_BEAT_FAILURE = "Failed to update beat text. Please try again.";
+const INSERT_BEAT_FAILURE = "Failed to insert beat. Please try again.";
+
 export function useStoryEditorSession({
+  recordEdit,
   sessionId,
+  showApiError,
   showError,
 }: UseStoryEditorSessionOptions) {
-  const { setActiveSessionId } = useActiveStorySession();
+  const { openDraft } = useStoryDrafts();
 
   const [session, setSession] = useState<StorySession | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [savingByIndex, setSavingByIndex] = useState<Record<number, boolean>>({});
   const [beatTexts, setBeatTexts] = useState<Record<number, string>>({});
   const [selectedSentenceIndex, setSelectedSentenceIndex] = useState<number | null>(null);
+  const [isInserting, setIsInserting] = useState(false);
 
   const loggedRef = useRef(false);
   const shouldRefreshRef = useRef(false);
@@ -41,7 +65,7 @@ export function useStoryEditorSession({
     try {
       const res = await storyGet(sessionId);
       if (!res.ok) {
-        showError(res?.message || "Failed to load storyboard. Please try again.");
+        showApiError(res, LOAD_FAILURE, { retry: () => void loadSession() });
         setIsLoading(false);
         return;
       }
@@ -74,16 +98,40 @@ export function useStoryEditorSession({
       }
     } catch (error) {
       console.error("[story] load error:", error);
-      showError("Failed to load storyboard. Please try again.");
+      showApiError(error, LOAD_FAILURE, { retry: () => void loadSession() });
     } finally {
       setIsLoading(false);
     }
-  }, [sessionId, showError]);
+  }, [sessionId, showApiError]);
 
   useEffect(() => {
     void loadSession();
   }, [loadSession]);
 
+  /** Reload without the full-screen spinner, resetting committed beat texts. */
+  const reloadSession = useCallback(async (): Promise<StorySession | null> => {
+    try {
+      const fresh = await storyGet(sessionId);
+      if (!fresh.ok) {
+        showApiError(fresh, RELOAD_FAILURE, {
+          retry: () => void reloadSession(),
+        });
+        return null;
+      }
+      const unwrappedSession = unwrapSession<StorySession>(fresh);
+      setSession(unwrappedSession);
+      setBeatTexts(
+        Object.fromEntries(
+          extractBeats(unwrappedSession).map((beat) => [beat.sentenceIndex, beat.text])
+        )
+      );
+      return unwrappedSession;
+    } catch (error) {
+      console.error("[story] reload error:", error);
+      return null;
+    }
+  }, [sessionId, showApiError]);
+
   useFocusEffect(
     useCallback(() => {
       if (!shouldRefreshRef.current || isLoading) return;
@@ -124,8 +172,8 @@ export function useStoryEditorSession({
   }, [beats, selectedSentenceIndex, session]);
 
   useEffect(() => {
-    setActiveSessionId(sessionId);
-  }, [sessionId, setActiveSessionId]);
+    openDraft(sessionId, "storyboard", session);
+  }, [openDraft, session, sessionId]);
 
   const markShouldRefresh = useCallback(() => {
     shouldRefreshRef.current = true;
@@ -181,11 +229,19 @@ export function useStoryEditorSession({
         });
 
         if (!res.ok) {
-          showError(res?.message || "Failed to update beat text");
+          showApiError(res, SAVE_BEAT_FAILURE, {
+            refresh: () => void reloadSession(),
+          });
           return;
         }
 
         setBeatTexts((prev) => ({ ...prev, [sentenceIndex]: draft }));
+        recordEdit({
+          kind: "beat_text",
+          sentenceIndex,
+          before: committed,
+          after: draft,
+        });
         const fresh = await storyGet(sessionId);
         if (fresh.ok) {
           setSession(unwrapSession<StorySession>(fresh));
@@ -194,13 +250,21 @@ export function useStoryEditorSession({
         options?.onSaved?.();
       } catch (error) {
         console.error("[story] save beat error:", error);
-        showError("Failed to update beat text. Please try again.");
+        showApiError(error, SAVE_BEAT_FAILURE);
       } finally {
         setSavingByIndex((prev) => ({ ...prev, [sentenceIndex]: false }));
         savingRef.current = null;
       }
     },
-    [beatTexts, beats, sessionId, showError]
+    [
+      beatTexts,
+      beats,
+      recordEdit,
+      reloadSession,
+      sessionId,
+      showApiError,
+      showError,
+    ]
   );
 
   const handleDeleteBeat = useCallback(
@@ -216,15 +280,31 @@ export function useStoryEditorSession({
           text: "Delete",
           style: "destructive",
           onPress: async () => {
+            const deletedText =
+              extractBeats(session).find((beat) => beat.sentenceIndex === deletedIndex)?.text ?? "";
+            const deletedShot = getSelectedShot(session, deletedIndex);
+            const deletedClipId = deletedShot?.selectedClip?.id ?? null;
+            const deletedClipStartSec = getShotClipStartSec(deletedShot);
             const res = await storyDeleteBeat({ sessionId, sentenceIndex: deletedIndex });
             if (!res.ok) {
-              showError(res?.message ?? "Failed to delete beat.");
+              showApiError(res, "Failed to delete beat. Please try again.", {
+                refresh: () => void reloadSession(),
+              });
               return;
             }
+            recordEdit({
+              kind: "delete_beat",
+              sentenceIndex: deletedIndex,
+              text: deletedText,
+              clipId: deletedClipId,
+              ...(deletedClipStartSec > 0 ? { clipStartSec: deletedClipStartSec } : {}),
+            });
 
             const fresh = await storyGet(sessionId);
             if (!fresh.ok) {
-              showError(fresh?.message ?? "Failed to reload storyboard.");
+              showApiError(fresh, RELOAD_FAILURE, {
+                retry: () => void reloadSession(),
+              });
               return;
             }
 
@@ -243,20 +323,104 @@ export function useStoryEditorSession({
         },
       ]);
     },
-    [sessionId, showError]
+    [recordEdit, reloadSession, session, sessionId, showApiError]
+  );
+
+  const handleInsertBeat = useCallback(
+    async (
+      insertAfterIndex: number,
+      text: string,
+      options?: { onInserted?: (insertedIndex: number) => void }
+    ) => {
+      const draft = text.replace(/\n/g, " ").trim();
+      if (!draft) {
+        showError("Beat text cannot be empty");
+        return false;
+      }
+      const nextSentences = beats.map((beat) => beat.text);
+      nextSentences.splice(insertAfterIndex + 1, 0, draft);
+      const issues = getScriptLimitIssues(nextSentences);
+      if (issues.length > 0) {
+        const problems = issues.map(describeScriptLimitIssue).join(" ");
+        showError(`This beat doesn't fit: ${problems}`);
+        return false;
+      }
+
+      setIsInserting(true);
+      try {
+        const res = await storyInsertBeat({ sessionId, insertAfterIndex, text: draft });
+        if (!res.ok) {
+          showApiError(res, INSERT_BEAT_FAILURE);
+          return false;
+        }
+        const { insertedIndex, sentences } = res.data;
+        // Show the new beat (flagged for voice re-sync) while its clip search runs.
+        setSession((prev) =>
+          prev
+            ? markInsertedBeatVoiceStale(
+                {
+                  ...prev,
+                  story: { ...prev.story, sentences },
+                  shots: prev.shots?.map((shot) =>
+                    shot.sentenceIndex >= insertedIndex
+                      ? { ...shot, sentenceIndex: shot.sentenceIndex + 1 }
+                      : shot
+                  ),
+                },
+                insertedIndex
+              )
+            : prev
+        );
+
+        const clip = await searchClipForBeat({ sessionId, sentenceIndex: insertedIndex });
+        if (!clip.ok) {
+          showError("Beat inserted, but clip search failed. Use Replace Clip to pick one.");
+        }
+        recordEdit({
+          kind: "insert_beat",
+          sentenceIndex: insertedIndex,
+          text: draft,
+          clipId: clip.ok ? clip.data.clipId : null,
+        });
+
+        const fresh = await storyGet(sessionId);
+        if (fresh.ok) {
+          const unwrappedSession = unwrapSession<StorySession>(fresh);
+          setSession(unwrappedSession);
+          setBeatTexts(
+            Object.fromEntries(
+              extractBeats(unwrappedSession).map((beat) => [beat.sentenceIndex, beat.text])
+            )
+          );
+        }
+        setSelectedSentenceIndex(insertedIndex);
+        options?.onInserted?.(insertedIndex);
+        return true;
+      } catch (error) {
+        console.error("[story] insert beat error:", error);
+        showApiError(error, INSERT_BEAT_FAILURE);
+        return false;
+      } finally {
+        setIsInserting(false);
+      }
+    },
+    [beats, recordEdit, sessionId, showApiError, showError]
   );
 
   return {
     beats,
     beatTexts,
     handleDeleteBeat,
+    handleInsertBeat,
     handleSaveBeat,
+    isInserting,
     isLoading,
     markShouldRefresh,
     savingByIndex,
     selectedSentenceIndex,
     session,
     loadSession,
+    reloadSession,
     setSelectedSentenceIndex,
     setSession,
   };
@@ -68,6 +68,7 @@ describe("client/screens/story-editor/useStoryVoiceSync", () => {
 
   test("polls canonical storyGet when sync returns pending metadata", async () => {
     const setSession = jest.fn();
+    const showApiError = jest.fn();
     const showError = jest.fn();
     const showSuccess = jest.fn();
     const showWarning = jest.fn();
@@ -110,6 +111,7 @@ describe("client/screens/story-editor/useStoryVoiceSync", () => {
         session: buildSession(),
         sessionId: "session-1",
         setSession,
+        showApiError,
         showError,
         showSuccess,
         showWarning,
@@ -130,7 +132,43 @@ describe("client/screens/story-editor/useStoryVoiceSync", () => {
     expect(showSuccess).toHaveBeenCalledWith(
       "Voice synced. Used 6s of balance.",
     );
+    expect(showApiError).not.toHaveBeenCalled();
     expect(showError).not.toHaveBeenCalled();
     expect(showWarning).not.toHaveBeenCalled();
   });
+
+  test("maps a failed sync through the error catalog with a retry action", async () => {
+    const showApiError = jest.fn();
+    const failure = {
+      ok: false,
+      status: 500,
+      code: "SERVER_ERROR",
+      message: "SERVER_ERROR",
+      requestId: "req-1",
+    };
+    mockStorySync.mockResolvedValue(failure);
+
+    const { result } = renderHook(() =>
+      useStoryVoiceSync({
+        refreshUsage: jest.fn(async () => {}),
+        session: buildSession(),
+        sessionId: "session-1",
+        setSession: jest.fn(),
+        showApiError,
+        showError: jest.fn(),
+        showSuccess: jest.fn(),
+        showWarning: jest.fn(),
+      }),
+    );
+
+    await act(async () => {
+      await result.current.handleSyncVoice();
+    });
+
+    expect(showApiError).toHaveBeenCalledWith(
+      failure,
+      "Failed to sync voice and timing.",
+      { retry: expect.any(Function) },
+    );
+  });
 });
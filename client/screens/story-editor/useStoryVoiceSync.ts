@@ -2,6 +2,7 @@ import { useCallback, useEffect, useMemo, useRef, useState } from "react";
 import * as Crypto from "expo-crypto";
 
 import { storyGet, storySync } from "@/api/client";
+import type { ShowApiError } from "@/hooks/useErrorToast";
 import { formatRenderTimeAmount } from "@/lib/renderUsage";
 import type { StorySession, StoryVoiceOption } from "@/types/story";
 
@@ -12,6 +13,7 @@ interface UseStoryVoiceSyncOptions {
   session: StorySession | null;
   sessionId: string;
   setSession: (session: StorySession | null) => void;
+  showApiError: ShowApiError;
   showError: (message: string) => void;
   showSuccess: (message: string) => void;
   showWarning: (message: string) => void;
@@ -37,6 +39,7 @@ async function createSyncIdempotencyKey(): Promise<string> {
   return formatUuidFromBytes(bytes);
 }
 
+const SYNC_FAILURE = "Failed to sync voice and timing.";
 const SYNC_POLL_DELAY_MS = 3000;
 const SYNC_POLL_MAX_ATTEMPTS = 40;
 
@@ -45,6 +48,7 @@ export function useStoryVoiceSync({
   session,
   sessionId,
   setSession,
+  showApiError,
   showError,
   showSuccess,
   showWarning,
@@ -161,7 +165,9 @@ export function useStoryVoiceSync({
         syncErrorCode === "NETWORK_ERROR";
 
       if (!result.ok && !shouldRecoverViaCanonicalPoll) {
-        showError(result.message || "Failed to sync voice and timing.");
+        showApiError(result, SYNC_FAILURE, {
+          retry: () => void handleSyncVoice(),
+        });
         return;
       }
 
@@ -205,7 +211,9 @@ export function useStoryVoiceSync({
       );
     } catch (error) {
       console.error("[story] sync voice failed:", error);
-      showError("Failed to sync voice and timing.");
+      showApiError(error, SYNC_FAILURE, {
+        retry: () => void handleSyncVoice(),
+      });
     } finally {
       setIsSyncing(false);
     }
@@ -217,6 +225,7 @@ export function useStoryVoiceSync({
     refreshUsage,
     sessionId,
     setSession,
+    showApiError,
     showError,
     showSuccess,
     showWarning,
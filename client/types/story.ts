@@ -43,6 +43,8 @@ export interface StoryShot {
   durationSec?: number;
   selectedClip?: StoryClip | null;
   candidates?: StoryClip[];
+  /** In-point into `selectedClip` chosen in the trim sheet; unset plays from 0. */
+  clipStartSec?: number;
 }
 
 export interface StoryCaption {
@@ -162,6 +164,8 @@ export interface StoryOverlayCaptionStyle {
   fontStyle?: "normal" | "italic";
   letterSpacingPx?: number;
   lineSpacingPx?: number;
+  textAlign?: string;
+  textTransform?: string;
   color?: string;
   opacity?: number;
   strokePx?: number;
@@ -170,6 +174,9 @@ export interface StoryOverlayCaptionStyle {
   shadowOffsetX?: number;
   shadowOffsetY?: number;
   shadowColor?: string;
+  internalPaddingPx?: number;
+  internalPadding?: number;
+  rasterPadding?: number;
   placement?: "top" | "center" | "bottom" | "custom" | string;
   yPct?: number;
   xPct?: number;
@@ -40,7 +40,11 @@ function setupCors(app: express.Application) {
         "Access-Control-Allow-Methods",
         "GET, POST, PUT, DELETE, OPTIONS",
       );
-      res.header("Access-Control-Allow-Headers", "Content-Type");
+      res.header(
+        "Access-Control-Allow-Headers",
+        "Content-Type, Authorization, X-Idempotency-Key, x-client",
+      );
+      res.header("Access-Control-Expose-Headers", "x-request-id, Retry-After");
       res.header("Access-Control-Allow-Credentials", "true");
     }
 
@@ -0,0 +1,224 @@
+/**
+ * @jest-environment node
+ */
+import type { AddressInfo } from "node:net";
+import type { Server } from "node:http";
+import express from "express";
+import { afterAll, beforeAll, describe, expect, test } from "@jest/globals";
+
+import { registerRoutes } from "./routes";
+
+// jest.setup.js swaps in a mock fetch before each test.
+const nodeFetch = globalThis.fetch;
+
+let server: Server;
+let baseUrl = "";
+
+function bearer(uid: string): string {
+  const payload = Buffer.from(JSON.stringify({ user_id: uid })).toString(
+    "base64url",
+  );
+  return `Bearer header.${payload}.signature`;
+}
+
+async function post(
+  path: string,
+  body: Record<string, unknown>,
+  options: { uid?: string; headers?: Record<string, string> } = {},
+) {
+  const response = await nodeFetch(`${baseUrl}/api${path}`, {
+    method: "POST",
+    headers: {
+      "content-type": "application/json",
+      authorization: bearer(options.uid ?? "user-a"),
+      ...options.headers,
+    },
+    body: JSON.stringify(body),
+  });
+  return { status: response.status, json: (await response.json()) as any };
+}
+
+async function get(path: string, uid = "user-a") {
+  const response = await nodeFetch(`${baseUrl}/api${path}`, {
+    headers: { authorization: bearer(uid) },
+  });
+  return { status: response.status, json: (await response.json()) as any };
+}
+
+/** Start a session and run it through to a storyboard with clips. */
+async function createStoryboard(uid = "user-a"): Promise<string> {
+  const started = await post(
+    "/story/start",
+    { input: "A short story about habits", inputType: "idea" },
+    { uid },
+  );
+  const sessionId = started.json.data.id as string;
+  await post("/story/generate", { sessionId }, { uid });
+  await post("/story/plan", { sessionId }, { uid });
+  await post("/story/search", { sessionId }, { uid });
+  return sessionId;
+}
+
+async function firstCandidateId(
+  sessionId: string,
+  sentenceIndex: number,
+): Promise<string> {
+  const search = await post("/story/search-shot", { sessionId, sentenceIndex });
+  return search.json.data.shot.candidates[0].id as string;
+}
+
+beforeAll(async () => {
+  const app = express();
+  app.use(express.json());
+  server = await registerRoutes(app);
+  await new Promise<void>((resolve) => server.listen(0, resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  await new Promise((resolve) => server.close(resolve));
+});
+
+describe("server/routes mock story API", () => {
+  test("update-shot assigns a saved clip that is not among the candidates", async () => {
+    const sessionId = await createStoryboard();
+    const favorite = {
+      id: "pexels-favorite-1",
+      url: "https://mock-media.vaiform.local/clips/favorite-1.mp4",
+      provider: "pexels",
+      providerId: "favorite-1",
+      duration: 8,
+    };
+
+    const unknown = await post("/story/update-shot", {
+      sessionId,
+      sentenceIndex: 0,
+      clipId: favorite.id,
+    });
+    expect(unknown.status).toBe(404);
+    expect(unknown.json.code).toBe("CLIP_NOT_FOUND");
+
+    const saved = await post("/story/update-shot", {
+      sessionId,
+      sentenceIndex: 0,
+      clipId: favorite.id,
+      clip: favorite,
+    });
+    expect(saved.status).toBe(200);
+    expect(saved.json.data.shots[0].selectedClip).toMatchObject(favorite);
+
+    // Redo sends only the id; the clip is now on the session.
+    const redo = await post("/story/update-shot", {
+      sessionId,
+      sentenceIndex: 1,
+      clipId: favorite.id,
+    });
+    expect(redo.status).toBe(200);
+    expect(redo.json.data.shots[1].selectedClip.id).toBe(favorite.id);
+  });
+
+  test("update-shot stores clipStartSec and clears it on a plain swap", async () => {
+    const sessionId = await createStoryboard();
+    const session = (
+      await post("/story/update-shot", {
+        sessionId,
+        sentenceIndex: 0,
+        clipId: await firstCandidateId(sessionId, 0),
+        clipStartSec: 3.5,
+      })
+    ).json.data;
+    expect(session.shots[0].clipStartSec).toBe(3.5);
+
+    const invalid = await post("/story/update-shot", {
+      sessionId,
+      sentenceIndex: 0,
+      clipId: session.shots[0].selectedClip.id,
+      clipStartSec: -1,
+    });
+    expect(invalid.status).toBe(400);
+    expect(invalid.json.code).toBe("INVALID_INPUT");
+
+    const swapped = await post("/story/update-shot", {
+      sessionId,
+      sentenceIndex: 0,
+      clipId: session.shots[0].selectedClip.id,
+    });
+    expect(swapped.json.data.shots[0].clipStartSec).toBeUndefined();
+  });
+
+  test("update-script counts the total like the client, without separators", async () => {
+    const sessionId = await createStoryboard();
+    const full = [...Array(5).fill("a".repeat(160)), "b".repeat(50)];
+
+    const fits = await post("/story/update-script", {
+      sessionId,
+      sentences: full,
+    });
+    expect(fits.status).toBe(200);
+    expect(fits.json.data.story.sentences).toEqual(full);
+
+    const cases: [unknown, string][] = [
+      [[...full.slice(0, 5), "b".repeat(51)], "SCRIPT_TOO_LONG"],
+      [Array(9).fill("Beat."), "TOO_MANY_BEATS"],
+      [["c".repeat(161)], "BEAT_TOO_LONG"],
+      [["One.", "  "], "INVALID_INPUT"],
+      [[], "INVALID_INPUT"],
+    ];
+    for (const [sentences, code] of cases) {
+      const rejected = await post("/story/update-script", {
+        sessionId,
+        sentences,
+      });
+      expect(rejected.status).toBe(400);
+      expect(rejected.json.code).toBe(code);
+    }
+  });
+
+  test("sessions are only visible to the uid that started them", async () => {
+    const sessionId = await createStoryboard("user-a");
+
+    expect((await get(`/story/${sessionId}`, "user-a")).status).toBe(200);
+    const read = await get(`/story/${sessionId}`, "user-b");
+    expect(read.status).toBe(404);
+    expect(read.json.code).toBe("NOT_FOUND");
+
+    const write = await post(
+      "/story/update-script",
+      { sessionId, sentences: ["Taken over."] },
+      { uid: "user-b" },
+    );
+    expect(write.status).toBe(404);
+    const after = await get(`/story/${sessionId}`, "user-a");
+    expect(after.json.data.story.sentences).not.toEqual(["Taken over."]);
+  });
+
+  test("sync replays an idempotency key and refuses a second run", async () => {
+    const sessionId = await createStoryboard();
+    const missing = await post("/story/sync", { sessionId });
+    expect(missing.status).toBe(400);
+    expect(missing.json.code).toBe("MISSING_IDEMPOTENCY_KEY");
+
+    const headers = { "x-idempotency-key": "sync-key-1" };
+    const first = await post("/story/sync", { sessionId }, { headers });
+    expect(first.status).toBe(202);
+    const replay = await post("/story/sync", { sessionId }, { headers });
+    expect(replay.json.sync.attemptId).toBe(first.json.sync.attemptId);
+
+    const other = await post(
+      "/story/sync",
+      { sessionId },
+      { headers: { "x-idempotency-key": "sync-key-2" } },
+    );
+    expect(other.status).toBe(409);
+    expect(other.json.code).toBe("STORY_SYNC_ALREADY_ACTIVE");
+
+    const otherSession = await createStoryboard();
+    const reused = await post(
+      "/story/sync",
+      { sessionId: otherSession },
+      { headers },
+    );
+    expect(reused.status).toBe(409);
+    expect(reused.json.code).toBe("IDEMPOTENCY_KEY_REUSED");
+  });
+});
@@ -1,9 +1,1008 @@
-import type { Express } from "express";
+import type { Express, NextFunction, Request, Response } from "express";
+import { Router } from "express";
+import { randomUUID } from "node:crypto";
 import { createServer, type Server } from "node:http";
+import type { StoryClip, StorySession } from "@/types/story";
+import {
+  storage,
+  type MockAttemptKind,
+  type MockStoryAttempt,
+} from "./storage";
+import {
+  MOCK_CAPTION_RASTER_URL,
+  MOCK_MAX_BEAT_CHARS,
+  MOCK_MAX_BEATS,
+  MOCK_MAX_TOTAL_CHARS,
+  applyVoiceSync,
+  createShot,
+  createStorySession,
+  findShot,
+  generateScript,
+  getVoiceSyncChargeSec,
+  invalidateDraftPreview,
+  planShots,
+  refreshDerivedState,
+  reindexAfter,
+  searchClips,
+} from "./storyMock";
+
+// -----------------------------------------------------------------------------
+// Local mock of the Vaiform backend. Mirrors the routes client/api/client.ts
+// calls so the create -> script -> storyboard -> render flow runs offline.
+// Disabled in production unless VAIFORM_MOCK_BACKEND=1.
+// -----------------------------------------------------------------------------
+
+const MOCK_PENDING_MS = Number(process.env.VAIFORM_MOCK_PENDING_MS ?? 3000);
+
+interface MockAuth {
+  uid: string;
+  email: string;
+}
+
+type AuthedRequest = Request & { mockAuth: MockAuth };
+
+class MockApiError extends Error {
+  constructor(
+    readonly status: number,
+    readonly code: string,
+    message: string,
+  ) {
+    super(message);
+  }
+}
+
+function isMockBackendEnabled(): boolean {
+  if (process.env.VAIFORM_MOCK_BACKEND === "1") return true;
+  if (process.env.VAIFORM_MOCK_BACKEND === "0") return false;
+  return process.env.NODE_ENV !== "production";
+}
+
+function getRequestId(res: Response): string {
+  return String(res.locals.requestId);
+}
+
+function sendSuccess(
+  res: Response,
+  data: unknown,
+  options: { status?: number; extra?: Record<string, unknown> } = {},
+) {
+  return res.status(options.status ?? 200).json({
+    success: true,
+    data,
+    ...options.extra,
+    requestId: getRequestId(res),
+  });
+}
+
+function sendError(
+  res: Response,
+  error: MockApiError,
+  extra: Record<string, unknown> = {},
+) {
+  return res.status(error.status).json({
+    success: false,
+    error: error.code,
+    code: error.code,
+    message: error.message,
+    ...extra,
+    requestId: getRequestId(res),
+  });
+}
+
+/** Decode the Firebase ID token payload without verifying it; the mock trusts any bearer token. */
+function decodeBearerToken(header: string | undefined): MockAuth | null {
+  const token = header?.match(/^Bearer\s+(.+)$/i)?.[1]?.trim();
+  if (!token) return null;
+  try {
+    const [, payload] = token.split(".");
+    const claims = JSON.parse(
+      Buffer.from(payload ?? "", "base64url").toString("utf-8"),
+    ) as Record<string, unknown>;
+    const uid = claims.user_id ?? claims.sub;
+    if (typeof uid === "string" && uid.length > 0) {
+      return {
+        uid,
+        email: typeof claims.email === "string" ? claims.email : "",
+      };
+    }
+  } catch {
+    // Opaque tokens fall through to the shared local user.
+  }
+  return { uid: "local-user", email: "local@vaiform.test" };
+}
+
+function requireAuth(req: Request, res: Response, next: NextFunction) {
+  const auth = decodeBearerToken(req.header("authorization"));
+  if (!auth) {
+    sendError(
+      res,
+      new MockApiError(401, "AUTH_REQUIRED", "Please sign in to continue"),
+    );
+    return;
+  }
+  (req as AuthedRequest).mockAuth = auth;
+  next();
+}
+
+function getAuth(req: Request): MockAuth {
+  return (req as AuthedRequest).mockAuth;
+}
+
+function getIdempotencyKey(req: Request): string {
+  const key = req.header("x-idempotency-key")?.trim();
+  if (!key) {
+    throw new MockApiError(
+      400,
+      "MISSING_IDEMPOTENCY_KEY",
+      "X-Idempotency-Key header is required",
+    );
+  }
+  return key;
+}
+
+function readIndex(value: unknown, field: string, min = 0): number {
+  const index = Number(value);
+  if (!Number.isInteger(index) || index < min) {
+    throw new MockApiError(400, "INVALID_INPUT", `${field} must be an integer`);
+  }
+  return index;
+}
+
+function readText(value: unknown, field: string): string {
+  const text = typeof value === "string" ? value.trim() : "";
+  if (!text) {
+    throw new MockApiError(400, "INVALID_INPUT", `${field} is required`);
+  }
+  if (text.length > MOCK_MAX_BEAT_CHARS) {
+    throw new MockApiError(
+      400,
+      "BEAT_TOO_LONG",
+      `Beats are limited to ${MOCK_MAX_BEAT_CHARS} characters`,
+    );
+  }
+  return text;
+}
+
+function validateSentences(value: unknown): string[] {
+  if (!Array.isArray(value) || value.length === 0) {
+    throw new MockApiError(400, "INVALID_INPUT", "sentences must be non-empty");
+  }
+  const sentences = value.map((sentence, index) =>
+    readText(sentence, `sentences[${index}]`),
+  );
+  if (sentences.length > MOCK_MAX_BEATS) {
+    throw new MockApiError(
+      400,
+      "TOO_MANY_BEATS",
+      `Scripts are limited to ${MOCK_MAX_BEATS} beats`,
+    );
+  }
+  if (sentences.join("").length > MOCK_MAX_TOTAL_CHARS) {
+    throw new MockApiError(
+      400,
+      "SCRIPT_TOO_LONG",
+      `Scripts are limited to ${MOCK_MAX_TOTAL_CHARS} characters`,
+    );
+  }
+  return sentences;
+}
+
+function readClipStartSec(value: unknown): number | null {
+  if (value === undefined || value === null) return null;
+  if (typeof value !== "number" || !Number.isFinite(value) || value < 0) {
+    throw new MockApiError(
+      400,
+      "INVALID_INPUT",
+      "clipStartSec must be a non-negative number",
+    );
+  }
+  return value;
+}
+
+/**
+ * A clip the app saved from an earlier session (favorites) and sends whole,
+ * since it is not among this session's candidates.
+ */
+function readSavedClip(value: unknown, clipId: unknown): StoryClip | null {
+  const clip = value as Partial<StoryClip> | null | undefined;
+  if (
+    !clip ||
+    typeof clip !== "object" ||
+    typeof clip.id !== "string" ||
+    clip.id !== clipId ||
+    typeof clip.url !== "string" ||
+    !clip.url
+  ) {
+    return null;
+  }
+  return clip as StoryClip;
+}
+
+function assertSentenceIndex(session: StorySession, sentenceIndex: number) {
+  if (sentenceIndex >= (session.story?.sentences.length ?? 0)) {
+    throw new MockApiError(404, "BEAT_NOT_FOUND", "Beat not found");
+  }
+}
+
+/** Complete any pending attempt whose simulated work has finished. */
+async function settleSession(session: StorySession): Promise<StorySession> {
+  const attempts = await storage.listPendingAttempts(session.id);
+  for (const attempt of attempts) {
+    if (attempt.readyAt > Date.now()) continue;
+    await completeAttempt(session, attempt);
+  }
+  return session;
+}
+
+async function completeAttempt(
+  session: StorySession,
+  attempt: MockStoryAttempt,
+): Promise<void> {
+  if (attempt.kind === "sync") {
+    const mode = attempt.request.mode === "stale" ? "stale" : "full";
+    if (session.voiceSync) session.voiceSync.state = "stale";
+    applyVoiceSync(session, mode, attempt.chargeSec);
+    await storage.chargeUsage(attempt.uid, attempt.chargeSec);
+    invalidateDraftPreview(session);
+  } else if (attempt.kind === "preview") {
+    refreshDerivedState(session);
+    const ready = session.previewReadinessV1?.ready === true;
+    const firstClipUrl = session.playbackTimelineV1?.segments[0]?.clipUrl;
+    session.draftPreviewV1 = ready
+      ? {
+          version: 1,
+          state: "ready",
+          updatedAt: new Date().toISOString(),
+          artifact: {
+            url: firstClipUrl || null,
+            contentType: "video/mp4",
+            durationSec: session.playbackTimelineV1?.totalDurationSec ?? null,
+            width: 1080,
+            height: 1920,
+            createdAt: new Date().toISOString(),
+            expiresAt: session.expiresAt ?? null,
+          },
+          job: { state: "done", attemptId: attempt.attemptId },
+        }
+      : {
+          version: 1,
+          state: "stale",
+          updatedAt: new Date().toISOString(),
+          job: { state: "done", attemptId: attempt.attemptId },
+        };
+  } else {
+    const shortId = `short-${randomUUID()}`;
+    const durationSec = session.voiceSync?.totalDurationSec ?? 0;
+    const finishedAt = new Date().toISOString();
+    const firstClip = findShot(session, 0)?.selectedClip ?? null;
+    // Not a documented backend field yet; the app builds its credits from it.
+    const clips = [...(session.shots ?? [])]
+      .sort((a, b) => a.sentenceIndex - b.sentenceIndex)
+      .flatMap((shot) => (shot.selectedClip ? [shot.selectedClip] : []));
+    const videoUrl = `https://mock-media.vaiform.local/shorts/${shortId}.mp4`;
+    await storage.createShort({
+      item: {
+        id: shortId,
+        ownerId: attempt.uid,
+        status: "ready",
+        videoUrl,
+        thumbUrl: firstClip?.thumbUrl ?? undefined,
+        coverImageUrl: firstClip?.thumbUrl ?? undefined,
+        durationSec,
+        quoteText: session.story?.sentences[0],
+        mode: "story",
+        voiceover: session.voicePreset,
+        captionMode: "overlay",
+        watermark: false,
+        createdAt: finishedAt,
+        completedAt: finishedAt,
+        clips,
+      },
+      detail: {
+        id: shortId,
+        videoUrl,
+        coverImageUrl: firstClip?.thumbUrl ?? undefined,
+        durationSec,
+        usedQuote: { text: session.story?.sentences[0] },
+        billing: {
+          estimatedSec: attempt.chargeSec,
+          billedSec: attempt.chargeSec,
+          settledAt: finishedAt,
+          source: "mock",
+        },
+        createdAt: finishedAt,
+        clips,
+      },
+    });
+    await storage.chargeUsage(attempt.uid, attempt.chargeSec);
+    attempt.shortId = shortId;
+    session.status = "rendered";
+    session.finalVideo = { url: videoUrl, durationSec, jobId: shortId };
+    session.billing = { billedSec: attempt.chargeSec, settledAt: finishedAt };
+    session.renderRecovery = {
+      ...session.renderRecovery,
+      state: "done",
+      attemptId: attempt.attemptId,
+      shortId,
+      updatedAt: finishedAt,
+      finishedAt,
+    };
+  }
+  attempt.state = "done";
+  await storage.saveAttempt(attempt);
+  session.updatedAt = new Date().toISOString();
+  await storage.saveStorySession(session);
+}
+
+async function loadOwnedSession(
+  req: Request,
+  sessionId: unknown,
+): Promise<StorySession> {
+  if (typeof sessionId !== "string" || !sessionId) {
+    throw new MockApiError(400, "INVALID_INPUT", "sessionId is required");
+  }
+  const session = await storage.getStorySession(sessionId);
+  if (!session || session.uid !== getAuth(req).uid) {
+    throw new MockApiError(404, "NOT_FOUND", "This item no longer exists");
+  }
+  if (session.expiresAt && Date.parse(session.expiresAt) < Date.now()) {
+    throw new MockApiError(
+      404,
+      "NOT_FOUND",
+      "Session expired. Please start a new video.",
+    );
+  }
+  return settleSession(session);
+}
+
+async function saveSession(session: StorySession): Promise<StorySession> {
+  refreshDerivedState(session);
+  return storage.saveStorySession(session);
+}
+
+/**
+ * Return the attempt already recorded for this request's idempotency key, or
+ * null when the key is new and no other attempt of this kind is running.
+ */
+async function findReplayedAttempt(
+  req: Request,
+  kind: MockAttemptKind,
+  session: StorySession,
+  alreadyActiveCode: string,
+): Promise<MockStoryAttempt | null> {
+  const existing = await storage.getAttempt(
+    kind,
+    getAuth(req).uid,
+    getIdempotencyKey(req),
+  );
+  if (existing) {
+    if (existing.sessionId !== session.id) {
+      throw new MockApiError(
+        409,
+        "IDEMPOTENCY_KEY_REUSED",
+        "Idempotency key was already used for another session",
+      );
+    }
+    return existing;
+  }
+  const active = (await storage.listPendingAttempts(session.id)).find(
+    (attempt) => attempt.kind === kind,
+  );
+  if (active) {
+    throw new MockApiError(
+      409,
+      alreadyActiveCode,
+      `A ${kind} is already running for this session`,
+    );
+  }
+  return null;
+}
+
+async function createAttempt(
+  req: Request,
+  kind: MockAttemptKind,
+  session: StorySession,
+  chargeSec: number,
+): Promise<MockStoryAttempt> {
+  return storage.saveAttempt({
+    kind,
+    uid: getAuth(req).uid,
+    sessionId: session.id,
+    attemptId: getIdempotencyKey(req),
+    state: "pending",
+    readyAt: Date.now() + MOCK_PENDING_MS,
+    chargeSec,
+    request: { ...req.body },
+  });
+}
+
+async function assertAvailableSec(uid: string, requiredSec: number) {
+  const snapshot = await storage.getUsage(uid);
+  if (snapshot.usage.availableSec < requiredSec) {
+    throw new MockApiError(
+      402,
+      "INSUFFICIENT_RENDER_TIME",
+      `This needs ${requiredSec}s of render time but only ${snapshot.usage.availableSec}s is available`,
+    );
+  }
+}
+
+type Handler = (req: Request, res: Response) => Promise<unknown>;
+
+function route(handler: Handler) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    handler(req, res).catch((error: unknown) => {
+      if (error instanceof MockApiError) {
+        sendError(res, error);
+        return;
+      }
+      next(error);
+    });
+  };
+}
+
+function createMockApiRouter(): Router {
+  const router = Router();
+
+  router.use((_req, res, next) => {
+    res.locals.requestId = randomUUID();
+    res.setHeader("x-request-id", res.locals.requestId);
+    next();
+  });
+
+  router.use(requireAuth);
+
+  // ---------------------------------------------------------------------------
+  // Account
+  // ---------------------------------------------------------------------------
+
+  router.post(
+    "/users/ensure",
+    route(async (req, res) => {
+      const { uid, email } = getAuth(req);
+      sendSuccess(res, await storage.ensureProfile(uid, email));
+    }),
+  );
+
+  router.get(
+    "/usage",
+    route(async (req, res) => {
+      sendSuccess(res, await storage.getUsage(getAuth(req).uid));
+    }),
+  );
+
+  // ---------------------------------------------------------------------------
+  // Shorts library
+  // ---------------------------------------------------------------------------
+
+  router.get(
+    "/shorts/mine",
+    route(async (req, res) => {
+      const limit = Math.min(100, Math.max(1, Number(req.query.limit) || 24));
+      const cursor =
+        typeof req.query.cursor === "string" ? req.query.cursor : null;
+      const records = (await storage.listShorts(getAuth(req).uid)).filter(
+        (record) => !cursor || record.item.createdAt < cursor,
+      );
+      const items = records.slice(0, limit).map((record) => record.item);
+      const hasMore = records.length > limit;
+      sendSuccess(res, {
+        items,
+        hasMore,
+        nextCursor: hasMore ? items[items.length - 1]?.createdAt : undefined,
+      });
+    }),
+  );
+
+  router.get(
+    "/shorts/:id",
+    route(async (req, res) => {
+      const record = await storage.getShort(String(req.params.id));
+      if (!record || record.item.ownerId !== getAuth(req).uid) {
+        throw new MockApiError(404, "NOT_FOUND", "This item no longer exists");
+      }
+      sendSuccess(res, record.detail);
+    }),
+  );
+
+  // ---------------------------------------------------------------------------
+  // Caption preview
+  // ---------------------------------------------------------------------------
+
+  router.post(
+    "/caption/preview",
+    route(async (req, res) => {
+      const text = typeof req.body?.text === "string" ? req.body.text : " ";
+      const frameW = Number(req.body?.frameW) || 1080;
+      const frameH = Number(req.body?.frameH) || 1920;
+      const fontPx = Number(req.body?.style?.fontPx) || 48;
+      const wPct = Number(req.body?.style?.wPct) || 0.8;
+      const charsPerLine = Math.max(
+        1,
+        Math.floor((frameW * wPct) / (fontPx * 0.55)),
+      );
+      const lines = Math.max(1, Math.ceil(text.length / charsPerLine));
+      const rasterH = Math.round(lines * fontPx * 1.2 + fontPx * 0.5);
+      const yPct =
+        Number(req.body?.yPct) ||
+        { top: 0.1, center: 0.5, bottom: 0.9 }[
+          String(req.body?.placement) as "top" | "center" | "bottom"
+        ] ||
+        0.9;
+      sendSuccess(res, {
+        imageUrl: null,
+        wPx: frameW,
+        hPx: frameH,
+        xPx: Math.round((frameW * (1 - wPct)) / 2),
+        meta: {
+          rasterUrl: MOCK_CAPTION_RASTER_URL,
+          rasterW: Math.round(frameW * wPct),
+          rasterH,
+          yPx_png: Math.round(frameH * yPct - rasterH / 2),
+          rasterPadding: 24,
+          lines,
+          totalTextH: Math.round(lines * fontPx * 1.2),
+        },
+      });
+    }),
+  );
+
+  // ---------------------------------------------------------------------------
+  // Story: create and script
+  // ---------------------------------------------------------------------------
+
+  router.post(
+    "/story/start",
+    route(async (req, res) => {
+      const input = typeof req.body?.input === "string" ? req.body.input : "";
+      if (!input.trim()) {
+        throw new MockApiError(400, "INVALID_INPUT", "input is required");
+      }
+      const inputType = req.body?.inputType ?? "link";
+      const session = createStorySession({
+        id: `story-${randomUUID()}`,
+        uid: getAuth(req).uid,
+        input: {
+          text: input.trim(),
+          type: inputType,
+          url: inputType === "link" ? input.trim() : undefined,
+        },
+        styleKey: req.body?.styleKey,
+      });
+      sendSuccess(res, await saveSession(session));
+    }),
+  );
+
+  router.post(
+    "/story/generate",
+    route(async (req, res) => {
+      const session = await loadOwnedSession(req, req.body?.sessionId);
+      if (typeof req.body?.input === "string" && req.body.input.trim()) {
+        session.input = {
+          text: req.body.input.trim(),
+          type: req.body.inputType ?? session.input?.type ?? "link",
+        };
+      }
+      if (!session.input) {
+        throw new MockApiError(400, "INVALID_INPUT", "Session has no input");
+      }
+      session.story = {
+        sentences: generateScript(session.input, session.styleKey),
+      };
+      session.plan = undefined;
+      session.shots = undefined;
+      session.beats = [];
+      session.status = "script";
+      sendSuccess(res, await saveSession(session));
+    }),
+  );
+
+  router.post(
+    "/story/update-script",
+    route(async (req, res) => {
+      const session = await loadOwnedSession(req, req.body?.sessionId);
+      const sentences = validateSentences(req.body?.sentences);
+      session.story = { sentences };
+      if (session.shots) {
+        session.shots = sentences.map(
+          (text, index) => findShot(session, index) ?? createShot(index, text),
+        );
+        session.plan = planShots(sentences);
+      }
+      invalidateDraftPreview(session);
+      sendSuccess(res, await saveSession(session));
+    }),
+  );
+
+  router.post(
+    "/story/update-beat-text",
+    route(async (req, res) => {
+      const session = await loadOwnedSession(req, req.body?.sessionId);
+      const sentenceIndex = readIndex(req.body?.sentenceIndex, "sentenceIndex");
+      assertSentenceIndex(session, sentenceIndex);
+      const sentences = [...(session.story?.sentences ?? [])];
+      sentences[sentenceIndex] = readText(req.body?.text, "text");
+      validateSentences(sentences);
+      session.story = { sentences };
+      invalidateDraftPreview(session);
+      await saveSession(session);
+      sendSuccess(res, { sentences, shots: session.shots ?? [] });
+    }),
+  );
+
+  router.post(
+    "/story/insert-beat",
+    route(async (req, res) => {
+      const session = await loadOwnedSession(req, req.body?.sessionId);
+      const insertAfterIndex = readIndex(
+        req.body?.insertAfterIndex,
+        "insertAfterIndex",
+        -1,
+      );
+      const sentences = [...(session.story?.sentences ?? [])];
+      if (insertAfterIndex >= sentences.length) {
+        throw new MockApiError(404, "BEAT_NOT_FOUND", "Beat not found");
+      }
+      const text = readText(req.body?.text, "text");
+      const insertedIndex = insertAfterIndex + 1;
+      sentences.splice(insertedIndex, 0, text);
+      validateSentences(sentences);
+      reindexAfter(session, insertedIndex, 1);
+      session.story = { sentences };
+      if (session.shots) {
+        session.shots = [
+          ...session.shots,
+          { ...createShot(insertedIndex, text), selectedClip: null },
+        ].sort((left, right) => left.sentenceIndex - right.sentenceIndex);
+      }
+      invalidateDraftPreview(session);
+      await saveSession(session);
+      sendSuccess(res, {
+        sentences,
+        shots: session.shots ?? [],
+        insertedIndex,
+      });
+    }),
+  );
+
+  router.post(
+    "/story/delete-beat",
+    route(async (req, res) => {
+      const session = await loadOwnedSession(req, req.body?.sessionId);
+      const sentenceIndex = readIndex(req.body?.sentenceIndex, "sentenceIndex");
+      assertSentenceIndex(session, sentenceIndex);
+      const sentences = [...(session.story?.sentences ?? [])];
+      if (sentences.length <= 1) {
+        throw new MockApiError(
+          400,
+          "LAST_BEAT",
+          "A story needs at least one beat",
+        );
+      }
+      sentences.splice(sentenceIndex, 1);
+      reindexAfter(session, sentenceIndex, -1);
+      session.story = { sentences };
+      invalidateDraftPreview(session);
+      await saveSession(session);
+      sendSuccess(res, { sentences, shots: session.shots ?? [] });
+    }),
+  );
+
+  // ---------------------------------------------------------------------------
+  // Story: storyboard and clips
+  // ---------------------------------------------------------------------------
+
+  router.post(
+    "/story/plan",
+    route(async (req, res) => {
+      const session = await loadOwnedSession(req, req.body?.sessionId);
+      const sentences = session.story?.sentences ?? [];
+      if (sentences.length === 0) {
+        throw new MockApiError(
+          409,
+          "SCRIPT_REQUIRED",
+          "Generate a script first",
+        );
+      }
+      session.plan = planShots(sentences);
+      session.status = "planned";
+      sendSuccess(res, await saveSession(session));
+    }),
+  );
+
+  router.post(
+    "/story/search",
+    route(async (req, res) => {
+      const session = await loadOwnedSession(req, req.body?.sessionId);
+      if (!session.plan?.length) {
+        throw new MockApiError(
+          409,
+          "PLAN_REQUIRED",
+          "Plan the storyboard first",
+        );
+      }
+      session.shots = (session.story?.sentences ?? []).map((text, index) =>
+        createShot(index, text),
+      );
+      session.status = "storyboard";
+      sendSuccess(res, await saveSession(session));
+    }),
+  );
+
+  router.post(
+    "/story/search-shot",
+    route(async (req, res) => {
+      const session = await loadOwnedSession(req, req.body?.sessionId);
+      const sentenceIndex = readIndex(req.body?.sentenceIndex, "sentenceIndex");
+      assertSentenceIndex(session, sentenceIndex);
+      const page = Math.max(1, Number(req.body?.page) || 1);
+      const existing =
+        findShot(session, sentenceIndex) ??
+        createShot(
+          sentenceIndex,
+          session.story?.sentences[sentenceIndex] ?? "",
+        );
+      const query =
+        typeof req.body?.query === "string" && req.body.query.trim()
+          ? req.body.query.trim()
+          : (existing.searchQuery ?? "");
+      const { clips, hasMore } = searchClips(query, page);
+      const shot = {
+        ...existing,
+        searchQuery: query,
+        candidates:
+          page > 1 ? [...(existing.candidates ?? []), ...clips] : clips,
+      };
+      session.shots = [
+        ...(session.shots ?? []).filter(
+          (entry) => entry.sentenceIndex !== sentenceIndex,
+        ),
+        shot,
+      ].sort((left, right) => left.sentenceIndex - right.sentenceIndex);
+      await saveSession(session);
+      sendSuccess(res, { shot: { ...shot, candidates: clips }, page, hasMore });
+    }),
+  );
+
+  router.post(
+    "/story/update-shot",
+    route(async (req, res) => {
+      const session = await loadOwnedSession(req, req.body?.sessionId);
+      const sentenceIndex = readIndex(req.body?.sentenceIndex, "sentenceIndex");
+      assertSentenceIndex(session, sentenceIndex);
+      const shot = findShot(session, sentenceIndex);
+      const clip =
+        (session.shots ?? [])
+          .flatMap((entry) => [entry.selectedClip, ...(entry.candidates ?? [])])
+          .find((candidate) => candidate?.id === req.body?.clipId) ??
+        readSavedClip(req.body?.clip, req.body?.clipId);
+      if (!shot || !clip) {
+        throw new MockApiError(404, "CLIP_NOT_FOUND", "Clip not found");
+      }
+      const clipStartSec = readClipStartSec(req.body?.clipStartSec);
+      shot.selectedClip = clip;
+      // Without an in-point the clip plays from the start.
+      if (clipStartSec === null) delete shot.clipStartSec;
+      else shot.clipStartSec = clipStartSec;
+      invalidateDraftPreview(session);
+      sendSuccess(res, await saveSession(session));
+    }),
+  );
+
+  router.post(
+    "/story/update-caption-style",
+    route(async (req, res) => {
+      const session = await loadOwnedSession(req, req.body?.sessionId);
+      const overlayCaption = req.body?.overlayCaption;
+      if (!overlayCaption || typeof overlayCaption !== "object") {
+        throw new MockApiError(
+          400,
+          "INVALID_INPUT",
+          "overlayCaption is required",
+        );
+      }
+      session.overlayCaption = { ...session.overlayCaption, ...overlayCaption };
+      invalidateDraftPreview(session);
+      await saveSession(session);
+      sendSuccess(res, { overlayCaption: session.overlayCaption });
+    }),
+  );
+
+  // ---------------------------------------------------------------------------
+  // Story: voice sync, preview, and render attempts
+  // ---------------------------------------------------------------------------
+
+  router.post(
+    "/story/sync",
+    route(async (req, res) => {
+      const session = await loadOwnedSession(req, req.body?.sessionId);
+      if (!session.shots?.length) {
+        throw new MockApiError(
+          409,
+          "STORYBOARD_REQUIRED",
+          "Generate the storyboard before syncing voice",
+        );
+      }
+      let attempt = await findReplayedAttempt(
+        req,
+        "sync",
+        session,
+        "STORY_SYNC_ALREADY_ACTIVE",
+      );
+      if (!attempt) {
+        if (typeof req.body?.voicePreset === "string") {
+          session.voicePreset = req.body.voicePreset;
+        }
+        if (typeof req.body?.voicePacePreset === "string") {
+          session.voicePacePreset = req.body.voicePacePreset;
+        }
+        refreshDerivedState(session);
+        const chargeSec = getVoiceSyncChargeSec(
+          session,
+          req.body?.mode === "stale" ? "stale" : "full",
+        );
+        await assertAvailableSec(getAuth(req).uid, chargeSec);
+        attempt = await createAttempt(req, "sync", session, chargeSec);
+        if (session.voiceSync) session.voiceSync.state = "syncing";
+        await storage.saveStorySession(session);
+        await settleSession(session);
+      }
+      if (attempt.state === "pending") {
+        sendSuccess(res, session, {
+          status: 202,
+          extra: {
+            sync: {
+              state: "pending",
+              attemptId: attempt.attemptId,
+              pollSessionId: session.id,
+            },
+          },
+        });
+        return;
+      }
+      sendSuccess(res, session);
+    }),
+  );
+
+  router.post(
+    "/story/preview",
+    route(async (req, res) => {
+      const session = await loadOwnedSession(req, req.body?.sessionId);
+      const readiness = session.previewReadinessV1;
+      if (!readiness?.ready) {
+        session.draftPreviewV1 = {
+          version: 1,
+          state: "blocked",
+          updatedAt: new Date().toISOString(),
+          blocked: {
+            reasonCode: readiness?.reasonCode ?? "VOICE_SYNC_NOT_CURRENT",
+            missingBeatIndices: readiness?.missingBeatIndices ?? [],
+          },
+        };
+        sendSuccess(res, await storage.saveStorySession(session));
+        return;
+      }
+      let attempt = await findReplayedAttempt(
+        req,
+        "preview",
+        session,
+        "PREVIEW_ALREADY_ACTIVE",
+      );
+      if (!attempt) {
+        attempt = await createAttempt(req, "preview", session, 0);
+        session.draftPreviewV1 = {
+          version: 1,
+          state: "queued",
+          updatedAt: new Date().toISOString(),
+          job: {
+            state: "queued",
+            attemptId: attempt.attemptId,
+            retryAfterSec: Math.ceil(MOCK_PENDING_MS / 1000),
+          },
+        };
+        await storage.saveStorySession(session);
+        await settleSession(session);
+      }
+      if (attempt.state === "pending") {
+        sendSuccess(res, session, {
+          status: 202,
+          extra: {
+            preview: { state: "pending", attemptId: attempt.attemptId },
+          },
+        });
+        return;
+      }
+      sendSuccess(res, session);
+    }),
+  );
+
+  router.post(
+    "/story/finalize",
+    route(async (req, res) => {
+      const session = await loadOwnedSession(req, req.body?.sessionId);
+      let attempt = await findReplayedAttempt(
+        req,
+        "finalize",
+        session,
+        "FINALIZE_ALREADY_ACTIVE",
+      );
+      if (!attempt) {
+        const voiceState = session.voiceSync?.state;
+        if (voiceState === "never_synced" || voiceState === "syncing") {
+          throw new MockApiError(
+            409,
+            "VOICE_SYNC_REQUIRED",
+            "Sync voice and timing before render.",
+          );
+        }
+        if (voiceState !== "current") {
+          throw new MockApiError(
+            409,
+            "VOICE_SYNC_STALE",
+            "Voice timing is stale. Re-sync before render.",
+          );
+        }
+        if (!session.previewReadinessV1?.ready) {
+          throw new MockApiError(
+            409,
+            "MISSING_CLIP_COVERAGE",
+            "Every beat needs a selected clip before render.",
+          );
+        }
+        const chargeSec = Math.ceil(session.voiceSync?.totalDurationSec ?? 0);
+        await assertAvailableSec(getAuth(req).uid, chargeSec);
+        attempt = await createAttempt(req, "finalize", session, chargeSec);
+        const startedAt = new Date().toISOString();
+        session.status = "rendering";
+        session.renderRecovery = {
+          state: "pending",
+          attemptId: attempt.attemptId,
+          shortId: null,
+          startedAt,
+          updatedAt: startedAt,
+        };
+        await storage.saveStorySession(session);
+        await settleSession(session);
+      }
+      if (attempt.state === "pending") {
+        sendSuccess(res, session, {
+          status: 202,
+          extra: {
+            shortId: null,
+            finalize: {
+              state: "pending",
+              attemptId: attempt.attemptId,
+              pollSessionId: session.id,
+            },
+          },
+        });
+        return;
+      }
+      sendSuccess(res, session, {
+        extra: { shortId: attempt.shortId ?? null },
+      });
+    }),
+  );
+
+  router.get(
+    "/story/:sessionId",
+    route(async (req, res) => {
+      sendSuccess(res, await loadOwnedSession(req, req.params.sessionId));
+    }),
+  );
+
+  return router;
+}
 
 export async function registerRoutes(app: Express): Promise<Server> {
   // put application routes here
   // prefix all routes with /api
+  if (isMockBackendEnabled()) {
+    app.get("/health", (_req, res) => {
+      res.json({ success: true, data: { status: "ok", mock: true } });
+    });
+    app.use("/api", createMockApiRouter());
+  }
 
   const httpServer = createServer(app);
 
@@ -1,20 +1,109 @@
 import { type User, type InsertUser } from "@shared/schema";
 import { randomUUID } from "crypto";
+import type {
+  ShortDetail,
+  ShortItem,
+  UsageSnapshot,
+  UserProfile,
+} from "@/api/client";
+import type { StorySession } from "@/types/story";
 
 // modify the interface with any CRUD methods
 // you might need
 
+export type MockAttemptKind = "preview" | "sync" | "finalize";
+
+/**
+ * Idempotent attempt record for the mock preview/sync/finalize routes.
+ * `readyAt` is compared against the clock on every read so pending work settles
+ * lazily without background timers.
+ */
+export interface MockStoryAttempt {
+  kind: MockAttemptKind;
+  uid: string;
+  sessionId: string;
+  attemptId: string;
+  state: "pending" | "done" | "failed";
+  readyAt: number;
+  chargeSec: number;
+  request: Record<string, unknown>;
+  shortId?: string | null;
+}
+
+export interface MockShortRecord {
+  item: ShortItem;
+  detail: ShortDetail;
+}
+
 export interface IStorage {
   getUser(id: string): Promise<User | undefined>;
   getUserByUsername(username: string): Promise<User | undefined>;
   createUser(user: InsertUser): Promise<User>;
+  ensureProfile(uid: string, email: string): Promise<UserProfile>;
+  getUsage(uid: string): Promise<UsageSnapshot>;
+  chargeUsage(uid: string, sec: number): Promise<UsageSnapshot>;
+  getStorySession(id: string): Promise<StorySession | undefined>;
+  saveStorySession(session: StorySession): Promise<StorySession>;
+  getAttempt(
+    kind: MockAttemptKind,
+    uid: string,
+    idempotencyKey: string,
+  ): Promise<MockStoryAttempt | undefined>;
+  saveAttempt(attempt: MockStoryAttempt): Promise<MockStoryAttempt>;
+  listPendingAttempts(sessionId: string): Promise<MockStoryAttempt[]>;
+  createShort(record: MockShortRecord): Promise<MockShortRecord>;
+  getShort(id: string): Promise<MockShortRecord | undefined>;
+  listShorts(uid: string): Promise<MockShortRecord[]>;
+}
+
+const MOCK_INCLUDED_SEC = 600;
+
+function createUsageSnapshot(): UsageSnapshot {
+  return {
+    plan: "free",
+    membership: {
+      status: "active",
+      kind: "free",
+      billingCadence: "monthly",
+      startedAt: new Date().toISOString(),
+      expiresAt: null,
+      canceledAt: null,
+    },
+    usage: {
+      billingUnit: "sec",
+      periodStartAt: new Date().toISOString(),
+      periodEndAt: null,
+      cycleIncludedSec: MOCK_INCLUDED_SEC,
+      cycleUsedSec: 0,
+      cycleReservedSec: 0,
+      availableSec: MOCK_INCLUDED_SEC,
+    },
+  };
+}
+
+function attemptKey(
+  kind: MockAttemptKind,
+  uid: string,
+  idempotencyKey: string,
+): string {
+  return `${kind}:${uid}:${idempotencyKey}`;
 }
 
 export class MemStorage implements IStorage {
   private users: Map<string, User>;
+  private profiles: Map<string, UserProfile>;
+  private usage: Map<string, UsageSnapshot>;
+  private storySessions: Map<string, StorySession>;
+  private attempts: Map<string, MockStoryAttempt>;
+  private shorts: Map<string, MockShortRecord>;
 
   constructor() {
     this.users = new Map();
+    this.profiles = new Map();
+    this.usage = new Map();
+    this.storySessions = new Map();
+    this.attempts = new Map();
+    this.shorts = new Map();
   }
 
   async getUser(id: string): Promise<User | undefined> {
@@ -33,6 +122,88 @@ export class MemStorage implements IStorage {
     this.users.set(id, user);
     return user;
   }
+
+  async ensureProfile(uid: string, email: string): Promise<UserProfile> {
+    const existing = this.profiles.get(uid);
+    if (existing) return existing;
+    const profile: UserProfile = {
+      uid,
+      email,
+      plan: "free",
+      freeShortsUsed: 0,
+    };
+    this.profiles.set(uid, profile);
+    return profile;
+  }
+
+  async getUsage(uid: string): Promise<UsageSnapshot> {
+    let snapshot = this.usage.get(uid);
+    if (!snapshot) {
+      snapshot = createUsageSnapshot();
+      this.usage.set(uid, snapshot);
+    }
+    return snapshot;
+  }
+
+  async chargeUsage(uid: string, sec: number): Promise<UsageSnapshot> {
+    const snapshot = await this.getUsage(uid);
+    const charged = Math.max(0, Math.ceil(sec));
+    snapshot.usage.cycleUsedSec += charged;
+    snapshot.usage.availableSec = Math.max(
+      0,
+      snapshot.usage.cycleIncludedSec - snapshot.usage.cycleUsedSec,
+    );
+    return snapshot;
+  }
+
+  async getStorySession(id: string): Promise<StorySession | undefined> {
+    return this.storySessions.get(id);
+  }
+
+  async saveStorySession(session: StorySession): Promise<StorySession> {
+    this.storySessions.set(session.id, session);
+    return session;
+  }
+
+  async getAttempt(
+    kind: MockAttemptKind,
+    uid: string,
+    idempotencyKey: string,
+  ): Promise<MockStoryAttempt | undefined> {
+    return this.attempts.get(attemptKey(kind, uid, idempotencyKey));
+  }
+
+  async saveAttempt(attempt: MockStoryAttempt): Promise<MockStoryAttempt> {
+    this.attempts.set(
+      attemptKey(attempt.kind, attempt.uid, attempt.attemptId),
+      attempt,
+    );
+    return attempt;
+  }
+
+  async listPendingAttempts(sessionId: string): Promise<MockStoryAttempt[]> {
+    return Array.from(this.attempts.values()).filter(
+      (attempt) =>
+        attempt.sessionId === sessionId && attempt.state === "pending",
+    );
+  }
+
+  async createShort(record: MockShortRecord): Promise<MockShortRecord> {
+    this.shorts.set(record.item.id, record);
+    return record;
+  }
+
+  async getShort(id: string): Promise<MockShortRecord | undefined> {
+    return this.shorts.get(id);
+  }
+
+  async listShorts(uid: string): Promise<MockShortRecord[]> {
+    return Array.from(this.shorts.values())
+      .filter((record) => record.item.ownerId === uid)
+      .sort((left, right) =>
+        right.item.createdAt.localeCompare(left.item.createdAt),
+      );
+  }
 }
 
 export const storage = new MemStorage();
@@ -0,0 +1,566 @@
+import { createHash } from "crypto";
+import type {
+  StoryBeat,
+  StoryCaption,
+  StoryClip,
+  StoryInput,
+  StoryOverlayCaptionStyle,
+  StoryPlanBeat,
+  StoryPlaybackTimelineSegmentV1,
+  StorySession,
+  StoryShot,
+  StoryVoiceOption,
+} from "@/types/story";
+
+// Pure helpers for the local mock backend. Everything here is deterministic so
+// the same input produces the same script, clips, and timings across runs.
+
+export const MOCK_MAX_BEATS = 8;
+export const MOCK_MAX_BEAT_CHARS = 160;
+export const MOCK_MAX_TOTAL_CHARS = 850;
+export const MOCK_SESSION_TTL_MS = 48 * 60 * 60 * 1000;
+export const MOCK_MEDIA_BASE_URL = "https://mock-media.vaiform.local";
+
+const CLIPS_PER_PAGE = 8;
+const CLIP_PAGES_PER_QUERY = 3;
+const WORDS_PER_SEC_BY_PACE: Record<string, number> = {
+  slow: 2.2,
+  normal: 2.6,
+  fast: 3.1,
+};
+
+export const MOCK_VOICE_OPTIONS: StoryVoiceOption[] = [
+  { key: "aria", name: "Aria", gender: "female", emotion: "warm" },
+  { key: "miles", name: "Miles", gender: "male", emotion: "calm" },
+  { key: "nova", name: "Nova", gender: "female", emotion: "energetic" },
+];
+
+const DEFAULT_OVERLAY_CAPTION: StoryOverlayCaptionStyle = {
+  fontFamily: "DejaVu Sans",
+  fontPx: 48,
+  weightCss: "700",
+  fontStyle: "normal",
+  color: "#FFFFFF",
+  opacity: 1,
+  strokePx: 3,
+  strokeColor: "rgba(0,0,0,0.85)",
+  shadowBlur: 0,
+  shadowOffsetX: 1,
+  shadowOffsetY: 1,
+  shadowColor: "rgba(0,0,0,0.6)",
+  placement: "bottom",
+  yPct: 0.9,
+  wPct: 0.8,
+};
+
+const PROVIDERS = [
+  { provider: "pexels", license: "Pexels License" },
+  { provider: "pixabay", license: "Pixabay Content License" },
+  { provider: "pexels", license: undefined },
+] as const;
+
+const CLIP_SHAPES = [
+  { width: 1080, height: 1920 },
+  { width: 1920, height: 1080 },
+  { width: 1080, height: 1080 },
+] as const;
+
+const PHOTOGRAPHERS = ["Ana Ruiz", "Kenji Mori", "Lena Vogt", "Sam Okafor"];
+
+const STOP_WORDS = new Set([
+  "a",
+  "an",
+  "and",
+  "are",
+  "as",
+  "at",
+  "be",
+  "but",
+  "by",
+  "for",
+  "from",
+  "how",
+  "in",
+  "into",
+  "is",
+  "it",
+  "its",
+  "of",
+  "on",
+  "or",
+  "that",
+  "the",
+  "this",
+  "to",
+  "was",
+  "what",
+  "when",
+  "why",
+  "with",
+  "you",
+  "your",
+]);
+
+export function hashText(value: string): string {
+  return createHash("sha1").update(value).digest("hex").slice(0, 12);
+}
+
+function clampBeat(text: string): string {
+  const trimmed = text.replace(/\s+/g, " ").trim();
+  if (trimmed.length <= MOCK_MAX_BEAT_CHARS) return trimmed;
+  return `${trimmed.slice(0, MOCK_MAX_BEAT_CHARS - 1).trimEnd()}…`;
+}
+
+export function splitIntoSentences(text: string): string[] {
+  return (text.match(/[^.!?\n]+[.!?]*/g) ?? [])
+    .map((sentence) => clampBeat(sentence))
+    .filter((sentence) => sentence.length > 0);
+}
+
+function extractKeywords(text: string, limit: number): string[] {
+  const words = text
+    .toLowerCase()
+    .replace(/[^a-z0-9\s-]/g, " ")
+    .split(/\s+/)
+    .filter((word) => word.length > 2 && !STOP_WORDS.has(word));
+  return Array.from(new Set(words)).slice(0, limit);
+}
+
+function deriveTopic(input: StoryInput): string {
+  if (input.type === "link") {
+    try {
+      const url = new URL(input.text);
+      const slug = url.pathname
+        .split("/")
+        .filter(Boolean)
+        .pop()
+        ?.replace(/[-_]+/g, " ")
+        .replace(/\.[a-z]+$/i, "");
+      return slug?.trim() || url.hostname.replace(/^www\./, "");
+    } catch {
+      return input.text.trim();
+    }
+  }
+  return input.text.trim().replace(/[.!?]+$/, "");
+}
+
+export function generateScript(
+  input: StoryInput,
+  styleKey: string | undefined,
+): string[] {
+  if (input.type === "paragraph") {
+    return splitIntoSentences(input.text).slice(0, MOCK_MAX_BEATS);
+  }
+
+  const topic = deriveTopic(input) || "this idea";
+  const opener =
+    styleKey === "hype"
+      ? `Stop scrolling: ${topic} is about to change how you think.`
+      : styleKey === "cozy"
+        ? `Grab something warm, because ${topic} is worth slowing down for.`
+        : `Here is what most people miss about ${topic}.`;
+  return [
+    opener,
+    `It starts small, with one choice that feels almost too easy.`,
+    `Then that choice repeats until it becomes part of your day.`,
+    `The results stay invisible for weeks, which is why most people quit.`,
+    `But the ones who keep going see everything compound at once.`,
+    `So start today, and let ${topic} do the heavy lifting.`,
+  ].map((sentence) => clampBeat(sentence));
+}
+
+export function planShots(sentences: string[]): StoryPlanBeat[] {
+  return sentences.map((sentence, sentenceIndex) => {
+    const keywords = extractKeywords(sentence, 3);
+    return {
+      sentenceIndex,
+      searchQuery: keywords.join(" ") || "city lights",
+      visualDescription: `B-roll that shows ${keywords.join(", ") || "a calm city scene"}.`,
+      durationSec: estimateNarrationSec(sentence, "normal"),
+    };
+  });
+}
+
+export function searchClips(
+  query: string,
+  page: number,
+): { clips: StoryClip[]; hasMore: boolean } {
+  const normalizedQuery = query.trim().toLowerCase() || "city lights";
+  const safePage = Math.max(1, Math.floor(page) || 1);
+  if (safePage > CLIP_PAGES_PER_QUERY) {
+    return { clips: [], hasMore: false };
+  }
+  const clips: StoryClip[] = [];
+  for (let index = 0; index < CLIPS_PER_PAGE; index += 1) {
+    const seed = hashText(`${normalizedQuery}:${safePage}:${index}`);
+    const seedNumber = parseInt(seed.slice(0, 8), 16);
+    const source = PROVIDERS[seedNumber % PROVIDERS.length];
+    const shape = CLIP_SHAPES[(seedNumber >>> 3) % CLIP_SHAPES.length];
+    const id = `mock-${seed}`;
+    clips.push({
+      id,
+      url: `${MOCK_MEDIA_BASE_URL}/clips/${id}.mp4`,
+      thumbUrl: `${MOCK_MEDIA_BASE_URL}/thumbs/${id}.jpg`,
+      duration: 4 + (seedNumber % 17),
+      width: shape.width,
+      height: shape.height,
+      photographer: PHOTOGRAPHERS[(seedNumber >>> 5) % PHOTOGRAPHERS.length],
+      sourceUrl: `https://www.${source.provider}.com/video/${seed}`,
+      provider: source.provider,
+      providerId: seed,
+      license: source.license,
+    });
+  }
+  return { clips, hasMore: safePage < CLIP_PAGES_PER_QUERY };
+}
+
+export function estimateNarrationSec(text: string, pacePreset: string): number {
+  const words = text.trim().split(/\s+/).filter(Boolean).length;
+  const wordsPerSec =
+    WORDS_PER_SEC_BY_PACE[pacePreset] ?? WORDS_PER_SEC_BY_PACE.normal;
+  return Math.max(1, Math.round((words / wordsPerSec) * 100) / 100);
+}
+
+export function createStorySession(params: {
+  id: string;
+  uid: string;
+  input: StoryInput;
+  styleKey?: string;
+}): StorySession {
+  const now = new Date();
+  return {
+    id: params.id,
+    uid: params.uid,
+    createdAt: now.toISOString(),
+    updatedAt: now.toISOString(),
+    expiresAt: new Date(now.getTime() + MOCK_SESSION_TTL_MS).toISOString(),
+    status: "draft",
+    styleKey: params.styleKey,
+    input: params.input,
+    story: { sentences: [] },
+    overlayCaption: { ...DEFAULT_OVERLAY_CAPTION },
+    voicePreset: MOCK_VOICE_OPTIONS[0].key,
+    voicePacePreset: "normal",
+    voiceOptions: MOCK_VOICE_OPTIONS,
+    voiceSync: {
+      schemaVersion: 1,
+      state: "never_synced",
+      requiredForRender: true,
+      staleScope: "none",
+      staleBeatIndices: [],
+      currentFingerprint: null,
+      nextEstimatedChargeSec: null,
+      totalDurationSec: null,
+      previewAudioUrl: null,
+      previewAudioDurationSec: null,
+      lastChargeSec: null,
+      totalBilledSec: 0,
+      lastSyncedAt: null,
+      cached: false,
+    },
+    playbackTimelineV1: null,
+    previewReadinessV1: null,
+    draftPreviewV1: { version: 1, state: "not_requested" },
+    captionOverlayV1: null,
+    renderRecovery: null,
+    finalVideo: null,
+  };
+}
+
+function getSentences(session: StorySession): string[] {
+  return Array.isArray(session.story?.sentences) ? session.story.sentences : [];
+}
+
+function beatFingerprint(session: StorySession, text: string): string {
+  return hashText(
+    `${session.voicePreset ?? ""}:${session.voicePacePreset ?? "normal"}:${text}`,
+  );
+}
+
+function sessionFingerprint(beatFingerprints: (string | null)[]): string {
+  return hashText(beatFingerprints.map((value) => value ?? "-").join("|"));
+}
+
+/** Beats whose stored narration no longer matches their current text/voice. */
+export function getStaleBeatIndices(session: StorySession): number[] {
+  const beats = session.beats ?? [];
+  return getSentences(session).flatMap((text, index) =>
+    beats[index]?.narration?.fingerprint === beatFingerprint(session, text)
+      ? []
+      : [index],
+  );
+}
+
+export function getVoiceSyncChargeSec(
+  session: StorySession,
+  mode: "full" | "stale",
+): number {
+  const sentences = getSentences(session);
+  const indices =
+    mode === "full"
+      ? sentences.map((_, index) => index)
+      : getStaleBeatIndices(session);
+  const pace = session.voicePacePreset ?? "normal";
+  return Math.ceil(
+    indices.reduce(
+      (total, index) => total + estimateNarrationSec(sentences[index], pace),
+      0,
+    ),
+  );
+}
+
+/**
+ * Recompute voice sync, caption timing, playback timeline, and preview readiness
+ * from the session's current sentences, shots, and stored narration.
+ */
+export function refreshDerivedState(session: StorySession): StorySession {
+  const sentences = getSentences(session);
+  const beats: StoryBeat[] = sentences.map(
+    (_, index) =>
+      session.beats?.[index] ?? { captionMeta: null, narration: null },
+  );
+  session.beats = beats;
+
+  const voiceSync = session.voiceSync ?? {
+    state: "never_synced",
+  };
+  const hasEverSynced = Boolean(voiceSync.lastSyncedAt);
+  const staleBeatIndices = getStaleBeatIndices(session);
+  const currentFingerprint = sessionFingerprint(
+    beats.map((beat) => beat.narration?.fingerprint ?? null),
+  );
+  const estimatedTotalSec = sentences.reduce(
+    (total, text) =>
+      total + estimateNarrationSec(text, session.voicePacePreset ?? "normal"),
+    0,
+  );
+
+  if (voiceSync.state !== "syncing") {
+    if (!hasEverSynced) {
+      voiceSync.state = "never_synced";
+      voiceSync.staleScope = "none";
+    } else if (
+      staleBeatIndices.length > 0 ||
+      currentFingerprint !== voiceSync.currentFingerprint
+    ) {
+      voiceSync.state = "stale";
+      voiceSync.staleScope =
+        staleBeatIndices.length === sentences.length && sentences.length > 0
+          ? "full"
+          : "beat";
+    } else {
+      voiceSync.state = "current";
+      voiceSync.staleScope = "none";
+    }
+  }
+  voiceSync.staleBeatIndices = hasEverSynced ? staleBeatIndices : [];
+  voiceSync.nextEstimatedChargeSec = getVoiceSyncChargeSec(
+    session,
+    hasEverSynced ? "stale" : "full",
+  );
+  session.voiceSync = voiceSync;
+  session.billingEstimate = {
+    estimatedSec: Math.ceil(estimatedTotalSec),
+    source: voiceSync.state === "current" ? "voice_sync" : "heuristic",
+    computedAt: new Date().toISOString(),
+    heuristicEstimatedSec: Math.ceil(estimatedTotalSec),
+    heuristicSource: "words_per_sec",
+    heuristicComputedAt: new Date().toISOString(),
+  };
+
+  const isCurrent = voiceSync.state === "current";
+  if (isCurrent) {
+    rebuildTimeline(session);
+  } else {
+    session.captions = [];
+    session.playbackTimelineV1 = null;
+    session.captionOverlayV1 = null;
+  }
+
+  const missingBeatIndices = sentences.flatMap((_, index) =>
+    findShot(session, index)?.selectedClip ? [] : [index],
+  );
+  session.previewReadinessV1 = {
+    version: 1,
+    ready: isCurrent && missingBeatIndices.length === 0,
+    reasonCode: !isCurrent
+      ? "VOICE_SYNC_NOT_CURRENT"
+      : missingBeatIndices.length > 0
+        ? "MISSING_CLIP_COVERAGE"
+        : null,
+    missingBeatIndices,
+  };
+  session.updatedAt = new Date().toISOString();
+  return session;
+}
+
+function rebuildTimeline(session: StorySession): void {
+  const sentences = getSentences(session);
+  const captions: StoryCaption[] = [];
+  const segments: StoryPlaybackTimelineSegmentV1[] = [];
+  let cursorSec = 0;
+  sentences.forEach((text, sentenceIndex) => {
+    const durationSec =
+      session.beats?.[sentenceIndex]?.narration?.durationSec ??
+      estimateNarrationSec(text, session.voicePacePreset ?? "normal");
+    const clip = findShot(session, sentenceIndex)?.selectedClip ?? null;
+    const startTimeSec = cursorSec;
+    const endTimeSec = Math.round((cursorSec + durationSec) * 100) / 100;
+    captions.push({ sentenceIndex, text, startTimeSec, endTimeSec });
+    segments.push({
+      segmentIndex: sentenceIndex,
+      sentenceIndex,
+      ownerSentenceIndex: sentenceIndex,
+      clipUrl: clip?.url ?? "",
+      clipThumbUrl: clip?.thumbUrl ?? null,
+      globalStartSec: startTimeSec,
+      globalEndSec: endTimeSec,
+      clipStartSec: 0,
+      durationSec,
+    });
+    cursorSec = endTimeSec;
+  });
+
+  session.captions = captions;
+  session.playbackTimelineV1 = {
+    version: 1,
+    source: "auto",
+    totalDurationSec: cursorSec,
+    segments,
+  };
+  session.captionOverlayV1 = {
+    version: 1,
+    contractVersion: "caption-overlay-v1",
+    rendererVersion: "caption-overlay-v1",
+    frame: { width: 1080, height: 1920 },
+    placement: session.overlayCaption?.placement ?? "bottom",
+    style: session.overlayCaption,
+    segments: captions.map((caption) => ({
+      beatIndex: caption.sentenceIndex,
+      startSec: caption.startTimeSec,
+      endSec: caption.endTimeSec,
+      text: caption.text,
+    })),
+  };
+  if (session.voiceSync) {
+    session.voiceSync.totalDurationSec = cursorSec;
+  }
+}
+
+/** Write fresh narration for the given beats and mark voice sync current. */
+export function applyVoiceSync(
+  session: StorySession,
+  mode: "full" | "stale",
+  chargeSec: number,
+): StorySession {
+  const sentences = getSentences(session);
+  const indices = new Set(
+    mode === "full"
+      ? sentences.map((_, index) => index)
+      : getStaleBeatIndices(session),
+  );
+  const syncedAt = new Date().toISOString();
+  session.beats = sentences.map((text, index) => {
+    const beat = session.beats?.[index] ?? {
+      captionMeta: null,
+      narration: null,
+    };
+    if (!indices.has(index)) return beat;
+    return {
+      ...beat,
+      narration: {
+        fingerprint: beatFingerprint(session, text),
+        durationSec: estimateNarrationSec(
+          text,
+          session.voicePacePreset ?? "normal",
+        ),
+        syncedAt,
+      },
+    };
+  });
+  const voiceSync = session.voiceSync ?? { state: "never_synced" };
+  voiceSync.state = "current";
+  voiceSync.currentFingerprint = sessionFingerprint(
+    session.beats.map((beat) => beat.narration?.fingerprint ?? null),
+  );
+  voiceSync.lastChargeSec = chargeSec;
+  voiceSync.totalBilledSec = (voiceSync.totalBilledSec ?? 0) + chargeSec;
+  voiceSync.lastSyncedAt = syncedAt;
+  voiceSync.cached = chargeSec <= 0;
+  session.voiceSync = voiceSync;
+  refreshDerivedState(session);
+  if (session.voiceSync) {
+    session.voiceSync.previewAudioDurationSec =
+      session.voiceSync.totalDurationSec ?? null;
+  }
+  return session;
+}
+
+export function findShot(
+  session: StorySession,
+  sentenceIndex: number,
+): StoryShot | null {
+  return (
+    session.shots?.find((shot) => shot.sentenceIndex === sentenceIndex) ?? null
+  );
+}
+
+export function createShot(sentenceIndex: number, text: string): StoryShot {
+  const [plan] = planShots([text]);
+  const { clips } = searchClips(plan.searchQuery ?? "", 1);
+  return {
+    sentenceIndex,
+    searchQuery: plan.searchQuery,
+    durationSec: plan.durationSec,
+    selectedClip: clips[0] ?? null,
+    candidates: clips,
+  };
+}
+
+/** Shift shot/beat/plan indices after inserting (`delta` 1) or deleting (`delta` -1) at `fromIndex`. */
+export function reindexAfter(
+  session: StorySession,
+  fromIndex: number,
+  delta: 1 | -1,
+): void {
+  const shift = <T extends { sentenceIndex: number }>(entry: T): T =>
+    entry.sentenceIndex >= fromIndex
+      ? { ...entry, sentenceIndex: entry.sentenceIndex + delta }
+      : entry;
+  if (session.shots) {
+    session.shots = session.shots
+      .filter((shot) => delta > 0 || shot.sentenceIndex !== fromIndex)
+      .map(shift);
+  }
+  if (session.plan) {
+    session.plan = session.plan
+      .filter((beat) => delta > 0 || beat.sentenceIndex !== fromIndex)
+      .map(shift);
+  }
+  if (session.beats) {
+    if (delta > 0) {
+      session.beats.splice(fromIndex, 0, {
+        captionMeta: null,
+        narration: null,
+      });
+    } else {
+      session.beats.splice(fromIndex, 1);
+    }
+  }
+}
+
+export function invalidateDraftPreview(session: StorySession): void {
+  const state = session.draftPreviewV1?.state;
+  if (state === "ready" || state === "queued" || state === "running") {
+    session.draftPreviewV1 = {
+      ...session.draftPreviewV1,
+      version: 1,
+      state: "stale",
+      updatedAt: new Date().toISOString(),
+    };
+  }
+}
+
+/** Tiny transparent PNG used as the mock caption raster. */
+export const MOCK_CAPTION_RASTER_URL =
+  "data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAQAAAC1HAwCAAAAC0lEQVR42mNkYAAAAAYAAjCB0C8AAAAASUVORK5CYII=";